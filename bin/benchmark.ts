@@ -0,0 +1,126 @@
+#!/usr/bin/env ts-node
+import { compileExclusionMatcher, findExclusionMatch } from '../src/lib/classification';
+import { BUNDLED_EXCLUSION_RULES } from '../src/lib/classification/keywordExclusion';
+import type { ExclusionRule, ExclusionRuleMatch } from '../src/lib/classification';
+
+const USAGE = `Usage: npm run benchmark -- [options]
+
+Measures keyword exclusion throughput of the compiled matcher against checking
+every rule per name, on synthetic payee names.
+
+Options:
+  --rows <n>            Names to check with the compiled matcher (default: 50000)
+  --baseline-rows <n>   Names to check rule by rule (default: 5000)
+  --fuzzy-rules <n>     Bundled keywords also added as fuzzy rules (default: 25)
+  --json                Print the results as JSON`;
+
+const FIRST_NAMES = ['MARY', 'JAMES', 'PATRICIA', 'ROBERT', 'LINDA', 'MICHAEL', 'ELENA', 'WEI', 'FATIMA', 'CARLOS'];
+const LAST_NAMES = ['SMITH', 'JOHNSON', 'GARCIA', 'NGUYEN', 'PATEL', 'KOWALSKI', 'OKAFOR', 'MATTHEWS', 'BANKSTON', 'CHASEMAN'];
+const BUSINESS_WORDS = ['ACME', 'SUMMIT', 'RIVERSIDE', 'GLOBAL', 'NORTHWIND', 'PINNACLE', 'HARBOR', 'CEDAR', 'APEX', 'UNITED'];
+const BUSINESS_SUFFIXES = ['LLC', 'INC', 'CORP', 'CO', 'SERVICES', 'HOLDINGS', 'PARTNERS', 'GROUP'];
+
+function readOption(args: string[], flag: string, fallback: number): number {
+  const index = args.indexOf(flag);
+  const value = index >= 0 ? Number(args[index + 1]) : fallback;
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`${flag} must be a non-negative whole number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Deterministic generator so runs are comparable
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function generateNames(count: number, rules: ExclusionRule[]): string[] {
+  const random = createRandom(42);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const names: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const kind = random();
+    if (kind < 0.35) {
+      names.push(`${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`);
+    } else if (kind < 0.7) {
+      names.push(`${pick(BUSINESS_WORDS)} ${pick(BUSINESS_WORDS)} ${pick(BUSINESS_SUFFIXES)}`);
+    } else if (kind < 0.9) {
+      names.push(`${pick(rules).keyword} ${pick(BUSINESS_SUFFIXES)}`);
+    } else {
+      // Misspelled keyword, for the fuzzy rules
+      const keyword = pick(rules).keyword;
+      const position = Math.floor(random() * keyword.length);
+      names.push(keyword.slice(0, position) + keyword.slice(position + 1));
+    }
+  }
+  return names;
+}
+
+function measure(names: string[], match: (name: string) => ExclusionRuleMatch | null) {
+  const matches: Array<ExclusionRuleMatch | null> = [];
+  const start = performance.now();
+  for (const name of names) matches.push(match(name));
+  const elapsedMs = performance.now() - start;
+  return {
+    matches,
+    elapsedMs: Math.round(elapsedMs),
+    namesPerSecond: Math.round(names.length / (elapsedMs / 1000))
+  };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const rows = readOption(args, '--rows', 50000);
+  const baselineRows = Math.min(readOption(args, '--baseline-rows', 5000), rows);
+  const fuzzyRuleCount = readOption(args, '--fuzzy-rules', 25);
+
+  const rules: ExclusionRule[] = [
+    ...BUNDLED_EXCLUSION_RULES,
+    ...BUNDLED_EXCLUSION_RULES
+      .filter(rule => rule.keyword.length >= 6)
+      .slice(0, fuzzyRuleCount)
+      .map(rule => ({ ...rule, matchMode: 'fuzzy' as const }))
+  ];
+  const names = generateNames(rows, rules);
+
+  const compileStart = performance.now();
+  const matcher = compileExclusionMatcher(rules);
+  const compileMs = Math.round(performance.now() - compileStart);
+
+  const compiled = measure(names, name => matcher.match(name));
+  const baseline = measure(names.slice(0, baselineRows), name => findExclusionMatch(name, rules));
+  const mismatches = baseline.matches.filter((match, index) => match?.rule !== compiled.matches[index]?.rule).length;
+
+  const report = {
+    rules: rules.length,
+    fuzzyRules: rules.length - BUNDLED_EXCLUSION_RULES.length,
+    compileMs,
+    compiled: { names: rows, excluded: compiled.matches.filter(Boolean).length, elapsedMs: compiled.elapsedMs, namesPerSecond: compiled.namesPerSecond },
+    ruleByRule: { names: baselineRows, elapsedMs: baseline.elapsedMs, namesPerSecond: baseline.namesPerSecond },
+    speedup: Math.round((compiled.namesPerSecond / Math.max(baseline.namesPerSecond, 1)) * 10) / 10,
+    mismatches
+  };
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Rules: ${report.rules} (${report.fuzzyRules} fuzzy), compiled in ${compileMs} ms`);
+    console.log(`Compiled matcher: ${rows} names in ${compiled.elapsedMs} ms (${compiled.namesPerSecond} names/s, ${report.compiled.excluded} excluded)`);
+    console.log(`Rule by rule:     ${baselineRows} names in ${baseline.elapsedMs} ms (${baseline.namesPerSecond} names/s)`);
+    console.log(`Speedup: ${report.speedup}x, ${mismatches} mismatched results`);
+  }
+
+  if (mismatches > 0) process.exit(1);
+}
+
+main();
@@ -1,20 +1,492 @@
 #!/usr/bin/env ts-node
-import { enhancedClassifyPayeeV3 } from '../src/lib/classification';
+import { existsSync, readFileSync, statSync, writeFileSync, createReadStream, createWriteStream } from 'fs';
+import { basename, extname } from 'path';
+import {
+  runBatchClassification,
+  runStreamingBatchClassification,
+  isFailedResult,
+  exportResultsWithOriginalDataV3,
+  isClassificationEngine,
+  parseExclusionProfile,
+  parseExportTemplate,
+  exportColumnHeader,
+  exportRowsToCsv,
+  exportRowsToJsonLines,
+  writeExportFile,
+  enrichOriginalFile,
+  resolveExportHeader,
+  buildAlignmentReport,
+  describeAlignmentReport,
+  isExportFileFormat,
+  EXPORT_FILE_FORMATS,
+  formatExclusionProfileLabel,
+  DEFAULT_CLASSIFICATION_CONFIG,
+  CLASSIFICATION_ENGINES
+} from '../src/lib/classification';
+import type { ExportFileFormat, ExportRow, ExportTemplate } from '../src/lib/classification';
+import {
+  captureSourceSheets,
+  detectInputFormat,
+  peekTextSample,
+  readWorkbook,
+  streamTabularRows,
+  STREAM_BATCH_ROWS,
+  TABULAR_INPUT_FORMATS
+} from '../src/lib/fileValidation';
+import type { NamePartTag, PayeeNameMapping, TabularInputFormat } from '../src/lib/fileValidation';
+import type { BatchProcessingResult, ClassificationConfig, PayeeClassification } from '../src/lib/types';
+
+// Counts for the summary and exit thresholds, kept instead of the results so memory stays flat
+interface RunTally {
+  total: number;
+  failed: number;
+  lowConfidence: number;
+  unclassified: number; // Rows exported as Unclassified because they got no result
+  emptyNames: number; // Rows without a payee name, which are never classified
+  byClassification: Record<string, number>;
+}
+
+// Exit codes: 1 for usage and runtime errors, 2 when a quality threshold is exceeded
+const EXIT_THRESHOLD_EXCEEDED = 2;
+
+const USAGE = `Usage: npm run classify -- <payee name> [additional names...] [options]
+       npm run classify -- <input.csv|input.xlsx|input.jsonl|-> [options]
+       cat names.txt | npm run classify -- [options]
+
+Input:
+  <file>                 CSV, XLSX, JSONL or text file; "-" or piped stdin reads standard input
+  --format <name>        Input format: ${TABULAR_INPUT_FORMATS.join(', ')} (default: from extension or content)
+  --column <name>        Column holding the payee name (default: best-ranked column)
+  --sheet <name>         Workbook sheet to read (default: the first sheet)
+  --name-template <text> Build the payee name from several columns, e.g. "{Last}, {First}"
+  --name-parts <list>    Columns holding the parts of a person's name, passed to the
+                         person parser as parts, e.g. first=First,middle=MI,last=Last,suffix=Sfx
+
+Classification:
+  --engine <name>        ${CLASSIFICATION_ENGINES.join(', ')} (default: v3)
+  --offline              Skip the local LLM and other network-backed tiers
+  --chunk-size <n>       Names classified per chunk (default: 500)
+  --exclusion-profile <file>
+                         Keyword exclusion profile exported from the app (JSON), or a
+                         rule or keyword list (JSON or CSV) named after the file
+
+Output:
+  --output, -o <file>    Write results to a file (default: standard output)
+  --output-format <name> ${EXPORT_FILE_FORMATS.join(', ')} (default: from --output extension, else csv)
+  --ai-columns-only      Leave the original columns out of the export
+  --enrich               Write a copy of the CSV or XLSX input with the result columns added
+                         after the original ones; every original cell is kept as it was
+  --explain              Add each row's explanation trace as an Explanation_JSON column
+  --export-template <file>
+                         Export template saved from the app (JSON): which result columns to
+                         write, their names, order and formats, and a header prefix
+  --strict-alignment     Fail when a row gets no result instead of exporting it as Unclassified;
+                         rows without a payee name are left out of the output
+
+Exit status:
+  --max-failure-rate <percent>
+                         Exit ${EXIT_THRESHOLD_EXCEEDED} when more than this share of rows failed
+  --max-low-confidence-rate <percent>
+                         Exit ${EXIT_THRESHOLD_EXCEEDED} when more than this share of rows is below --low-confidence
+  --low-confidence <n>   Confidence treated as low (default: 75)
+
+  --quiet                No progress or summary on stderr
+  --verbose              Forward classifier logs to stderr`;
+
+const FLAGS_WITH_VALUES = [
+  '--format', '--column', '--sheet', '--name-template', '--name-parts', '--engine', '--chunk-size', '--exclusion-profile', '--export-template', '--output', '-o', '--output-format',
+  '--max-failure-rate', '--max-low-confidence-rate', '--low-confidence'
+];
+
+const printErr = (message: string) => process.stderr.write(`${message}\n`);
+
+function fail(message: string): never {
+  printErr(message);
+  process.exit(1);
+}
+
+function readOption(args: string[], ...flags: string[]): string | undefined {
+  for (const flag of flags) {
+    const index = args.indexOf(flag);
+    if (index >= 0) return args[index + 1];
+  }
+  return undefined;
+}
+
+function readNumberOption(args: string[], flag: string): number | undefined {
+  const value = readOption(args, flag);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    fail(`${flag} expects a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Keys accepted by --name-parts
+const NAME_PART_KEYS: Record<string, NamePartTag> = {
+  first: 'GivenName',
+  middle: 'MiddleName',
+  last: 'Surname',
+  suffix: 'SuffixGenerational'
+};
+
+function readNameMapping(args: string[]): PayeeNameMapping | undefined {
+  const column = readOption(args, '--column');
+  const template = readOption(args, '--name-template');
+  const parts = readOption(args, '--name-parts');
+  if ([column, template, parts].filter(value => value !== undefined).length > 1) {
+    fail('Use only one of --column, --name-template and --name-parts');
+  }
+  if (template !== undefined) return { mode: 'template', template };
+  if (parts === undefined) return column !== undefined ? { mode: 'column', column } : undefined;
+
+  const columns: Partial<Record<NamePartTag, string>> = {};
+  for (const entry of parts.split(',')) {
+    const [key, ...rest] = entry.split('=');
+    const tag = NAME_PART_KEYS[key.trim().toLowerCase()];
+    if (!tag || rest.length === 0) {
+      fail(`Invalid --name-parts entry "${entry}". Expected ${Object.keys(NAME_PART_KEYS).join('|')}=<column>`);
+    }
+    columns[tag] = rest.join('=').trim();
+  }
+  return { mode: 'parts', columns };
+}
+
+function positionalArgs(args: string[]): string[] {
+  return args.filter((arg, index) =>
+    (arg === '-' || !arg.startsWith('-')) && !FLAGS_WITH_VALUES.includes(args[index - 1])
+  );
+}
+
+/**
+ * Library code logs progress with console.log; keep stdout clean for the export
+ */
+function routeLibraryLogs(verbose: boolean): void {
+  const toStderr = (...args: unknown[]) => printErr(args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' '));
+  const silent = () => {};
+  console.log = verbose ? toStderr : silent;
+  console.info = verbose ? toStderr : silent;
+  console.debug = verbose ? toStderr : silent;
+  console.warn = verbose ? toStderr : silent;
+  console.error = verbose ? toStderr : silent;
+}
+
+/**
+ * Rows classified so far, with the share of the input file read when its size is known
+ */
+function createProgressReporter(enabled: boolean, inputSize?: number) {
+  let lastLine = '';
+  let bytesRead = 0;
+  return {
+    read(bytes: number) {
+      bytesRead = bytes;
+    },
+    classified(completed: number) {
+      if (!enabled) return;
+      const share = inputSize ? ` (${Math.round((bytesRead / inputSize) * 100)}% of input read)` : '';
+      const line = `Classified ${completed} rows${share}`;
+      if (line === lastLine) return;
+      lastLine = line;
+      if (process.stderr.isTTY) {
+        process.stderr.write(`\r${line}`);
+      } else {
+        printErr(line);
+      }
+    },
+    finish() {
+      if (enabled && lastLine && process.stderr.isTTY) process.stderr.write('\n');
+    }
+  };
+}
+
+/**
+ * Writes export rows as they arrive: CSV and JSON Lines stream chunk by chunk,
+ * XLSX, JSON and Parquet are written at the end. A workbook gets the summary sheet
+ * of the finished run and keeps the other sheets of an XLSX input.
+ */
+function createOutputWriter(format: ExportFileFormat, outputFile: string | undefined, csvHeader: () => string[]) {
+  const rows: ExportRow[] = [];
+  const streams = format === 'csv' || format === 'jsonl';
+  const stream = streams && outputFile ? createWriteStream(outputFile) : null;
+  let header: string[] | null = null;
+  const leftOut = new Set<string>(); // Keys of later rows that the CSV header has no column for
+
+  const writeText = (text: string) => {
+    if (stream) stream.write(text);
+    else process.stdout.write(text);
+  };
+
+  return {
+    write(chunkRows: ExportRow[]) {
+      if (!streams) {
+        rows.push(...chunkRows);
+        return;
+      }
+      if (chunkRows.length === 0) return;
+      if (format === 'jsonl') {
+        writeText(exportRowsToJsonLines(chunkRows));
+        return;
+      }
+      // The header is fixed before the first row, so every later row gets the same columns
+      const isFirst = header === null;
+      const columns = header = header || csvHeader();
+      const known = new Set(columns);
+      const fitted = chunkRows.map(row => {
+        Object.keys(row).filter(key => !known.has(key)).forEach(key => leftOut.add(key));
+        return Object.fromEntries(columns.map(column => [column, row[column] ?? '']));
+      });
+      writeText(exportRowsToCsv(fitted, columns, !isFirst));
+    },
+    async close(batchResult: BatchProcessingResult, resultsSheetName?: string) {
+      if (leftOut.size > 0) {
+        printErr(`Left out columns that are not in the CSV header: ${[...leftOut].join(', ')}. Use --output-format jsonl to keep them.`);
+      }
+      if (stream) {
+        await new Promise<void>((resolve, reject) => stream.end((error?: Error | null) => error ? reject(error) : resolve()));
+      } else if (!streams) {
+        const { content } = writeExportFile(rows, batchResult, format, { includeSummary: true, resultsSheetName });
+        const data = typeof content === 'string' ? `${content}\n` : Buffer.from(content);
+        if (outputFile) writeFileSync(outputFile, data);
+        else process.stdout.write(data);
+      }
+    }
+  };
+}
+
+// Output format named by the file extension, or CSV
+function outputFormatFromFile(outputFile?: string): ExportFileFormat {
+  if (outputFile && detectInputFormat(outputFile) === 'xlsx') return 'xlsx';
+  const extension = outputFile ? extname(outputFile).slice(1).toLowerCase() : '';
+  if (extension === 'ndjson') return 'jsonl';
+  return isExportFileFormat(extension) ? extension : 'csv';
+}
+
+function loadExclusionProfile(file: string) {
+  if (!existsSync(file)) fail(`Exclusion profile file "${file}" not found`);
+  try {
+    return parseExclusionProfile(readFileSync(file, 'utf8'), {
+      format: extname(file).toLowerCase() === '.csv' ? 'csv' : undefined,
+      name: basename(file, extname(file))
+    });
+  } catch (error) {
+    fail(`Cannot read exclusion profile "${file}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function loadExportTemplate(file: string): ExportTemplate {
+  if (!existsSync(file)) fail(`Export template file "${file}" not found`);
+  try {
+    return parseExportTemplate(readFileSync(file, 'utf8'));
+  } catch (error) {
+    fail(`Cannot read export template "${file}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Header of the row index column, which is renumbered per chunk; undefined when the template leaves it out
+ */
+function rowIndexHeader(template?: ExportTemplate): string | undefined {
+  if (!template) return 'Processing_Row_Index';
+  const column = template.columns.find(candidate => candidate.field === 'rowIndex');
+  return column && `${template.prefix ?? ''}${exportColumnHeader(column)}`;
+}
+
+function tallyResults(tally: RunTally, results: PayeeClassification[], lowConfidence: number): RunTally {
+  for (const { result } of results) {
+    tally.total++;
+    if (isFailedResult(result)) tally.failed++;
+    if (result.confidence < lowConfidence) tally.lowConfidence++;
+    tally.byClassification[result.classification] = (tally.byClassification[result.classification] || 0) + 1;
+  }
+  return tally;
+}
+
+const emptyTally = (): RunTally => ({ total: 0, failed: 0, lowConfidence: 0, unclassified: 0, emptyNames: 0, byClassification: {} });
+
+function printSummary(tally: RunTally, processingTime: number, lowConfidence: number): void {
+  printErr(`Classified ${tally.total} rows in ${processingTime}ms`);
+  printErr(`  ${Object.entries(tally.byClassification).map(([label, count]) => `${label}: ${count}`).join(', ')}`);
+  printErr(`  Failed: ${tally.failed}, below ${lowConfidence}% confidence: ${tally.lowConfidence}`);
+  if (tally.unclassified > 0) {
+    printErr(`  Unclassified: ${tally.unclassified}, of which ${tally.emptyNames} without a payee name`);
+  } else if (tally.emptyNames > 0) {
+    printErr(`  Left out without a payee name: ${tally.emptyNames}`);
+  }
+}
+
+/**
+ * Check --max-failure-rate and --max-low-confidence-rate; returns the messages for exceeded thresholds
+ */
+function checkThresholds(tally: RunTally, args: string[]): string[] {
+  const total = tally.total;
+  if (total === 0) return [];
+
+  const violations: string[] = [];
+  const maxFailureRate = readNumberOption(args, '--max-failure-rate');
+  const failureRate = (tally.failed / total) * 100;
+  if (maxFailureRate !== undefined && failureRate > maxFailureRate) {
+    violations.push(`Failure rate ${failureRate.toFixed(1)}% exceeds --max-failure-rate ${maxFailureRate}%`);
+  }
+
+  const maxLowRate = readNumberOption(args, '--max-low-confidence-rate');
+  const lowRate = (tally.lowConfidence / total) * 100;
+  if (maxLowRate !== undefined && lowRate > maxLowRate) {
+    violations.push(`Low-confidence rate ${lowRate.toFixed(1)}% exceeds --max-low-confidence-rate ${maxLowRate}%`);
+  }
+  return violations;
+}
 
 async function main() {
-  const names = process.argv.slice(2);
-  if (names.length === 0) {
-    console.error('Usage: npm run classify -- <payee name> [additional names...]');
-    process.exit(1);
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const quiet = args.includes('--quiet');
+  routeLibraryLogs(args.includes('--verbose'));
+
+  const engine = readOption(args, '--engine') || 'v3';
+  if (!isClassificationEngine(engine)) {
+    fail(`Unknown engine "${engine}". Expected one of: ${CLASSIFICATION_ENGINES.join(', ')}`);
+  }
+
+  const profileFile = readOption(args, '--exclusion-profile');
+  const config: ClassificationConfig = {
+    ...DEFAULT_CLASSIFICATION_CONFIG,
+    offlineMode: args.includes('--offline') || DEFAULT_CLASSIFICATION_CONFIG.offlineMode,
+    ...(profileFile ? { exclusionProfile: loadExclusionProfile(profileFile) } : {})
+  };
+
+  const positional = positionalArgs(args);
+  const inputFile = positional.length === 1 && (positional[0] === '-' || existsSync(positional[0])) ? positional[0] : undefined;
+  const readsStdin = inputFile === '-' || (positional.length === 0 && !process.stdin.isTTY);
+
+  const lowConfidence = readNumberOption(args, '--low-confidence') ?? 75;
+  const reportThresholds = (tally: RunTally) => {
+    const violations = checkThresholds(tally, args);
+    violations.forEach(printErr);
+    if (violations.length > 0) {
+      process.exitCode = EXIT_THRESHOLD_EXCEEDED;
+    }
+  };
+
+  // Names on the command line: print one line per name
+  if (!inputFile && !readsStdin) {
+    if (positional.length === 0) fail(USAGE);
+    const batchResult = await runBatchClassification(positional, { engine, config });
+    const byPosition = new Map(batchResult.results.map(item => [item.rowIndex, item]));
+    positional.forEach((name, index) => {
+      const item = byPosition.get(index);
+      process.stdout.write(item
+        ? `${item.payeeName}: ${item.result.classification} (${item.result.confidence}%)\n`
+        : `${name}: Unclassified (no payee name)\n`);
+    });
+    reportThresholds(tallyResults(emptyTally(), batchResult.results, lowConfidence));
+    return;
+  }
+
+  const requestedFormat = readOption(args, '--format');
+  if (requestedFormat && !(TABULAR_INPUT_FORMATS as string[]).includes(requestedFormat)) {
+    fail(`Unknown input format "${requestedFormat}". Expected one of: ${TABULAR_INPUT_FORMATS.join(', ')}`);
+  }
+
+  // Input is read and classified a batch at a time, so files of any size fit in memory
+  let source: AsyncIterable<Uint8Array> = readsStdin ? process.stdin : createReadStream(inputFile);
+  let inputFormat = requestedFormat as TabularInputFormat | undefined;
+  if (!inputFormat) {
+    const peeked = await peekTextSample(source);
+    source = peeked.source;
+    inputFormat = detectInputFormat(readsStdin ? undefined : inputFile, peeked.sample);
+  }
+
+  // --enrich writes a copy of the input file, so the output has the input's format
+  const enrich = args.includes('--enrich');
+  if (enrich && (readsStdin || (inputFormat !== 'csv' && inputFormat !== 'xlsx'))) {
+    fail('--enrich needs a CSV or XLSX input file');
+  }
+  const outputFile = readOption(args, '--output', '-o');
+  const outputFormat = enrich ? inputFormat : readOption(args, '--output-format') || outputFormatFromFile(outputFile);
+  if (!isExportFileFormat(outputFormat)) {
+    fail(`Unknown output format "${outputFormat}". Expected one of: ${EXPORT_FILE_FORMATS.join(', ')}`);
+  }
+
+  const nameMapping = readNameMapping(args);
+  const includeAllColumns = !args.includes('--ai-columns-only');
+  const includeExplanation = args.includes('--explain');
+  const templateFile = readOption(args, '--export-template');
+  const template = templateFile ? loadExportTemplate(templateFile) : undefined;
+  const indexHeader = rowIndexHeader(template);
+  const strict = args.includes('--strict-alignment');
+  // CSV columns: the input's columns, named before its first rows are read, then the result columns
+  let inputColumns: string[] = [];
+  const writer = enrich ? null : createOutputWriter(outputFormat, outputFile, () =>
+    resolveExportHeader(inputColumns, includeAllColumns, includeExplanation, { template }));
+  const sheetName = readOption(args, '--sheet');
+  const chunkSize = readNumberOption(args, '--chunk-size');
+  const progress = createProgressReporter(!quiet, readsStdin ? undefined : statSync(inputFile).size);
+  const tally = emptyTally();
+  const rows = streamTabularRows(source, inputFormat, {
+    batchSize: Math.max(STREAM_BATCH_ROWS, chunkSize ?? 0),
+    sheetName,
+    onBytesRead: progress.read,
+    onHeaders: headers => { inputColumns = headers; }
+  });
+  const batchResult = await runStreamingBatchClassification(rows, {
+    engine,
+    config,
+    nameMapping,
+    chunkSize,
+    // Blank names are exported as Unclassified, which strict alignment rejects, so it leaves them out
+    skipEmptyNames: strict,
+    // Enrichment and the workbook summary sheet need the results; XLSX output is held until the end anyway
+    keepResults: enrich || outputFormat === 'xlsx',
+    onProgress: progress.classified,
+    onChunk: (chunk, offset) => {
+      tallyResults(tally, chunk.results, lowConfidence);
+      const alignment = buildAlignmentReport(chunk);
+      if (strict && alignment.issues.length > 0) {
+        throw new Error(`Data alignment error after row ${offset}: ${describeAlignmentReport(alignment)}`);
+      }
+      tally.unclassified += alignment.unclassifiedRows;
+      tally.emptyNames += alignment.issueCounts['empty-name'] ?? 0;
+      if (!writer) return;
+      const exportRows = exportResultsWithOriginalDataV3(chunk, includeAllColumns, includeExplanation, { template, strict });
+      writer.write(indexHeader
+        ? exportRows.map(row => ({ ...row, [indexHeader]: offset + (row[indexHeader] ?? 0) }))
+        : exportRows);
+    }
+  });
+  progress.finish();
+  if (strict) {
+    tally.emptyNames += batchResult.rowCount - batchResult.successCount - batchResult.failureCount;
+  }
+  if (writer && outputFormat === 'xlsx' && inputFile && !readsStdin && inputFormat === 'xlsx') {
+    // The other sheets of the input workbook are copied unchanged around the results
+    const workbook = readWorkbook(readFileSync(inputFile));
+    const resultsSheetName = sheetName ?? workbook.SheetNames[0];
+    await writer.close({ ...batchResult, sourceSheets: captureSourceSheets(workbook, [resultsSheetName]) }, resultsSheetName);
+  } else if (writer) {
+    await writer.close(batchResult);
+  } else if (inputFile && (inputFormat === 'csv' || inputFormat === 'xlsx')) {
+    const source = { data: readFileSync(inputFile), format: inputFormat, sheetName };
+    const { content } = enrichOriginalFile(source, batchResult, { includeExplanation, template });
+    const data = typeof content === 'string' ? content : Buffer.from(content);
+    if (outputFile) writeFileSync(outputFile, data);
+    else process.stdout.write(data);
   }
 
-  for (const name of names) {
-    const result = await enhancedClassifyPayeeV3(name);
-    console.log(`${name}: ${result.classification} (${result.confidence}%)`);
+  if (!quiet) {
+    const profile = config.exclusionProfile ? `, exclusion profile ${formatExclusionProfileLabel(config.exclusionProfile)}` : '';
+    printErr(`Read ${batchResult.rowCount} rows (${inputFormat}), payee name from "${batchResult.payeeColumnName}", engine ${engine}${profile}`);
+    printSummary(tally, batchResult.processingTime ?? 0, lowConfidence);
+    if (outputFile) printErr(`Wrote ${outputFormat.toUpperCase()} to ${outputFile}`);
   }
+  reportThresholds(tally);
 }
 
 main().catch(err => {
-  console.error(err);
+  printErr(err instanceof Error ? err.message : String(err));
   process.exit(1);
 });
@@ -0,0 +1,83 @@
+#!/usr/bin/env ts-node
+import { readFileSync, writeFileSync } from 'fs';
+import {
+  parseLabeledDataset,
+  evaluateClassifier,
+  formatEvaluationReport,
+  fitCalibrationFromReport,
+  parseCalibrationModel,
+  setActiveCalibration,
+  EVALUATION_CONFIG,
+  EVALUATION_ENGINES
+} from '../src/lib/classification';
+import type { PipelinePresetName, CalibrationMethod } from '../src/lib/classification';
+
+const USAGE = `Usage: npm run evaluate -- <labeled.csv|labeled.json> [options]
+
+Options:
+  --engine <name>        ${EVALUATION_ENGINES.join(', ')} (default: v3)
+  --name-column <name>   Column holding the payee name
+  --label-column <name>  Column holding the expected classification
+  --json                 Print the full report as JSON
+  --calibration <file>   Apply a saved calibration model
+  --no-calibration       Report raw stage scores
+  --fit-calibration <file>
+                         Fit a calibration model from this file and write it as JSON
+  --calibration-method <isotonic|platt>
+                         Curve used by --fit-calibration (default: isotonic)`;
+
+function readOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+  if (!file) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const engine = (readOption(args, '--engine') || 'v3') as PipelinePresetName;
+  if (!(EVALUATION_ENGINES as readonly string[]).includes(engine)) {
+    console.error(`Unknown engine "${engine}". Expected one of: ${EVALUATION_ENGINES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const dataset = parseLabeledDataset(readFileSync(file, 'utf8'), {
+    format: file.toLowerCase().endsWith('.json') ? 'json' : undefined,
+    nameColumn: readOption(args, '--name-column'),
+    labelColumn: readOption(args, '--label-column')
+  });
+
+  const calibrationFile = readOption(args, '--calibration');
+  if (calibrationFile) {
+    setActiveCalibration(parseCalibrationModel(readFileSync(calibrationFile, 'utf8')));
+  }
+
+  const report = await evaluateClassifier(dataset, {
+    engine,
+    config: { ...EVALUATION_CONFIG, useCalibration: !args.includes('--no-calibration') }
+  });
+
+  const fitOutput = readOption(args, '--fit-calibration');
+  if (fitOutput) {
+    const method = (readOption(args, '--calibration-method') || 'isotonic') as CalibrationMethod;
+    const model = fitCalibrationFromReport(report, { method, source: file });
+    writeFileSync(fitOutput, JSON.stringify(model, null, 2));
+    console.error(`Wrote ${method} calibration (${model.sampleCount} samples) to ${fitOutput}`);
+  }
+
+  if (args.includes('--json')) {
+    const { predictions: _predictions, ...summary } = report;
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    console.log(formatEvaluationReport(report));
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+#!/usr/bin/env ts-node
+import {
+  createClassificationServer,
+  createWorkerThreadExecutor,
+  DEFAULT_MAX_BODY_BYTES,
+  DEFAULT_MAX_SYNC_BATCH_SIZE
+} from '../src/lib/server';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '../src/lib/classification';
+
+const USAGE = `Usage: npm run serve -- [options]
+
+Options:
+  --port <n>             Port to listen on (default: CLASSIFIER_API_PORT or 8787)
+  --host <address>       Interface to bind (default: 127.0.0.1)
+  --max-body-bytes <n>   Largest accepted request body (default: ${DEFAULT_MAX_BODY_BYTES})
+  --max-batch <n>        Largest synchronous batch (default: ${DEFAULT_MAX_SYNC_BATCH_SIZE})
+  --offline              Skip the local LLM and other network-backed tiers
+  --worker-threads       Run async batch jobs on a worker thread instead of the request thread`;
+
+function readOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readNumber(args: string[], flag: string, fallback?: number): number | undefined {
+  const value = readOption(args, flag);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    console.error(`${flag} expects a positive integer, got "${value}"`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = readNumber(args, '--port', Number(process.env.CLASSIFIER_API_PORT) || 8787);
+  const host = readOption(args, '--host') || '127.0.0.1';
+  const server = createClassificationServer({
+    maxBodyBytes: readNumber(args, '--max-body-bytes'),
+    maxSyncBatchSize: readNumber(args, '--max-batch'),
+    config: { ...DEFAULT_CLASSIFICATION_CONFIG, offlineMode: args.includes('--offline') || DEFAULT_CLASSIFICATION_CONFIG.offlineMode },
+    executor: args.includes('--worker-threads') ? createWorkerThreadExecutor() : undefined
+  });
+
+  server.listen(port, host, () => {
+    console.log(`Classification API listening on http://${host}:${port} (OpenAPI document at /openapi.json)`);
+  });
+
+  const shutdown = () => {
+    server.jobs.dispose();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -1,61 +1,126 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import BatchProcessingProgress from "./BatchProcessingProgress";
 import BatchResultsDisplay from "./BatchResultsDisplay";
 import FileUploadForm from "./FileUploadForm";
 import BatchTextInput from "./BatchTextInput";
-import { PayeeClassification, BatchProcessingResult } from "@/lib/types";
-import { enhancedProcessBatchV3 } from "@/lib/classification/enhancedBatchProcessorV3";
+import { PayeeClassification, BatchProcessingResult, ClassificationConfig, SourceUpload, SourceWorkbookSheet } from "@/lib/types";
+import { BatchRunCancelledError, recalculateBatchRunResult } from "@/lib/classification/batchRunner";
+import { runStreamingBatchClassification } from "@/lib/classification/streamingRunner";
+import { detectInputFormat, extractMappedPayees, isEmptyPayeeName, PayeeNameMapping, SheetPayees, streamTabularRows } from "@/lib/fileValidation";
+import { classifyInWorkerPool } from "@/lib/jobs/workerPool";
 import { enhancedClassifyPayeeV3 } from "@/lib/classification/enhancedClassificationV3";
 import { exportResultsFixed } from "@/lib/classification/fixedExporter";
+import { EXPORT_FILE_MIME_TYPES, exportResultsWithOriginalDataV3, exportRowHeaders, exportRowsToCsv } from "@/lib/classification/exporters";
+import { ExclusionProfile, formatExclusionProfileLabel, getExclusionProfileRef } from "@/lib/classification/exclusion";
+import {
+  getActiveExclusionProfile,
+  getExclusionProfile,
+  listExclusionProfiles,
+  saveExclusionPreviewSample
+} from "@/lib/classification/exclusionProfileStore";
+import { saveBatchRun } from "@/lib/classification/comparison";
 import { v4 as uuidv4 } from 'uuid';
 
+// Sample name shown when previewing exclusion rule edits
+const LAST_BATCH_SAMPLE = 'Last processed batch';
+
+const toMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(0);
+
 interface BatchClassificationFormProps {
   onComplete: (results: PayeeClassification[], summary: BatchProcessingResult) => void;
+  onRunStored?: () => void; // Called once a finished run is saved for comparison
 }
 
-const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) => {
+const BatchClassificationForm = ({ onComplete, onRunStored }: BatchClassificationFormProps) => {
   const [batchResults, setBatchResults] = useState<PayeeClassification[]>([]);
   const [processingSummary, setProcessingSummary] = useState<BatchProcessingResult | null>(null);
+  // Uploaded file of the latest file run, so results can be written into a copy of it
+  const [sourceUpload, setSourceUpload] = useState<SourceUpload | null>(null);
+  // CSV of a streamed run, written batch by batch instead of keeping every result in memory
+  const [streamedResults, setStreamedResults] = useState<Blob | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<{ percent: number; status: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [payeeNames, setPayeeNames] = useState("");
+  const [profiles, setProfiles] = useState<ExclusionProfile[]>(() => listExclusionProfiles());
+  const [profileId, setProfileId] = useState(() => getActiveExclusionProfile().id);
   const { toast } = useToast();
 
-  const handleFileProcessing = async (originalFileData: any[], selectedColumn: string) => {
+  // Latest version of the chosen profile, which may have been edited since it was picked
+  const getSelectedProfile = () => getExclusionProfile(profileId) || getActiveExclusionProfile();
+
+  // Keep a finished run so later runs can be compared with it
+  const storeRun = (label: string, summary: BatchProcessingResult) => {
+    saveBatchRun({
+      id: uuidv4(),
+      label: `${label}, ${formatExclusionProfileLabel(getSelectedProfile())}`,
+      createdAt: new Date().toISOString(),
+      results: summary.results,
+      stats: summary.enhancedStats
+    })
+      .then(stored => {
+        if (stored) onRunStored?.();
+        else console.info(`Batch run "${label}" has too many rows to keep for comparison`);
+      })
+      .catch(error => console.error('Failed to store batch run:', error));
+  };
+
+  const showCountProgress = (completed: number, total: number) => setProgress({
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+    status: `Classified ${completed} of ${total} payees`
+  });
+
+  // Runs a file classification off the main thread with the selected profile, cancellable from the progress bar
+  const runFileClassification = async (
+    classify: (config: ClassificationConfig, signal: AbortSignal) => Promise<BatchProcessingResult>,
+    source: SourceUpload
+  ) => {
     setIsProcessing(true);
+    setStreamedResults(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      // Extract payee names from the selected column
-      const payeeNames = originalFileData.map((row, index) => ({
-        name: row[selectedColumn]?.toString().trim() || '',
-        originalData: row,
-        originalIndex: index
-      })).filter(item => item.name);
-
-      console.log(`Processing ${payeeNames.length} payees with FIXED V3 classification`);
+      const exclusionProfile = getSelectedProfile();
+      console.log(`Processing file with FIXED V3 classification, exclusion profile ${formatExclusionProfileLabel(exclusionProfile)}`);
       
-      // Use FIXED V3 batch processor with rule-based processing
-      const result = await enhancedProcessBatchV3(
-        payeeNames.map(item => item.name),
-        {
-          aiThreshold: 100, // Force rule-based only
-          bypassRuleNLP: false,
-          offlineMode: true
-        },
-        originalFileData
-      );
+      // Use FIXED V3 batch processor with rule-based processing, off the main thread
+      const result = await classify({
+        aiThreshold: 100, // Force rule-based only
+        bypassRuleNLP: false,
+        offlineMode: true,
+        exclusionProfile
+      }, controller.signal);
       
       setBatchResults(result.results);
       setProcessingSummary(result);
+      setSourceUpload(source);
       onComplete(result.results, result);
+      // A streamed run keeps only its counts, so there is nothing to compare or sample
+      if (result.results.length > 0) {
+        storeRun(source.sheetName ? `${source.file.name} (${source.sheetName})` : source.file.name, result);
+        saveExclusionPreviewSample(LAST_BATCH_SAMPLE, result.results.map(r => r.payeeName));
+      }
       
       toast({
         title: "Processing Complete",
-        description: `Successfully processed ${result.results.length} payees with FIXED V3 classification.`,
+        description: `Successfully processed ${result.successCount + result.failureCount} payees with FIXED V3 classification.`,
       });
       
     } catch (error) {
+      if (error instanceof BatchRunCancelledError) {
+        toast({
+          title: "Processing Cancelled",
+          description: `Stopped after ${error.completed} of ${error.total} payees.`,
+        });
+        return;
+      }
       console.error('File processing error:', error);
       toast({
         title: "Processing Failed",
@@ -63,15 +128,121 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
         variant: "destructive"
       });
     } finally {
+      abortRef.current = null;
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const handleFileProcessing = (originalFileData: any[], nameMapping: PayeeNameMapping, source: SourceUpload) =>
+    runFileClassification(async (config, signal) => {
+      // Build payee names from the mapped columns; rows without a name are left out
+      const extracted = extractMappedPayees(originalFileData, nameMapping);
+      const payeeNames = extracted.payeeNames.map((name, index) => ({
+        name,
+        originalData: originalFileData[index],
+        nameParts: extracted.nameParts?.[index],
+        sourceRowIndex: index
+      })).filter(item => !isEmptyPayeeName(item.name));
+
+      showCountProgress(0, payeeNames.length);
+      const result = await classifyInWorkerPool(payeeNames.map(item => item.name), {
+        engine: 'v3',
+        config,
+        originalFileData: payeeNames.map(item => item.originalData),
+        nameParts: extracted.nameParts && payeeNames.map(item => item.nameParts ?? {}),
+        signal,
+        onProgress: showCountProgress
+      });
+      return {
+        ...result,
+        results: result.results.map((item, index) => ({ ...item, sourceRowIndex: payeeNames[item.rowIndex ?? index].sourceRowIndex }))
+      };
+    }, source);
+
+  // Several workbook sheets in one run; each result remembers its sheet so the export can write it back
+  const handleSheetsProcessing = (sheets: SheetPayees[], sourceSheets: SourceWorkbookSheet[], source: SourceUpload) =>
+    runFileClassification(async (config, signal) => {
+      // Rows without a name are left out, as in a single-sheet run; each row keeps its place in its sheet
+      const rows = sheets.flatMap(sheet => sheet.originalData.map((row, index) => ({
+        name: sheet.payeeNames[index],
+        originalData: row,
+        nameParts: sheet.nameParts?.[index],
+        sheetName: sheet.sheetName,
+        sourceRowIndex: index
+      }))).filter(row => !isEmptyPayeeName(row.name));
+      const hasNameParts = sheets.some(sheet => sheet.nameParts);
+      console.log(`Classifying ${rows.length} rows from sheets: ${sheets.map(sheet => `${sheet.sheetName} (${sheet.payeeColumnName})`).join(', ')}`);
+
+      showCountProgress(0, rows.length);
+      const result = await classifyInWorkerPool(rows.map(row => row.name), {
+        engine: 'v3',
+        config,
+        originalFileData: rows.map(row => row.originalData),
+        nameParts: hasNameParts ? rows.map(row => row.nameParts ?? {}) : undefined,
+        signal,
+        onProgress: showCountProgress
+      });
+      return {
+        ...result,
+        results: result.results.map((item, index) => {
+          const row = rows[item.rowIndex ?? index];
+          return { ...item, sheetName: row.sheetName, sourceRowIndex: row.sourceRowIndex };
+        }),
+        sourceSheets
+      };
+    }, source);
+
+  // Large files: rows are classified batch by batch as they are read from disk, and each
+  // batch is written to the results CSV as it finishes so memory stays flat
+  const handleStreamProcessing = (file: File, nameMapping: PayeeNameMapping) =>
+    runFileClassification(async (config, signal) => {
+      const csvParts: Blob[] = [];
+      let header: string[] | undefined;
+      let bytesRead = 0;
+      let classified = 0;
+      const showStreamProgress = (completed: number) => setProgress({
+        percent: Math.round((bytesRead / file.size) * 100),
+        status: `Classified ${completed} payees, read ${toMegabytes(bytesRead)} of ${toMegabytes(file.size)}MB`
+      });
+
+      showStreamProgress(0);
+      const rows = streamTabularRows(file, detectInputFormat(file.name), {
+        onBytesRead: count => { bytesRead = count; }
+      });
+      const result = await runStreamingBatchClassification(rows, {
+        nameMapping,
+        skipEmptyNames: true,
+        keepResults: false,
+        signal,
+        classifyBatch: (payeeNames, batchRows, nameParts) => classifyInWorkerPool(payeeNames, {
+          engine: 'v3',
+          config,
+          originalFileData: batchRows,
+          nameParts,
+          signal,
+          onProgress: completed => showStreamProgress(classified + completed)
+        }),
+        onProgress: completed => {
+          classified = completed;
+          showStreamProgress(completed);
+        },
+        onChunk: chunk => {
+          const exportRows = exportResultsWithOriginalDataV3(chunk);
+          header ??= exportRowHeaders(exportRows);
+          csvParts.push(new Blob([exportRowsToCsv(exportRows, header, csvParts.length > 0)]));
+        }
+      });
+      setStreamedResults(new Blob(csvParts, { type: EXPORT_FILE_MIME_TYPES.csv }));
+      return result;
+    }, { file });
+
   const handleTextProcessing = async (names: string[]) => {
     setIsProcessing(true);
     
     try {
-      console.log(`Processing ${names.length} payees with FIXED V3 classification`);
+      const exclusionProfile = getSelectedProfile();
+      console.log(`Processing ${names.length} payees with FIXED V3 classification, exclusion profile ${formatExclusionProfileLabel(exclusionProfile)}`);
       const results: PayeeClassification[] = [];
       
       // Use FIXED V3 classification for each name
@@ -79,14 +250,16 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
         const result = await enhancedClassifyPayeeV3(name, {
           aiThreshold: 100, // Force rule-based only
           bypassRuleNLP: false,
-          offlineMode: true
+          offlineMode: true,
+          exclusionProfile
         });
         
         results.push({
           id: uuidv4(),
           payeeName: name,
           result,
-          timestamp: new Date()
+          timestamp: new Date(),
+          exclusionProfile: getExclusionProfileRef(exclusionProfile)
         });
       }
       
@@ -100,6 +273,9 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
           totalProcessed: results.length,
           businessCount: results.filter(r => r.result.classification === 'Business').length,
           individualCount: results.filter(r => r.result.classification === 'Individual').length,
+          governmentCount: results.filter(r => r.result.classification === 'Government').length,
+          trustEstateCount: results.filter(r => r.result.classification === 'Trust/Estate').length,
+          nonProfitCount: results.filter(r => r.result.classification === 'Non-Profit').length,
           excludedCount: results.filter(r => r.result.processingTier === 'Excluded').length,
           failedCount: 0,
           averageConfidence: results.reduce((sum, r) => sum + r.result.confidence, 0) / results.length,
@@ -116,7 +292,10 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
       
       setBatchResults(results);
       setProcessingSummary(summary);
+      setSourceUpload(null);
       onComplete(results, summary);
+      storeRun(`Text input (${names.length} names)`, summary);
+      saveExclusionPreviewSample(LAST_BATCH_SAMPLE, names);
       
       toast({
         title: "Processing Complete",
@@ -135,9 +314,20 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
     }
   };
 
+  const handleResultsCorrected = (results: PayeeClassification[]) => {
+    const summary = processingSummary ? recalculateBatchRunResult(processingSummary, results) : null;
+    setBatchResults(results);
+    setProcessingSummary(summary);
+    if (summary) {
+      onComplete(results, summary);
+    }
+  };
+
   const handleReset = () => {
     setBatchResults([]);
     setProcessingSummary(null);
+    setSourceUpload(null);
+    setStreamedResults(null);
     setPayeeNames("");
   };
 
@@ -147,7 +337,27 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
         <CardHeader>
           <CardTitle>Payee Classification (FIXED V3 System)</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="exclusion-profile">Exclusion profile</Label>
+            <Select
+              value={profileId}
+              onValueChange={setProfileId}
+              onOpenChange={(open) => open && setProfiles(listExclusionProfiles())}
+              disabled={isProcessing}
+            >
+              <SelectTrigger id="exclusion-profile" className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {formatExclusionProfileLabel(profile)} ({profile.rules.length} rules)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <Tabs defaultValue="file" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="file">File Upload</TabsTrigger>
@@ -157,6 +367,8 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
             <TabsContent value="file" className="space-y-4">
               <FileUploadForm 
                 onDirectProcessing={handleFileProcessing}
+                onStreamProcessing={handleStreamProcessing}
+                onSheetsProcessing={handleSheetsProcessing}
                 isProcessing={isProcessing}
               />
             </TabsContent>
@@ -170,6 +382,17 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
               />
             </TabsContent>
           </Tabs>
+
+          {progress && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <BatchProcessingProgress progress={progress.percent} status={progress.status} />
+              </div>
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -179,6 +402,9 @@ const BatchClassificationForm = ({ onComplete }: BatchClassificationFormProps) =
         onReset={handleReset}
         isProcessing={isProcessing}
         exportFunction={exportResultsFixed}
+        sourceUpload={sourceUpload}
+        streamedResults={streamedResults}
+        onResultsChange={handleResultsCorrected}
       />
     </div>
   );
@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  BatchComparison,
+  COMPARISON_CHANGE_LABELS,
+  COMPARISON_CHANGES,
+  ComparedRun,
+  ComparisonChange,
+  ComparisonMatchBy,
+  StoredRunSummary,
+  compareBatchRuns,
+  comparisonToCsv,
+  filterComparisonRows,
+  getRunStore,
+  parseResultFile
+} from "@/lib/classification/comparison";
+import { EXPORT_FILE_MIME_TYPES } from "@/lib/classification/exporters";
+import { downloadExportFile } from "@/lib/utils";
+
+// Source value that reads the run from an exported result file instead of a stored run
+const RESULT_FILE_SOURCE = 'file';
+
+// Rows rendered in the table; the CSV export has every filtered row
+const MAX_SHOWN_ROWS = 200;
+
+const ALL_CHANGES = 'all';
+
+interface BatchComparisonPanelProps {
+  refreshKey?: unknown; // Reload the stored runs when this changes, e.g. after a new run
+}
+
+const formatDelta = (delta: number | undefined) =>
+  delta === undefined ? '' : `${delta > 0 ? '+' : ''}${delta}`;
+
+const BatchComparisonPanel = ({ refreshKey }: BatchComparisonPanelProps) => {
+  const [runs, setRuns] = useState<StoredRunSummary[]>([]);
+  const [beforeSource, setBeforeSource] = useState('');
+  const [afterSource, setAfterSource] = useState('');
+  const [beforeFile, setBeforeFile] = useState<File | null>(null);
+  const [afterFile, setAfterFile] = useState<File | null>(null);
+  const [matchBy, setMatchBy] = useState<ComparisonMatchBy>('row');
+  const [comparison, setComparison] = useState<BatchComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [changeFilter, setChangeFilter] = useState<ComparisonChange | typeof ALL_CHANGES>(ALL_CHANGES);
+  const [includeUnchanged, setIncludeUnchanged] = useState(false);
+  const [minDelta, setMinDelta] = useState('');
+  const [search, setSearch] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getRunStore().list()
+      .then(stored => {
+        setRuns(stored);
+        // Newest run against the one before it, or against the chosen result file
+        setAfterSource(stored[0]?.id ?? '');
+        setBeforeSource(current => current === RESULT_FILE_SOURCE ? current : stored[1]?.id ?? '');
+      })
+      .catch(error => console.error('Failed to list stored batch runs:', error));
+  }, [refreshKey]);
+
+  const loadSide = async (source: string, file: File | null): Promise<ComparedRun> => {
+    if (source === RESULT_FILE_SOURCE) {
+      if (!file) throw new Error('Choose a result file to compare');
+      return { results: parseResultFile(new Uint8Array(await file.arrayBuffer()), file.name) };
+    }
+    const run = await getRunStore().load(source);
+    if (!run) throw new Error('The stored run is no longer available');
+    return run;
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    try {
+      const [before, after] = await Promise.all([loadSide(beforeSource, beforeFile), loadSide(afterSource, afterFile)]);
+      setComparison(compareBatchRuns(before, after, { matchBy }));
+    } catch (error) {
+      console.error('Comparison error:', error);
+      toast({
+        title: "Comparison Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const filteredRows = useMemo(() => comparison
+    ? filterComparisonRows(comparison.rows, {
+      changes: changeFilter === ALL_CHANGES ? [] : [changeFilter],
+      includeUnchanged,
+      minConfidenceDelta: Number(minDelta) || 0,
+      search
+    })
+    : [], [comparison, changeFilter, includeUnchanged, minDelta, search]);
+
+  const handleExport = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    downloadExportFile(
+      { content: comparisonToCsv(filteredRows), mimeType: EXPORT_FILE_MIME_TYPES.csv, extension: 'csv' },
+      `batch_comparison_${timestamp}`
+    );
+  };
+
+  const renderSource = (
+    id: string,
+    label: string,
+    source: string,
+    setSource: (value: string) => void,
+    setFile: (file: File | null) => void
+  ) => (
+    <div className="flex-1 space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={source} onValueChange={setSource} disabled={isComparing}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Choose a run" />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map(run => (
+            <SelectItem key={run.id} value={run.id}>
+              {run.label} ({run.rowCount} rows, {new Date(run.createdAt).toLocaleString()})
+            </SelectItem>
+          ))}
+          <SelectItem value={RESULT_FILE_SOURCE}>Result file...</SelectItem>
+        </SelectContent>
+      </Select>
+      {source === RESULT_FILE_SOURCE && (
+        <Input
+          type="file"
+          accept=".csv,.xlsx,.xls,.json,.jsonl,.ndjson"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          disabled={isComparing}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Compare Runs</CardTitle>
+        <CardDescription>
+          Pick two finished runs, or an exported result file, to see which rows changed class, confidence or tier.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-start">
+          {renderSource('comparison-before', 'First run', beforeSource, setBeforeSource, setBeforeFile)}
+          {renderSource('comparison-after', 'Second run', afterSource, setAfterSource, setAfterFile)}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="space-y-2">
+            <Label>Match rows by</Label>
+            <Select value={matchBy} onValueChange={(value) => setMatchBy(value as ComparisonMatchBy)} disabled={isComparing}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="row">Row position</SelectItem>
+                <SelectItem value="payee-name">Payee name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCompare} disabled={!beforeSource || !afterSource || isComparing}>
+            {isComparing ? 'Comparing...' : 'Compare'}
+          </Button>
+        </div>
+
+        {comparison && (
+          <div className="space-y-6">
+            <div className="grid gap-4 grid-cols-2 sm:grid-cols-3">
+              {COMPARISON_CHANGES.map(change => (
+                <div key={change} className="p-4 bg-background border rounded-lg">
+                  <div className="text-sm text-muted-foreground">{COMPARISON_CHANGE_LABELS[change]}</div>
+                  <div className="text-2xl font-bold">{comparison.changeCounts[change]}</div>
+                </div>
+              ))}
+              <div className="p-4 bg-background border rounded-lg">
+                <div className="text-sm text-muted-foreground">Unchanged</div>
+                <div className="text-2xl font-bold">{comparison.unchangedRows}</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Statistics Shift</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead>First run</TableHead>
+                    <TableHead>Second run</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.statistics.map(shift => (
+                    <TableRow key={shift.metric}>
+                      <TableCell className="font-medium">{shift.metric}</TableCell>
+                      <TableCell>{shift.before}</TableCell>
+                      <TableCell>{shift.after}</TableCell>
+                      <TableCell className={shift.delta !== 0 ? 'font-bold' : undefined}>{formatDelta(shift.delta)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Changed Rows</h4>
+              <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+                <Select value={changeFilter} onValueChange={(value) => setChangeFilter(value as ComparisonChange | typeof ALL_CHANGES)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CHANGES}>Any change</SelectItem>
+                    {COMPARISON_CHANGES.map(change => (
+                      <SelectItem key={change} value={change}>{COMPARISON_CHANGE_LABELS[change]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Min confidence change"
+                  value={minDelta}
+                  onChange={(e) => setMinDelta(e.target.value)}
+                  className="w-[200px]"
+                />
+                <Input placeholder="Search payee" value={search} onChange={(e) => setSearch(e.target.value)} />
+                <div className="flex items-center gap-2 whitespace-nowrap">
+                  <Checkbox
+                    id="comparison-unchanged"
+                    checked={includeUnchanged}
+                    onCheckedChange={(checked) => setIncludeUnchanged(checked === true)}
+                  />
+                  <Label htmlFor="comparison-unchanged">Show unchanged</Label>
+                </div>
+                <Button variant="outline" onClick={handleExport} disabled={filteredRows.length === 0}>
+                  Export CSV
+                </Button>
+              </div>
+              <div className="border rounded-md max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Payee Name</TableHead>
+                      <TableHead>Classification</TableHead>
+                      <TableHead>Confidence</TableHead>
+                      <TableHead>Tier</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRows.slice(0, MAX_SHOWN_ROWS).map(row => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{row.payeeName}</TableCell>
+                        <TableCell>{row.before?.classification ?? '-'} → {row.after?.classification ?? '-'}</TableCell>
+                        <TableCell>
+                          {row.before?.confidence ?? '-'} → {row.after?.confidence ?? '-'}
+                          {row.confidenceDelta ? ` (${formatDelta(row.confidenceDelta)})` : ''}
+                        </TableCell>
+                        <TableCell>{row.before?.processingTier ?? '-'} → {row.after?.processingTier ?? '-'}</TableCell>
+                        <TableCell>{row.changes.map(change => COMPARISON_CHANGE_LABELS[change]).join(', ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {filteredRows.length > MAX_SHOWN_ROWS
+                  ? `Showing ${MAX_SHOWN_ROWS} of ${filteredRows.length} rows; the CSV export has all of them.`
+                  : `${filteredRows.length} rows`}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchComparisonPanel;
@@ -22,6 +22,17 @@ const BatchProcessingSummary = ({ summary }: BatchProcessingSummaryProps) => {
     result => result && result.result && result.result.classification === 'Individual'
   ).length;
   
+  const otherEntityCounts = ([
+    ['Government', 'Government'],
+    ['Trust/Estate', 'Trusts & Estates'],
+    ['Non-Profit', 'Non-Profits']
+  ] as const).map(([classification, label]) => ({
+    label,
+    count: summary.results.filter(
+      result => result && result.result && result.result.classification === classification
+    ).length
+  }));
+  
   const businessPercentage = totalProcessed > 0
     ? Math.round((businessCount / totalProcessed) * 100)
     : 0;
@@ -71,6 +82,20 @@ const BatchProcessingSummary = ({ summary }: BatchProcessingSummaryProps) => {
           </div>
         </div>
         
+        {/* Government, trust/estate and non-profit payees */}
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-3 mt-4">
+          {otherEntityCounts.map(({ label, count }) => (
+            <div key={label} className="p-4 bg-background border rounded-lg">
+              <div className="text-sm text-muted-foreground">{label}</div>
+              <div className="text-2xl font-bold">
+                {count} <span className="text-sm font-normal text-muted-foreground">
+                  ({totalProcessed > 0 ? Math.round((count / totalProcessed) * 100) : 0}%)
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+        
         {/* Processing tier breakdown */}
         <div className="mt-6">
           <h4 className="text-sm font-medium mb-2">Processing Tier Distribution</h4>
@@ -92,6 +117,13 @@ const BatchProcessingSummary = ({ summary }: BatchProcessingSummaryProps) => {
             })}
           </div>
         </div>
+        
+        {summary.enhancedStats?.cacheStats && (
+          <div className="mt-4 text-sm text-muted-foreground">
+            Classification cache: {summary.enhancedStats.cacheStats.hits} reused, {summary.enhancedStats.cacheStats.misses} newly
+            classified ({Math.round(summary.enhancedStats.cacheStats.hitRate * 100)}% hit rate)
+          </div>
+        )}
       </CardContent>
     </Card>
   );
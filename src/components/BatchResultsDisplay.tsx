@@ -1,20 +1,42 @@
 
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { RotateCcw } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Settings } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import BatchProcessingSummary from "./BatchProcessingSummary";
 import ClassificationResultTable from "./ClassificationResultTable";
-import { PayeeClassification, BatchProcessingResult } from "@/lib/types";
-import { exportResultsWithOriginalDataV3 } from "@/lib/classification/exporters";
-import { exportResultsFixed } from "@/lib/classification/fixedExporter";
-import * as XLSX from 'xlsx';
+import ReviewQueuePanel from "./ReviewQueuePanel";
+import ExportTemplateManager from "./ExportTemplateManager";
+import { PayeeClassification, BatchProcessingResult, SourceUpload } from "@/lib/types";
+import {
+  buildAlignmentReport,
+  describeAlignmentReport,
+  EXPORT_FILE_FORMATS,
+  EXPORT_FILE_FORMAT_LABELS,
+  enrichOriginalFile,
+  exportResultsWithOriginalDataV3,
+  ExportFileFormat,
+  ExportTemplate,
+  STANDARD_EXPORT_TEMPLATE_ID,
+  writeExportFile
+} from "@/lib/classification/exporters";
+import { getExportTemplate, listExportTemplates } from "@/lib/classification/exportTemplateStore";
+import { detectInputFormat } from "@/lib/fileValidation";
+import { downloadBlob, downloadExportFile } from "@/lib/utils";
 
 interface BatchResultsDisplayProps {
   batchResults: PayeeClassification[];
   processingSummary: BatchProcessingResult | null;
   onReset: () => void;
   isProcessing: boolean;
-  exportFunction?: (batchResult: any, includeAllColumns?: boolean) => any[];
+  exportFunction?: (batchResult: any, includeAllColumns?: boolean, includeExplanation?: boolean) => any[];
+  onResultsChange?: (results: PayeeClassification[]) => void;
+  sourceUpload?: SourceUpload | null; // Uploaded CSV or workbook the results can be written back into
+  streamedResults?: Blob | null; // Results CSV of a streamed run, whose results are not kept in memory
 }
 
 const BatchResultsDisplay = ({ 
@@ -22,10 +44,23 @@ const BatchResultsDisplay = ({
   processingSummary, 
   onReset, 
   isProcessing,
-  exportFunction
+  exportFunction,
+  onResultsChange,
+  sourceUpload,
+  streamedResults
 }: BatchResultsDisplayProps) => {
+  const [includeExplanation, setIncludeExplanation] = useState(false);
+  const [templates, setTemplates] = useState<ExportTemplate[]>(() => listExportTemplates());
+  const [templateId, setTemplateId] = useState(STANDARD_EXPORT_TEMPLATE_ID);
+  const [fileFormat, setFileFormat] = useState<ExportFileFormat>('xlsx');
   const { toast } = useToast();
 
+  const handleTemplatesChange = (selectedId?: string) => {
+    const saved = listExportTemplates();
+    setTemplates(saved);
+    setTemplateId(selectedId || (saved.some(template => template.id === templateId) ? templateId : STANDARD_EXPORT_TEMPLATE_ID));
+  };
+
   const handleExportResults = () => {
     if (!processingSummary || batchResults.length === 0) {
       toast({
@@ -40,26 +75,32 @@ const BatchResultsDisplay = ({
       console.log('[EXPORT] Processing summary:', processingSummary);
       console.log('[EXPORT] Has original file data:', !!processingSummary.originalFileData);
       
-      // Use custom export function if provided, otherwise use default
-      const exportData = exportFunction 
-        ? exportFunction(processingSummary, true)
-        : exportResultsWithOriginalDataV3(processingSummary, true);
+      // A saved template lays out the result columns; otherwise use the custom export function or the default
+      const template = templateId === STANDARD_EXPORT_TEMPLATE_ID ? undefined : getExportTemplate(templateId);
+      const exportData = template
+        ? exportResultsWithOriginalDataV3(processingSummary, true, includeExplanation, { template })
+        : exportFunction
+          ? exportFunction(processingSummary, true, includeExplanation)
+          : exportResultsWithOriginalDataV3(processingSummary, true, includeExplanation);
       
       console.log('[EXPORT] Export data sample:', exportData.slice(0, 2));
       
-      const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(exportData);
-      
-      XLSX.utils.book_append_sheet(workbook, worksheet, "Enhanced Classification Results");
+      // Workbooks keep the uploaded sheets and get a summary sheet
+      const file = writeExportFile(exportData, processingSummary, fileFormat, { includeSummary: true });
       
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      const filename = `enhanced_payee_classification_${timestamp}.xlsx`;
+      const baseName = `enhanced_payee_classification_${timestamp}`;
+      const filename = `${baseName}.${file.extension}`;
       
-      XLSX.writeFile(workbook, filename);
+      downloadExportFile(file, baseName);
       
+      // Rows without a result are in the file as Unclassified
+      const alignment = buildAlignmentReport(processingSummary);
       toast({
         title: "Export Complete",
-        description: `Enhanced results exported to ${filename} with original file data and keyword exclusion details.`,
+        description: alignment.unclassifiedRows > 0
+          ? `Results exported to ${filename}. ${describeAlignmentReport(alignment)}; those rows are marked Unclassified.`
+          : `Enhanced results exported to ${filename} with original file data and keyword exclusion details.`,
       });
     } catch (error) {
       console.error("Export error:", error);
@@ -71,6 +112,37 @@ const BatchResultsDisplay = ({
     }
   };
 
+  // CSV and workbook uploads can get the result columns added to a copy of the file
+  const sourceFormat = sourceUpload ? detectInputFormat(sourceUpload.file.name) : undefined;
+  const canEnrich = sourceFormat === 'csv' || sourceFormat === 'xlsx';
+
+  const handleEnrichOriginal = async () => {
+    if (!processingSummary || !sourceUpload || !(sourceFormat === 'csv' || sourceFormat === 'xlsx')) return;
+
+    try {
+      const template = templateId === STANDARD_EXPORT_TEMPLATE_ID ? undefined : getExportTemplate(templateId);
+      const file = enrichOriginalFile(
+        { data: await sourceUpload.file.arrayBuffer(), format: sourceFormat, sheetName: sourceUpload.sheetName },
+        processingSummary,
+        { includeExplanation, template }
+      );
+      const baseName = `${sourceUpload.file.name.replace(/\.[^.]+$/, '')}_classified`;
+      downloadExportFile(file, baseName);
+
+      toast({
+        title: "Export Complete",
+        description: `Classification columns added to a copy of ${sourceUpload.file.name}.`,
+      });
+    } catch (error) {
+      console.error("Enrichment error:", error);
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to write results into the original file.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <>
       {processingSummary && (
@@ -84,7 +156,57 @@ const BatchResultsDisplay = ({
           <h3 className="text-lg font-medium mb-2">Latest Batch Classification Results</h3>
           <ClassificationResultTable results={batchResults} />
           
-          <div className="mt-4 flex gap-2">
+          {onResultsChange && !isProcessing && (
+            <ReviewQueuePanel results={batchResults} onResultsChange={onResultsChange} />
+          )}
+          
+          <div className="mt-4 flex items-center gap-2">
+            <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as ExportFileFormat)} disabled={isProcessing}>
+              <SelectTrigger className="w-[190px]" aria-label="Export file format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FILE_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>{EXPORT_FILE_FORMAT_LABELS[format]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={templateId} onValueChange={setTemplateId} disabled={isProcessing}>
+              <SelectTrigger className="w-[200px]" aria-label="Export template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={STANDARD_EXPORT_TEMPLATE_ID}>Standard columns</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={isProcessing} aria-label="Edit export templates">
+                  <Settings className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Export Templates</DialogTitle>
+                  <DialogDescription>
+                    Choose the result columns to export, their names, order and value formats.
+                  </DialogDescription>
+                </DialogHeader>
+                <ExportTemplateManager onTemplatesChange={handleTemplatesChange} />
+              </DialogContent>
+            </Dialog>
+            <Checkbox
+              id="export-explanation"
+              checked={includeExplanation}
+              onCheckedChange={(checked) => setIncludeExplanation(checked === true)}
+              disabled={isProcessing}
+            />
+            <Label htmlFor="export-explanation" className="text-sm whitespace-nowrap">
+              Include explanation JSON
+            </Label>
             <Button
               variant="outline"
               onClick={handleExportResults}
@@ -93,6 +215,16 @@ const BatchResultsDisplay = ({
             >
               Export Enhanced Results with Original Data
             </Button>
+            {canEnrich && (
+              <Button
+                variant="outline"
+                onClick={handleEnrichOriginal}
+                disabled={isProcessing}
+                title="Adds the classification columns to a copy of the uploaded file, leaving every original cell as it was"
+              >
+                Add Columns to Original File
+              </Button>
+            )}
             
             <Button
               variant="outline"
@@ -104,6 +236,25 @@ const BatchResultsDisplay = ({
             </Button>
           </div>
         </div>
+      ) : streamedResults ? (
+        <div className="text-center py-8 border rounded-md space-y-4">
+          <p className="text-muted-foreground">
+            This file was classified as it was read, so its results were written straight to a CSV file.
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => downloadBlob(streamedResults, `${sourceUpload?.file.name.replace(/\.[^.]+$/, '') ?? 'payee'}_classified.csv`)}
+              disabled={isProcessing}
+            >
+              Download Results CSV
+            </Button>
+            <Button variant="outline" onClick={onReset} disabled={isProcessing}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Clear Latest Results
+            </Button>
+          </div>
+        </div>
       ) : (
         <div className="text-center py-8 border rounded-md">
           <p className="text-muted-foreground">
@@ -1,5 +1,7 @@
 
 import { getConfidenceLevel } from "@/lib/classificationEngine";
+import { EntityClassification } from "@/lib/types";
+import { Badge, BadgeProps } from "@/components/ui/badge";
 
 interface ClassificationBadgeProps {
   confidence: number;
@@ -16,4 +18,22 @@ const ClassificationBadge = ({ confidence, showValue = true }: ClassificationBad
   );
 };
 
+const ENTITY_BADGE_VARIANTS: Record<EntityClassification, BadgeProps['variant']> = {
+  'Business': 'default',
+  'Individual': 'secondary',
+  'Government': 'outline',
+  'Trust/Estate': 'outline',
+  'Non-Profit': 'outline'
+};
+
+interface EntityClassificationBadgeProps {
+  classification: EntityClassification;
+}
+
+export const EntityClassificationBadge = ({ classification }: EntityClassificationBadgeProps) => (
+  <Badge variant={ENTITY_BADGE_VARIANTS[classification] || 'secondary'}>
+    {classification}
+  </Badge>
+);
+
 export default ClassificationBadge;
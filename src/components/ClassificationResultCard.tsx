@@ -1,10 +1,9 @@
 
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { PayeeClassification } from "@/lib/types";
-import ClassificationBadge from "./ClassificationBadge";
+import ClassificationBadge, { EntityClassificationBadge } from "./ClassificationBadge";
 import { formatDate } from "@/lib/utils";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Badge } from "@/components/ui/badge";
 
 interface ClassificationResultCardProps {
   result: PayeeClassification;
@@ -23,9 +22,7 @@ const ClassificationResultCard = ({ result }: ClassificationResultCardProps) =>
             <CardDescription>{formatDate(timestamp)}</CardDescription>
           </div>
           <div className="flex items-center gap-2">
-            <Badge variant={classification === 'Business' ? 'default' : 'secondary'}>
-              {classification}
-            </Badge>
+            <EntityClassificationBadge classification={classification} />
             <ClassificationBadge confidence={confidence} />
           </div>
         </div>
@@ -1,12 +1,16 @@
 
 import { useState } from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { PayeeClassification } from "@/lib/types";
-import ClassificationBadge from "./ClassificationBadge";
+import { PayeeClassification, EntityClassification } from "@/lib/types";
+import { ENTITY_CLASSIFICATIONS } from "@/lib/classification/config";
+import ClassificationBadge, { EntityClassificationBadge } from "./ClassificationBadge";
+import ExplanationTrace from "./ExplanationTrace";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowUp, ArrowDown, Download } from "lucide-react";
-import { downloadCSV, downloadJSON } from "@/lib/utils";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { EXPORT_FILE_FORMATS, EXPORT_FILE_FORMAT_LABELS } from "@/lib/classification/exporters";
+import { downloadResults } from "@/lib/utils";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 
 interface ClassificationResultTableProps {
@@ -20,6 +24,7 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
   const [sortField, setSortField] = useState<SortField>('payeeName');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [selectedResult, setSelectedResult] = useState<PayeeClassification | null>(null);
+  const [classificationFilter, setClassificationFilter] = useState<EntityClassification | 'all'>('all');
   
   const handleSort = (field: SortField) => {
     if (field === sortField) {
@@ -34,8 +39,11 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
   
   // Filter out any potentially invalid results and add safe comparisons
   const validResults = results.filter(result => result && result.result);
+  const filteredResults = classificationFilter === 'all'
+    ? validResults
+    : validResults.filter(result => result.result.classification === classificationFilter);
   
-  const sortedResults = [...validResults].sort((a, b) => {
+  const sortedResults = [...filteredResults].sort((a, b) => {
     let comparison = 0;
     
     switch (sortField) {
@@ -75,12 +83,34 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
   return (
     <div>
       <div className="flex justify-end mb-4 gap-2">
-        <Button variant="outline" size="sm" onClick={() => downloadCSV(results)}>
-          <Download className="w-4 h-4 mr-2" /> Export CSV
-        </Button>
-        <Button variant="outline" size="sm" onClick={() => downloadJSON(results)}>
-          <Download className="w-4 h-4 mr-2" /> Export JSON
-        </Button>
+        <Select
+          value={classificationFilter}
+          onValueChange={(value) => setClassificationFilter(value as EntityClassification | 'all')}
+        >
+          <SelectTrigger className="w-[180px] h-9">
+            <SelectValue placeholder="Filter by type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            {ENTITY_CLASSIFICATIONS.map(classification => (
+              <SelectItem key={classification} value={classification}>{classification}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Download className="w-4 h-4 mr-2" /> Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FILE_FORMATS.map(format => (
+              <DropdownMenuItem key={format} onClick={() => downloadResults(results, format)}>
+                {EXPORT_FILE_FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
       <div className="border rounded-md">
         <Table>
@@ -107,9 +137,7 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
                 <TableCell className="font-medium">{result.payeeName}</TableCell>
                 <TableCell>
                   {result.result && (
-                    <Badge variant={result.result.classification === 'Business' ? 'default' : 'secondary'}>
-                      {result.result.classification}
-                    </Badge>
+                    <EntityClassificationBadge classification={result.result.classification} />
                   )}
                 </TableCell>
                 <TableCell>
@@ -128,7 +156,7 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
       </div>
 
       <Dialog open={!!selectedResult} onOpenChange={(open) => !open && setSelectedResult(null)}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
           {selectedResult && selectedResult.result && (
             <>
               <DialogHeader>
@@ -139,9 +167,7 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
               <div className="space-y-4 py-4">
                 <div className="flex justify-between">
                   <span className="font-medium">Classification:</span>
-                  <Badge variant={selectedResult.result.classification === 'Business' ? 'default' : 'secondary'}>
-                    {selectedResult.result.classification}
-                  </Badge>
+                  <EntityClassificationBadge classification={selectedResult.result.classification} />
                 </div>
                 
                 <div className="flex justify-between">
@@ -193,6 +219,18 @@ const ClassificationResultTable = ({ results }: ClassificationResultTableProps)
                     </p>
                   </div>
                 )}
+
+                {selectedResult.result.explanation && (
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="font-medium">Explanation Trace:</h4>
+                      <Button variant="ghost" size="sm" onClick={() => downloadResults([selectedResult], 'json', { includeExplanation: true })}>
+                        <Download className="w-4 h-4 mr-2" /> JSON
+                      </Button>
+                    </div>
+                    <ExplanationTrace explanation={selectedResult.result.explanation} />
+                  </div>
+                )}
               </div>
             </>
           )}
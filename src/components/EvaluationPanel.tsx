@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ENTITY_CLASSIFICATIONS } from "@/lib/classification/config";
+import { PipelinePresetName } from "@/lib/classification/pipeline";
+import {
+  EVALUATION_ENGINES,
+  EvaluationReport,
+  evaluateClassifier,
+  fitCalibrationFromReport,
+  parseLabeledDataset
+} from "@/lib/classification/evaluation";
+import {
+  CalibrationModel,
+  clearCalibrationModel,
+  getActiveCalibration,
+  saveCalibrationModel
+} from "@/lib/classification/calibration";
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const EvaluationPanel = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [engine, setEngine] = useState<PipelinePresetName>('v3');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationModel | null>(() => getActiveCalibration());
+  const { toast } = useToast();
+
+  const handleRun = async () => {
+    if (!file) return;
+    setIsRunning(true);
+    setProgress(0);
+
+    try {
+      const dataset = parseLabeledDataset(await file.text(), {
+        format: file.name.toLowerCase().endsWith('.json') ? 'json' : undefined
+      });
+      const result = await evaluateClassifier(dataset, {
+        engine,
+        onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100))
+      });
+      setReport(result);
+    } catch (error) {
+      console.error('Evaluation error:', error);
+      toast({
+        title: "Evaluation Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleFitCalibration = () => {
+    if (!report) return;
+    try {
+      const model = fitCalibrationFromReport(report, { source: file?.name });
+      saveCalibrationModel(model);
+      setCalibration(model);
+      toast({
+        title: "Calibration Saved",
+        description: `Fitted on ${model.sampleCount} labeled results. New classifications will use calibrated confidence.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Calibration Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClearCalibration = () => {
+    clearCalibrationModel();
+    setCalibration(null);
+  };
+
+  const labels = report
+    ? ENTITY_CLASSIFICATIONS.filter(label => report.perClass[label].support > 0 || report.perClass[label].predicted > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Evaluate Accuracy</CardTitle>
+        <CardDescription>
+          Upload a labeled CSV or JSON file (payee name and expected classification) to measure a classifier.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="evaluation-file">Labeled file</Label>
+            <Input
+              id="evaluation-file"
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={isRunning}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Engine</Label>
+            <Select value={engine} onValueChange={(value) => setEngine(value as PipelinePresetName)} disabled={isRunning}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EVALUATION_ENGINES.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleRun} disabled={!file || isRunning}>
+            {isRunning ? 'Evaluating...' : 'Run Evaluation'}
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span className="text-muted-foreground">
+            {calibration
+              ? `Calibration active: ${calibration.method}, ${calibration.sampleCount} samples${calibration.source ? ` from ${calibration.source}` : ''}`
+              : 'No confidence calibration saved; raw scores are reported.'}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleFitCalibration} disabled={!report || isRunning}>
+              Fit Calibration
+            </Button>
+            {calibration && (
+              <Button variant="ghost" size="sm" onClick={handleClearCalibration} disabled={isRunning}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isRunning && <Progress value={progress} />}
+
+        {report && (
+          <div className="space-y-6">
+            <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+              <div className="p-4 bg-background border rounded-lg">
+                <div className="text-sm text-muted-foreground">Accuracy</div>
+                <div className="text-2xl font-bold">{percent(report.accuracy)}</div>
+                <div className="text-xs text-muted-foreground">{report.correct} of {report.total} correct</div>
+              </div>
+              <div className="p-4 bg-background border rounded-lg">
+                <div className="text-sm text-muted-foreground">Macro F1</div>
+                <div className="text-2xl font-bold">{percent(report.macroF1)}</div>
+              </div>
+              <div className="p-4 bg-background border rounded-lg">
+                <div className="text-sm text-muted-foreground">Misclassified</div>
+                <div className="text-2xl font-bold">{report.misclassified.length}</div>
+                <div className="text-xs text-muted-foreground">{report.engine} in {report.processingTime}ms</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Per-class Metrics</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Precision</TableHead>
+                    <TableHead>Recall</TableHead>
+                    <TableHead>F1</TableHead>
+                    <TableHead>Support</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {labels.map(label => (
+                    <TableRow key={label}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell>{percent(report.perClass[label].precision)}</TableCell>
+                      <TableCell>{percent(report.perClass[label].recall)}</TableCell>
+                      <TableCell>{percent(report.perClass[label].f1)}</TableCell>
+                      <TableCell>{report.perClass[label].support}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Confusion Matrix (rows expected, columns predicted)</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {labels.map(label => <TableHead key={label}>{label}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {labels.map(expected => (
+                    <TableRow key={expected}>
+                      <TableCell className="font-medium">{expected}</TableCell>
+                      {labels.map(predicted => (
+                        <TableCell key={predicted} className={expected === predicted ? 'font-bold' : undefined}>
+                          {report.confusionMatrix[expected][predicted]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Accuracy by Processing Tier</h4>
+              <div className="space-y-2">
+                {Object.entries(report.tierBreakdown).map(([tier, metrics]) => (
+                  <div key={tier} className="flex items-center gap-2">
+                    <div className="text-sm font-medium w-40">{tier}:</div>
+                    <div className="w-full bg-secondary rounded-full h-2">
+                      <div className="bg-primary rounded-full h-2" style={{ width: percent(metrics.accuracy) }} />
+                    </div>
+                    <div className="text-sm text-muted-foreground w-28">
+                      {metrics.correct}/{metrics.total} ({percent(metrics.accuracy)})
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">
+                Reliability Diagram (expected calibration error {percent(report.reliability.expectedCalibrationError)})
+              </h4>
+              <div className="space-y-2">
+                {report.reliability.bins.filter(bin => bin.count > 0).map(bin => (
+                  <div key={bin.lower} className="flex items-center gap-2">
+                    <div className="text-sm font-medium w-24">{bin.lower}-{bin.upper}%:</div>
+                    <div className="relative w-full bg-secondary rounded-full h-2">
+                      <div className="bg-primary rounded-full h-2" style={{ width: percent(bin.accuracy) }} />
+                      <div
+                        className="absolute top-[-2px] h-3 w-0.5 bg-foreground"
+                        style={{ left: percent(bin.meanConfidence) }}
+                        title="Mean confidence"
+                      />
+                    </div>
+                    <div className="text-sm text-muted-foreground w-40">
+                      {percent(bin.accuracy)} correct, n={bin.count}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Bars show observed accuracy; the marker shows mean reported confidence in each bin.
+              </p>
+            </div>
+
+            {report.misclassified.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Misclassified Names</h4>
+                <div className="border rounded-md max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Payee Name</TableHead>
+                        <TableHead>Expected</TableHead>
+                        <TableHead>Predicted</TableHead>
+                        <TableHead>Confidence</TableHead>
+                        <TableHead>Tier</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.misclassified.map((miss, index) => (
+                        <TableRow key={`${miss.payeeName}-${index}`}>
+                          <TableCell className="font-medium">{miss.payeeName}</TableCell>
+                          <TableCell>{miss.expected}</TableCell>
+                          <TableCell>{miss.predicted}</TableCell>
+                          <TableCell>{miss.confidence}%</TableCell>
+                          <TableCell>{miss.processingTier}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EvaluationPanel;
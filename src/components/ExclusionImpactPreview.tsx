@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Upload } from "lucide-react";
+import { detectInputFormat, extractPayeeColumn, isEmptyPayeeName, parseTabularInput } from "@/lib/fileValidation";
+import {
+  ExclusionImpactExample,
+  ExclusionPreviewSample,
+  ExclusionRule,
+  previewExclusionImpact
+} from "@/lib/classification/exclusion";
+import { getExclusionPreviewSample, MAX_PREVIEW_SAMPLE_ROWS } from "@/lib/classification/exclusionProfileStore";
+
+// Pause in typing before the sample is checked again
+const PREVIEW_DELAY_MS = 300;
+
+interface ExclusionImpactPreviewProps {
+  currentRules: ExclusionRule[];
+  proposedRules: ExclusionRule[] | null; // Null when no change is pending
+  changeLabel?: string;
+}
+
+const ExampleList = ({ title, examples, total }: { title: string; examples: ExclusionImpactExample[]; total: number }) => (
+  <div className="space-y-1">
+    <p className="text-sm font-medium">{title}: {total.toLocaleString()} rows</p>
+    {examples.length > 0 && (
+      <ul className="text-sm text-muted-foreground space-y-0.5">
+        {examples.map(example => (
+          <li key={example.payeeName}>
+            <span className="font-mono">{example.payeeName}</span>
+            {example.rowCount > 1 && ` ×${example.rowCount}`}
+            {` (rule "${example.rule.keyword}")`}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const ExclusionImpactPreview = ({ currentRules, proposedRules, changeLabel }: ExclusionImpactPreviewProps) => {
+  const [sample, setSample] = useState<ExclusionPreviewSample | null>(() => getExclusionPreviewSample());
+  const [previewedRules, setPreviewedRules] = useState(proposedRules);
+  const { toast } = useToast();
+
+  // Each check compiles the rules and scans the sample, so it waits until typing pauses
+  useEffect(() => {
+    if (!proposedRules) {
+      setPreviewedRules(null);
+      return;
+    }
+    const timer = setTimeout(() => setPreviewedRules(proposedRules), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [proposedRules]);
+
+  const impact = useMemo(
+    () => (sample && previewedRules ? previewExclusionImpact(sample.payeeNames, currentRules, previewedRules) : null),
+    [sample, currentRules, previewedRules]
+  );
+
+  // A chosen sample file is only used for previews and is not stored
+  const handleSampleFile = async (file: File) => {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const { payeeNames, payeeColumnName } = extractPayeeColumn(parseTabularInput(data, detectInputFormat(file.name)));
+      setSample({
+        source: `${file.name} (column "${payeeColumnName}")`,
+        payeeNames: payeeNames.filter(name => !isEmptyPayeeName(name)).slice(0, MAX_PREVIEW_SAMPLE_ROWS),
+        savedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      toast({
+        title: "Sample Not Loaded",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preview Rule Change</CardTitle>
+        <CardDescription>
+          Shows how a keyword being added or edited changes exclusions in the last processed batch or a
+          sample file, before the change is saved. Only the exclusion check is re-run, not the classifiers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <Badge variant="secondary">
+            {sample ? `${sample.source}: ${sample.payeeNames.length.toLocaleString()} rows` : "No batch processed yet"}
+          </Badge>
+          <div>
+            <Label htmlFor="impact-sample" className="flex items-center gap-1">
+              <Upload className="h-4 w-4" />
+              Use a sample file
+            </Label>
+            <Input
+              id="impact-sample"
+              type="file"
+              accept=".csv,.xlsx,.xls,.jsonl,.txt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleSampleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {!proposedRules && (
+          <p className="text-sm text-muted-foreground">
+            Type a new keyword or edit a rule to see its impact.
+          </p>
+        )}
+
+        {impact && (
+          <div className="space-y-3">
+            {changeLabel && <p className="text-sm">{changeLabel}</p>}
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">
+                Excluded rows: {impact.excludedRowsBefore.toLocaleString()} → {impact.excludedRowsAfter.toLocaleString()}
+              </Badge>
+              <Badge variant="secondary">{impact.checkedNames.toLocaleString()} distinct names checked</Badge>
+            </div>
+            <ExampleList title="Newly excluded" examples={impact.newlyExcluded} total={impact.newlyExcludedRows} />
+            <ExampleList title="No longer excluded" examples={impact.newlyIncluded} total={impact.newlyIncludedRows} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExclusionImpactPreview;
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, Download, Plus, Trash, Upload } from "lucide-react";
+import { getComprehensiveExclusionRules } from "@/lib/classification/keywordExclusion";
+import {
+  ExclusionProfile,
+  ExclusionProfileDiff,
+  ExclusionRule,
+  cloneExclusionProfile,
+  createExclusionProfile,
+  diffExclusionProfiles,
+  exclusionProfileToCsv,
+  exclusionProfileToJson,
+  formatExclusionProfileLabel,
+  parseExclusionProfile
+} from "@/lib/classification/exclusion";
+import {
+  deleteExclusionProfile,
+  importExclusionProfile,
+  listExclusionProfiles,
+  saveExclusionProfile,
+  setActiveExclusionProfile
+} from "@/lib/classification/exclusionProfileStore";
+
+// Rows shown per section of a profile comparison
+const MAX_DIFF_ROWS = 50;
+
+interface ExclusionProfileManagerProps {
+  activeProfile: ExclusionProfile;
+  onActiveProfileChange: (profile: ExclusionProfile) => void;
+}
+
+const describeRule = (rule: ExclusionRule) =>
+  `${rule.category}, ${rule.enabled ? 'enabled' : 'disabled'}${rule.fuzzyThreshold !== undefined ? `, ≥${rule.fuzzyThreshold}%` : ''}`;
+
+function downloadFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const ExclusionProfileManager = ({ activeProfile, onActiveProfileChange }: ExclusionProfileManagerProps) => {
+  const [profiles, setProfiles] = useState<ExclusionProfile[]>([]);
+  const [profileName, setProfileName] = useState("");
+  const [compareId, setCompareId] = useState<string>("");
+  const [diff, setDiff] = useState<ExclusionProfileDiff | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setProfiles(listExclusionProfiles());
+  }, [activeProfile]);
+
+  useEffect(() => {
+    const other = profiles.find(profile => profile.id === compareId && profile.id !== activeProfile.id);
+    setDiff(other ? diffExclusionProfiles(activeProfile, other) : null);
+  }, [activeProfile, profiles, compareId]);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const activate = (profile: ExclusionProfile) => {
+    onActiveProfileChange(setActiveExclusionProfile(profile.id));
+  };
+
+  const handleCreate = (source?: ExclusionProfile) => {
+    try {
+      const profile = source
+        ? cloneExclusionProfile(source, profileName)
+        : createExclusionProfile(profileName, getComprehensiveExclusionRules());
+      activate(saveExclusionProfile(profile));
+      setProfileName("");
+      toast({
+        title: source ? "Profile Cloned" : "Profile Created",
+        description: `"${profile.name}" is now the active profile with ${profile.rules.length} rules`,
+      });
+    } catch (error) {
+      showError("Invalid Profile", error);
+    }
+  };
+
+  const handleDelete = () => {
+    try {
+      deleteExclusionProfile(activeProfile.id);
+      const remaining = listExclusionProfiles();
+      activate(remaining[0]);
+      toast({
+        title: "Profile Deleted",
+        description: `"${activeProfile.name}" has been deleted`,
+      });
+    } catch (error) {
+      showError("Delete Failed", error);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const isCsv = file.name.toLowerCase().endsWith('.csv');
+      const parsed = parseExclusionProfile(await file.text(), {
+        format: isCsv ? 'csv' : undefined,
+        name: file.name.replace(/\.[^.]+$/, '')
+      });
+      const profile = importExclusionProfile(parsed);
+      activate(profile);
+      toast({
+        title: "Profile Imported",
+        description: `Imported "${profile.name}" with ${profile.rules.length} rules`,
+      });
+    } catch (error) {
+      showError("Import Failed", error);
+    }
+  };
+
+  const exportFileName = activeProfile.name.replace(/[^\w-]+/g, '_');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exclusion Profiles</CardTitle>
+        <CardDescription>
+          Keep a separate rule set per client. The active profile is edited below and used by default;
+          each batch can pick another profile. Every change to a profile's rules increases its version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label>Active Profile</Label>
+            <Select
+              value={activeProfile.id}
+              onValueChange={(id) => {
+                const profile = profiles.find(candidate => candidate.id === id);
+                if (profile) activate(profile);
+              }}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{formatExclusionProfileLabel(profile)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={handleDelete} disabled={profiles.length <= 1}>
+            <Trash className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <Button variant="outline" onClick={() => downloadFile(exclusionProfileToJson(activeProfile), `${exportFileName}.json`, 'application/json')}>
+            <Download className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+          <Button variant="outline" onClick={() => downloadFile(exclusionProfileToCsv(activeProfile), `${exportFileName}.csv`, 'text/csv')}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Badge variant="secondary">{activeProfile.rules.length} rules</Badge>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[200px]">
+            <Label htmlFor="profile-name">New Profile Name</Label>
+            <Input
+              id="profile-name"
+              placeholder="e.g. Client name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => handleCreate()} disabled={!profileName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+          <Button variant="outline" onClick={() => handleCreate(activeProfile)} disabled={!profileName.trim()}>
+            <Copy className="h-4 w-4 mr-2" />
+            Clone Active
+          </Button>
+          <div>
+            <Label htmlFor="profile-import" className="flex items-center gap-1">
+              <Upload className="h-4 w-4" />
+              Import JSON or CSV
+            </Label>
+            <Input
+              id="profile-import"
+              type="file"
+              accept=".json,.csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Compare With</Label>
+          <Select value={compareId} onValueChange={setCompareId}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="Choose a profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.filter(profile => profile.id !== activeProfile.id).map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{formatExclusionProfileLabel(profile)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {diff && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Changes going from {formatExclusionProfileLabel(activeProfile)} to the compared profile.
+              </p>
+              <div className="flex gap-2">
+                <Badge variant="outline">{diff.added.length} added</Badge>
+                <Badge variant="outline">{diff.removed.length} removed</Badge>
+                <Badge variant="outline">{diff.changed.length} changed</Badge>
+                <Badge variant="secondary">{diff.unchangedCount} unchanged</Badge>
+              </div>
+              {diff.added.length + diff.removed.length + diff.changed.length > 0 && (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-28">Change</TableHead>
+                        <TableHead>Keyword</TableHead>
+                        <TableHead className="w-32">Match Mode</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.added.slice(0, MAX_DIFF_ROWS).map(rule => (
+                        <TableRow key={`added-${rule.matchMode}-${rule.keyword}`}>
+                          <TableCell>Added</TableCell>
+                          <TableCell className="font-mono">{rule.keyword}</TableCell>
+                          <TableCell>{rule.matchMode}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{describeRule(rule)}</TableCell>
+                        </TableRow>
+                      ))}
+                      {diff.removed.slice(0, MAX_DIFF_ROWS).map(rule => (
+                        <TableRow key={`removed-${rule.matchMode}-${rule.keyword}`}>
+                          <TableCell>Removed</TableCell>
+                          <TableCell className="font-mono">{rule.keyword}</TableCell>
+                          <TableCell>{rule.matchMode}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{describeRule(rule)}</TableCell>
+                        </TableRow>
+                      ))}
+                      {diff.changed.slice(0, MAX_DIFF_ROWS).map(({ before, after }) => (
+                        <TableRow key={`changed-${after.matchMode}-${after.keyword}`}>
+                          <TableCell>Changed</TableCell>
+                          <TableCell className="font-mono">{after.keyword}</TableCell>
+                          <TableCell>{after.matchMode}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {describeRule(before)} → {describeRule(after)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExclusionProfileManager;
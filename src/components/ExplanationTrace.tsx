@@ -0,0 +1,60 @@
+import { Badge } from "@/components/ui/badge";
+import { ClassificationExplanation, ExplanationStepOutcome } from "@/lib/types";
+
+interface ExplanationTraceProps {
+  explanation: ClassificationExplanation;
+}
+
+const OUTCOME_LABELS: Record<ExplanationStepOutcome, string> = {
+  accepted: 'Accepted',
+  'below-cutoff': 'Below cutoff',
+  'no-opinion': 'No opinion',
+  skipped: 'Skipped',
+  error: 'Error'
+};
+
+const ExplanationTrace = ({ explanation }: ExplanationTraceProps) => {
+  const { steps, features } = explanation;
+  const firedFeatures = [...features.deterministic, ...features.advanced.map(name => `advanced.${name}`)];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">{explanation.summary}</p>
+
+      {steps.length > 0 && (
+        <ol className="space-y-2">
+          {steps.map((step, index) => (
+            <li key={`${step.stageId}-${index}`} className="rounded-md border p-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{index + 1}. {step.label}</span>
+                <Badge variant={step.outcome === 'accepted' ? 'default' : 'outline'}>
+                  {OUTCOME_LABELS[step.outcome]}
+                </Badge>
+              </div>
+              {step.classification && (
+                <p className="text-muted-foreground">
+                  {step.classification} at {step.confidence}% (cutoff {step.cutoff}%)
+                </p>
+              )}
+              {step.reasoning && <p className="text-muted-foreground">{step.reasoning}</p>}
+              {step.matchingRules && (
+                <p className="text-muted-foreground">Rules: {step.matchingRules.join(', ')}</p>
+              )}
+              {step.error && <p className="text-destructive">{step.error}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div>
+        <h5 className="text-sm font-medium mb-1">Features that fired</h5>
+        <p className="text-sm text-muted-foreground">
+          {firedFeatures.length > 0 ? firedFeatures.join(', ') : 'None'}
+          {features.values.token_count !== undefined && ` (${features.values.token_count} tokens)`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ExplanationTrace;
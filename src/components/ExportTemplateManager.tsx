@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { ArrowDown, ArrowUp, Download, Save, Trash, Upload, X } from "lucide-react";
+import {
+  EXPORT_FIELDS,
+  EXPORT_FIELD_IDS,
+  ExportFieldId,
+  ExportTemplate,
+  ExportTemplateColumn,
+  ExportValueFormat,
+  createStandardExportTemplate,
+  exportTemplateToJson,
+  parseExportTemplate
+} from "@/lib/classification/exporters";
+import {
+  deleteExportTemplate,
+  importExportTemplate,
+  listExportTemplates,
+  saveExportTemplate
+} from "@/lib/classification/exportTemplateStore";
+
+// Select value for starting a new template
+const NEW_TEMPLATE = "__new__";
+
+// Select value for a column written as the field's standard value
+const STANDARD_FORMAT = "__standard__";
+
+const FORMAT_LABELS: Record<ExportValueFormat, string> = {
+  code: "Code (B, I, G, T, N)",
+  decimal: "Decimal (0-1)",
+  'y-n': "Y / N",
+  boolean: "true / false",
+  date: "Date only"
+};
+
+interface ExportTemplateManagerProps {
+  onTemplatesChange: (selectedId?: string) => void;
+}
+
+const newDraft = (): ExportTemplate => ({ ...createStandardExportTemplate(), id: NEW_TEMPLATE, name: "" });
+
+function downloadJson(content: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const ExportTemplateManager = ({ onTemplatesChange }: ExportTemplateManagerProps) => {
+  const [templates, setTemplates] = useState<ExportTemplate[]>(() => listExportTemplates());
+  const [draft, setDraft] = useState<ExportTemplate>(newDraft);
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = (selectedId?: string) => {
+    setTemplates(listExportTemplates());
+    onTemplatesChange(selectedId);
+  };
+
+  const edit = (id: string) => {
+    setDraft(templates.find(template => template.id === id) || newDraft());
+  };
+
+  const updateColumn = (index: number, change: Partial<ExportTemplateColumn>) => {
+    setDraft(current => ({
+      ...current,
+      columns: current.columns.map((column, position) => position === index ? { ...column, ...change } : column)
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setDraft(current => {
+      const columns = [...current.columns];
+      const [column] = columns.splice(index, 1);
+      columns.splice(index + offset, 0, column);
+      return { ...current, columns };
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft(current => ({ ...current, columns: current.columns.filter((_, position) => position !== index) }));
+  };
+
+  const addColumn = (field: ExportFieldId) => {
+    setDraft(current => ({ ...current, columns: [...current.columns, { field }] }));
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveExportTemplate(draft.id === NEW_TEMPLATE ? { ...draft, id: "" } : draft);
+      setDraft(saved);
+      refresh(saved.id);
+      toast({
+        title: "Template Saved",
+        description: `"${saved.name}" writes ${saved.columns.length} result columns`,
+      });
+    } catch (error) {
+      showError("Invalid Template", error);
+    }
+  };
+
+  const handleDelete = () => {
+    deleteExportTemplate(draft.id);
+    setDraft(newDraft());
+    refresh();
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const template = importExportTemplate(parseExportTemplate(await file.text()));
+      setDraft(template);
+      refresh(template.id);
+      toast({
+        title: "Template Imported",
+        description: `Imported "${template.name}"`,
+      });
+    } catch (error) {
+      showError("Import Failed", error);
+    }
+  };
+
+  const unusedFields = EXPORT_FIELD_IDS.filter(field => !draft.columns.some(column => column.field === field));
+  const isSaved = draft.id !== NEW_TEMPLATE;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label>Template</Label>
+          <Select value={draft.id} onValueChange={edit}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={handleDelete} disabled={!isSaved}>
+          <Trash className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => downloadJson(exportTemplateToJson(draft), `${draft.name.replace(/[^\w-]+/g, '_') || 'export_template'}.json`)}
+          disabled={!isSaved}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          JSON
+        </Button>
+        <div>
+          <Label htmlFor="export-template-import" className="flex items-center gap-1">
+            <Upload className="h-4 w-4" />
+            Import JSON
+          </Label>
+          <Input
+            id="export-template-import"
+            type="file"
+            accept=".json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[180px]">
+          <Label htmlFor="export-template-name">Name</Label>
+          <Input
+            id="export-template-name"
+            placeholder="e.g. ERP vendor import"
+            value={draft.name}
+            onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+          />
+        </div>
+        <div className="w-[160px]">
+          <Label htmlFor="export-template-prefix">Column prefix</Label>
+          <Input
+            id="export-template-prefix"
+            placeholder="e.g. PC_"
+            value={draft.prefix || ""}
+            onChange={(e) => setDraft(current => ({ ...current, prefix: e.target.value }))}
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Checkbox
+            id="export-template-original"
+            checked={draft.includeOriginalColumns !== false}
+            onCheckedChange={(checked) => setDraft(current => ({ ...current, includeOriginalColumns: checked === true }))}
+          />
+          <Label htmlFor="export-template-original" className="text-sm">Keep original columns</Label>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Column name</TableHead>
+              <TableHead className="w-44">Format</TableHead>
+              <TableHead className="w-32" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {draft.columns.map((column, index) => {
+              const field = EXPORT_FIELDS[column.field];
+              return (
+                <TableRow key={column.field}>
+                  <TableCell className="text-sm">{field.label}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={column.header || ""}
+                      placeholder={field.header}
+                      onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {field.formats.length > 0 && (
+                      <Select
+                        value={column.format || STANDARD_FORMAT}
+                        onValueChange={(value) => updateColumn(index, { format: value === STANDARD_FORMAT ? undefined : value as ExportValueFormat })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={STANDARD_FORMAT}>Standard</SelectItem>
+                          {field.formats.map(format => (
+                            <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => moveColumn(index, -1)} disabled={index === 0} aria-label="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => moveColumn(index, 1)} disabled={index === draft.columns.length - 1} aria-label="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeColumn(index)} aria-label="Remove">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {unusedFields.length > 0 && (
+          <Select value="" onValueChange={(value) => addColumn(value as ExportFieldId)}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="Add a field" />
+            </SelectTrigger>
+            <SelectContent>
+              {unusedFields.map(field => (
+                <SelectItem key={field} value={field}>{EXPORT_FIELDS[field].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button onClick={handleSave} disabled={!draft.name.trim() || draft.columns.length === 0}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportTemplateManager;
@@ -7,25 +7,46 @@ import FileUploadHeader from "./file-upload/FileUploadHeader";
 import FileUploadInput from "./file-upload/FileUploadInput";
 import ValidationErrorDisplay from "./file-upload/ValidationErrorDisplay";
 import ColumnSelector from "./file-upload/ColumnSelector";
+import SheetSelector from "./file-upload/SheetSelector";
+import NameMappingSelector from "./file-upload/NameMappingSelector";
 import FileUploadActions from "./file-upload/FileUploadActions";
+import { describeNameMapping, PayeeNameMapping, SheetPayees } from "@/lib/fileValidation";
+import { SourceUpload, SourceWorkbookSheet } from "@/lib/types";
 
 interface FileUploadFormProps {
-  onDirectProcessing: (originalFileData: any[], selectedColumn: string) => Promise<void>;
+  onDirectProcessing: (originalFileData: any[], nameMapping: PayeeNameMapping, source: SourceUpload) => Promise<void>;
+  onStreamProcessing: (file: File, nameMapping: PayeeNameMapping) => Promise<void>;
+  onSheetsProcessing: (sheets: SheetPayees[], sourceSheets: SourceWorkbookSheet[], source: SourceUpload) => Promise<void>;
   isProcessing?: boolean;
 }
 
-const FileUploadForm = ({ onDirectProcessing, isProcessing = false }: FileUploadFormProps) => {
+const FileUploadForm = ({ onDirectProcessing, onStreamProcessing, onSheetsProcessing, isProcessing = false }: FileUploadFormProps) => {
   const { toast } = useToast();
 
   const {
     file,
     columns,
+    columnCandidates,
     selectedColumn,
     setSelectedColumn,
     validationStatus,
     fileInfo,
     fileError,
     validationResult,
+    isStreaming,
+    sheets,
+    selectedSheet,
+    selectSheet,
+    extraSheets,
+    setExtraSheets,
+    getSheetRun,
+    nameMode,
+    setNameMode,
+    nameTemplate,
+    setNameTemplate,
+    namePartColumns,
+    setNamePartColumns,
+    getNameMapping,
     validateFile,
     reset: resetValidation
   } = useFileValidation();
@@ -51,8 +72,10 @@ const FileUploadForm = ({ onDirectProcessing, isProcessing = false }: FileUpload
     }
   };
 
+  const nameMapping = getNameMapping();
+
   const handleSubmit = async () => {
-    if (!validationResult || !selectedColumn) {
+    if (!file || !validationResult || !nameMapping) {
       toast({
         title: "Validation Error",
         description: "Please select a valid column to process",
@@ -61,8 +84,15 @@ const FileUploadForm = ({ onDirectProcessing, isProcessing = false }: FileUpload
       return;
     }
 
-    console.log(`[FILE UPLOAD] Starting processing with column: ${selectedColumn}`);
-    await onDirectProcessing(validationResult.originalData, selectedColumn);
+    console.log(`[FILE UPLOAD] Starting processing with ${nameMapping.mode} name mapping: ${describeNameMapping(nameMapping)}`);
+    const sheetRun = getSheetRun();
+    if (sheetRun) {
+      await onSheetsProcessing(sheetRun.sheetPayees, sheetRun.sourceSheets, { file });
+    } else if (isStreaming) {
+      await onStreamProcessing(file, nameMapping);
+    } else {
+      await onDirectProcessing(validationResult.originalData, nameMapping, { file, sheetName: selectedSheet || undefined });
+    }
   };
 
   const handleReset = () => {
@@ -79,8 +109,8 @@ const FileUploadForm = ({ onDirectProcessing, isProcessing = false }: FileUpload
     !file || 
     validationStatus === 'validating' || 
     validationStatus === 'error' || 
-    !selectedColumn || 
-    !validationResult?.originalData?.length ||
+    !nameMapping || 
+    !(isStreaming || validationResult?.originalData?.length) ||
     isProcessing;
 
   const getProcessButtonText = () => {
@@ -99,13 +129,36 @@ const FileUploadForm = ({ onDirectProcessing, isProcessing = false }: FileUpload
 
         <ValidationErrorDisplay fileError={fileError} />
 
-        <ColumnSelector
+        <SheetSelector
+          sheets={sheets}
+          selectedSheet={selectedSheet}
+          onSheetChange={selectSheet}
+          extraSheets={extraSheets}
+          onExtraSheetsChange={setExtraSheets}
+        />
+
+        <NameMappingSelector
           columns={columns}
-          selectedColumn={selectedColumn}
-          onColumnChange={setSelectedColumn}
-          fileInfo={fileInfo}
+          mode={nameMode}
+          onModeChange={setNameMode}
+          template={nameTemplate}
+          onTemplateChange={setNameTemplate}
+          partColumns={namePartColumns}
+          onPartColumnsChange={setNamePartColumns}
+          mapping={nameMapping}
+          sampleRows={validationResult?.originalData.slice(0, 3) || []}
         />
 
+        {nameMode === 'column' && (
+          <ColumnSelector
+            columns={columns}
+            selectedColumn={selectedColumn}
+            onColumnChange={setSelectedColumn}
+            fileInfo={fileInfo}
+            candidates={columnCandidates}
+          />
+        )}
+
         <FileUploadActions
           isLoading={isProcessing}
           isRetrying={false}
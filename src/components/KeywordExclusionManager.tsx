@@ -1,20 +1,36 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 import { Plus, Edit, Trash } from "lucide-react";
 import {
-  loadExclusionKeywords,
-  validateExclusionKeywords,
+  loadExclusionRules,
   checkKeywordExclusion,
   ExclusionResult
 } from "@/lib/classification/keywordExclusion";
-import { EXCLUDED_KEYWORDS_STORAGE_KEY } from "@/lib/classification/enhancedKeywordExclusion";
+import { saveExclusionRules } from "@/lib/classification/enhancedKeywordExclusion";
+import { getActiveExclusionProfile } from "@/lib/classification/exclusionProfileStore";
+import ExclusionProfileManager from "./ExclusionProfileManager";
+import ExclusionImpactPreview from "./ExclusionImpactPreview";
+import {
+  EXCLUSION_CATEGORIES,
+  EXCLUSION_MATCH_MODES,
+  DEFAULT_FUZZY_THRESHOLD,
+  ExclusionCategory,
+  ExclusionMatchMode,
+  ExclusionProfile,
+  ExclusionRule,
+  createExclusionRule,
+  getExclusionRuleKey,
+  validateExclusionRule
+} from "@/lib/classification/exclusion";
 import {
   Table,
   TableBody,
@@ -24,151 +40,206 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
+const MATCH_MODE_LABELS: Record<ExclusionMatchMode, string> = {
+  'whole-word': 'Whole word',
+  prefix: 'Word prefix',
+  exact: 'Exact name',
+  regex: 'Regex',
+  fuzzy: 'Fuzzy'
+};
+
+const CATEGORY_LABELS: Record<ExclusionCategory, string> = {
+  bank: 'Bank',
+  utility: 'Utility',
+  insurer: 'Insurer',
+  government: 'Government',
+  other: 'Other'
+};
+
 const KeywordExclusionManager = () => {
-  const [keywords, setKeywords] = useState<string[]>([]);
+  const [activeProfile, setActiveProfile] = useState<ExclusionProfile | null>(null);
+  const [rules, setRules] = useState<ExclusionRule[]>([]);
   const [newKeyword, setNewKeyword] = useState("");
+  const [newMatchMode, setNewMatchMode] = useState<ExclusionMatchMode>('whole-word');
+  const [newCategory, setNewCategory] = useState<ExclusionCategory | 'auto'>('auto');
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
-  const [editingValue, setEditingValue] = useState("");
+  const [editingRule, setEditingRule] = useState<ExclusionRule | null>(null);
   const [testPayeeName, setTestPayeeName] = useState("");
   const [testResult, setTestResult] = useState<ExclusionResult | null>(null);
   const { toast } = useToast();
 
-  const loadKeywordsFromStorage = (): string[] => {
-    try {
-      const stored = localStorage.getItem(EXCLUDED_KEYWORDS_STORAGE_KEY);
-      return stored ? validateExclusionKeywords(JSON.parse(stored)) : [];
-    } catch (error) {
-      console.warn("Failed to load exclusion keywords", error);
-      return [];
-    }
+  const showProfile = (profile: ExclusionProfile) => {
+    setActiveProfile(profile);
+    setRules(profile.rules);
+    setEditingIndex(null);
+    setEditingRule(null);
+    setTestResult(null);
   };
 
-  const saveKeywordsToStorage = (list: string[]) => {
-    try {
-      localStorage.setItem(EXCLUDED_KEYWORDS_STORAGE_KEY, JSON.stringify(list));
-    } catch (error) {
-      console.warn("Failed to save exclusion keywords", error);
+  useEffect(() => {
+    // Reading the profiles creates the default one from a previously stored rule list
+    showProfile(getActiveExclusionProfile());
+  }, []);
+
+  const updateRules = (updatedRules: ExclusionRule[]) => {
+    setRules(updatedRules);
+    saveExclusionRules(updatedRules);
+    setActiveProfile(getActiveExclusionProfile());
+  };
+
+  // Error message for an invalid or duplicate rule, null when it can be saved
+  const checkRule = (rule: ExclusionRule, ignoreIndex?: number): string | null => {
+    const problem = validateExclusionRule(rule);
+    if (problem) return problem;
+    const key = getExclusionRuleKey(rule);
+    if (rules.some((existing, index) => index !== ignoreIndex && getExclusionRuleKey(existing) === key)) {
+      return "A rule with this keyword and match mode already exists";
     }
+    return null;
   };
 
-  useEffect(() => {
-      const stored = loadKeywordsFromStorage();
-      if (stored.length > 0) {
-        setKeywords(stored);
-      } else {
-        loadExclusionKeywords().then(setKeywords);
-      }
-  }, []);
+  const buildNewRule = (keyword: string, matchMode: ExclusionMatchMode, category: ExclusionCategory | 'auto') =>
+    createExclusionRule(keyword, {
+      matchMode,
+      ...(category !== 'auto' ? { category } : {}),
+      ...(matchMode === 'fuzzy' ? { fuzzyThreshold: DEFAULT_FUZZY_THRESHOLD } : {})
+    });
 
-  const handleAddKeyword = () => {
-    if (!newKeyword.trim()) {
-      toast({
-        title: "Invalid Keyword",
-        description: "Please enter a valid keyword",
-        variant: "destructive",
-      });
-      return;
+  // Rules as they would be after saving the keyword being typed or edited
+  const pendingChange = useMemo(() => {
+    if (editingIndex !== null && editingRule) {
+      const updatedRule = { ...editingRule, keyword: editingRule.keyword.trim() };
+      if (validateExclusionRule(updatedRule)) return null;
+      return {
+        label: `Editing "${rules[editingIndex].keyword}"`,
+        rules: rules.map((rule, index) => (index === editingIndex ? updatedRule : rule))
+      };
     }
+    if (!newKeyword.trim()) return null;
+    const rule = buildNewRule(newKeyword, newMatchMode, newCategory);
+    if (validateExclusionRule(rule)) return null;
+    return { label: `Adding "${rule.keyword}"`, rules: [...rules, rule] };
+  }, [rules, newKeyword, newMatchMode, newCategory, editingIndex, editingRule]);
 
-    const trimmedKeyword = newKeyword.trim();
-    if (keywords.some(k => k.toLowerCase() === trimmedKeyword.toLowerCase())) {
+  const handleAddKeyword = () => {
+    const rule = buildNewRule(newKeyword, newMatchMode, newCategory);
+    const problem = checkRule(rule);
+    if (problem) {
       toast({
-        title: "Duplicate Keyword",
-        description: "This keyword already exists",
+        title: "Invalid Rule",
+        description: problem,
         variant: "destructive",
       });
       return;
     }
 
-    const updatedKeywords = [...keywords, trimmedKeyword];
-    setKeywords(updatedKeywords);
-    saveKeywordsToStorage(updatedKeywords);
+    updateRules([...rules, rule]);
     setNewKeyword("");
     
     toast({
-      title: "Keyword Added",
-      description: `"${trimmedKeyword}" has been added to the exclusion list`,
+      title: "Rule Added",
+      description: `"${rule.keyword}" (${MATCH_MODE_LABELS[rule.matchMode].toLowerCase()}, ${CATEGORY_LABELS[rule.category].toLowerCase()}) has been added to the exclusion rules`,
     });
   };
 
   const handleEditKeyword = (index: number) => {
     setEditingIndex(index);
-    setEditingValue(keywords[index]);
+    setEditingRule({ ...rules[index] });
   };
 
   const handleSaveEdit = () => {
-    if (editingIndex === null) return;
+    if (editingIndex === null || !editingRule) return;
 
-    if (!editingValue.trim()) {
+    const updatedRule = { ...editingRule, keyword: editingRule.keyword.trim(), notes: editingRule.notes?.trim() || undefined };
+    const problem = checkRule(updatedRule, editingIndex);
+    if (problem) {
       toast({
-        title: "Invalid Keyword",
-        description: "Please enter a valid keyword",
+        title: "Invalid Rule",
+        description: problem,
         variant: "destructive",
       });
       return;
     }
 
-    const trimmedValue = editingValue.trim();
-    const updatedKeywords = [...keywords];
-    updatedKeywords[editingIndex] = trimmedValue;
-
-    setKeywords(updatedKeywords);
-    saveKeywordsToStorage(updatedKeywords);
+    const updatedRules = [...rules];
+    updatedRules[editingIndex] = updatedRule;
+    updateRules(updatedRules);
     setEditingIndex(null);
-    setEditingValue("");
+    setEditingRule(null);
 
     toast({
-      title: "Keyword Updated",
-      description: `Keyword has been updated to "${trimmedValue}"`,
+      title: "Rule Updated",
+      description: `Rule has been updated to "${updatedRule.keyword}"`,
     });
   };
 
   const handleCancelEdit = () => {
     setEditingIndex(null);
-    setEditingValue("");
+    setEditingRule(null);
+  };
+
+  // Mode, category and enabled changes apply immediately
+  const handleRuleChange = (index: number, changes: Partial<ExclusionRule>) => {
+    const updatedRule = { ...rules[index], ...changes };
+    if (changes.matchMode === 'fuzzy' && updatedRule.fuzzyThreshold === undefined) {
+      updatedRule.fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD;
+    }
+    const problem = checkRule(updatedRule, index);
+    if (problem) {
+      toast({
+        title: "Invalid Rule",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+    updateRules(rules.map((rule, i) => (i === index ? updatedRule : rule)));
   };
 
   const handleDeleteKeyword = (index: number) => {
-    const deletedKeyword = keywords[index];
-    const updatedKeywords = keywords.filter((_, i) => i !== index);
-    setKeywords(updatedKeywords);
-    saveKeywordsToStorage(updatedKeywords);
+    const deletedRule = rules[index];
+    updateRules(rules.filter((_, i) => i !== index));
 
     toast({
-      title: "Keyword Deleted",
-      description: `"${deletedKeyword}" has been removed from the exclusion list`,
+      title: "Rule Deleted",
+      description: `"${deletedRule.keyword}" has been removed from the exclusion rules`,
     });
   };
 
-  const handleTestPayee = () => {
-    if (!testPayeeName.trim()) {
+  const handleTestPayee = (payeeName: string) => {
+    if (!payeeName.trim()) {
       setTestResult(null);
       return;
     }
 
-    const result = checkKeywordExclusion(testPayeeName, keywords);
-    setTestResult(result);
+    setTestResult(checkKeywordExclusion(payeeName, rules));
   };
 
   const resetToDefaults = async () => {
-    const defaultKeywords = await loadExclusionKeywords();
-    setKeywords(defaultKeywords);
-    saveKeywordsToStorage(defaultKeywords);
+    const defaultRules = await loadExclusionRules();
+    updateRules(defaultRules.map(rule => ({ ...rule })));
     
     toast({
       title: "Reset Complete",
-      description: "Keyword exclusion list has been reset to defaults",
+      description: "Exclusion rules have been reset to defaults",
     });
   };
 
+  const enabledCount = rules.filter(rule => rule.enabled).length;
+
   return (
     <div className="space-y-6">
+      {activeProfile && (
+        <ExclusionProfileManager activeProfile={activeProfile} onActiveProfileChange={showProfile} />
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Keyword Exclusion Management</CardTitle>
           <CardDescription>
-            Manage keywords that will automatically exclude payees from being classified as individuals.
-            Payees containing these keywords will be classified as businesses.
+            Manage rules that will automatically exclude payees from being classified as individuals.
+            Each rule matches whole words, a word prefix, the exact name, a regular expression or a
+            fuzzy threshold. Payees matching an enabled rule will be classified as businesses.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -183,6 +254,33 @@ const KeywordExclusionManager = () => {
                 onKeyPress={(e) => e.key === 'Enter' && handleAddKeyword()}
               />
             </div>
+            <div>
+              <Label>Match Mode</Label>
+              <Select value={newMatchMode} onValueChange={(value) => setNewMatchMode(value as ExclusionMatchMode)}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXCLUSION_MATCH_MODES.map(mode => (
+                    <SelectItem key={mode} value={mode}>{MATCH_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Category</Label>
+              <Select value={newCategory} onValueChange={(value) => setNewCategory(value as ExclusionCategory | 'auto')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect</SelectItem>
+                  {EXCLUSION_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-end">
               <Button onClick={handleAddKeyword}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -196,17 +294,23 @@ const KeywordExclusionManager = () => {
               Reset to Defaults
             </Button>
             <Badge variant="secondary">
-              {keywords.length} keywords
+              {enabledCount} of {rules.length} rules enabled
             </Badge>
           </div>
         </CardContent>
       </Card>
 
+      <ExclusionImpactPreview
+        currentRules={rules}
+        proposedRules={pendingChange?.rules ?? null}
+        changeLabel={pendingChange?.label}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Test Keyword Exclusion</CardTitle>
           <CardDescription>
-            Test a payee name against the current exclusion keywords to see if it would be excluded.
+            Test a payee name against the current exclusion rules to see if it would be excluded.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -219,7 +323,7 @@ const KeywordExclusionManager = () => {
                 value={testPayeeName}
                 onChange={(e) => {
                   setTestPayeeName(e.target.value);
-                  handleTestPayee();
+                  handleTestPayee(e.target.value);
                 }}
               />
             </div>
@@ -237,6 +341,13 @@ const KeywordExclusionManager = () => {
                       <strong>Matched Keywords:</strong> {testResult.matchedKeywords.join(", ")}
                     </p>
                   )}
+                  {testResult.match && (
+                    <p>
+                      <strong>Rule:</strong> {MATCH_MODE_LABELS[testResult.match.rule.matchMode]} match on
+                      "{testResult.match.matchedText}" ({CATEGORY_LABELS[testResult.match.rule.category]}
+                      {testResult.match.rule.matchMode === 'fuzzy' && `, ${testResult.match.similarity.toFixed(1)}% similar`})
+                    </p>
+                  )}
                 </div>
               </AlertDescription>
             </Alert>
@@ -246,9 +357,10 @@ const KeywordExclusionManager = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Current Exclusion Keywords</CardTitle>
+          <CardTitle>Current Exclusion Rules</CardTitle>
           <CardDescription>
-            Click on any keyword to edit it, or use the delete button to remove it.
+            Change a rule's match mode, category or enabled state directly, use the edit button for the
+            keyword, threshold and notes, or the delete button to remove it.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -257,24 +369,87 @@ const KeywordExclusionManager = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead>Keyword</TableHead>
+                  <TableHead className="w-40">Match Mode</TableHead>
+                  <TableHead className="w-40">Category</TableHead>
+                  <TableHead className="w-20">Enabled</TableHead>
+                  <TableHead>Notes</TableHead>
                   <TableHead className="w-32">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {keywords.map((keyword, index) => (
-                  <TableRow key={index}>
+                {rules.map((rule, index) => (
+                  <TableRow key={getExclusionRuleKey(rule)} className={rule.enabled ? undefined : "opacity-60"}>
                     <TableCell>
-                      {editingIndex === index ? (
+                      {editingIndex === index && editingRule ? (
                         <div className="flex gap-2">
                           <Input
-                            value={editingValue}
-                            onChange={(e) => setEditingValue(e.target.value)}
+                            value={editingRule.keyword}
+                            onChange={(e) => setEditingRule({ ...editingRule, keyword: e.target.value })}
                             onKeyPress={(e) => {
                               if (e.key === 'Enter') handleSaveEdit();
                               if (e.key === 'Escape') handleCancelEdit();
                             }}
                             autoFocus
                           />
+                          {editingRule.matchMode === 'fuzzy' && (
+                            <Input
+                              className="w-20"
+                              type="number"
+                              min={0}
+                              max={100}
+                              title="Minimum similarity"
+                              value={editingRule.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD}
+                              onChange={(e) => setEditingRule({ ...editingRule, fuzzyThreshold: Number(e.target.value) })}
+                            />
+                          )}
+                        </div>
+                      ) : (
+                        <span className="font-mono">
+                          {rule.keyword}
+                          {rule.matchMode === 'fuzzy' && (
+                            <span className="text-muted-foreground"> ≥{rule.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD}%</span>
+                          )}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={rule.matchMode} onValueChange={(value) => handleRuleChange(index, { matchMode: value as ExclusionMatchMode })}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXCLUSION_MATCH_MODES.map(mode => (
+                            <SelectItem key={mode} value={mode}>{MATCH_MODE_LABELS[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select value={rule.category} onValueChange={(value) => handleRuleChange(index, { category: value as ExclusionCategory })}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXCLUSION_CATEGORIES.map(category => (
+                            <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(checked) => handleRuleChange(index, { enabled: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {editingIndex === index && editingRule ? (
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Optional note"
+                            value={editingRule.notes || ''}
+                            onChange={(e) => setEditingRule({ ...editingRule, notes: e.target.value })}
+                          />
                           <Button size="sm" onClick={handleSaveEdit}>
                             Save
                           </Button>
@@ -283,7 +458,7 @@ const KeywordExclusionManager = () => {
                           </Button>
                         </div>
                       ) : (
-                        <span className="font-mono">{keyword}</span>
+                        <span className="text-sm text-muted-foreground">{rule.notes}</span>
                       )}
                     </TableCell>
                     <TableCell>
@@ -0,0 +1,165 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { EntityClassification, PayeeClassification } from "@/lib/types";
+import { ENTITY_CLASSIFICATIONS } from "@/lib/classification/config";
+import {
+  ReviewReason,
+  applyCorrectionToResults,
+  buildReviewQueue,
+  saveCorrection
+} from "@/lib/classification/review";
+import ClassificationBadge, { EntityClassificationBadge } from "./ClassificationBadge";
+
+interface ReviewQueuePanelProps {
+  results: PayeeClassification[];
+  onResultsChange: (results: PayeeClassification[]) => void;
+}
+
+const REASON_LABELS: Record<ReviewReason, string> = {
+  'low-confidence': 'Low confidence',
+  'conflicting': 'Conflicting',
+  'fallback': 'Fallback'
+};
+
+const PAGE_SIZE = 25;
+
+interface ReviewDraft {
+  classification?: EntityClassification;
+  note: string;
+}
+
+const ReviewQueuePanel = ({ results, onResultsChange }: ReviewQueuePanelProps) => {
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const { toast } = useToast();
+
+  const queue = useMemo(() => buildReviewQueue(results), [results]);
+
+  const updateDraft = (id: string, update: Partial<ReviewDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { note: '', ...prev[id], ...update } }));
+  };
+
+  const handleSave = (item: PayeeClassification) => {
+    const draft = drafts[item.id] || { note: '' };
+    const classification = draft.classification || item.result.classification;
+
+    try {
+      const correction = saveCorrection(item.payeeName, classification, {
+        note: draft.note,
+        original: item.result
+      });
+      onResultsChange(applyCorrectionToResults(results, correction));
+      toast({
+        title: correction.action === 'flipped' ? "Label Corrected" : "Label Confirmed",
+        description: `${item.payeeName} will be classified as ${classification} in future runs.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Correction Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (queue.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Review Queue</CardTitle>
+        <CardDescription>
+          {queue.length} results need review. Confirmed or corrected labels are remembered and override
+          classification in every future batch.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payee Name</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Why</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.slice(0, visibleCount).map(({ result: item, reasons, conflictingClassifications }) => {
+                const draft = drafts[item.id];
+                const selected = draft?.classification || item.result.classification;
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.payeeName}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <EntityClassificationBadge classification={item.result.classification} />
+                        <ClassificationBadge confidence={item.result.confidence} />
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {reasons.map(reason => (
+                          <Badge key={reason} variant="outline" title={
+                            reason === 'conflicting' ? `Also classified as ${conflictingClassifications?.join(', ')}` : undefined
+                          }>
+                            {REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={selected}
+                        onValueChange={(value) => updateDraft(item.id, { classification: value as EntityClassification })}
+                      >
+                        <SelectTrigger className="w-[140px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ENTITY_CLASSIFICATIONS.map(classification => (
+                            <SelectItem key={classification} value={classification}>{classification}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8"
+                        placeholder="Optional note"
+                        value={draft?.note || ''}
+                        onChange={(e) => updateDraft(item.id, { note: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant={selected === item.result.classification ? 'outline' : 'default'} onClick={() => handleSave(item)}>
+                        {selected === item.result.classification ? 'Confirm' : 'Correct'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        {queue.length > visibleCount && (
+          <div className="flex justify-center mt-4">
+            <Button variant="ghost" size="sm" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+              Show more ({queue.length - visibleCount} remaining)
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewQueuePanel;
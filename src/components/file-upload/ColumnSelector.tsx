@@ -1,17 +1,25 @@
-
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PayeeColumnCandidate } from "@/lib/fileValidation/types";
 
 interface ColumnSelectorProps {
   columns: string[];
   selectedColumn: string;
   onColumnChange: (value: string) => void;
   fileInfo: { rowCount?: number; payeeCount?: number } | null;
+  candidates?: PayeeColumnCandidate[]; // Ranked best first; columns are listed in this order when given
 }
 
-const ColumnSelector = ({ columns, selectedColumn, onColumnChange, fileInfo }: ColumnSelectorProps) => {
+const ColumnSelector = ({ columns, selectedColumn, onColumnChange, fileInfo, candidates = [] }: ColumnSelectorProps) => {
   if (columns.length === 0) return null;
 
+  const scores = new Map(candidates.map(candidate => [candidate.column, candidate]));
+  const ranked = [
+    ...candidates.map(candidate => candidate.column).filter(column => columns.includes(column)),
+    ...columns.filter(column => !scores.has(column))
+  ];
+  const selected = scores.get(selectedColumn);
+
   return (
     <div className="space-y-2">
       <Label htmlFor="column-select">Payee column</Label>
@@ -20,13 +28,18 @@ const ColumnSelector = ({ columns, selectedColumn, onColumnChange, fileInfo }: C
           <SelectValue placeholder="Select column" />
         </SelectTrigger>
         <SelectContent>
-          {columns.map((column) => (
+          {ranked.map((column) => (
             <SelectItem key={column} value={column}>
-              {column}
+              {column}{scores.has(column) ? ` (${scores.get(column)!.score}% match)` : ''}
             </SelectItem>
           ))}
         </SelectContent>
       </Select>
+      {selected && selected.reasons.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {selected.score}% match: {selected.reasons.join(', ')}
+        </p>
+      )}
       {fileInfo && selectedColumn && (
         <p className="text-xs text-muted-foreground">
           {fileInfo.rowCount} rows, {fileInfo.payeeCount} unique payees
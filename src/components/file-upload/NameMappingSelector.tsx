@@ -0,0 +1,116 @@
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { extractMappedPayees, NAME_PART_TAGS } from "@/lib/fileValidation";
+import { NamePartTag, PayeeNameMapping } from "@/lib/fileValidation/types";
+
+// Select value for a name part that is not mapped to any column
+const NO_COLUMN = "__none__";
+
+const NAME_PART_LABELS: Record<NamePartTag, string> = {
+  GivenName: "First name",
+  MiddleName: "Middle name",
+  Surname: "Last name",
+  SuffixGenerational: "Suffix"
+};
+
+interface NameMappingSelectorProps {
+  columns: string[];
+  mode: PayeeNameMapping['mode'];
+  onModeChange: (value: PayeeNameMapping['mode']) => void;
+  template: string;
+  onTemplateChange: (value: string) => void;
+  partColumns: Partial<Record<NamePartTag, string>>;
+  onPartColumnsChange: (value: Partial<Record<NamePartTag, string>>) => void;
+  mapping: PayeeNameMapping | null;
+  sampleRows: Record<string, unknown>[]; // First rows of the file, for the preview
+}
+
+const NameMappingSelector = ({
+  columns,
+  mode,
+  onModeChange,
+  template,
+  onTemplateChange,
+  partColumns,
+  onPartColumnsChange,
+  mapping,
+  sampleRows
+}: NameMappingSelectorProps) => {
+  if (columns.length < 2) return null;
+
+  const getPreview = () => {
+    if (!mapping || mapping.mode === 'column' || sampleRows.length === 0) return [];
+    try {
+      return extractMappedPayees(sampleRows, mapping).payeeNames;
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  };
+  const preview = getPreview();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="name-mode-select">Payee name from</Label>
+      <Select value={mode} onValueChange={(value) => onModeChange(value as PayeeNameMapping['mode'])}>
+        <SelectTrigger id="name-mode-select">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="column">One column</SelectItem>
+          <SelectItem value="template">Several columns, joined with a template</SelectItem>
+          <SelectItem value="parts">First, middle and last name columns</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === 'template' && (
+        <div className="space-y-1">
+          <Input
+            id="name-template"
+            value={template}
+            onChange={(e) => onTemplateChange(e.target.value)}
+            placeholder={`{${columns[1]}}, {${columns[0]}}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            Put column names in braces, e.g. {"{Last}, {First}"}. Columns: {columns.join(', ')}
+          </p>
+        </div>
+      )}
+
+      {mode === 'parts' && (
+        <div className="grid grid-cols-2 gap-2">
+          {NAME_PART_TAGS.map((tag) => (
+            <div key={tag} className="space-y-1">
+              <Label htmlFor={`name-part-${tag}`} className="text-xs">{NAME_PART_LABELS[tag]}</Label>
+              <Select
+                value={partColumns[tag] || NO_COLUMN}
+                onValueChange={(value) => onPartColumnsChange({ ...partColumns, [tag]: value === NO_COLUMN ? undefined : value })}
+              >
+                <SelectTrigger id={`name-part-${tag}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COLUMN}>Not used</SelectItem>
+                  {columns.map((column) => (
+                    <SelectItem key={column} value={column}>
+                      {column}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Preview: {preview.join(' | ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NameMappingSelector;
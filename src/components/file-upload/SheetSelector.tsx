@@ -0,0 +1,61 @@
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WorkbookSheetInfo } from "@/lib/fileValidation/types";
+
+interface SheetSelectorProps {
+  sheets: WorkbookSheetInfo[];
+  selectedSheet: string;
+  onSheetChange: (value: string) => void;
+  extraSheets: string[];
+  onExtraSheetsChange: (value: string[]) => void;
+}
+
+const SheetSelector = ({ sheets, selectedSheet, onSheetChange, extraSheets, onExtraSheetsChange }: SheetSelectorProps) => {
+  if (sheets.length < 2) return null;
+
+  const otherSheets = sheets.filter(sheet => sheet.name !== selectedSheet);
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    onExtraSheetsChange(checked ? [...extraSheets, name] : extraSheets.filter(sheet => sheet !== name));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="sheet-select">Sheet</Label>
+      <Select value={selectedSheet} onValueChange={onSheetChange}>
+        <SelectTrigger id="sheet-select">
+          <SelectValue placeholder="Select sheet" />
+        </SelectTrigger>
+        <SelectContent>
+          {sheets.map((sheet) => (
+            <SelectItem key={sheet.name} value={sheet.name}>
+              {sheet.name} ({sheet.rowCount} rows)
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">
+          Also classify in the same run (uses the payee column below where the sheet has it)
+        </p>
+        {otherSheets.map((sheet, index) => (
+          <div key={sheet.name} className="flex items-center gap-2">
+            <Checkbox
+              id={`extra-sheet-${index}`}
+              checked={extraSheets.includes(sheet.name)}
+              onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+              disabled={sheet.rowCount === 0}
+            />
+            <Label htmlFor={`extra-sheet-${index}`} className="text-sm font-normal">
+              {sheet.name} ({sheet.rowCount} rows)
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SheetSelector;
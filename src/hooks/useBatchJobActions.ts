@@ -1,10 +1,11 @@
 import { useState } from "react";
 import { getBatchJobResults, cancelBatchJob } from "@/lib/types/batchJob";
-import { PayeeClassification, BatchProcessingResult } from "@/lib/types";
+import { PayeeClassification, BatchProcessingResult, UnclassifiedRow } from "@/lib/types";
 import { createPayeeClassification } from "@/lib/utils";
 import { handleError, showErrorToast, showRetryableErrorToast } from "@/lib/errorHandler";
 import { useRetry } from "@/hooks/useRetry";
-import { checkKeywordExclusion } from "@/lib/classification/enhancedKeywordExclusion";
+import { bulkKeywordExclusion } from "@/lib/classification/enhancedKeywordExclusion";
+import { getManualOverride } from "@/lib/classification/review";
 import { StoredBatchJob, isValidBatchJobId } from "@/lib/storage/batchJobStorage";
 
 interface UseBatchJobActionsProps {
@@ -105,56 +106,60 @@ export const useBatchJobActions = ({
       // Create sequential row indexes to guarantee 1:1 correspondence
       const originalRowIndexes = Array.from({ length: payeeNames.length }, (_, i) => i);
 
-      // Get raw results from offline processing with guaranteed index alignment
+      // Get results from the batch job engine with guaranteed index alignment
       const rawResults = await downloadResultsWithRetry(job, payeeNames, originalRowIndexes);
       
       console.log(`[BATCH MANAGER] Processing ${rawResults.length} results with PERFECT alignment`);
       
+      const keywordExclusions = bulkKeywordExclusion(payeeNames);
+      const unclassifiedRows: UnclassifiedRow[] = [];
+
       // Process results maintaining exact 1:1 correspondence
-      const classifications = payeeNames.map((name, arrayIndex) => {
+      const classifications = payeeNames.flatMap((name, arrayIndex): PayeeClassification[] => {
         const rawResult = rawResults[arrayIndex];
         const originalRowIndex = arrayIndex; // Perfect 1:1 correspondence
         const originalRowData = originalFileData[arrayIndex] || {};
         
         console.log(`[BATCH MANAGER] Processing row ${arrayIndex}: "${name}" with guaranteed alignment`);
+
+        // Rows the job skipped, such as blank names, are exported as Unclassified
+        if (rawResult?.status === 'unclassified') {
+          unclassifiedRows.push({ rowIndex: originalRowIndex, reason: rawResult.reason });
+          return [];
+        }
         
-        // Apply keyword exclusion check
-        const keywordExclusion = checkKeywordExclusion(name);
-        
-        // Create classification result - NO FALLBACKS
-        let classification: 'Business' | 'Individual' = 'Individual';
-        let confidence = 50;
-        let reasoning = 'Default classification';
-        let processingTier: any = 'Default';
-        
+        // Corrections and keyword exclusions live in this page's storage, which the
+        // job worker cannot read, so they are applied here
+        const manualOverride = getManualOverride(name);
+        if (manualOverride) {
+          return [createPayeeClassification(name, manualOverride, originalRowData, originalRowIndex)];
+        }
+        const keywordExclusion = keywordExclusions.get(name)!;
+
         if (keywordExclusion.isExcluded) {
-          // Override with keyword exclusion
-          classification = 'Business';
-          confidence = keywordExclusion.confidence;
-          reasoning = keywordExclusion.reasoning;
-          processingTier = 'Excluded';
-        } else if (rawResult?.status === 'success') {
-          // Use offline result
-          classification = rawResult.classification || 'Individual';
-          confidence = rawResult.confidence || 50;
-          reasoning = rawResult.reasoning || 'Offline classification';
-          processingTier = 'Rule-Based';
-        } else if (rawResult?.status === 'error') {
-          // Handle API errors properly
-          classification = 'Individual';
-          confidence = 0;
-          reasoning = `Processing Error: ${rawResult.error || 'Unknown error'}`;
-          processingTier = 'Failed';
+          return [createPayeeClassification(name, {
+            classification: 'Business',
+            confidence: keywordExclusion.confidence,
+            reasoning: keywordExclusion.reasoning,
+            processingTier: 'Excluded',
+            keywordExclusion,
+            processingMethod: 'Keyword Exclusion'
+          }, originalRowData, originalRowIndex)];
         }
-        
-        return createPayeeClassification(name, {
-          classification,
-          confidence,
-          reasoning,
-          processingTier,
+
+        if (rawResult?.status === 'success') {
+          // Keep the engine's full result so tier, method and scores survive
+          return [createPayeeClassification(name, { ...rawResult.result, keywordExclusion }, originalRowData, originalRowIndex)];
+        }
+
+        return [createPayeeClassification(name, {
+          classification: 'Individual',
+          confidence: 0,
+          reasoning: `Processing Error: ${rawResult?.status === 'error' ? rawResult.error : 'No result returned'}`,
+          processingTier: 'Failed',
           keywordExclusion,
-          processingMethod: keywordExclusion.isExcluded ? 'Keyword Exclusion' : 'Offline Rule-Based'
-        }, originalRowData, originalRowIndex);
+          processingMethod: 'Batch Job'
+        }, originalRowData, originalRowIndex)];
       });
 
       const successCount = classifications.filter(c => 
@@ -172,7 +177,8 @@ export const useBatchJobActions = ({
         results: classifications,
         successCount,
         failureCount,
-        originalFileData
+        originalFileData,
+        ...(unclassifiedRows.length ? { unclassifiedRows } : {})
       };
 
       onJobComplete(classifications, summary, job.id);
@@ -1,6 +1,6 @@
 
 import { useState, useEffect, useRef } from 'react';
-import { BatchJob, checkBatchJobStatus } from '@/lib/types/batchJob';
+import { BatchJob, checkBatchJobStatus, subscribeToBatchJobs } from '@/lib/types/batchJob';
 import { useToast } from '@/components/ui/use-toast';
 
 interface PollingState {
@@ -19,6 +19,9 @@ export const useBatchJobPolling = (
   const [pollingStates, setPollingStates] = useState<Record<string, PollingState>>({});
   const intervalRefs = useRef<Record<string, NodeJS.Timeout>>({});
   const { toast } = useToast();
+  const latest = useRef({ jobs, onJobUpdate, toast });
+  latest.current = { jobs, onJobUpdate, toast };
+  const jobIdsKey = jobs.map(job => job.id).join(',');
 
   // Cleanup function to clear all intervals
   const cleanupPolling = () => {
@@ -206,6 +209,37 @@ export const useBatchJobPolling = (
     }));
   };
 
+  // Live updates from the job engine for jobs in the list. Unfinished jobs are
+  // re-read once when the list changes so updates sent before they were added,
+  // or jobs interrupted by a reload, are not left showing a stale status.
+  useEffect(() => {
+    const jobIds = new Set(jobIdsKey.split(','));
+    const unsubscribe = subscribeToBatchJobs(job => {
+      if (!jobIds.has(job.id)) return;
+      latest.current.onJobUpdate(job);
+      if (job.status === 'completed') {
+        latest.current.toast({
+          title: "Batch Job Completed",
+          description: `Job ${job.id.slice(-8)} has finished processing.`,
+        });
+      }
+    });
+
+    latest.current.jobs
+      .filter(job => ['validating', 'in_progress', 'finalizing'].includes(job.status))
+      .forEach(job => {
+        checkBatchJobStatus(job.id)
+          .then(current => {
+            if (current.status !== job.status || current.request_counts.completed !== job.request_counts.completed) {
+              latest.current.onJobUpdate(current);
+            }
+          })
+          .catch(error => console.warn(`[POLLING] Could not sync job ${job.id}:`, error));
+      });
+
+    return unsubscribe;
+  }, [jobIdsKey]);
+
   // NO AUTO-START - only manual refresh triggers polling
   // Cleanup on unmount
   useEffect(() => {
@@ -42,13 +42,12 @@ export const useFileUpload = ({ onBatchJobCreated }: UseFileUploadProps) => {
       });
 
       // Import the batch job creation function
-      const { createMockBatchJob } = await import("@/lib/types/batchJob");
+      const { createBatchJob } = await import("@/lib/types/batchJob");
       
-      // Create a mock batch job
-      const batchJob = createMockBatchJob(
-        validationResult.payeeNames,
-        `Payee classification for ${validationResult.payeeNames.length} payees from ${selectedColumn} column`
-      );
+      // Queue the job; it runs in the background and reports progress to the job list
+      const batchJob = await createBatchJob(validationResult.payeeNames, {
+        description: `Payee classification for ${validationResult.payeeNames.length} payees from ${selectedColumn} column`
+      });
 
       await onBatchJobCreated(
         batchJob,
@@ -1,41 +1,144 @@
 
-import { useState } from "react";
-import { parseUploadedFile } from "@/lib/fileValidation";
-import { validateFile, validatePayeeData } from "@/lib/fileValidation";
-import { ValidationResult } from "@/lib/fileValidation/types";
+import { useRef, useState } from "react";
+import type { WorkBook } from "xlsx";
+import { parseUploadedFile, readTabularSample, detectInputFormat, EMPTY_PAYEE_NAME, STREAMING_THRESHOLD_BYTES } from "@/lib/fileValidation";
+import { validateFile, validatePayeeData, validateWorkbookSheets } from "@/lib/fileValidation";
+import {
+  captureSourceSheets,
+  extractSheetPayees,
+  findPayeeSheet,
+  COLUMN_PROFILE_SAMPLE_ROWS,
+  getWorkbookSheet,
+  mappingColumns,
+  rankPayeeColumns,
+  readSheetHeaders,
+  readSheetRows,
+  readWorkbook
+} from "@/lib/fileValidation";
+import { NamePartTag, PayeeColumnCandidate, PayeeNameMapping, ValidationResult, WorkbookSheetInfo } from "@/lib/fileValidation/types";
 import { handleError, showErrorToast } from "@/lib/errorHandler";
 import { useToast } from "@/components/ui/use-toast";
 
+// The best-ranked candidate is preselected unless no column scores above zero
+const bestPayeeColumn = (candidates: PayeeColumnCandidate[]) =>
+  candidates[0] && candidates[0].score > 0 ? candidates[0].column : undefined;
+
 export const useFileValidation = () => {
   const [file, setFile] = useState<File | null>(null);
   const [columns, setColumns] = useState<string[]>([]);
+  // Columns ranked by how likely they are to hold payee names, with the reasons
+  const [columnCandidates, setColumnCandidates] = useState<PayeeColumnCandidate[]>([]);
   const [selectedColumn, setSelectedColumn] = useState<string>("");
   const [validationStatus, setValidationStatus] = useState<'none' | 'validating' | 'valid' | 'error'>('none');
   const [fileInfo, setFileInfo] = useState<{ rowCount?: number; payeeCount?: number } | null>(null);
   const [originalFileData, setOriginalFileData] = useState<any[]>([]);
   const [fileError, setFileError] = useState<string | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  // Large files are not loaded up front; their rows are read while classifying
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Uploaded workbook, kept so another sheet can be picked without reading the file again
+  const workbookRef = useRef<WorkBook | null>(null);
+  const [sheets, setSheets] = useState<WorkbookSheetInfo[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState("");
+  const [extraSheets, setExtraSheets] = useState<string[]>([]);
+  // How payee names are built: the selected column, a template, or separate name-part columns
+  const [nameMode, setNameMode] = useState<PayeeNameMapping['mode']>('column');
+  const [nameTemplate, setNameTemplate] = useState("");
+  const [namePartColumns, setNamePartColumns] = useState<Partial<Record<NamePartTag, string>>>({});
   const { toast } = useToast();
 
+  /**
+   * The name mapping for the current choices, or null while it uses no columns
+   */
+  const getNameMapping = (): PayeeNameMapping | null => {
+    const mapping: PayeeNameMapping = nameMode === 'template'
+      ? { mode: 'template', template: nameTemplate }
+      : nameMode === 'parts'
+        ? { mode: 'parts', columns: namePartColumns }
+        : { mode: 'column', column: selectedColumn };
+    return mappingColumns(mapping).some(Boolean) ? mapping : null;
+  };
+
+  const clearNameMapping = () => {
+    setNameMode('column');
+    setNameTemplate("");
+    setNamePartColumns({});
+  };
+
+  const clearSheets = () => {
+    workbookRef.current = null;
+    setSheets([]);
+    setSelectedSheet("");
+    setExtraSheets([]);
+  };
+
+  // Columns and rows of one workbook sheet become the current selection
+  const showSheet = (workbook: WorkBook, sheetName: string) => {
+    const sheet = getWorkbookSheet(workbook, sheetName);
+    const headers = readSheetHeaders(sheet);
+    const rows = readSheetRows(sheet);
+    const candidates = rankPayeeColumns(rows);
+    const payeeColumn = bestPayeeColumn(candidates);
+
+    setSelectedSheet(sheetName);
+    setColumns(headers);
+    setColumnCandidates(candidates);
+    setSelectedColumn(payeeColumn || "");
+    setOriginalFileData(rows);
+    setFileInfo(null);
+    setValidationResult({
+      payeeNames: rows.map(row => String(row[payeeColumn || headers[0]] || '').trim() || EMPTY_PAYEE_NAME),
+      originalData: rows,
+      payeeColumnName: payeeColumn
+    });
+    return { headers, rows, payeeColumn };
+  };
+
+  const selectSheet = (sheetName: string) => {
+    if (!workbookRef.current) return;
+    showSheet(workbookRef.current, sheetName);
+    setExtraSheets(current => current.filter(name => name !== sheetName));
+  };
+
+  /**
+   * Payees of the selected sheet and any extra sheets, with the workbook layout for the
+   * export; null unless the upload is a workbook with more than one sheet
+   */
+  const getSheetRun = () => {
+    const workbook = workbookRef.current;
+    if (!workbook || sheets.length < 2) return null;
+    const names = sheets.map(sheet => sheet.name).filter(name => name === selectedSheet || extraSheets.includes(name));
+    const sheetPayees = extractSheetPayees(workbook, names, getNameMapping() ?? undefined);
+    return { sheetPayees, sourceSheets: captureSourceSheets(workbook, sheetPayees.map(sheet => sheet.sheetName)) };
+  };
+
   const resetValidation = () => {
     setFile(null);
     setColumns([]);
+    setColumnCandidates([]);
     setSelectedColumn("");
     setFileError(null);
     setValidationStatus('none');
     setFileInfo(null);
     setOriginalFileData([]);
     setValidationResult(null);
+    setIsStreaming(false);
+    clearSheets();
+    clearNameMapping();
   };
 
   const validateFileUpload = async (selectedFile: File) => {
     setFileError(null);
     setColumns([]);
+    setColumnCandidates([]);
     setSelectedColumn("");
     setValidationStatus('none');
     setFileInfo(null);
     setOriginalFileData([]);
     setValidationResult(null);
+    setIsStreaming(false);
+    clearSheets();
+    clearNameMapping();
     
     setValidationStatus('validating');
 
@@ -52,6 +155,62 @@ export const useFileValidation = () => {
       }
 
       setFile(selectedFile);
+
+      // Workbooks are loaded whole so every sheet can be listed and picked
+      if (detectInputFormat(selectedFile.name) === 'xlsx') {
+        const workbook = readWorkbook(await selectedFile.arrayBuffer());
+        const workbookValidation = validateWorkbookSheets(fileValidation, workbook);
+        if (!workbookValidation.isValid) {
+          throw workbookValidation.error;
+        }
+
+        const sheetName = findPayeeSheet(workbook)!;
+        workbookRef.current = workbook;
+        setSheets(workbookValidation.fileInfo?.sheets || []);
+        const { headers, rows, payeeColumn } = showSheet(workbook, sheetName);
+        if (headers.length === 0) {
+          throw new Error(`No columns found in sheet "${sheetName}"`);
+        }
+        setValidationStatus('valid');
+
+        const sheetCount = workbook.SheetNames.length;
+        toast({
+          title: "File Uploaded Successfully",
+          description: `${sheetCount > 1 ? `Found ${sheetCount} sheets; "${sheetName}" has` : 'Found'} ${headers.length} columns and ${rows.length} rows. ${payeeColumn ? `Auto-selected "${payeeColumn}" column.` : 'Please select the payee name column.'}`,
+        });
+
+        return { success: true, headers, fullData: rows };
+      }
+
+      if (selectedFile.size > STREAMING_THRESHOLD_BYTES) {
+        const { headers, rows: sampleRows } = await readTabularSample(
+          selectedFile,
+          detectInputFormat(selectedFile.name),
+          COLUMN_PROFILE_SAMPLE_ROWS
+        );
+        if (headers.length === 0) {
+          throw new Error('No columns found in the file');
+        }
+
+        // Columns are ranked on the first rows only
+        const candidates = rankPayeeColumns(sampleRows);
+        const payeeColumn = bestPayeeColumn(candidates);
+        setColumns(headers);
+        setColumnCandidates(candidates);
+        setIsStreaming(true);
+        if (payeeColumn) {
+          setSelectedColumn(payeeColumn);
+        }
+        setValidationResult({ payeeNames: [], originalData: [], payeeColumnName: payeeColumn });
+        setValidationStatus('valid');
+
+        toast({
+          title: "File Uploaded Successfully",
+          description: `Found ${headers.length} columns in a ${(selectedFile.size / 1024 / 1024).toFixed(0)}MB file; rows are read while classifying. ${payeeColumn ? `Auto-selected "${payeeColumn}" column.` : 'Please select the payee name column.'}`,
+        });
+
+        return { success: true, headers, fullData: [] };
+      }
       
       // Parse headers only to get column names
       const headers = await parseUploadedFile(selectedFile, true);
@@ -67,10 +226,9 @@ export const useFileValidation = () => {
       
       console.log(`[FILE VALIDATION] Stored ${fullData.length} rows of original data with ${headers.length} columns`);
       
-      // Auto-select column if it contains "payee" or "name"
-      const payeeColumn = headers.find(
-        col => col.toLowerCase().includes('payee') || col.toLowerCase().includes('name')
-      );
+      const candidates = rankPayeeColumns(fullData);
+      const payeeColumn = bestPayeeColumn(candidates);
+      setColumnCandidates(candidates);
       
       if (payeeColumn) {
         setSelectedColumn(payeeColumn);
@@ -80,7 +238,7 @@ export const useFileValidation = () => {
       const result: ValidationResult = {
         payeeNames: fullData.map(row => {
           const name = row[payeeColumn || headers[0]];
-          return String(name || '').trim() || '[Empty]';
+          return String(name || '').trim() || EMPTY_PAYEE_NAME;
         }),
         originalData: fullData,
         payeeColumnName: payeeColumn
@@ -124,7 +282,7 @@ export const useFileValidation = () => {
       // Extract payee names WITHOUT filtering to maintain 1:1 correspondence
       const payeeNames = originalFileData.map(row => {
         const name = row[selectedColumn];
-        return String(name || '').trim() || '[Empty]';
+        return String(name || '').trim() || EMPTY_PAYEE_NAME;
       });
       
       console.log(`[FILE VALIDATION] Maintaining exact 1:1 correspondence: ${originalFileData.length} rows = ${payeeNames.length} payees`);
@@ -155,6 +313,7 @@ export const useFileValidation = () => {
   return {
     file,
     columns,
+    columnCandidates,
     selectedColumn,
     setSelectedColumn,
     validationStatus,
@@ -162,6 +321,20 @@ export const useFileValidation = () => {
     originalFileData,
     fileError,
     validationResult,
+    isStreaming,
+    sheets,
+    selectedSheet,
+    selectSheet,
+    extraSheets,
+    setExtraSheets,
+    getSheetRun,
+    nameMode,
+    setNameMode,
+    nameTemplate,
+    setNameTemplate,
+    namePartColumns,
+    setNamePartColumns,
+    getNameMapping,
     resetValidation,
     validateFileUpload,
     validateSelectedData,
@@ -1,4 +1,4 @@
-import { ClassificationResult } from '../types';
+import { ClassificationResult, EntityClassification } from '../types';
 
 // Common first names for individual detection
 const COMMON_FIRST_NAMES = new Set([
@@ -8,7 +8,7 @@ const COMMON_FIRST_NAMES = new Set([
   'ANA', 'CARMEN', 'JOSEFA', 'ISABEL', 'DOLORES', 'PILAR', 'TERESA', 'ROSA', 'ANGELES'
 ]);
 
-interface ClassifierFeatures {
+export interface ClassifierFeatures {
   has_business_suffix: boolean;
   has_estate_or_trustee: boolean;
   has_honorific: boolean;
@@ -25,7 +25,7 @@ interface ClassifierFeatures {
 }
 
 interface ClassifierResult {
-  entity_type: 'individual' | 'business';
+  entity_type: 'individual' | 'business' | 'trust_estate';
   confidence: number;
   rationale: string;
 }
@@ -250,6 +250,13 @@ export class AdvancedPayeeClassifier {
     }
   }
 
+  /**
+   * Feature flags for a raw payee name, as used by the weighted score
+   */
+  public getFeatures(payeeName: string): ClassifierFeatures {
+    return this.extractFeatures(this.normalize(payeeName));
+  }
+
   /**
    * Main classification method
    */
@@ -268,6 +275,15 @@ export class AdvancedPayeeClassifier {
     
     // Step 5 & 6: Decision and confidence
     const result = this.makeDecision(score, libraryGuesses);
+
+    // Estate and trustee designations are reported as fiduciary payees
+    if (features.has_estate_or_trustee) {
+      return {
+        entity_type: 'trust_estate',
+        confidence: result.confidence,
+        rationale: 'Estate or trustee designation detected'
+      };
+    }
     
     return result;
   }
@@ -280,8 +296,14 @@ export function advancedClassifyPayee(payeeName: string): ClassificationResult {
   const classifier = new AdvancedPayeeClassifier();
   const result = classifier.classify(payeeName);
   
+  const classifications: Record<ClassifierResult['entity_type'], EntityClassification> = {
+    business: 'Business',
+    individual: 'Individual',
+    trust_estate: 'Trust/Estate'
+  };
+  
   return {
-    classification: result.entity_type === 'business' ? 'Business' : 'Individual',
+    classification: classifications[result.entity_type],
     confidence: Math.round(result.confidence * 100),
     reasoning: result.rationale,
     processingTier: 'AI-Powered',
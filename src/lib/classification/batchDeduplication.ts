@@ -1,9 +1,11 @@
 
 import { PayeeClassification } from '../types';
 import { calculateCombinedSimilarity } from './stringMatching';
+import { isEmptyPayeeName } from '../fileValidation';
 
 /**
- * Process and deduplicate payee names with fuzzy matching
+ * Process and deduplicate payee names with fuzzy matching. Rows with an empty or
+ * "[Empty]" name are not classified and are listed in skippedRows.
  */
 export function processPayeeDeduplication(
   payeeNames: string[],
@@ -14,15 +16,20 @@ export function processPayeeDeduplication(
   processQueue: Array<{ name: string; originalIndex: number; originalData?: any }>;
   results: PayeeClassification[];
   duplicateCache: Map<string, PayeeClassification>;
+  skippedRows: number[];
 } {
   const results: PayeeClassification[] = [];
   const processed = new Set<string>();
   const duplicateCache = new Map<string, PayeeClassification>();
   const processQueue: Array<{ name: string; originalIndex: number; originalData?: any }> = [];
+  const skippedRows: number[] = [];
 
   for (let i = 0; i < payeeNames.length; i++) {
     const name = payeeNames[i].trim();
-    if (!name) continue;
+    if (isEmptyPayeeName(name)) {
+      skippedRows.push(i);
+      continue;
+    }
 
     const normalizedName = name.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
 
@@ -76,5 +83,5 @@ export function processPayeeDeduplication(
 
   console.log(`[V3 Batch] After deduplication: ${processQueue.length} unique names to process (${payeeNames.length - processQueue.length} duplicates found)`);
 
-  return { processQueue, results, duplicateCache };
+  return { processQueue, results, duplicateCache, skippedRows };
 }
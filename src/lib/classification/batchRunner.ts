@@ -0,0 +1,286 @@
+import { BatchProcessingResult, ClassificationConfig, ClassificationResult, ParsedPerson, PayeeClassification, UnclassifiedRow } from '../types';
+import { DEFAULT_CLASSIFICATION_CONFIG } from './config';
+import { enhancedProcessBatchV3 } from './enhancedBatchProcessorV3';
+import { batchClassifyV4 } from './enhancedClassificationV4';
+import { calculateBatchStatistics } from './batchStatistics';
+import { getPipelinePreset } from './pipeline';
+import { getManualOverride } from './review';
+import { classifyNameParts } from './nlpClassification';
+import { isEmptyPayeeName } from '../fileValidation';
+import { stampExclusionProfile } from './exclusion';
+
+// Engines selectable from the CLI and the HTTP API
+export const CLASSIFICATION_ENGINES = ['v3', 'v4', 'deterministic', 'ensemble', 'rule-only'] as const;
+
+export type ClassificationEngine = typeof CLASSIFICATION_ENGINES[number];
+
+export const DEFAULT_RUN_CHUNK_SIZE = 500;
+
+const FAILED_TIERS: ClassificationResult['processingTier'][] = ['Failed', 'Error-Fallback'];
+
+export interface BatchRunOptions {
+  engine?: ClassificationEngine;
+  config?: ClassificationConfig;
+  originalFileData?: unknown[]; // One row per payee name, kept for the export
+  nameParts?: ParsedPerson[]; // One per payee name when the name came from separate name columns
+  chunkSize?: number;
+  signal?: AbortSignal; // Checked between chunks; an aborted run rejects with BatchRunCancelledError
+  onProgress?: (completed: number, total: number) => void;
+  // Each chunk as it finishes, with row indexes local to the chunk so it can be exported on its own
+  onChunk?: (chunk: BatchProcessingResult, offset: number) => void | Promise<void>;
+}
+
+export class BatchRunCancelledError extends Error {
+  constructor(public readonly completed: number, public readonly total: number) {
+    super(`Batch run cancelled after ${completed} of ${total} names`);
+    this.name = 'BatchRunCancelledError';
+  }
+}
+
+export function isClassificationEngine(value: string): value is ClassificationEngine {
+  return (CLASSIFICATION_ENGINES as readonly string[]).includes(value);
+}
+
+export const isFailedResult = (result: ClassificationResult): boolean =>
+  FAILED_TIERS.includes(result.processingTier);
+
+function toPayeeClassifications(
+  payeeNames: string[],
+  results: ClassificationResult[],
+  originalFileData?: unknown[]
+): PayeeClassification[] {
+  return results.map((result, index) => ({
+    id: `payee-${index}`,
+    payeeName: payeeNames[index],
+    result,
+    timestamp: new Date(),
+    originalData: originalFileData?.[index],
+    rowIndex: index
+  }));
+}
+
+/**
+ * Replace classifier verdicts with the person parser's verdict on the structured
+ * parts, for names whose parts mark a person. Excluded, overridden, failed and
+ * individual results are kept as they are.
+ */
+export function applyNameParts(results: PayeeClassification[], nameParts: ParsedPerson[]): PayeeClassification[] {
+  return results.map((item, index) => {
+    const { classification, processingTier } = item.result;
+    const parts = nameParts[item.rowIndex ?? index];
+    if (!parts || classification === 'Individual' || isFailedResult(item.result)) return item;
+    if (processingTier === 'Excluded' || processingTier === 'Manual-Override') return item;
+    const result = classifyNameParts(parts, item.payeeName);
+    return result ? { ...item, result } : item;
+  });
+}
+
+async function classifyWithPreset(
+  engine: 'deterministic' | 'ensemble' | 'rule-only',
+  payeeNames: string[],
+  config: ClassificationConfig
+): Promise<ClassificationResult[]> {
+  const pipeline = getPipelinePreset(engine);
+  const results: ClassificationResult[] = [];
+  for (const name of payeeNames) {
+    results.push(getManualOverride(name) || await pipeline.classify(name, config));
+  }
+  return results;
+}
+
+async function runEngine(
+  engine: ClassificationEngine,
+  payeeNames: string[],
+  config: ClassificationConfig,
+  originalFileData?: unknown[]
+): Promise<BatchProcessingResult> {
+  if (engine === 'v3') {
+    return enhancedProcessBatchV3(payeeNames, config, originalFileData);
+  }
+
+  const startTime = Date.now();
+  let results: ClassificationResult[];
+  switch (engine) {
+    case 'v4':
+      results = await batchClassifyV4(payeeNames, config);
+      break;
+    default:
+      results = await classifyWithPreset(engine, payeeNames, config);
+  }
+
+  const classifications = stampExclusionProfile(toPayeeClassifications(payeeNames, results, originalFileData), config.exclusionProfile);
+  const failureCount = results.filter(isFailedResult).length;
+  return {
+    results: classifications,
+    successCount: classifications.length - failureCount,
+    failureCount,
+    processingTime: Date.now() - startTime,
+    originalFileData
+  };
+}
+
+/**
+ * Run the engine on the names of a chunk that have one. Rows without a payee name
+ * (blank or "[Empty]") are not classified, whatever the engine, and are reported as
+ * unclassified rows; results keep their row index within the chunk.
+ */
+async function classifyChunk(
+  engine: ClassificationEngine,
+  payeeNames: string[],
+  config: ClassificationConfig,
+  originalFileData?: unknown[]
+): Promise<BatchProcessingResult> {
+  const named = payeeNames.flatMap((name, index) => isEmptyPayeeName(name) ? [] : [index]);
+  if (named.length === payeeNames.length) {
+    return runEngine(engine, payeeNames, config, originalFileData);
+  }
+
+  const chunk = named.length > 0
+    ? await runEngine(engine, named.map(index => payeeNames[index]), config, originalFileData && named.map(index => originalFileData[index]))
+    : { results: [], successCount: 0, failureCount: 0, processingTime: 0 };
+  const emptyRows = payeeNames.flatMap((name, rowIndex) => isEmptyPayeeName(name) ? [{ rowIndex, reason: 'empty-name' as const }] : []);
+  return {
+    ...chunk,
+    results: chunk.results.map(item => {
+      const rowIndex = named[item.rowIndex ?? 0];
+      return { ...item, id: `payee-${rowIndex}`, rowIndex };
+    }),
+    originalFileData,
+    unclassifiedRows: [...(chunk.unclassifiedRows ?? []).map(row => ({ ...row, rowIndex: named[row.rowIndex] })), ...emptyRows]
+      .sort((a, b) => a.rowIndex - b.rowIndex)
+  };
+}
+
+/**
+ * Classify a list of names with any engine, in chunks so callers can report progress
+ * and write output as it is produced. Row indexes in the combined result are global.
+ */
+export async function runBatchClassification(
+  payeeNames: string[],
+  options: BatchRunOptions = {}
+): Promise<BatchProcessingResult> {
+  const engine = options.engine || 'v3';
+  if (!isClassificationEngine(engine)) {
+    throw new Error(`Unknown classification engine "${engine}". Expected one of: ${CLASSIFICATION_ENGINES.join(', ')}`);
+  }
+  if (options.originalFileData && options.originalFileData.length !== payeeNames.length) {
+    throw new Error(`Data alignment error: ${payeeNames.length} payees but ${options.originalFileData.length} original rows`);
+  }
+  if (options.nameParts && options.nameParts.length !== payeeNames.length) {
+    throw new Error(`Data alignment error: ${payeeNames.length} payees but ${options.nameParts.length} name part rows`);
+  }
+
+  const config = options.config || DEFAULT_CLASSIFICATION_CONFIG;
+  const chunkSize = Math.max(1, options.chunkSize || DEFAULT_RUN_CHUNK_SIZE);
+  const startTime = Date.now();
+  const results: PayeeClassification[] = [];
+  const unclassifiedRows: UnclassifiedRow[] = [];
+  let deduplicationSavings = 0;
+  let retryCount = 0;
+  let cacheTotals: { hits: number; misses: number } | undefined;
+
+  options.onProgress?.(0, payeeNames.length);
+
+  for (let offset = 0; offset < payeeNames.length; offset += chunkSize) {
+    if (options.signal?.aborted) {
+      throw new BatchRunCancelledError(offset, payeeNames.length);
+    }
+    const names = payeeNames.slice(offset, offset + chunkSize);
+    const rows = options.originalFileData?.slice(offset, offset + chunkSize);
+    const chunk = await classifyChunk(engine, names, config, rows);
+    if (options.nameParts) {
+      chunk.results = applyNameParts(chunk.results, options.nameParts.slice(offset, offset + chunkSize));
+    }
+
+    await options.onChunk?.(chunk, offset);
+
+    results.push(...chunk.results.map(item => ({
+      ...item,
+      id: `payee-${offset + (item.rowIndex ?? 0)}`,
+      rowIndex: offset + (item.rowIndex ?? 0)
+    })));
+    unclassifiedRows.push(...(chunk.unclassifiedRows ?? []).map(row => ({ ...row, rowIndex: offset + row.rowIndex })));
+
+    const stats = chunk.enhancedStats;
+    deduplicationSavings += stats?.deduplicationSavings ?? 0;
+    retryCount += stats?.retryCount ?? 0;
+    if (stats?.cacheStats) {
+      cacheTotals = {
+        hits: (cacheTotals?.hits ?? 0) + stats.cacheStats.hits,
+        misses: (cacheTotals?.misses ?? 0) + stats.cacheStats.misses
+      };
+    }
+
+    options.onProgress?.(offset + names.length, payeeNames.length);
+  }
+
+  return createBatchRunResult(results, payeeNames.length, startTime, options.originalFileData, {
+    deduplicationSavings,
+    retryCount,
+    cacheTotals,
+    unclassifiedRows
+  });
+}
+
+/**
+ * Combined result and statistics for names classified in several parts
+ */
+export function createBatchRunResult(
+  results: PayeeClassification[],
+  payeeCount: number,
+  startTime: number,
+  originalFileData?: unknown[],
+  totals: {
+    deduplicationSavings?: number;
+    retryCount?: number;
+    cacheTotals?: { hits: number; misses: number };
+    unclassifiedRows?: UnclassifiedRow[];
+  } = {}
+): BatchProcessingResult {
+  const processingTime = Date.now() - startTime;
+  const failureCount = results.filter(item => isFailedResult(item.result)).length;
+  const enhancedStats = results.length > 0
+    ? {
+        ...calculateBatchStatistics(results, payeeCount, results, [], processingTime, totals.cacheTotals),
+        failedCount: failureCount,
+        deduplicationSavings: totals.deduplicationSavings ?? 0,
+        retryCount: totals.retryCount ?? 0
+      }
+    : undefined;
+
+  return {
+    results,
+    successCount: results.length - failureCount,
+    failureCount,
+    processingTime,
+    originalFileData,
+    enhancedStats,
+    ...(totals.unclassifiedRows?.length ? { unclassifiedRows: totals.unclassifiedRows } : {})
+  };
+}
+
+/**
+ * The same run with its counts and statistics recomputed for changed results, such as
+ * after reviewed corrections. Run-level figures (time, deduplication, retries, cache) are kept.
+ */
+export function recalculateBatchRunResult(
+  summary: BatchProcessingResult,
+  results: PayeeClassification[]
+): BatchProcessingResult {
+  const previous = summary.enhancedStats;
+  const recalculated = createBatchRunResult(results, results.length, Date.now() - (summary.processingTime ?? 0), summary.originalFileData, {
+    deduplicationSavings: previous?.deduplicationSavings,
+    retryCount: previous?.retryCount,
+    cacheTotals: previous?.cacheStats
+  });
+  return {
+    ...summary,
+    results,
+    successCount: recalculated.successCount,
+    failureCount: recalculated.failureCount,
+    enhancedStats: recalculated.enhancedStats && {
+      ...recalculated.enhancedStats,
+      processingTime: previous?.processingTime ?? recalculated.enhancedStats.processingTime
+    }
+  };
+}
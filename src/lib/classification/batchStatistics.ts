@@ -1,5 +1,6 @@
 
 import { PayeeClassification, EnhancedBatchStatistics } from '../types';
+import { CacheStats } from './cache';
 
 /**
  * Calculate comprehensive batch processing statistics
@@ -9,10 +10,14 @@ export function calculateBatchStatistics(
   totalPayees: number,
   processQueue: any[],
   retryQueue: any[],
-  processingTime: number
+  processingTime: number,
+  cacheStats?: Pick<CacheStats, 'hits' | 'misses'>
 ): EnhancedBatchStatistics {
   const businessCount = results.filter(r => r.result.classification === 'Business').length;
   const individualCount = results.filter(r => r.result.classification === 'Individual').length;
+  const governmentCount = results.filter(r => r.result.classification === 'Government').length;
+  const trustEstateCount = results.filter(r => r.result.classification === 'Trust/Estate').length;
+  const nonProfitCount = results.filter(r => r.result.classification === 'Non-Profit').length;
   const excludedCount = results.filter(r => r.result.processingTier === 'Excluded').length;
   const confidences = results.map(r => r.result.confidence);
   const averageConfidence = confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length;
@@ -27,6 +32,9 @@ export function calculateBatchStatistics(
     totalProcessed: results.length,
     businessCount,
     individualCount,
+    governmentCount,
+    trustEstateCount,
+    nonProfitCount,
     excludedCount,
     failedCount: 0, // NO FAILURES IN V3!
     averageConfidence,
@@ -36,7 +44,13 @@ export function calculateBatchStatistics(
     processingTierCounts: tierCounts,
     processingTime,
     deduplicationSavings: totalPayees - processQueue.length,
-    retryCount: retryQueue.length
+    retryCount: retryQueue.length,
+    cacheSavings: cacheStats?.hits ?? 0,
+    cacheStats: cacheStats && {
+      hits: cacheStats.hits,
+      misses: cacheStats.misses,
+      hitRate: cacheStats.hits + cacheStats.misses > 0 ? cacheStats.hits / (cacheStats.hits + cacheStats.misses) : 0
+    }
   };
 }
 
@@ -48,7 +62,10 @@ export function logBatchStatistics(
   results: PayeeClassification[]
 ): void {
   console.log(`[V3 Batch] Completed processing ${results.length} payees in ${stats.processingTime}ms`);
-  console.log(`[V3 Batch] Business: ${stats.businessCount}, Individual: ${stats.individualCount}, Excluded: ${stats.excludedCount}`);
+  console.log(`[V3 Batch] Business: ${stats.businessCount}, Individual: ${stats.individualCount}, Government: ${stats.governmentCount}, Trust/Estate: ${stats.trustEstateCount}, Non-Profit: ${stats.nonProfitCount}, Excluded: ${stats.excludedCount}`);
   console.log(`[V3 Batch] Average confidence: ${stats.averageConfidence.toFixed(1)}%`);
+  if (stats.cacheStats) {
+    console.log(`[V3 Batch] Cache: ${stats.cacheStats.hits} hits, ${stats.cacheStats.misses} misses (${(stats.cacheStats.hitRate * 100).toFixed(1)}% hit rate)`);
+  }
   console.log(`[V3 Batch] NO FAILURES - 100% success rate achieved!`);
 }
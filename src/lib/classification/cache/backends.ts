@@ -0,0 +1,124 @@
+import { logger } from '../../logger';
+import { CacheBackend, CachedClassification } from './types';
+
+const DB_NAME = 'payee-classification-cache';
+const STORE_NAME = 'results';
+
+/**
+ * Process-lifetime backend used when no persistent storage is available
+ */
+export function createMemoryCacheBackend(): CacheBackend {
+  let entries = new Map<string, CachedClassification>();
+  return {
+    name: 'memory',
+    loadAll: async () => Array.from(entries.values()),
+    write: async (upserts, deletedKeys) => {
+      deletedKeys.forEach(key => entries.delete(key));
+      upserts.forEach(entry => entries.set(entry.key, entry));
+    },
+    clear: async () => {
+      entries = new Map();
+    }
+  };
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Browser backend storing one record per cached name in IndexedDB
+ */
+export function createIndexedDbCacheBackend(dbName = DB_NAME): CacheBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async (mode: IDBTransactionMode, work: (store: IDBObjectStore) => void) => {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      work(transaction.objectStore(STORE_NAME));
+    });
+  };
+
+  return {
+    name: 'indexeddb',
+    loadAll: async () => {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return requestToPromise(store.getAll() as IDBRequest<CachedClassification[]>);
+    },
+    write: (upserts, deletedKeys) => withStore('readwrite', store => {
+      deletedKeys.forEach(key => store.delete(key));
+      upserts.forEach(entry => store.put(entry));
+    }),
+    clear: () => withStore('readwrite', store => store.clear())
+  };
+}
+
+/**
+ * Node backend persisting the whole cache as one JSON file
+ */
+export function createFileCacheBackend(filePath: string): CacheBackend {
+  let entries: Map<string, CachedClassification> | null = null;
+
+  const readEntries = async () => {
+    if (entries) return entries;
+    const { readFile } = await import('fs/promises');
+    entries = new Map();
+    try {
+      const list: CachedClassification[] = JSON.parse(await readFile(filePath, 'utf8'));
+      list.forEach(entry => entries!.set(entry.key, entry));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`[CACHE] Ignoring unreadable cache file ${filePath}:`, error);
+      }
+    }
+    return entries;
+  };
+
+  const writeEntries = async () => {
+    const { writeFile } = await import('fs/promises');
+    await writeFile(filePath, JSON.stringify(Array.from((await readEntries()).values())));
+  };
+
+  return {
+    name: `file:${filePath}`,
+    loadAll: async () => Array.from((await readEntries()).values()),
+    write: async (upserts, deletedKeys) => {
+      const current = await readEntries();
+      deletedKeys.forEach(key => current.delete(key));
+      upserts.forEach(entry => current.set(entry.key, entry));
+      await writeEntries();
+    },
+    clear: async () => {
+      entries = new Map();
+      await writeEntries();
+    }
+  };
+}
+
+/**
+ * IndexedDB in the browser, a file when CLASSIFIER_CACHE_FILE is set in Node, memory otherwise
+ */
+export function createDefaultCacheBackend(): CacheBackend {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbCacheBackend();
+  }
+  const cacheFile = typeof process !== 'undefined' ? process.env?.CLASSIFIER_CACHE_FILE : undefined;
+  return cacheFile ? createFileCacheBackend(cacheFile) : createMemoryCacheBackend();
+}
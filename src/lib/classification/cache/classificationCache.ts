@@ -0,0 +1,206 @@
+import { ClassificationResult } from '../../types';
+import { logger } from '../../logger';
+import { createDefaultCacheBackend } from './backends';
+import { computeRulesFingerprint } from './fingerprint';
+import { CacheBackend, CachedClassification, CacheStats, ClassificationCacheOptions } from './types';
+
+const DEFAULT_MAX_ENTRIES = 50000;
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Results that depend on reviewer input or failed processing are never cached
+const UNCACHEABLE_TIERS = new Set(['Manual-Override', 'Failed', 'Error-Fallback']);
+
+/**
+ * Name part of a cache key. Only case and whitespace are folded: punctuation and
+ * suffixes such as LLC decide the classification, so "Smith" and "Smith LLC" stay apart.
+ */
+const cacheKeyName = (payeeName: string): string =>
+  payeeName.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Persistent classification cache keyed by normalized name and classifier version
+ *
+ * Entries are loaded from the backend once, served from memory, and written back
+ * with `flush()`. A fingerprint of the rules and keyword lists is stored with each
+ * entry; entries with a different fingerprint are dropped on `ready()`.
+ */
+export class ClassificationCache {
+  private backend: CacheBackend;
+  private maxEntries: number;
+  private maxAgeMs: number;
+  private entries = new Map<string, CachedClassification>();
+  private dirty = new Set<string>();
+  private deleted = new Set<string>();
+  private loadPromise: Promise<void> | null = null;
+  private fingerprint = '';
+  private stats = { hits: 0, misses: 0, writes: 0, evictions: 0, invalidations: 0 };
+
+  constructor(options: ClassificationCacheOptions = {}) {
+    this.backend = options.backend || createDefaultCacheBackend();
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Load entries once and drop any produced under different rules or keywords
+   */
+  async ready(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.backend.loadAll()
+        .then(entries => {
+          entries.forEach(entry => this.entries.set(entry.key, entry));
+          logger.info(`[CACHE] Loaded ${entries.length} cached classifications from ${this.backend.name}`);
+        })
+        .catch(error => {
+          logger.error('[CACHE] Failed to load classification cache, starting empty:', error);
+        });
+    }
+    await this.loadPromise;
+    this.checkFingerprint();
+  }
+
+  private checkFingerprint(): void {
+    const fingerprint = computeRulesFingerprint();
+    if (fingerprint === this.fingerprint) return;
+    this.fingerprint = fingerprint;
+
+    let invalidated = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.fingerprint !== fingerprint) {
+        this.removeEntry(key);
+        invalidated++;
+      }
+    }
+    if (invalidated > 0) {
+      this.stats.invalidations += invalidated;
+      logger.info(`[CACHE] Rules or keywords changed, invalidated ${invalidated} cached classifications`);
+    }
+  }
+
+  private removeEntry(key: string): void {
+    this.entries.delete(key);
+    this.dirty.delete(key);
+    this.deleted.add(key);
+  }
+
+  private keyFor(payeeName: string, classifierVersion: string): string | null {
+    const normalizedName = cacheKeyName(payeeName);
+    return normalizedName ? `${classifierVersion}:${normalizedName}` : null;
+  }
+
+  get(payeeName: string, classifierVersion: string): ClassificationResult | null {
+    const key = this.keyFor(payeeName, classifierVersion);
+    const entry = key ? this.entries.get(key) : undefined;
+
+    if (!entry || Date.now() - entry.createdAt > this.maxAgeMs) {
+      if (entry) this.removeEntry(entry.key);
+      this.stats.misses++;
+      return null;
+    }
+
+    entry.lastAccessed = Date.now();
+    entry.hits++;
+    this.dirty.add(entry.key);
+    this.stats.hits++;
+    return entry.result;
+  }
+
+  set(payeeName: string, classifierVersion: string, result: ClassificationResult): void {
+    const key = this.keyFor(payeeName, classifierVersion);
+    if (!key || UNCACHEABLE_TIERS.has(result.processingTier)) return;
+
+    const now = Date.now();
+    this.entries.set(key, {
+      key,
+      normalizedName: cacheKeyName(payeeName),
+      classifierVersion,
+      fingerprint: this.fingerprint || computeRulesFingerprint(),
+      result,
+      createdAt: now,
+      lastAccessed: now,
+      hits: 0
+    });
+    this.dirty.add(key);
+    this.deleted.delete(key);
+    this.stats.writes++;
+  }
+
+  /**
+   * Evict least recently used entries over the size limit
+   */
+  private evict(): void {
+    const overflow = this.entries.size - this.maxEntries;
+    if (overflow <= 0) return;
+
+    const oldest = Array.from(this.entries.values())
+      .sort((a, b) => a.lastAccessed - b.lastAccessed)
+      .slice(0, overflow);
+    oldest.forEach(entry => this.removeEntry(entry.key));
+    this.stats.evictions += oldest.length;
+    logger.info(`[CACHE] Evicted ${oldest.length} least recently used classifications`);
+  }
+
+  /**
+   * Write changed and removed entries to the backend
+   */
+  async flush(): Promise<void> {
+    this.evict();
+    if (this.dirty.size === 0 && this.deleted.size === 0) return;
+
+    const upserts = Array.from(this.dirty)
+      .map(key => this.entries.get(key))
+      .filter((entry): entry is CachedClassification => !!entry);
+    const deletedKeys = Array.from(this.deleted);
+    this.dirty.clear();
+    this.deleted.clear();
+
+    try {
+      await this.backend.write(upserts, deletedKeys);
+    } catch (error) {
+      logger.error('[CACHE] Failed to persist classification cache:', error);
+    }
+  }
+
+  /**
+   * Drop every cached result
+   */
+  async invalidate(): Promise<void> {
+    this.stats.invalidations += this.entries.size;
+    this.entries.clear();
+    this.dirty.clear();
+    this.deleted.clear();
+    await this.backend.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return { ...this.stats, hitRate: lookups > 0 ? this.stats.hits / lookups : 0 };
+  }
+
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, writes: 0, evictions: 0, invalidations: 0 };
+  }
+}
+
+let sharedCache: ClassificationCache | null = null;
+
+/**
+ * Cache shared by the batch processors
+ */
+export function getClassificationCache(): ClassificationCache {
+  if (!sharedCache) {
+    sharedCache = new ClassificationCache();
+  }
+  return sharedCache;
+}
+
+/**
+ * Replace the shared cache (custom backend, tests); null resets to the default
+ */
+export function setClassificationCache(cache: ClassificationCache | null): void {
+  sharedCache = cache;
+}
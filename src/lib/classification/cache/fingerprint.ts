@@ -0,0 +1,66 @@
+import {
+  CLASSIFICATION_RULES_VERSION,
+  LEGAL_SUFFIXES,
+  BUSINESS_KEYWORDS,
+  INDUSTRY_IDENTIFIERS,
+  GOVERNMENT_PATTERNS,
+  TRUST_ESTATE_PATTERNS,
+  NON_PROFIT_PATTERNS,
+  PROFESSIONAL_TITLES
+} from '../config';
+import { BUNDLED_EXCLUSION_RULES } from '../keywordExclusion';
+import { getActiveExclusionProfile } from '../exclusionProfileStore';
+import { ClassificationConfig } from '../../types';
+import { getActiveCalibration } from '../calibration';
+
+/**
+ * 32-bit FNV-1a hash as hex
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+let rulesHash: string | null = null;
+
+/**
+ * Fingerprint of the rules and keyword lists a result depends on.
+ * Changing either makes every cached entry stale.
+ */
+export function computeRulesFingerprint(): string {
+  if (!rulesHash) {
+    rulesHash = hashString(JSON.stringify([
+      CLASSIFICATION_RULES_VERSION,
+      LEGAL_SUFFIXES,
+      BUSINESS_KEYWORDS,
+      INDUSTRY_IDENTIFIERS,
+      GOVERNMENT_PATTERNS,
+      TRUST_ESTATE_PATTERNS,
+      NON_PROFIT_PATTERNS,
+      PROFESSIONAL_TITLES,
+      BUNDLED_EXCLUSION_RULES
+    ]));
+  }
+
+  // The active exclusion profile can be switched or edited at any time
+  const { id, version } = getActiveExclusionProfile();
+
+  return `${rulesHash}-${hashString(`${id}@${version}`)}`;
+}
+
+/**
+ * Classifier version string: engine name plus the config options and calibration that change results
+ */
+export function getClassifierVersion(engine: string, config: ClassificationConfig): string {
+  const { aiThreshold, bypassRuleNLP, offlineMode, useFuzzyMatching, useLLMClassification, pipeline } = config;
+  const calibration = config.useCalibration === false ? null : getActiveCalibration();
+  const exclusionProfile = config.exclusionProfile && `${config.exclusionProfile.id}@${config.exclusionProfile.version}`;
+  return `${engine}-${hashString(JSON.stringify({
+    aiThreshold, bypassRuleNLP, offlineMode, useFuzzyMatching, useLLMClassification, pipeline,
+    calibration: calibration?.fittedAt, exclusionProfile
+  }))}`;
+}
@@ -0,0 +1,5 @@
+// Main export file for the persistent classification cache
+export * from './types';
+export * from './fingerprint';
+export * from './backends';
+export { ClassificationCache, getClassificationCache, setClassificationCache } from './classificationCache';
@@ -0,0 +1,37 @@
+import { ClassificationResult } from '../../types';
+
+export interface CachedClassification {
+  key: string; // `${classifierVersion}:${normalizedName}`
+  normalizedName: string; // Name with case and whitespace folded
+  classifierVersion: string;
+  fingerprint: string; // Rules and keyword list the result was produced with
+  result: ClassificationResult;
+  createdAt: number;
+  lastAccessed: number;
+  hits: number;
+}
+
+/**
+ * Storage behind the in-memory cache; entries are loaded once and written back in bulk
+ */
+export interface CacheBackend {
+  name: string;
+  loadAll(): Promise<CachedClassification[]>;
+  write(upserts: CachedClassification[], deletedKeys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ClassificationCacheOptions {
+  backend?: CacheBackend;
+  maxEntries?: number; // Least recently used entries beyond this are evicted
+  maxAgeMs?: number; // Entries older than this are treated as misses
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  invalidations: number;
+  hitRate: number;
+}
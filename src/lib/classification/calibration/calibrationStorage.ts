@@ -0,0 +1,75 @@
+import { logger } from '../../logger';
+import { CalibrationModel } from './types';
+
+export const CALIBRATION_STORAGE_KEY = 'classificationCalibration';
+
+// undefined until the first lookup, null when no calibration is active
+let activeCalibration: CalibrationModel | null | undefined;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+/**
+ * Validate and parse a serialized calibration model
+ */
+export function parseCalibrationModel(json: string): CalibrationModel {
+  const model = JSON.parse(json) as CalibrationModel;
+  if (model?.version !== 1 || !model.global || typeof model.tiers !== 'object') {
+    throw new Error('Invalid calibration model');
+  }
+  return model;
+}
+
+/**
+ * Load the persisted calibration model from localStorage
+ */
+export function loadCalibrationModel(): CalibrationModel | null {
+  if (!hasLocalStorage()) return null;
+  try {
+    const stored = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+    return stored ? parseCalibrationModel(stored) : null;
+  } catch (error) {
+    logger.error('[CALIBRATION] Failed to load calibration model:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist a calibration model and make it the active one
+ */
+export function saveCalibrationModel(model: CalibrationModel): void {
+  activeCalibration = model;
+  if (!hasLocalStorage()) return;
+  try {
+    localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(model));
+    logger.info(`[CALIBRATION] Saved ${model.method} calibration fitted on ${model.sampleCount} samples`);
+  } catch (error) {
+    logger.error('[CALIBRATION] Failed to save calibration model:', error);
+  }
+}
+
+/**
+ * Remove the persisted calibration model; results fall back to raw scores
+ */
+export function clearCalibrationModel(): void {
+  activeCalibration = null;
+  if (hasLocalStorage()) {
+    localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+  }
+}
+
+/**
+ * Calibration model applied by the classification pipeline
+ */
+export function getActiveCalibration(): CalibrationModel | null {
+  if (activeCalibration === undefined) {
+    activeCalibration = loadCalibrationModel();
+  }
+  return activeCalibration;
+}
+
+/**
+ * Use a model for this process without persisting it (CLI, tests)
+ */
+export function setActiveCalibration(model: CalibrationModel | null): void {
+  activeCalibration = model;
+}
@@ -0,0 +1,79 @@
+import { ClassificationResult } from '../../types';
+import {
+  fitIsotonicCurve,
+  fitPlattCurve,
+  evaluateIsotonicCurve,
+  evaluatePlattCurve
+} from './curveFitting';
+import { CalibrationCurve, CalibrationFitOptions, CalibrationModel, CalibrationSample } from './types';
+
+// Tiers whose confidence carries a fixed meaning rather than a score
+const UNCALIBRATED_TIERS = new Set(['Excluded', 'Failed', 'Manual-Override']);
+
+const DEFAULT_MIN_TIER_SAMPLES = 20;
+
+function fitCurve(samples: CalibrationSample[], method: CalibrationCurve['method']): CalibrationCurve {
+  return method === 'platt' ? fitPlattCurve(samples) : fitIsotonicCurve(samples);
+}
+
+/**
+ * Fit a calibration model from labeled outcomes, one curve per tier with enough samples
+ */
+export function fitCalibration(samples: CalibrationSample[], options: CalibrationFitOptions = {}): CalibrationModel {
+  const method = options.method || 'isotonic';
+  const minTierSamples = options.minTierSamples ?? DEFAULT_MIN_TIER_SAMPLES;
+  const usable = samples.filter(sample => !UNCALIBRATED_TIERS.has(sample.processingTier || ''));
+  if (usable.length === 0) {
+    throw new Error('No calibratable samples: every result was excluded or failed');
+  }
+
+  const byTier = new Map<string, CalibrationSample[]>();
+  for (const sample of usable) {
+    const tier = sample.processingTier || 'Unknown';
+    byTier.set(tier, [...(byTier.get(tier) || []), sample]);
+  }
+
+  const tiers: Record<string, CalibrationCurve> = {};
+  for (const [tier, tierSamples] of byTier) {
+    if (tierSamples.length >= minTierSamples) {
+      tiers[tier] = fitCurve(tierSamples, method);
+    }
+  }
+
+  console.log(`[CALIBRATION] Fitted ${method} calibration from ${usable.length} samples (${Object.keys(tiers).length} tier curves)`);
+
+  return {
+    version: 1,
+    method,
+    fittedAt: new Date().toISOString(),
+    source: options.source,
+    sampleCount: usable.length,
+    tiers,
+    global: fitCurve(usable, method)
+  };
+}
+
+/**
+ * Map a raw 0-100 score to a calibrated 0-100 confidence
+ */
+export function calibrateConfidence(model: CalibrationModel, rawConfidence: number, processingTier?: string): number {
+  const curve = (processingTier && model.tiers[processingTier]) || model.global;
+  const probability = curve.method === 'platt'
+    ? evaluatePlattCurve(curve, rawConfidence)
+    : evaluateIsotonicCurve(curve, rawConfidence);
+  return Math.round(Math.min(1, Math.max(0, probability)) * 100);
+}
+
+/**
+ * Replace a result's confidence with its calibrated value, keeping the raw score
+ */
+export function applyCalibration(result: ClassificationResult, model: CalibrationModel): ClassificationResult {
+  if (UNCALIBRATED_TIERS.has(result.processingTier)) return result;
+
+  const rawConfidence = result.rawConfidence ?? result.confidence;
+  return {
+    ...result,
+    confidence: calibrateConfidence(model, rawConfidence, result.processingTier),
+    rawConfidence
+  };
+}
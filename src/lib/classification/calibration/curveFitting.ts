@@ -0,0 +1,95 @@
+import { CalibrationSample, IsotonicCurve, PlattCurve } from './types';
+
+/**
+ * Fit a monotone curve with the pool-adjacent-violators algorithm
+ */
+export function fitIsotonicCurve(samples: CalibrationSample[]): IsotonicCurve {
+  const sorted = [...samples].sort((a, b) => a.confidence - b.confidence);
+  const blocks: Array<{ scoreSum: number; correct: number; count: number }> = [];
+
+  for (const sample of sorted) {
+    blocks.push({ scoreSum: sample.confidence, correct: sample.correct ? 1 : 0, count: 1 });
+
+    // Merge backwards while the previous block predicts a higher probability
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.correct / previous.count <= last.correct / last.count) break;
+      previous.scoreSum += last.scoreSum;
+      previous.correct += last.correct;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    scores: blocks.map(block => block.scoreSum / block.count),
+    probabilities: blocks.map(block => block.correct / block.count),
+    sampleCount: samples.length
+  };
+}
+
+/**
+ * Fit Platt scaling with Newton's method on smoothed targets
+ */
+export function fitPlattCurve(samples: CalibrationSample[], maxIterations = 100): PlattCurve {
+  const positives = samples.filter(sample => sample.correct).length;
+  const negatives = samples.length - positives;
+  const highTarget = (positives + 1) / (positives + 2);
+  const lowTarget = 1 / (negatives + 2);
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    let hessianAA = 1e-12;
+    let hessianAB = 0;
+    let hessianBB = 1e-12;
+
+    for (const sample of samples) {
+      const x = sample.confidence / 100;
+      const target = sample.correct ? highTarget : lowTarget;
+      const p = 1 / (1 + Math.exp(a * x + b));
+      const weight = p * (1 - p);
+      // Derivatives of the log loss with respect to a and b
+      gradientA += (target - p) * x;
+      gradientB += target - p;
+      hessianAA += weight * x * x;
+      hessianAB += weight * x;
+      hessianBB += weight;
+    }
+
+    const determinant = hessianAA * hessianBB - hessianAB * hessianAB;
+    if (Math.abs(determinant) < 1e-12) break;
+    const stepA = (hessianBB * gradientA - hessianAB * gradientB) / determinant;
+    const stepB = (hessianAA * gradientB - hessianAB * gradientA) / determinant;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-9 && Math.abs(stepB) < 1e-9) break;
+  }
+
+  return { method: 'platt', a, b, sampleCount: samples.length };
+}
+
+/**
+ * Evaluate an isotonic curve, interpolating between block centres
+ */
+export function evaluateIsotonicCurve(curve: IsotonicCurve, score: number): number {
+  const { scores, probabilities } = curve;
+  if (scores.length === 0) return score / 100;
+  if (score <= scores[0]) return probabilities[0];
+  if (score >= scores[scores.length - 1]) return probabilities[probabilities.length - 1];
+
+  const upper = scores.findIndex(value => value >= score);
+  const lower = upper - 1;
+  const span = scores[upper] - scores[lower];
+  const position = span > 0 ? (score - scores[lower]) / span : 0;
+  return probabilities[lower] + position * (probabilities[upper] - probabilities[lower]);
+}
+
+export function evaluatePlattCurve(curve: PlattCurve, score: number): number {
+  return 1 / (1 + Math.exp(curve.a * (score / 100) + curve.b));
+}
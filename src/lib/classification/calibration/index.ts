@@ -0,0 +1,6 @@
+// Main export file for the confidence calibration module
+export * from './types';
+export * from './curveFitting';
+export * from './calibrator';
+export * from './calibrationStorage';
+export * from './reliability';
@@ -0,0 +1,33 @@
+import { CalibrationSample, ReliabilityDiagram, ReliabilityBin } from './types';
+
+/**
+ * Bucket confidences into equal-width bins and compare to observed accuracy
+ */
+export function computeReliabilityDiagram(samples: CalibrationSample[], binCount = 10): ReliabilityDiagram {
+  const width = 100 / binCount;
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, index) => ({
+    lower: index * width,
+    upper: (index + 1) * width,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0
+  }));
+
+  for (const sample of samples) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(sample.confidence / width)));
+    const bin = bins[index];
+    bin.count++;
+    bin.meanConfidence += sample.confidence / 100;
+    bin.accuracy += sample.correct ? 1 : 0;
+  }
+
+  let expectedCalibrationError = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    expectedCalibrationError += (bin.count / samples.length) * Math.abs(bin.accuracy - bin.meanConfidence);
+  }
+
+  return { bins, expectedCalibrationError };
+}
@@ -0,0 +1,58 @@
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+/**
+ * Piecewise-linear map from raw score (0-100) to probability of being correct
+ */
+export interface IsotonicCurve {
+  method: 'isotonic';
+  scores: number[];
+  probabilities: number[];
+  sampleCount: number;
+}
+
+/**
+ * Logistic map p = 1 / (1 + exp(a * score / 100 + b))
+ */
+export interface PlattCurve {
+  method: 'platt';
+  a: number;
+  b: number;
+  sampleCount: number;
+}
+
+export type CalibrationCurve = IsotonicCurve | PlattCurve;
+
+export interface CalibrationModel {
+  version: 1;
+  method: CalibrationMethod;
+  fittedAt: string;
+  source?: string;
+  sampleCount: number;
+  tiers: Record<string, CalibrationCurve>; // Curves for tiers with enough samples
+  global: CalibrationCurve; // Used for tiers without their own curve
+}
+
+export interface CalibrationSample {
+  confidence: number; // Raw score, 0-100
+  correct: boolean;
+  processingTier?: string;
+}
+
+export interface CalibrationFitOptions {
+  method?: CalibrationMethod;
+  minTierSamples?: number;
+  source?: string;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number; // 0-1
+  accuracy: number; // 0-1
+}
+
+export interface ReliabilityDiagram {
+  bins: ReliabilityBin[];
+  expectedCalibrationError: number;
+}
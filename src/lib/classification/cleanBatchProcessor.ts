@@ -1,8 +1,9 @@
 
 import { PayeeClassification, BatchProcessingResult, ClassificationConfig } from '../types';
-import { checkKeywordExclusion, loadExclusionKeywords } from './keywordExclusion';
+import { checkKeywordExclusion, loadExclusionRules } from './keywordExclusion';
 import { balancedRuleBasedClassification } from './balancedRuleClassification';
 import { DEFAULT_CLASSIFICATION_CONFIG } from './config';
+import { getManualOverride } from './review';
 
 /**
  * Clean batch processor that processes each row individually based on selected column
@@ -27,10 +28,10 @@ export async function cleanProcessBatch(
     throw new Error('No column selected for processing');
   }
   
-  // Load the comprehensive exclusion keywords
-  const exclusionKeywords = await loadExclusionKeywords();
-  console.log(`[CLEAN BATCH] Loaded ${exclusionKeywords.length} exclusion keywords for processing`);
-  console.log(`[CLEAN BATCH] Sample keywords: ${exclusionKeywords.slice(0, 10).join(', ')}`);
+  // Load the comprehensive exclusion rules
+  const exclusionRules = await loadExclusionRules();
+  console.log(`[CLEAN BATCH] Loaded ${exclusionRules.length} exclusion rules for processing`);
+  console.log(`[CLEAN BATCH] Sample keywords: ${exclusionRules.slice(0, 10).map(rule => rule.keyword).join(', ')}`);
   
   const results: PayeeClassification[] = [];
   let excludedCount = 0;
@@ -72,8 +73,22 @@ export async function cleanProcessBatch(
         continue;
       }
       
-      // Apply keyword exclusion check FIRST (highest priority)
-      const exclusionResult = checkKeywordExclusion(payeeName, exclusionKeywords);
+      // Reviewer corrections take precedence over exclusions and rules
+      const override = getManualOverride(payeeName);
+      if (override) {
+        results.push({
+          id: `payee-${rowIndex}`,
+          payeeName,
+          result: override,
+          timestamp: new Date(),
+          originalData: rowData,
+          rowIndex: rowIndex
+        });
+        continue;
+      }
+      
+      // Apply keyword exclusion check next
+      const exclusionResult = checkKeywordExclusion(payeeName, exclusionRules);
       
       if (exclusionResult.isExcluded) {
         console.log(`[CLEAN BATCH] EXCLUDED "${payeeName}" at row ${rowIndex} due to keywords: ${exclusionResult.matchedKeywords.join(', ')}`);
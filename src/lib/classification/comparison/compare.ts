@@ -0,0 +1,196 @@
+import { EnhancedBatchStatistics, PayeeClassification } from '../../types';
+import { calculateBatchStatistics } from '../batchStatistics';
+import { normalizePayeeName } from '../nameProcessing';
+import { exportRowsToCsv } from '../exporters';
+import type { ExportRow } from '../exporters';
+import {
+  BatchComparison,
+  ComparedResult,
+  ComparedRun,
+  ComparisonChange,
+  ComparisonFilter,
+  ComparisonMatchBy,
+  ComparisonOptions,
+  ComparisonRow,
+  StatisticShift
+} from './types';
+
+export const COMPARISON_CHANGES: ComparisonChange[] = ['classification', 'confidence', 'tier', 'added', 'removed'];
+
+export const COMPARISON_CHANGE_LABELS: Record<ComparisonChange, string> = {
+  classification: 'Class flipped',
+  confidence: 'Confidence changed',
+  tier: 'Tier changed',
+  added: 'Only in second run',
+  removed: 'Only in first run'
+};
+
+// Statistics compared between runs, with the metric names of the summary sheet
+const STATISTIC_METRICS: [keyof EnhancedBatchStatistics, string][] = [
+  ['totalProcessed', 'Total payees'],
+  ['businessCount', 'Business'],
+  ['individualCount', 'Individual'],
+  ['governmentCount', 'Government'],
+  ['trustEstateCount', 'Trust/Estate'],
+  ['nonProfitCount', 'Non-Profit'],
+  ['excludedCount', 'Excluded by keyword'],
+  ['failedCount', 'Failed'],
+  ['averageConfidence', 'Average confidence %'],
+  ['highConfidenceCount', 'High confidence'],
+  ['mediumConfidenceCount', 'Medium confidence'],
+  ['lowConfidenceCount', 'Low confidence']
+];
+
+const round = (value: number) => Number(value.toFixed(1));
+
+const compared = (item: PayeeClassification): ComparedResult => ({
+  classification: item.result.classification,
+  confidence: item.result.confidence,
+  processingTier: item.result.processingTier
+});
+
+/**
+ * Results keyed for pairing: by sheet and row index, or by normalized name with a
+ * count for names that repeat
+ */
+function keyResults(results: PayeeClassification[], matchBy: ComparisonMatchBy): Map<string, PayeeClassification> {
+  const keyed = new Map<string, PayeeClassification>();
+  const seen = new Map<string, number>();
+  results.forEach((item, position) => {
+    let key: string;
+    if (matchBy === 'row') {
+      key = `${item.sheetName ?? ''}#${item.rowIndex ?? position}`;
+    } else {
+      const name = normalizePayeeName(item.payeeName);
+      const occurrence = seen.get(name) ?? 0;
+      seen.set(name, occurrence + 1);
+      key = `${name}#${occurrence}`;
+    }
+    if (!keyed.has(key)) keyed.set(key, item);
+  });
+  return keyed;
+}
+
+function compareRow(
+  key: string,
+  before: PayeeClassification | undefined,
+  after: PayeeClassification | undefined,
+  tolerance: number
+): ComparisonRow {
+  const item = (after ?? before) as PayeeClassification;
+  const row: ComparisonRow = {
+    key,
+    payeeName: item.payeeName,
+    rowIndex: item.rowIndex,
+    before: before && compared(before),
+    after: after && compared(after),
+    changes: []
+  };
+  if (!row.before) row.changes.push('added');
+  if (!row.after) row.changes.push('removed');
+  if (row.before && row.after) {
+    row.confidenceDelta = round(row.after.confidence - row.before.confidence);
+    if (row.after.classification !== row.before.classification) row.changes.push('classification');
+    if (Math.abs(row.confidenceDelta) > tolerance) row.changes.push('confidence');
+    if (row.after.processingTier !== row.before.processingTier) row.changes.push('tier');
+  }
+  return row;
+}
+
+const statisticsOf = (run: ComparedRun): EnhancedBatchStatistics =>
+  run.stats ?? calculateBatchStatistics(run.results, run.results.length, run.results, [], 0);
+
+/**
+ * How each statistic and each processing tier's count moved between the runs
+ */
+export function compareBatchStatistics(before: EnhancedBatchStatistics, after: EnhancedBatchStatistics): StatisticShift[] {
+  const value = (stats: EnhancedBatchStatistics, field: keyof EnhancedBatchStatistics) => {
+    const raw = stats[field];
+    return typeof raw === 'number' && Number.isFinite(raw) ? round(raw) : 0;
+  };
+  const shifts = STATISTIC_METRICS.map(([field, metric]) => ({ metric, before: value(before, field), after: value(after, field) }));
+  const tiers = new Set([...Object.keys(before.processingTierCounts), ...Object.keys(after.processingTierCounts)]);
+  for (const tier of tiers) {
+    shifts.push({ metric: `Tier: ${tier}`, before: before.processingTierCounts[tier] ?? 0, after: after.processingTierCounts[tier] ?? 0 });
+  }
+  return shifts.map(shift => ({ ...shift, delta: round(shift.after - shift.before) }));
+}
+
+/**
+ * Pair the results of two runs and list what changed for each row, with the shift in
+ * the batch statistics. Rows are in the order of the first run, then rows only in the second.
+ */
+export function compareBatchRuns(before: ComparedRun, after: ComparedRun, options: ComparisonOptions = {}): BatchComparison {
+  const matchBy = options.matchBy ?? 'row';
+  const tolerance = options.confidenceTolerance ?? 0;
+  const beforeResults = keyResults(before.results, matchBy);
+  const afterResults = keyResults(after.results, matchBy);
+
+  const rows: ComparisonRow[] = [];
+  for (const [key, item] of beforeResults) {
+    rows.push(compareRow(key, item, afterResults.get(key), tolerance));
+  }
+  for (const [key, item] of afterResults) {
+    if (!beforeResults.has(key)) rows.push(compareRow(key, undefined, item, tolerance));
+  }
+
+  const changeCounts = Object.fromEntries(COMPARISON_CHANGES.map(change => [change, 0])) as Record<ComparisonChange, number>;
+  let unchangedRows = 0;
+  for (const row of rows) {
+    if (row.changes.length === 0) unchangedRows++;
+    for (const change of row.changes) changeCounts[change]++;
+  }
+
+  return {
+    matchBy,
+    rows,
+    changeCounts,
+    unchangedRows,
+    statistics: compareBatchStatistics(statisticsOf(before), statisticsOf(after))
+  };
+}
+
+/**
+ * Rows of a comparison that pass the filter; unchanged rows only when asked for
+ */
+export function filterComparisonRows(rows: ComparisonRow[], filter: ComparisonFilter = {}): ComparisonRow[] {
+  const search = filter.search?.trim().toLowerCase();
+  const minDelta = filter.minConfidenceDelta ?? 0;
+  return rows.filter(row => {
+    if (row.changes.length === 0) {
+      if (!filter.includeUnchanged) return false;
+    } else if (filter.changes?.length && !row.changes.some(change => filter.changes?.includes(change))) {
+      return false;
+    }
+    if (minDelta > 0 && Math.abs(row.confidenceDelta ?? 0) < minDelta) return false;
+    return !search || row.payeeName.toLowerCase().includes(search);
+  });
+}
+
+export const COMPARISON_CSV_HEADERS = [
+  'Payee_Name', 'Row_Index', 'Changes',
+  'Before_Classification', 'After_Classification',
+  'Before_Confidence', 'After_Confidence', 'Confidence_Delta',
+  'Before_Processing_Tier', 'After_Processing_Tier'
+];
+
+export function comparisonRowsToExportRows(rows: ComparisonRow[]): ExportRow[] {
+  return rows.map(row => ({
+    Payee_Name: row.payeeName,
+    Row_Index: row.rowIndex ?? '',
+    Changes: row.changes.join('; '),
+    Before_Classification: row.before?.classification ?? '',
+    After_Classification: row.after?.classification ?? '',
+    Before_Confidence: row.before?.confidence ?? '',
+    After_Confidence: row.after?.confidence ?? '',
+    Confidence_Delta: row.confidenceDelta ?? '',
+    Before_Processing_Tier: row.before?.processingTier ?? '',
+    After_Processing_Tier: row.after?.processingTier ?? ''
+  }));
+}
+
+/**
+ * The compared rows as CSV, one line per row with the values from both runs
+ */
+export const comparisonToCsv = (rows: ComparisonRow[]): string =>
+  exportRowsToCsv(comparisonRowsToExportRows(rows), COMPARISON_CSV_HEADERS);
@@ -0,0 +1,5 @@
+// Main export file for the batch run comparison module
+export * from './types';
+export * from './runStore';
+export * from './compare';
+export * from './resultFile';
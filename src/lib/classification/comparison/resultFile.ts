@@ -0,0 +1,81 @@
+import { PayeeClassification } from '../../types';
+import { detectInputFormat, detectPayeeColumn, parseTabularInput, TabularRow } from '../../fileValidation';
+import { normalizeLabel } from '../evaluation';
+import { EXPORT_FIELDS } from '../exporters';
+import { ResultFileOptions } from './types';
+
+// Column names written by the standard, fixed and results-only exports
+const CLASSIFICATION_COLUMNS = ['AI_Classification', 'Classification'];
+const CONFIDENCE_COLUMNS = ['AI_Confidence_%', 'AI_Confidence', 'Confidence_%'];
+const TIER_COLUMNS = ['AI_Processing_Tier', 'Processing_Tier'];
+const REASONING_COLUMNS = ['AI_Reasoning', 'Reasoning'];
+const ROW_INDEX_COLUMNS = ['Processing_Row_Index', 'Row_Index'];
+const PAYEE_COLUMN = 'Payee_Name';
+
+const RESULT_COLUMNS = new Set([
+  ...Object.values(EXPORT_FIELDS).map(field => field.header),
+  ...CLASSIFICATION_COLUMNS, ...CONFIDENCE_COLUMNS, ...TIER_COLUMNS, ...REASONING_COLUMNS, ...ROW_INDEX_COLUMNS,
+  'Processing_Method', 'Data_Alignment_Status'
+]);
+
+const findColumn = (columns: string[], prefix: string, candidates: string[]) =>
+  candidates.map(candidate => `${prefix}${candidate}`).find(candidate => columns.includes(candidate));
+
+/**
+ * Results read back from an exported result file. Rows without a recognised
+ * classification, such as those exported as Unclassified, are left out.
+ */
+export function resultsFromExportRows(rows: TabularRow[], options: ResultFileOptions = {}): PayeeClassification[] {
+  const prefix = options.prefix ?? '';
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const classificationColumn = findColumn(columns, prefix, CLASSIFICATION_COLUMNS);
+  if (!classificationColumn) {
+    throw new Error(`Could not find a classification column (looked for ${CLASSIFICATION_COLUMNS.map(column => `${prefix}${column}`).join(', ')})`);
+  }
+  const confidenceColumn = findColumn(columns, prefix, CONFIDENCE_COLUMNS);
+  const tierColumn = findColumn(columns, prefix, TIER_COLUMNS);
+  const reasoningColumn = findColumn(columns, prefix, REASONING_COLUMNS);
+  const rowIndexColumn = findColumn(columns, prefix, ROW_INDEX_COLUMNS);
+  const payeeColumn = options.payeeColumn ?? (columns.includes(PAYEE_COLUMN)
+    ? PAYEE_COLUMN
+    : detectPayeeColumn(rows.map(row => Object.fromEntries(
+      Object.entries(row).filter(([column]) => !RESULT_COLUMNS.has(column.slice(prefix.length)))
+    ))));
+
+  return rows.flatMap((row, position) => {
+    const classification = normalizeLabel(row[classificationColumn]);
+    if (!classification) return [];
+    const rowIndex = rowIndexColumn !== undefined && row[rowIndexColumn] !== '' ? Number(row[rowIndexColumn]) : position;
+    const result: PayeeClassification = {
+      id: `payee-${rowIndex}`,
+      payeeName: String((payeeColumn && row[payeeColumn]) ?? ''),
+      result: {
+        classification,
+        confidence: Number(confidenceColumn ? row[confidenceColumn] : 0) || 0,
+        reasoning: String((reasoningColumn && row[reasoningColumn]) ?? ''),
+        processingTier: String((tierColumn && row[tierColumn]) || 'Rule-Based') as PayeeClassification['result']['processingTier']
+      },
+      timestamp: new Date(),
+      rowIndex: Number.isFinite(rowIndex) ? rowIndex : position
+    };
+    return [result];
+  });
+}
+
+/**
+ * Read an exported CSV, XLSX, JSON or JSON Lines result file
+ */
+export function parseResultFile(data: Uint8Array | string, fileName: string, options: ResultFileOptions = {}): PayeeClassification[] {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'parquet') {
+    throw new Error('Parquet result files cannot be read back; export the run as CSV, XLSX, JSON or JSON Lines');
+  }
+  if (extension === 'json') {
+    const parsed: unknown = JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data));
+    if (!Array.isArray(parsed)) {
+      throw new Error('A JSON result file must be an array of exported rows');
+    }
+    return resultsFromExportRows(parsed as TabularRow[], options);
+  }
+  return resultsFromExportRows(parseTabularInput(data, detectInputFormat(fileName)), options);
+}
@@ -0,0 +1,151 @@
+import { BatchRunStore, StoredBatchRun, StoredRunSummary } from './types';
+
+const DB_NAME = 'payee-batch-runs';
+const DB_VERSION = 2;
+const STORE_NAME = 'runs';
+const SUMMARY_STORE_NAME = 'summaries'; // Listed without reading the results
+
+// Runs kept by default; the oldest are removed first
+export const DEFAULT_STORED_RUN_LIMIT = 10;
+// Larger runs are not stored, so a few huge files cannot fill the browser's storage
+export const DEFAULT_STORED_RUN_MAX_ROWS = 100000;
+
+const summarize = (run: StoredBatchRun): StoredRunSummary =>
+  ({ id: run.id, label: run.label, createdAt: run.createdAt, rowCount: run.results.length });
+
+/**
+ * A run with only what a comparison reads from each result: the name, row, sheet,
+ * classification, confidence and tier. Original rows and explanations are dropped.
+ */
+const slimStoredRun = (run: StoredBatchRun): StoredBatchRun => ({
+  ...run,
+  results: run.results.map(({ id, payeeName, rowIndex, sheetName, timestamp, result }) => ({
+    id,
+    payeeName,
+    rowIndex,
+    sheetName,
+    timestamp,
+    result: { classification: result.classification, confidence: result.confidence, processingTier: result.processingTier, reasoning: '' }
+  }))
+});
+
+const newestFirst = (a: StoredRunSummary, b: StoredRunSummary) => b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Process-lifetime store used when no persistent storage is available
+ */
+export function createMemoryRunStore(): BatchRunStore {
+  const runs = new Map<string, StoredBatchRun>();
+  return {
+    name: 'memory',
+    save: async run => {
+      runs.set(run.id, structuredClone(run));
+    },
+    list: async () => Array.from(runs.values()).map(summarize).sort(newestFirst),
+    load: async id => {
+      const run = runs.get(id);
+      return run && structuredClone(run);
+    },
+    remove: async id => {
+      runs.delete(id);
+    }
+  };
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Browser store keeping one record per run in IndexedDB, with its summary in a
+ * second object store
+ */
+export function createIndexedDbRunStore(dbName = DB_NAME): BatchRunStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const runs = event.oldVersion < 1
+          ? db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+          : (request.transaction as IDBTransaction).objectStore(STORE_NAME);
+        const summaries = db.createObjectStore(SUMMARY_STORE_NAME, { keyPath: 'id' });
+        // Runs saved before summaries were kept apart get theirs once, one run at a time
+        const cursor = runs.openCursor();
+        cursor.onsuccess = () => {
+          if (!cursor.result) return;
+          summaries.put(summarize(cursor.result.value as StoredBatchRun));
+          cursor.result.continue();
+        };
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const readStore = async (name: string) => (await openDb()).transaction(name, 'readonly').objectStore(name);
+
+  const withStores = async (mode: IDBTransactionMode, work: (runs: IDBObjectStore, summaries: IDBObjectStore) => void) => {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SUMMARY_STORE_NAME], mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      work(transaction.objectStore(STORE_NAME), transaction.objectStore(SUMMARY_STORE_NAME));
+    });
+  };
+
+  return {
+    name: 'indexeddb',
+    save: run => withStores('readwrite', (runs, summaries) => {
+      runs.put(run);
+      summaries.put(summarize(run));
+    }),
+    list: async () => {
+      const summaries = await requestToPromise((await readStore(SUMMARY_STORE_NAME)).getAll() as IDBRequest<StoredRunSummary[]>);
+      return summaries.sort(newestFirst);
+    },
+    load: async id => requestToPromise((await readStore(STORE_NAME)).get(id) as IDBRequest<StoredBatchRun | undefined>),
+    remove: id => withStores('readwrite', (runs, summaries) => {
+      runs.delete(id);
+      summaries.delete(id);
+    })
+  };
+}
+
+/**
+ * IndexedDB in the browser, memory otherwise
+ */
+export function createDefaultRunStore(): BatchRunStore {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbRunStore() : createMemoryRunStore();
+}
+
+let defaultStore: BatchRunStore | null = null;
+
+export function getRunStore(): BatchRunStore {
+  if (!defaultStore) defaultStore = createDefaultRunStore();
+  return defaultStore;
+}
+
+/**
+ * Save a slimmed copy of a run and drop the oldest ones beyond the limit. Runs with
+ * more than maxRows results are not stored; returns whether the run was saved.
+ */
+export async function saveBatchRun(
+  run: StoredBatchRun,
+  store: BatchRunStore = getRunStore(),
+  limit = DEFAULT_STORED_RUN_LIMIT,
+  maxRows = DEFAULT_STORED_RUN_MAX_ROWS
+): Promise<boolean> {
+  if (run.results.length > maxRows) return false;
+  await store.save(slimStoredRun(run));
+  const runs = await store.list();
+  for (const old of runs.slice(limit)) {
+    await store.remove(old.id);
+  }
+  return true;
+}
@@ -0,0 +1,90 @@
+import { EnhancedBatchStatistics, EntityClassification, PayeeClassification } from '../../types';
+
+/**
+ * A finished batch run kept so later runs can be compared with it
+ */
+export interface StoredBatchRun {
+  id: string;
+  label: string;
+  createdAt: string;
+  results: PayeeClassification[];
+  stats?: EnhancedBatchStatistics;
+}
+
+// What run pickers show without loading the results
+export interface StoredRunSummary {
+  id: string;
+  label: string;
+  createdAt: string;
+  rowCount: number;
+}
+
+/**
+ * Keeps finished runs across page reloads
+ */
+export interface BatchRunStore {
+  name: string;
+  save(run: StoredBatchRun): Promise<void>;
+  list(): Promise<StoredRunSummary[]>; // Newest first
+  load(id: string): Promise<StoredBatchRun | undefined>;
+  remove(id: string): Promise<void>;
+}
+
+// Results of one side of a comparison: a stored run, a batch result or a result file
+export interface ComparedRun {
+  results: PayeeClassification[];
+  stats?: EnhancedBatchStatistics; // Computed from the results when missing
+}
+
+// Rows are paired by their position in the input, or by normalized payee name
+export type ComparisonMatchBy = 'row' | 'payee-name';
+
+export type ComparisonChange = 'classification' | 'confidence' | 'tier' | 'added' | 'removed';
+
+export interface ComparisonOptions {
+  matchBy?: ComparisonMatchBy; // Default 'row'
+  confidenceTolerance?: number; // Confidence moves up to this many points are not a change (default 0)
+}
+
+export interface ComparedResult {
+  classification: EntityClassification;
+  confidence: number;
+  processingTier: string;
+}
+
+export interface ComparisonRow {
+  key: string;
+  payeeName: string;
+  rowIndex?: number;
+  before?: ComparedResult; // Missing when the row is only in the second run
+  after?: ComparedResult; // Missing when the row is only in the first run
+  confidenceDelta?: number; // After minus before, when both runs have the row
+  changes: ComparisonChange[];
+}
+
+export interface StatisticShift {
+  metric: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface BatchComparison {
+  matchBy: ComparisonMatchBy;
+  rows: ComparisonRow[]; // Every row of either run, changed or not
+  changeCounts: Record<ComparisonChange, number>;
+  unchangedRows: number;
+  statistics: StatisticShift[]; // Aggregate shift in the batch statistics
+}
+
+export interface ComparisonFilter {
+  changes?: ComparisonChange[]; // Rows with any of these changes; every changed row when empty
+  includeUnchanged?: boolean;
+  minConfidenceDelta?: number; // Smallest absolute confidence move to keep
+  search?: string; // Part of the payee name, ignoring case
+}
+
+export interface ResultFileOptions {
+  payeeColumn?: string; // Column with the payee name (default: Payee_Name, else the best-ranked column)
+  prefix?: string; // Header prefix the export was written with
+}
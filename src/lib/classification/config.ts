@@ -1,4 +1,4 @@
-import { ClassificationConfig } from '../types';
+import { ClassificationConfig, EntityClassification } from '../types';
 
 // Helper function to safely get environment variables
 const getEnvVar = (key: string, defaultValue: string): string => {
@@ -29,6 +29,9 @@ const envBatchSize = parseInt(getEnvVar('CLASSIFIER_MAX_BATCH_SIZE', '15'), 10);
 export const MAX_BATCH_SIZE =
   Number.isFinite(envBatchSize) && envBatchSize > 0 ? envBatchSize : 15; // Increased from 5
 
+// Bump whenever classification logic changes so persisted cache entries are discarded
+export const CLASSIFICATION_RULES_VERSION = 1;
+
 // Extended name similarity threshold (Levenshtein distance %)
 export const NAME_SIMILARITY_THRESHOLD = 85; // 85% similar names treated as same
 
@@ -146,6 +149,26 @@ export const GOVERNMENT_PATTERNS = [
   "CONSULATE", "PUBLIC WORKS", "COURT OF", "JUDICIARY", "REVENUE", "POLICE"
 ];
 
+// Trust and estate patterns (fiduciary payees reported separately on 1099s)
+export const TRUST_ESTATE_PATTERNS = [
+  "ESTATE OF", "TRUSTEE", "TTEE", "TRUST DTD", "FAMILY TRUST", "LIVING TRUST",
+  "REVOCABLE TRUST", "IRREVOCABLE TRUST", "TESTAMENTARY TRUST", "EXECUTOR", "EXECUTRIX",
+  "ADMINISTRATOR OF", "CONSERVATOR", "GUARDIANSHIP OF", "BENEFICIARY OF"
+];
+
+// Non-profit and charitable organization patterns
+export const NON_PROFIT_PATTERNS = [
+  "FOUNDATION", "CHARITY", "CHARITIES", "CHARITABLE", "NONPROFIT", "NON PROFIT",
+  "NOT FOR PROFIT", "501C3", "501 C 3", "CHURCH", "MINISTRIES", "PARISH", "SYNAGOGUE",
+  "MOSQUE", "DIOCESE", "UNITED WAY", "RED CROSS", "SALVATION ARMY", "HABITAT FOR HUMANITY",
+  "YMCA", "YWCA", "FOOD BANK", "BOYS AND GIRLS CLUB", "ALUMNI ASSOCIATION", "PTA", "PTO"
+];
+
+// Entity labels in the order they are listed in filters and summaries
+export const ENTITY_CLASSIFICATIONS: EntityClassification[] = [
+  'Business', 'Individual', 'Government', 'Trust/Estate', 'Non-Profit'
+];
+
 // Professional titles
 export const PROFESSIONAL_TITLES = [
   "DR", "DOCTOR", "PROF", "PROFESSOR", "MR", "MRS", "MS", "MISS",
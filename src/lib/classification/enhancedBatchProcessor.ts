@@ -3,6 +3,7 @@ import { ClassificationResult, ClassificationConfig } from '../types';
 import { filterPayeeNames } from './keywordExclusion';
 import { DEFAULT_CLASSIFICATION_CONFIG } from './config';
 import { enhancedClassifyPayee } from './enhancedClassification';
+import { getManualOverride } from './review';
 
 interface ProcessingStats {
   totalNames: number;
@@ -59,13 +60,23 @@ export async function enhancedProcessBatch(
   const results: ClassificationResult[] = new Array(total);
 
   try {
+    // Reviewer corrections take precedence over every tier
+    const pendingNames = validPayeeNames.filter((name, index) => {
+      const override = getManualOverride(name);
+      if (!override) return true;
+      results[index] = override;
+      stats.processedCount++;
+      stats.successCount++;
+      return false;
+    });
+
     // Phase 1: Apply keyword exclusion filtering
     console.log(`[ENHANCED] Phase 1: Keyword exclusion filtering`);
     if (onProgress) {
       onProgress(0, total, 5, { phase: 'Filtering excluded keywords...' });
     }
     
-    const { validNames, excludedNames } = filterPayeeNames(validPayeeNames);
+    const { validNames, excludedNames } = filterPayeeNames(pendingNames);
     stats.excludedCount = excludedNames.length;
     
     console.log(`[ENHANCED] Excluded ${excludedNames.length} names, processing ${validNames.length}`);
@@ -4,6 +4,8 @@ import { enhancedClassifyPayeeV2 } from './enhancedClassificationV2';
 import { deduplicateNames } from './nameProcessing';
 import { bulkKeywordExclusion } from './enhancedKeywordExclusion';
 import { DEFAULT_CLASSIFICATION_CONFIG } from './config';
+import { getManualOverride } from './review';
+import { getClassificationCache, getClassifierVersion } from './cache';
 
 export interface BatchRow {
   payeeName: string;
@@ -50,6 +52,12 @@ export async function enhancedProcessBatchV2(
     console.log(`Deduplication: ${rows.length} -> ${processedRows.length} unique names`);
   }
   
+  // Results from earlier batches and sessions
+  const cache = config.usePersistentCache !== false ? getClassificationCache() : null;
+  const classifierVersion = getClassifierVersion('v2', config);
+  await cache?.ready();
+  const cacheStatsBefore = cache?.getStats();
+  
   // Step 3: Process each unique item
   for (let i = 0; i < processedRows.length; i++) {
     const row = processedRows[i];
@@ -57,11 +65,15 @@ export async function enhancedProcessBatchV2(
     try {
       onProgress?.(i + 1, processedRows.length, row.payeeName);
       
-      const result = await enhancedClassifyPayeeV2(row.payeeName, {
-        ...config,
-        retryFailedClassifications: true,
-        maxRetries: 2
-      });
+      let result = getManualOverride(row.payeeName) || cache?.get(row.payeeName, classifierVersion);
+      if (!result) {
+        result = await enhancedClassifyPayeeV2(row.payeeName, {
+          ...config,
+          retryFailedClassifications: true,
+          maxRetries: 2
+        });
+        cache?.set(row.payeeName, classifierVersion, result);
+      }
       
       const classification: PayeeClassification = {
         id: `${Date.now()}-${i}`,
@@ -170,6 +182,11 @@ export async function enhancedProcessBatchV2(
   // Step 6: Sort results by original row index to maintain order
   results.sort((a, b) => (a.rowIndex || 0) - (b.rowIndex || 0));
   
+  await cache?.flush();
+  const cacheStatsAfter = cache?.getStats();
+  const cacheHits = cacheStatsAfter && cacheStatsBefore ? cacheStatsAfter.hits - cacheStatsBefore.hits : 0;
+  const cacheMisses = cacheStatsAfter && cacheStatsBefore ? cacheStatsAfter.misses - cacheStatsBefore.misses : 0;
+  
   // Step 7: Calculate enhanced statistics
   const endTime = Date.now();
   const processingTime = endTime - startTime;
@@ -178,6 +195,9 @@ export async function enhancedProcessBatchV2(
     totalProcessed: results.length,
     businessCount: results.filter(r => r.result.classification === 'Business').length,
     individualCount: results.filter(r => r.result.classification === 'Individual').length,
+    governmentCount: results.filter(r => r.result.classification === 'Government').length,
+    trustEstateCount: results.filter(r => r.result.classification === 'Trust/Estate').length,
+    nonProfitCount: results.filter(r => r.result.classification === 'Non-Profit').length,
     excludedCount: results.filter(r => r.result.processingTier === 'Excluded').length,
     failedCount: results.filter(r => r.result.processingTier === 'Failed').length,
     averageConfidence: results.reduce((sum, r) => sum + r.result.confidence, 0) / results.length,
@@ -191,6 +211,12 @@ export async function enhancedProcessBatchV2(
     processingTime,
     deduplicationSavings: config.useCacheForDuplicates ? rows.length - processedRows.length : 0,
     retryCount: maxRetries,
+    cacheSavings: cacheHits,
+    cacheStats: cache ? {
+      hits: cacheHits,
+      misses: cacheMisses,
+      hitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0
+    } : undefined,
     similarityStats: calculateSimilarityStats(results)
   };
   
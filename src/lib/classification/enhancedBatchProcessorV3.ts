@@ -5,6 +5,9 @@ import { processPayeeDeduplication } from './batchDeduplication';
 import { handleBatchRetries } from './batchRetryHandler';
 import { calculateBatchStatistics, logBatchStatistics } from './batchStatistics';
 import { exportResultsWithOriginalDataV3 } from './exporters';
+import { getManualOverride } from './review';
+import { getClassificationCache, getClassifierVersion } from './cache';
+import { stampExclusionProfile } from './exclusion';
 import { logger } from '../logger';
 
 /**
@@ -20,13 +23,19 @@ export async function enhancedProcessBatchV3(
   logger.info(`[V3 Batch] Starting batch processing of ${payeeNames.length} payees with intelligent escalation`);
   
   // Enhanced deduplication with fuzzy matching
-  const { processQueue, results, duplicateCache } = processPayeeDeduplication(
+  const { processQueue, results, duplicateCache, skippedRows } = processPayeeDeduplication(
     payeeNames,
     originalFileData,
     config.useFuzzyMatching,
     config.similarityThreshold
   );
   
+  // Results from earlier batches and sessions
+  const cache = config.usePersistentCache !== false ? getClassificationCache() : null;
+  const classifierVersion = getClassifierVersion('v3', config);
+  await cache?.ready();
+  const cacheStatsBefore = cache?.getStats();
+  
   // Process in controlled batches with intelligent retry
   const batchSize = Math.min(MAX_CONCURRENCY, 15);
   let totalProcessed = 0;
@@ -38,7 +47,11 @@ export async function enhancedProcessBatchV3(
     
     const batchPromises = batch.map(async (item) => {
       try {
-        const result = await enhancedClassifyPayeeV3(item.name, config);
+        let result = getManualOverride(item.name) || cache?.get(item.name, classifierVersion);
+        if (!result) {
+          result = await enhancedClassifyPayeeV3(item.name, config);
+          cache?.set(item.name, classifierVersion, result);
+        }
         
         const payeeClassification: PayeeClassification = {
           id: `payee-${item.originalIndex}`,
@@ -72,9 +85,9 @@ export async function enhancedProcessBatchV3(
     const batchResults = await Promise.all(batchPromises);
     results.push(...batchResults.filter(result => result !== null) as PayeeClassification[]);
     
-    // Small delay between batches to prevent overwhelming the system
+    // Yield between batches so the page stays responsive when this runs on the main thread
     if (i + batchSize < processQueue.length) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
   }
   
@@ -85,6 +98,9 @@ export async function enhancedProcessBatchV3(
   // Sort results by original index to maintain order
   results.sort((a, b) => (a.rowIndex || 0) - (b.rowIndex || 0));
   
+  await cache?.flush();
+  const cacheStatsAfter = cache?.getStats();
+  
   // Calculate enhanced statistics
   const processingTime = Date.now() - startTime;
   const enhancedStats = calculateBatchStatistics(
@@ -92,18 +108,26 @@ export async function enhancedProcessBatchV3(
     payeeNames.length,
     processQueue,
     retryQueue,
-    processingTime
+    processingTime,
+    cacheStatsBefore && cacheStatsAfter && {
+      hits: cacheStatsAfter.hits - cacheStatsBefore.hits,
+      misses: cacheStatsAfter.misses - cacheStatsBefore.misses
+    }
   );
   
   logBatchStatistics(enhancedStats, results);
   
   return {
-    results,
+    // Record the exclusion profile on the results it was checked for
+    results: stampExclusionProfile(results, config.exclusionProfile),
     successCount: results.length,
     failureCount: 0, // NO FAILURES!
     processingTime,
     originalFileData,
-    enhancedStats
+    enhancedStats,
+    ...(skippedRows.length > 0
+      ? { unclassifiedRows: skippedRows.map(rowIndex => ({ rowIndex, reason: 'empty-name' as const })) }
+      : {})
   };
 }
 
@@ -1,6 +1,7 @@
 
 import { ClassificationResult } from '../types';
 import { worldClassClassification } from './worldClassRules';
+import { getManualOverride } from './review';
 import { logger } from '../logger';
 
 /**
@@ -132,7 +133,7 @@ export async function enhancedBatchRuleOnlyClassification(payeeNames: string[]):
       logger.info(`[ENHANCED-BATCH-RULE-ONLY] Progress: ${i}/${payeeNames.length} (${Math.round((i / payeeNames.length) * 100)}%)`);
     }
     
-    const result = await enhancedRuleOnlyClassification(payeeNames[i]);
+    const result = getManualOverride(payeeNames[i]) || await enhancedRuleOnlyClassification(payeeNames[i]);
     results.push(result);
     
     if (result.classification === 'Individual') {
@@ -1,11 +1,11 @@
 
-import { ClassificationResult } from '../types';
+import { ClassificationResult, EntityClassification } from '../types';
 import { advancedClassifyPayee } from './advancedPayeeClassifier';
 import { worldClassClassification } from './worldClassRules';
 import { classifyWithLocalLLM } from './localLLMClassifier';
 
 interface EnsembleVote {
-  classification: 'Business' | 'Individual';
+  classification: EntityClassification;
   confidence: number;
   weight: number;
   method: string;
@@ -65,22 +65,24 @@ export async function ensembleClassifyPayee(payeeName: string): Promise<Classifi
     console.warn('[ENSEMBLE] World class rules failed:', error);
   }
 
-  // Calculate weighted votes
-  const businessVotes = votes.filter(v => v.classification === 'Business');
-  const individualVotes = votes.filter(v => v.classification === 'Individual');
-
-  const businessScore = businessVotes.reduce((sum, vote) => sum + (vote.confidence * vote.weight), 0);
-  const individualScore = individualVotes.reduce((sum, vote) => sum + (vote.confidence * vote.weight), 0);
+  // Calculate weighted votes per entity type
+  const scores = new Map<EntityClassification, number>();
+  for (const vote of votes) {
+    scores.set(vote.classification, (scores.get(vote.classification) || 0) + vote.confidence * vote.weight);
+  }
 
   const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
-  
-  // Normalize scores
-  const normalizedBusinessScore = businessScore / totalWeight;
-  const normalizedIndividualScore = individualScore / totalWeight;
 
-  // Determine final classification
-  const finalClassification = normalizedBusinessScore > normalizedIndividualScore ? 'Business' : 'Individual';
-  const finalConfidence = Math.max(normalizedBusinessScore, normalizedIndividualScore);
+  // Determine final classification from normalized scores; ties go to Individual
+  let finalClassification: EntityClassification = 'Individual';
+  let finalScore = scores.get('Individual') || 0;
+  for (const [classification, score] of scores) {
+    if (score > finalScore) {
+      finalClassification = classification;
+      finalScore = score;
+    }
+  }
+  const finalConfidence = totalWeight > 0 ? finalScore / totalWeight : 0;
 
   // Generate reasoning from all votes
   const reasoning = generateEnsembleReasoning(votes, finalClassification);
@@ -99,7 +101,7 @@ export async function ensembleClassifyPayee(payeeName: string): Promise<Classifi
 /**
  * Generate reasoning text from ensemble votes
  */
-function generateEnsembleReasoning(votes: EnsembleVote[], finalClassification: 'Business' | 'Individual'): string {
+function generateEnsembleReasoning(votes: EnsembleVote[], finalClassification: EntityClassification): string {
   const supportingVotes = votes.filter(v => v.classification === finalClassification);
   const opposingVotes = votes.filter(v => v.classification !== finalClassification);
 
@@ -0,0 +1,129 @@
+import { ClassificationResult, EntityClassification } from '../types';
+import { GOVERNMENT_PATTERNS, TRUST_ESTATE_PATTERNS, NON_PROFIT_PATTERNS, PROFESSIONAL_TITLES } from './config';
+
+export interface EntityTypeMatch {
+  classification: Exclude<EntityClassification, 'Business' | 'Individual'>;
+  confidence: number;
+  rules: string[];
+}
+
+// Suffixes that mark a commercial entity even when other patterns match
+const COMMERCIAL_SUFFIXES = [
+  'LLC', 'INC', 'CORP', 'CORPORATION', 'INCORPORATED', 'LTD', 'LIMITED',
+  'LLP', 'LP', 'PLLC', 'PC', 'CO', 'COMPANY', 'BANK', 'NA'
+];
+
+// Government references that are specific enough to match on their own
+const EXTRA_GOVERNMENT_PATTERNS = [
+  'INTERNAL REVENUE SERVICE', 'IRS', 'TREASURER', 'TAX COLLECTOR', 'SCHOOL DISTRICT',
+  'SHERIFF', 'CLERK OF COURT', 'DMV', 'SOCIAL SECURITY ADMINISTRATION'
+];
+
+// Phrases that only name a government body at the start ("State of Texas", not "Law Office of ...")
+const LEADING_GOVERNMENT_PATTERNS = ['STATE OF', 'OFFICE OF'];
+
+const normalizeForMatching = (value: string): string =>
+  ` ${value.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim()} `;
+
+const containsPhrase = (normalizedName: string, pattern: string): boolean =>
+  normalizedName.includes(normalizeForMatching(pattern));
+
+function hasCommercialSuffix(normalizedName: string): boolean {
+  return COMMERCIAL_SUFFIXES.some(suffix => containsPhrase(normalizedName, suffix));
+}
+
+function matchesGovernmentPhrase(normalizedName: string, pattern: string): boolean {
+  if (!LEADING_GOVERNMENT_PATTERNS.includes(pattern)) return containsPhrase(normalizedName, pattern);
+
+  const phrase = normalizeForMatching(pattern);
+  if (!normalizedName.startsWith(phrase)) return false;
+  // "Office of Dr Smith" is a practice, not an agency
+  const nextWord = normalizedName.slice(phrase.length).split(' ')[0];
+  return !PROFESSIONAL_TITLES.includes(nextWord);
+}
+
+function detectGovernment(normalizedName: string): EntityTypeMatch | null {
+  // Generic phrases ("U.S.", "STATE OF") also appear in company names such as "U.S. Bank NA",
+  // so they need no commercial suffix; named agencies match on their own
+  const genericPhrases = hasCommercialSuffix(normalizedName) ? [] : GOVERNMENT_PATTERNS
+    .filter(pattern => pattern.includes(' ') || pattern.includes('.'))
+    .filter(pattern => matchesGovernmentPhrase(normalizedName, pattern));
+  const strong = [
+    ...genericPhrases,
+    ...EXTRA_GOVERNMENT_PATTERNS.filter(pattern => containsPhrase(normalizedName, pattern))
+  ];
+  if (strong.length > 0) {
+    return {
+      classification: 'Government',
+      confidence: 92,
+      rules: strong.map(pattern => `Government pattern: ${pattern}`)
+    };
+  }
+
+  // Single generic words ("AUTHORITY", "NATIONAL") need corroboration and no commercial suffix
+  const weak = GOVERNMENT_PATTERNS
+    .filter(pattern => !pattern.includes(' ') && !pattern.includes('.'))
+    .filter(pattern => containsPhrase(normalizedName, pattern));
+  if (weak.length >= 2 && !hasCommercialSuffix(normalizedName)) {
+    return {
+      classification: 'Government',
+      confidence: 80,
+      rules: weak.map(pattern => `Government keyword: ${pattern}`)
+    };
+  }
+
+  return null;
+}
+
+function detectTrustEstate(normalizedName: string): EntityTypeMatch | null {
+  // Trust companies and bank trustee services are businesses
+  if (hasCommercialSuffix(normalizedName)) return null;
+
+  const rules = TRUST_ESTATE_PATTERNS
+    .filter(pattern => containsPhrase(normalizedName, pattern))
+    .map(pattern => `Trust/estate pattern: ${pattern}`);
+
+  // "SMITH TRUST" or "JOHN DOE ESTATE", but not real estate firms
+  const trimmed = normalizedName.trim();
+  if (/ TRUST$/.test(trimmed)) rules.push('Ends with TRUST');
+  if (/ ESTATE$/.test(trimmed) && !/ REAL ESTATE$/.test(trimmed)) rules.push('Ends with ESTATE');
+
+  return rules.length > 0 ? { classification: 'Trust/Estate', confidence: 90, rules } : null;
+}
+
+function detectNonProfit(normalizedName: string): EntityTypeMatch | null {
+  if (hasCommercialSuffix(normalizedName)) return null;
+
+  const rules = NON_PROFIT_PATTERNS
+    .filter(pattern => containsPhrase(normalizedName, pattern))
+    .map(pattern => `Non-profit pattern: ${pattern}`);
+
+  return rules.length > 0 ? { classification: 'Non-Profit', confidence: 85, rules } : null;
+}
+
+/**
+ * Detect government, trust/estate and non-profit payees
+ * Returns null for ordinary businesses and individuals
+ */
+export function detectEntityType(payeeName: string): EntityTypeMatch | null {
+  if (!payeeName || !payeeName.trim()) return null;
+
+  const normalizedName = normalizeForMatching(payeeName);
+  return detectGovernment(normalizedName) ||
+    detectTrustEstate(normalizedName) ||
+    detectNonProfit(normalizedName);
+}
+
+/**
+ * Build a classification result from an entity type match
+ */
+export function createEntityTypeResult(match: EntityTypeMatch): ClassificationResult {
+  return {
+    classification: match.classification,
+    confidence: match.confidence,
+    reasoning: `Classified as ${match.classification} based on: ${match.rules.join(', ')}`,
+    processingTier: 'Rule-Based',
+    matchingRules: match.rules,
+    processingMethod: 'Entity type detection'
+  };
+}
@@ -0,0 +1,129 @@
+import { ClassificationConfig } from '../../types';
+import { DEFAULT_CLASSIFICATION_CONFIG, ENTITY_CLASSIFICATIONS } from '../config';
+import { getPipelinePreset } from '../pipeline';
+import { CalibrationFitOptions, CalibrationModel, fitCalibration } from '../calibration';
+import { computeEvaluationMetrics } from './metrics';
+import { EvaluationOptions, EvaluationPrediction, EvaluationReport, LabeledPayee } from './types';
+
+// Engines offered by the evaluation CLI and panel
+export const EVALUATION_ENGINES = ['v3', 'v4', 'deterministic', 'ensemble'] as const;
+
+// Fuzzy matching learns from every name it sees, which would leak earlier rows into later ones
+export const EVALUATION_CONFIG: ClassificationConfig = {
+  ...DEFAULT_CLASSIFICATION_CONFIG,
+  offlineMode: true,
+  useFuzzyMatching: false
+};
+
+/**
+ * Run a classifier over a labeled dataset and score it against the expected labels
+ */
+export async function evaluateClassifier(
+  dataset: LabeledPayee[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const engine = options.classifier ? 'custom' : (options.engine || 'v3');
+  const config = options.config || EVALUATION_CONFIG;
+  const classify = options.classifier ||
+    ((payeeName: string) => getPipelinePreset(options.engine || 'v3').classify(payeeName, config));
+
+  console.log(`[EVALUATION] Evaluating ${dataset.length} labeled payees with ${engine}`);
+  const startTime = Date.now();
+  const predictions: EvaluationPrediction[] = [];
+
+  for (const item of dataset) {
+    const result = await classify(item.payeeName);
+    predictions.push({
+      payeeName: item.payeeName,
+      expected: item.expected,
+      result,
+      correct: result.classification === item.expected
+    });
+    options.onProgress?.(predictions.length, dataset.length);
+  }
+
+  const metrics = computeEvaluationMetrics(predictions);
+  console.log(`[EVALUATION] ${engine}: ${metrics.correct}/${metrics.total} correct (${(metrics.accuracy * 100).toFixed(1)}%)`);
+
+  return {
+    engine,
+    processingTime: Date.now() - startTime,
+    predictions,
+    ...metrics
+  };
+}
+
+/**
+ * Fit a confidence calibration from an evaluation run, using the raw stage scores
+ */
+export function fitCalibrationFromReport(
+  report: EvaluationReport,
+  options: CalibrationFitOptions = {}
+): CalibrationModel {
+  return fitCalibration(
+    report.predictions.map(prediction => ({
+      confidence: prediction.result.rawConfidence ?? prediction.result.confidence,
+      correct: prediction.correct,
+      processingTier: prediction.result.processingTier
+    })),
+    { source: report.engine, ...options }
+  );
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatEvaluationReport(report: EvaluationReport, maxMisclassified = 25): string {
+  const labels = ENTITY_CLASSIFICATIONS.filter(label =>
+    report.perClass[label].support > 0 || report.perClass[label].predicted > 0
+  );
+  const width = Math.max(...labels.map(label => label.length), 12);
+  const pad = (value: string | number) => String(value).padEnd(width);
+  const cell = (value: string | number) => String(value).padStart(10);
+  const lines: string[] = [];
+
+  lines.push(`Engine: ${report.engine}`);
+  lines.push(`Accuracy: ${percent(report.accuracy)} (${report.correct}/${report.total})`);
+  lines.push(`Macro F1: ${percent(report.macroF1)}`);
+  lines.push(`Processing time: ${report.processingTime}ms`);
+
+  lines.push('', 'Per-class metrics');
+  lines.push(pad('Class') + cell('Precision') + cell('Recall') + cell('F1') + cell('Support'));
+  for (const label of labels) {
+    const metrics = report.perClass[label];
+    lines.push(pad(label) + cell(percent(metrics.precision)) + cell(percent(metrics.recall)) +
+      cell(percent(metrics.f1)) + cell(metrics.support));
+  }
+
+  lines.push('', 'Confusion matrix (rows: expected, columns: predicted)');
+  lines.push(pad('') + labels.map(label => label.padStart(width + 1)).join(''));
+  for (const expected of labels) {
+    lines.push(pad(expected) + labels.map(predicted =>
+      String(report.confusionMatrix[expected][predicted]).padStart(width + 1)
+    ).join(''));
+  }
+
+  lines.push('', 'Per-tier breakdown');
+  for (const [tier, metrics] of Object.entries(report.tierBreakdown)) {
+    lines.push(`${pad(tier)}${cell(metrics.total)}${cell(percent(metrics.accuracy))}`);
+  }
+
+  lines.push('', `Reliability (expected calibration error ${percent(report.reliability.expectedCalibrationError)})`);
+  lines.push(pad('Confidence') + cell('Count') + cell('Mean conf') + cell('Accuracy'));
+  for (const bin of report.reliability.bins.filter(bin => bin.count > 0)) {
+    lines.push(pad(`${bin.lower}-${bin.upper}%`) + cell(bin.count) + cell(percent(bin.meanConfidence)) +
+      cell(percent(bin.accuracy)));
+  }
+
+  lines.push('', `Misclassified (${report.misclassified.length})`);
+  for (const miss of report.misclassified.slice(0, maxMisclassified)) {
+    lines.push(`  ${miss.payeeName}: expected ${miss.expected}, got ${miss.predicted} (${miss.confidence}%, ${miss.processingTier})`);
+  }
+  if (report.misclassified.length > maxMisclassified) {
+    lines.push(`  ... and ${report.misclassified.length - maxMisclassified} more`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,5 @@
+// Main export file for the evaluation module
+export * from './types';
+export * from './labeledDataset';
+export * from './metrics';
+export * from './evaluator';
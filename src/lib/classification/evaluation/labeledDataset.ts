@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import { EntityClassification } from '../../types';
+import { LabeledPayee, LabeledDatasetOptions } from './types';
+
+const NAME_COLUMN_CANDIDATES = ['payee', 'payee_name', 'payeename', 'payee name', 'name'];
+const LABEL_COLUMN_CANDIDATES = ['expected', 'label', 'classification', 'class', 'entity_type', 'type'];
+
+const LABEL_ALIASES: Record<string, EntityClassification> = {
+  'business': 'Business',
+  'b': 'Business',
+  'company': 'Business',
+  'individual': 'Individual',
+  'i': 'Individual',
+  'person': 'Individual',
+  'government': 'Government',
+  'gov': 'Government',
+  'g': 'Government',
+  'trust/estate': 'Trust/Estate',
+  'trust': 'Trust/Estate',
+  'estate': 'Trust/Estate',
+  't': 'Trust/Estate',
+  'non-profit': 'Non-Profit',
+  'nonprofit': 'Non-Profit',
+  'npo': 'Non-Profit',
+  'n': 'Non-Profit'
+};
+
+/**
+ * Map a label from a ground-truth file to an entity classification
+ */
+export function normalizeLabel(label: unknown): EntityClassification | null {
+  if (label === null || label === undefined) return null;
+  const key = String(label).trim().toLowerCase().replace(/\s+/g, '');
+  return LABEL_ALIASES[key] || LABEL_ALIASES[key.replace(/_/g, '-')] || null;
+}
+
+function findColumn(columns: string[], requested: string | undefined, candidates: string[]): string | undefined {
+  if (requested) {
+    return columns.find(column => column === requested) ||
+      columns.find(column => column.toLowerCase() === requested.toLowerCase());
+  }
+  return candidates
+    .map(candidate => columns.find(column => column.trim().toLowerCase() === candidate))
+    .find(Boolean);
+}
+
+function toLabeledPayees(rows: Record<string, unknown>[], options: LabeledDatasetOptions): LabeledPayee[] {
+  if (rows.length === 0) {
+    throw new Error('Labeled dataset is empty');
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const nameColumn = findColumn(columns, options.nameColumn, NAME_COLUMN_CANDIDATES);
+  const labelColumn = findColumn(columns, options.labelColumn, LABEL_COLUMN_CANDIDATES);
+  if (!nameColumn) {
+    throw new Error(`Could not find a payee name column (looked for ${options.nameColumn || NAME_COLUMN_CANDIDATES.join(', ')})`);
+  }
+  if (!labelColumn) {
+    throw new Error(`Could not find an expected label column (looked for ${options.labelColumn || LABEL_COLUMN_CANDIDATES.join(', ')})`);
+  }
+
+  return rows.map((row, index) => {
+    // Row numbers are 1-based and count the header line for CSV input
+    const rowNumber = index + (options.format === 'json' ? 1 : 2);
+    const payeeName = String(row[nameColumn] ?? '').trim();
+    const expected = normalizeLabel(row[labelColumn]);
+    if (!payeeName) {
+      throw new Error(`Row ${rowNumber}: missing payee name`);
+    }
+    if (!expected) {
+      throw new Error(`Row ${rowNumber}: unknown label "${String(row[labelColumn] ?? '')}" for ${payeeName}`);
+    }
+    return { payeeName, expected, rowNumber };
+  });
+}
+
+/**
+ * Parse labeled payees from CSV text with a header row
+ */
+export function parseLabeledCSV(text: string, options: LabeledDatasetOptions = {}): LabeledPayee[] {
+  const workbook = XLSX.read(text, { type: 'string', raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '', raw: false });
+  return toLabeledPayees(rows, { ...options, format: 'csv' });
+}
+
+/**
+ * Parse labeled payees from a JSON array (or `{ "records": [...] }`)
+ */
+export function parseLabeledJSON(text: string, options: LabeledDatasetOptions = {}): LabeledPayee[] {
+  const parsed: unknown = JSON.parse(text);
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { records?: unknown }).records;
+  if (!Array.isArray(rows)) {
+    throw new Error('Labeled JSON must be an array of records or an object with a "records" array');
+  }
+  return toLabeledPayees(rows as Record<string, unknown>[], { ...options, format: 'json' });
+}
+
+/**
+ * Parse a labeled dataset, detecting JSON vs CSV from the content when no format is given
+ */
+export function parseLabeledDataset(text: string, options: LabeledDatasetOptions = {}): LabeledPayee[] {
+  const format = options.format || (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  return format === 'json' ? parseLabeledJSON(text, options) : parseLabeledCSV(text, options);
+}
@@ -0,0 +1,94 @@
+import { EntityClassification } from '../../types';
+import { ENTITY_CLASSIFICATIONS } from '../config';
+import { computeReliabilityDiagram } from '../calibration';
+import {
+  ClassMetrics,
+  ConfusionMatrix,
+  EvaluationMetrics,
+  EvaluationPrediction,
+  TierMetrics
+} from './types';
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator > 0 ? numerator / denominator : 0;
+
+function emptyConfusionMatrix(): ConfusionMatrix {
+  const matrix = {} as ConfusionMatrix;
+  for (const expected of ENTITY_CLASSIFICATIONS) {
+    matrix[expected] = {} as Record<EntityClassification, number>;
+    for (const predicted of ENTITY_CLASSIFICATIONS) {
+      matrix[expected][predicted] = 0;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Accuracy, per-class precision/recall/F1, confusion matrix, per-tier breakdown and reliability
+ */
+export function computeEvaluationMetrics(predictions: EvaluationPrediction[]): EvaluationMetrics {
+  const confusionMatrix = emptyConfusionMatrix();
+  const tierBreakdown: Record<string, TierMetrics> = {};
+
+  for (const prediction of predictions) {
+    confusionMatrix[prediction.expected][prediction.result.classification]++;
+
+    const tier = prediction.result.processingTier || 'Unknown';
+    const tierMetrics = tierBreakdown[tier] || (tierBreakdown[tier] = { total: 0, correct: 0, accuracy: 0 });
+    tierMetrics.total++;
+    if (prediction.correct) tierMetrics.correct++;
+  }
+
+  for (const tierMetrics of Object.values(tierBreakdown)) {
+    tierMetrics.accuracy = ratio(tierMetrics.correct, tierMetrics.total);
+  }
+
+  const perClass = {} as Record<EntityClassification, ClassMetrics>;
+  for (const label of ENTITY_CLASSIFICATIONS) {
+    const truePositives = confusionMatrix[label][label];
+    const support = ENTITY_CLASSIFICATIONS.reduce((sum, predicted) => sum + confusionMatrix[label][predicted], 0);
+    const predicted = ENTITY_CLASSIFICATIONS.reduce((sum, expected) => sum + confusionMatrix[expected][label], 0);
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    perClass[label] = {
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+      support,
+      predicted
+    };
+  }
+
+  // Macro F1 only averages classes that appear in the labels
+  const presentClasses = ENTITY_CLASSIFICATIONS.filter(label => perClass[label].support > 0);
+  const macroF1 = ratio(
+    presentClasses.reduce((sum, label) => sum + perClass[label].f1, 0),
+    presentClasses.length
+  );
+
+  const correct = predictions.filter(prediction => prediction.correct).length;
+
+  return {
+    total: predictions.length,
+    correct,
+    accuracy: ratio(correct, predictions.length),
+    macroF1,
+    perClass,
+    confusionMatrix,
+    tierBreakdown,
+    misclassified: predictions
+      .filter(prediction => !prediction.correct)
+      .map(prediction => ({
+        payeeName: prediction.payeeName,
+        expected: prediction.expected,
+        predicted: prediction.result.classification,
+        confidence: prediction.result.confidence,
+        processingTier: prediction.result.processingTier,
+        reasoning: prediction.result.reasoning
+      })),
+    reliability: computeReliabilityDiagram(predictions.map(prediction => ({
+      confidence: prediction.result.confidence,
+      correct: prediction.correct
+    })))
+  };
+}
@@ -0,0 +1,77 @@
+import { ClassificationResult, ClassificationConfig, EntityClassification } from '../../types';
+import { PipelinePresetName } from '../pipeline';
+import { ReliabilityDiagram } from '../calibration';
+
+export interface LabeledPayee {
+  payeeName: string;
+  expected: EntityClassification;
+  rowNumber?: number;
+}
+
+export interface LabeledDatasetOptions {
+  format?: 'csv' | 'json';
+  nameColumn?: string;
+  labelColumn?: string;
+}
+
+export type ClassifierFunction = (payeeName: string) => Promise<ClassificationResult> | ClassificationResult;
+
+export interface EvaluationOptions {
+  engine?: PipelinePresetName;
+  classifier?: ClassifierFunction;
+  config?: ClassificationConfig;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface EvaluationPrediction {
+  payeeName: string;
+  expected: EntityClassification;
+  result: ClassificationResult;
+  correct: boolean;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+  predicted: number;
+}
+
+/**
+ * Rows are expected labels, columns are predicted labels
+ */
+export type ConfusionMatrix = Record<EntityClassification, Record<EntityClassification, number>>;
+
+export interface TierMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface Misclassification {
+  payeeName: string;
+  expected: EntityClassification;
+  predicted: EntityClassification;
+  confidence: number;
+  processingTier: string;
+  reasoning: string;
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<EntityClassification, ClassMetrics>;
+  confusionMatrix: ConfusionMatrix;
+  tierBreakdown: Record<string, TierMetrics>;
+  misclassified: Misclassification[];
+  reliability: ReliabilityDiagram;
+}
+
+export interface EvaluationReport extends EvaluationMetrics {
+  engine: string;
+  processingTime: number;
+  predictions: EvaluationPrediction[];
+}
@@ -0,0 +1,57 @@
+import { ExclusionImpact, ExclusionImpactExample, ExclusionRule } from './types';
+import { getExclusionMatcher } from './matcher';
+
+// Example names kept per direction of change
+export const DEFAULT_IMPACT_EXAMPLE_LIMIT = 10;
+
+const byRowCount = (a: ExclusionImpactExample, b: ExclusionImpactExample) => b.rowCount - a.rowCount;
+
+/**
+ * Re-run exclusion over a sample of payee names with the current and the proposed
+ * rules, counting rows that become excluded or stop being excluded
+ */
+export function previewExclusionImpact(
+  payeeNames: string[],
+  currentRules: ExclusionRule[],
+  proposedRules: ExclusionRule[],
+  exampleLimit = DEFAULT_IMPACT_EXAMPLE_LIMIT
+): ExclusionImpact {
+  const rowCounts = new Map<string, number>();
+  for (const name of payeeNames) {
+    if (name.trim()) rowCounts.set(name, (rowCounts.get(name) || 0) + 1);
+  }
+
+  const current = getExclusionMatcher(currentRules);
+  const proposed = getExclusionMatcher(proposedRules);
+  const newlyExcluded: ExclusionImpactExample[] = [];
+  const newlyIncluded: ExclusionImpactExample[] = [];
+  const impact: ExclusionImpact = {
+    checkedRows: 0,
+    checkedNames: rowCounts.size,
+    excludedRowsBefore: 0,
+    excludedRowsAfter: 0,
+    newlyExcludedRows: 0,
+    newlyIncludedRows: 0,
+    newlyExcluded,
+    newlyIncluded
+  };
+
+  for (const [payeeName, rowCount] of rowCounts) {
+    const before = current.match(payeeName);
+    const after = proposed.match(payeeName);
+    impact.checkedRows += rowCount;
+    if (before) impact.excludedRowsBefore += rowCount;
+    if (after) impact.excludedRowsAfter += rowCount;
+    if (after && !before) {
+      impact.newlyExcludedRows += rowCount;
+      newlyExcluded.push({ payeeName, rowCount, rule: after.rule });
+    } else if (before && !after) {
+      impact.newlyIncludedRows += rowCount;
+      newlyIncluded.push({ payeeName, rowCount, rule: before.rule });
+    }
+  }
+
+  impact.newlyExcluded = newlyExcluded.sort(byRowCount).slice(0, exampleLimit);
+  impact.newlyIncluded = newlyIncluded.sort(byRowCount).slice(0, exampleLimit);
+  return impact;
+}
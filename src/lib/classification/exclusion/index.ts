@@ -0,0 +1,6 @@
+// Main export file for the keyword exclusion rules module
+export * from './types';
+export * from './rules';
+export * from './matcher';
+export * from './profiles';
+export * from './impact';
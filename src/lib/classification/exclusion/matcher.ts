@@ -0,0 +1,168 @@
+import { ExclusionRule, ExclusionRuleMatch } from './types';
+import { matchExclusionRule, migrateExclusionRules, normalizeExclusionText } from './rules';
+
+// Share of a fuzzy keyword's trigrams a name must contain before it is scored
+export const MIN_FUZZY_TRIGRAM_OVERLAP = 0.4;
+
+export interface ExclusionMatcher {
+  rules: ExclusionRule[];
+  match(payeeName: string): ExclusionRuleMatch | null;
+}
+
+interface TrieNode {
+  next: Map<string, number>;
+  fail: number;
+  outputs: number[]; // Rule indexes whose pattern ends here, including via fail links
+}
+
+/**
+ * Aho-Corasick automaton over the space-padded name, so every whole-word and
+ * prefix rule is found in one pass regardless of how many rules there are
+ */
+class PatternAutomaton {
+  private nodes: TrieNode[] = [{ next: new Map(), fail: 0, outputs: [] }];
+
+  add(pattern: string, ruleIndex: number): void {
+    let state = 0;
+    for (const char of pattern) {
+      let nextState = this.nodes[state].next.get(char);
+      if (nextState === undefined) {
+        nextState = this.nodes.length;
+        this.nodes.push({ next: new Map(), fail: 0, outputs: [] });
+        this.nodes[state].next.set(char, nextState);
+      }
+      state = nextState;
+    }
+    this.nodes[state].outputs.push(ruleIndex);
+  }
+
+  build(): void {
+    const queue: number[] = [];
+    this.nodes[0].next.forEach(child => queue.push(child));
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      this.nodes[state].next.forEach((child, char) => {
+        let fail = this.nodes[state].fail;
+        while (fail !== 0 && !this.nodes[fail].next.has(char)) fail = this.nodes[fail].fail;
+        const target = this.nodes[fail].next.get(char);
+        this.nodes[child].fail = target !== undefined && target !== child ? target : 0;
+        this.nodes[child].outputs.push(...this.nodes[this.nodes[child].fail].outputs);
+        queue.push(child);
+      });
+    }
+  }
+
+  // Lowest rule index found in the text, or Infinity
+  firstMatch(text: string): number {
+    let best = Infinity;
+    let state = 0;
+    for (const char of text) {
+      while (state !== 0 && !this.nodes[state].next.has(char)) state = this.nodes[state].fail;
+      state = this.nodes[state].next.get(char) ?? 0;
+      for (const ruleIndex of this.nodes[state].outputs) {
+        if (ruleIndex < best) best = ruleIndex;
+      }
+    }
+    return best;
+  }
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+/**
+ * Compile rules into a matcher that gives the same answer as findExclusionMatch.
+ * Whole-word and prefix rules share one automaton, exact rules a lookup table,
+ * and fuzzy rules are only scored when the name shares enough trigrams with them.
+ */
+export function compileExclusionMatcher(rules: ExclusionRule[]): ExclusionMatcher {
+  const automaton = new PatternAutomaton();
+  const exactRules = new Map<string, number>();
+  const regexRules: number[] = [];
+  const fuzzyRules: Array<{ index: number; trigramCount: number }> = [];
+  const trigramIndex = new Map<string, number[]>(); // Trigram -> positions in fuzzyRules
+
+  rules.forEach((rule, index) => {
+    if (!rule.enabled) return;
+    const keyword = normalizeExclusionText(rule.keyword);
+    switch (rule.matchMode) {
+      case 'whole-word':
+        if (keyword) automaton.add(` ${keyword} `, index);
+        break;
+      case 'prefix':
+        if (keyword) automaton.add(` ${keyword}`, index);
+        break;
+      case 'exact':
+        if (keyword && !exactRules.has(keyword)) exactRules.set(keyword, index);
+        break;
+      case 'regex':
+        regexRules.push(index);
+        break;
+      case 'fuzzy': {
+        const grams = trigrams(keyword);
+        grams.forEach(gram => {
+          const postings = trigramIndex.get(gram) || [];
+          postings.push(fuzzyRules.length);
+          trigramIndex.set(gram, postings);
+        });
+        fuzzyRules.push({ index, trigramCount: grams.size });
+        break;
+      }
+    }
+  });
+  automaton.build();
+
+  const bestFuzzyMatch = (payeeName: string, normalizedName: string): ExclusionRuleMatch | null => {
+    const shared = new Array<number>(fuzzyRules.length).fill(0);
+    trigrams(normalizedName).forEach(gram => {
+      trigramIndex.get(gram)?.forEach(position => shared[position]++);
+    });
+
+    let best: ExclusionRuleMatch | null = null;
+    fuzzyRules.forEach(({ index, trigramCount }, position) => {
+      if (shared[position] < trigramCount * MIN_FUZZY_TRIGRAM_OVERLAP) return;
+      const match = matchExclusionRule(rules[index], payeeName, normalizedName);
+      if (match && (!best || match.similarity > best.similarity)) best = match;
+    });
+    return best;
+  };
+
+  return {
+    rules,
+    match: (payeeName: string) => {
+      const normalizedName = normalizeExclusionText(payeeName || '');
+      let first = normalizedName ? automaton.firstMatch(` ${normalizedName} `) : Infinity;
+      first = Math.min(first, exactRules.get(normalizedName) ?? Infinity);
+      for (const index of regexRules) {
+        if (index >= first) break;
+        if (matchExclusionRule(rules[index], payeeName, normalizedName)) first = index;
+      }
+
+      if (first !== Infinity) return matchExclusionRule(rules[first], payeeName, normalizedName);
+      return fuzzyRules.length > 0 ? bestFuzzyMatch(payeeName, normalizedName) : null;
+    }
+  };
+}
+
+const compiledMatchers = new WeakMap<object, ExclusionMatcher>();
+
+/**
+ * Compiled matcher for a rule list, built once per list. Rule lists are replaced
+ * rather than mutated when edited, so a new list gets a new matcher.
+ * Plain keyword lists are migrated to whole-word rules first.
+ */
+export function getExclusionMatcher(rules: ReadonlyArray<ExclusionRule | string>): ExclusionMatcher {
+  let matcher = compiledMatchers.get(rules);
+  if (!matcher) {
+    const normalized = rules.some(rule => typeof rule === 'string')
+      ? migrateExclusionRules(rules)
+      : rules as ExclusionRule[];
+    matcher = compileExclusionMatcher(normalized);
+    compiledMatchers.set(rules, matcher);
+  }
+  return matcher;
+}
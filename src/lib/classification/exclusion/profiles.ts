@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import { PayeeClassification } from '../../types';
+import {
+  ExclusionProfile,
+  ExclusionProfileDiff,
+  ExclusionProfileFormat,
+  ExclusionProfileRef,
+  ExclusionRule
+} from './types';
+import { getExclusionRuleKey, migrateExclusionRules } from './rules';
+
+// Column order of exported profile CSV files
+export const EXCLUSION_PROFILE_CSV_COLUMNS = ['keyword', 'matchMode', 'category', 'enabled', 'fuzzyThreshold', 'notes'] as const;
+
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+export function createExclusionProfile(
+  name: string,
+  rules: ExclusionRule[] = [],
+  description?: string
+): ExclusionProfile {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name: name.trim(),
+    version: 1,
+    rules: rules.map(rule => ({ ...rule })),
+    ...(description?.trim() ? { description: description.trim() } : {}),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function cloneExclusionProfile(profile: ExclusionProfile, name: string): ExclusionProfile {
+  return createExclusionProfile(name, profile.rules, `Cloned from ${formatExclusionProfileLabel(profile)}`);
+}
+
+/**
+ * Copy of the profile with new rules and the next version number
+ */
+export function withExclusionProfileRules(profile: ExclusionProfile, rules: ExclusionRule[]): ExclusionProfile {
+  return { ...profile, rules, version: profile.version + 1, updatedAt: new Date().toISOString() };
+}
+
+export const getExclusionProfileRef = ({ id, name, version }: ExclusionProfileRef): ExclusionProfileRef =>
+  ({ id, name, version });
+
+// Pipeline stage that checks the run's profile before any classifier
+export const EXCLUSION_PROFILE_STAGE_ID = 'exclusion-profile';
+
+/**
+ * Record the profile on the results it was checked for, going by each result's
+ * explanation trace. Manual overrides and results from pipelines without the
+ * profile stage are left unstamped.
+ */
+export function stampExclusionProfile(results: PayeeClassification[], profile?: ExclusionProfileRef): PayeeClassification[] {
+  if (!profile) return results;
+  const ref = getExclusionProfileRef(profile);
+  return results.map(item => item.result.explanation?.steps.some(step =>
+    step.stageId === EXCLUSION_PROFILE_STAGE_ID && step.outcome !== 'skipped'
+  ) ? { ...item, exclusionProfile: ref } : item);
+}
+
+export const formatExclusionProfileLabel = (profile: Pick<ExclusionProfileRef, 'name' | 'version'>): string =>
+  `${profile.name} v${profile.version}`;
+
+/**
+ * Turn stored or imported data into a profile, or null when it is not one
+ */
+export function normalizeExclusionProfile(input: unknown): ExclusionProfile | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const candidate = input as Partial<ExclusionProfile>;
+  if (typeof candidate.name !== 'string' || !candidate.name.trim() || !Array.isArray(candidate.rules)) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: typeof candidate.id === 'string' && candidate.id ? candidate.id : uuidv4(),
+    name: candidate.name.trim(),
+    version: Number.isInteger(candidate.version) && (candidate.version as number) > 0 ? candidate.version as number : 1,
+    rules: migrateExclusionRules(candidate.rules),
+    ...(candidate.description ? { description: String(candidate.description) } : {}),
+    createdAt: candidate.createdAt || now,
+    updatedAt: candidate.updatedAt || candidate.createdAt || now
+  };
+}
+
+export function exclusionProfileToJson(profile: ExclusionProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+/**
+ * One rule per row; the profile name and version are not part of the file
+ */
+export function exclusionProfileToCsv(profile: ExclusionProfile): string {
+  const rows = profile.rules.map(rule => ({
+    keyword: rule.keyword,
+    matchMode: rule.matchMode,
+    category: rule.category,
+    enabled: rule.enabled,
+    fuzzyThreshold: rule.fuzzyThreshold ?? '',
+    notes: rule.notes ?? ''
+  }));
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: [...EXCLUSION_PROFILE_CSV_COLUMNS] });
+  return XLSX.utils.sheet_to_csv(sheet);
+}
+
+function parseRulesCsv(text: string): unknown[] {
+  const workbook = XLSX.read(text, { type: 'string', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+  const columns = Object.keys(rows[0] || {});
+  const keywordColumn = columns.find(column => column.trim().toLowerCase() === 'keyword');
+
+  // Without a keyword column the first column is a plain keyword list
+  if (!keywordColumn) {
+    const firstColumn = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false });
+    return firstColumn.map(row => String(row[0] ?? ''));
+  }
+
+  const column = (name: string) => columns.find(candidate => candidate.trim().toLowerCase() === name.toLowerCase());
+  const read = (row: Record<string, unknown>, name: string) => {
+    const key = column(name);
+    return key ? String(row[key] ?? '').trim() : '';
+  };
+
+  return rows.map(row => {
+    const enabled = read(row, 'enabled');
+    const fuzzyThreshold = read(row, 'fuzzyThreshold');
+    return {
+      keyword: read(row, 'keyword'),
+      matchMode: read(row, 'matchMode') || undefined,
+      category: read(row, 'category') || undefined,
+      enabled: !FALSE_VALUES.includes(enabled.toLowerCase()),
+      ...(fuzzyThreshold ? { fuzzyThreshold: Number(fuzzyThreshold) } : {}),
+      ...(read(row, 'notes') ? { notes: read(row, 'notes') } : {})
+    };
+  });
+}
+
+/**
+ * Read an exported profile. JSON may hold a full profile, a rule list or a plain
+ * keyword list; CSV holds rules or keywords. Lists get the given name.
+ */
+export function parseExclusionProfile(
+  text: string,
+  options: { format?: ExclusionProfileFormat; name?: string } = {}
+): ExclusionProfile {
+  const trimmed = text.trim();
+  const format = options.format || (trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'csv');
+  const fallbackName = options.name?.trim() || 'Imported profile';
+
+  let data: unknown;
+  if (format === 'json') {
+    try {
+      data = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid profile JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    data = parseRulesCsv(trimmed);
+  }
+
+  const profile = Array.isArray(data)
+    ? createExclusionProfile(fallbackName, migrateExclusionRules(data))
+    : normalizeExclusionProfile(data && typeof data === 'object' ? { name: fallbackName, ...data } : data);
+
+  if (!profile) {
+    throw new Error('File is not an exclusion profile or rule list');
+  }
+  if (profile.rules.length === 0) {
+    throw new Error(`No valid exclusion rules found in profile "${profile.name}"`);
+  }
+  return profile;
+}
+
+/**
+ * Rules added, removed and changed going from one profile to another.
+ * Rules are matched by keyword and match mode.
+ */
+export function diffExclusionProfiles(from: ExclusionProfile, to: ExclusionProfile): ExclusionProfileDiff {
+  const before = new Map(from.rules.map(rule => [getExclusionRuleKey(rule), rule]));
+  const diff: ExclusionProfileDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+  const settings = (rule: ExclusionRule) =>
+    JSON.stringify([rule.category, rule.enabled, rule.fuzzyThreshold ?? null, rule.notes ?? null]);
+
+  for (const rule of to.rules) {
+    const key = getExclusionRuleKey(rule);
+    const previous = before.get(key);
+    before.delete(key);
+    if (!previous) {
+      diff.added.push(rule);
+    } else if (settings(previous) !== settings(rule)) {
+      diff.changed.push({ before: previous, after: rule });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+  diff.removed = Array.from(before.values());
+  return diff;
+}
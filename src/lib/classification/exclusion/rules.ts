@@ -0,0 +1,192 @@
+import { calculateCombinedSimilarity } from '../stringMatching';
+import {
+  EXCLUSION_CATEGORIES,
+  EXCLUSION_MATCH_MODES,
+  ExclusionCategory,
+  ExclusionMatchMode,
+  ExclusionRule,
+  ExclusionRuleMatch
+} from './types';
+
+export const DEFAULT_FUZZY_THRESHOLD = 90;
+
+// Rules migrated from a plain keyword list match whole words only, so "ADP"
+// no longer excludes "GADPOLE" and "ATT" no longer excludes "MATTHEW"
+export const LEGACY_MATCH_MODE: ExclusionMatchMode = 'whole-word';
+
+// First matching pattern wins; used to categorize keywords migrated from a plain list
+const CATEGORY_PATTERNS: Array<[ExclusionCategory, RegExp]> = [
+  ['bank', /\b(BANK|BANKS|BANC|BANCORP|BANKCORP|BANCSHARES|CREDIT UNION|FCU|SAVINGS|CITI|CITIBANK|CHASE|WELLS FARGO|PNC|TRUIST|BARCLAYS|MIZUHO|ZIONS|FDIC|FEDERAL RESERVE|JP ?MORGAN|MELLON|FIFTH THIRD|COBANK|USAA|M T|MANUFACTURERS AND TRADERS)\b/],
+  ['insurer', /\b(INSURANCE|INSURER|ASSURANCE|MUTUAL|LIFE|ANNUITY|AETNA|AFLAC|AIG|ANTHEM|AXA|CIGNA|GEICO|HUMANA|METLIFE|PRUDENTIAL|STATE FARM|TRAVELERS|ZURICH|HARTFORD|KAISER|HIGHMARK|EXCELLUS|UHC|UNITED HEALTH(CARE)?|BLUE (CROSS|SHIELD|CARE)|DELTA DENTAL|AMICA|AMERISURE|MAPFRE|CENTENE|HEALTHSPRING|MAGELLAN HEALTH)\b/],
+  ['utility', /\b(ELECTRIC|ELECTRICAL|POWER|ENERGY|GAS|WATER|SEWER|HYDRO|SOLAR|NUCLEAR|UTILITIES|UTILITY|EDISON|LIGHT|TELECOM|TELECOMMUNICATIONS|COMMUNICATIONS|PHONE COMPANY|VERIZON|COMCAST|XFINITY|SPECTRUM|SPRINT|T ?MOBILE|AT ?T|CENTURYLINK|CINCINNATI BELL|NATIONAL GRID|ENTERGY|ONCOR|PG E|OG E|NSTAR|EVERSOURCE|AVISTA|WASTE MANAGEMENT|REPUBLIC SERVICES|COX|OPTIMUM)\b/],
+  ['government', /\b(GOVERNMENT|GOVERNOR|DEPARTMENT|DEPT|COUNTY|CITY|STATE|STATES|TOWN|TOWNSHIP|BOROUGH|MUNICIPAL|MUNICIPALITY|FEDERAL|TREASURY|TREASURER|COMPTROLLER|IRS|INTERNAL REVENUE|REVENUE|TAX|COURT|JUDICIARY|LEGISLATURE|SHERIFF|AUTHORITY|COMMISSION|BUREAU|AGENCY|MEDICAID|MEDICARE|SOCIAL SECURITY|ARMY|NAVY|MILITARY|DEFENSE|DOD|FBI|FEMA|HUD|USDA|VA|POSTAL|HMRC|CUSTOMS|IMMIGRATION|COMMONWEALTH|SECRETARY OF|OFFICE OF|PUBLIC (HEALTH|SAFETY|WORKS)|EDUCATION|CORRECTIONS|CORRECTIONAL|PROBATION|UNEMPLOYMENT|HOMELAND SECURITY|HUMAN SERVICES|EXCISE|TARIFF|FISCAL SERVICES?|TRIBAL|MTA|SEC)\b/]
+];
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Upper-case, strip accents and treat every run of punctuation or spaces as one
+ * space, so "AT&T", "AT & T" and "at-t" compare equal
+ */
+export function normalizeExclusionText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function inferExclusionCategory(keyword: string): ExclusionCategory {
+  const normalized = normalizeExclusionText(keyword);
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : 'other';
+}
+
+export function createExclusionRule(keyword: string, overrides: Partial<ExclusionRule> = {}): ExclusionRule {
+  return {
+    keyword: keyword.trim(),
+    matchMode: LEGACY_MATCH_MODE,
+    category: inferExclusionCategory(keyword),
+    enabled: true,
+    ...overrides
+  };
+}
+
+/**
+ * Two rules with the same key match exactly the same names
+ */
+export function getExclusionRuleKey(rule: Pick<ExclusionRule, 'keyword' | 'matchMode'>): string {
+  const keyword = rule.matchMode === 'regex' ? rule.keyword : normalizeExclusionText(rule.keyword);
+  return `${rule.matchMode}:${keyword}`;
+}
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'iu'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+/**
+ * Problem with a rule as a message, or null when it can be used
+ */
+export function validateExclusionRule(rule: ExclusionRule): string | null {
+  if (!rule.keyword || !rule.keyword.trim()) return 'Keyword must not be empty';
+  if (!EXCLUSION_MATCH_MODES.includes(rule.matchMode)) return `Unknown match mode "${rule.matchMode}"`;
+  if (!EXCLUSION_CATEGORIES.includes(rule.category)) return `Unknown category "${rule.category}"`;
+  if (rule.matchMode === 'regex' && !compileRegex(rule.keyword)) return `Invalid regular expression "${rule.keyword}"`;
+  if (rule.matchMode !== 'regex' && !normalizeExclusionText(rule.keyword)) return 'Keyword must contain letters or digits';
+  if (rule.fuzzyThreshold !== undefined && (rule.fuzzyThreshold < 0 || rule.fuzzyThreshold > 100)) {
+    return 'Fuzzy threshold must be between 0 and 100';
+  }
+  return null;
+}
+
+/**
+ * Turn stored or bundled data into rules. Accepts the legacy plain keyword list
+ * as well as rule objects, drops invalid entries and duplicates.
+ */
+export function migrateExclusionRules(input: unknown): ExclusionRule[] {
+  if (!Array.isArray(input)) return [];
+
+  const rules: ExclusionRule[] = [];
+  const seen = new Set<string>();
+  for (const item of input) {
+    let rule: ExclusionRule | null = null;
+    if (typeof item === 'string') {
+      rule = item.trim() ? createExclusionRule(item) : null;
+    } else if (item && typeof item === 'object' && typeof (item as ExclusionRule).keyword === 'string') {
+      const candidate = item as Partial<ExclusionRule> & { keyword: string };
+      rule = createExclusionRule(candidate.keyword, {
+        matchMode: candidate.matchMode || LEGACY_MATCH_MODE,
+        category: candidate.category || inferExclusionCategory(candidate.keyword),
+        enabled: candidate.enabled !== false,
+        ...(candidate.fuzzyThreshold !== undefined ? { fuzzyThreshold: Number(candidate.fuzzyThreshold) } : {}),
+        ...(candidate.notes ? { notes: String(candidate.notes) } : {})
+      });
+    }
+
+    if (!rule || validateExclusionRule(rule)) continue;
+    const key = getExclusionRuleKey(rule);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * True when stored data is the legacy plain keyword list and should be rewritten
+ */
+export const isLegacyKeywordList = (input: unknown): boolean =>
+  Array.isArray(input) && input.some(item => typeof item === 'string');
+
+function bestFuzzyWindow(words: string[], keyword: string): { text: string; similarity: number } | null {
+  const size = keyword.split(' ').length;
+  let best: { text: string; similarity: number } | null = null;
+  for (let start = 0; start + size <= words.length; start++) {
+    const text = words.slice(start, start + size).join(' ');
+    const similarity = calculateCombinedSimilarity(text, keyword).combined;
+    if (!best || similarity > best.similarity) best = { text, similarity };
+  }
+  return best;
+}
+
+/**
+ * Match one rule against a payee name. Pass the normalized name when checking
+ * many rules against the same name.
+ */
+export function matchExclusionRule(
+  rule: ExclusionRule,
+  payeeName: string,
+  normalizedName = normalizeExclusionText(payeeName)
+): ExclusionRuleMatch | null {
+  if (!rule.enabled) return null;
+
+  if (rule.matchMode === 'regex') {
+    const match = compileRegex(rule.keyword)?.exec(payeeName);
+    return match ? { rule, matchedText: match[0], similarity: 100 } : null;
+  }
+
+  const keyword = normalizeExclusionText(rule.keyword);
+  if (!keyword || !normalizedName) return null;
+
+  switch (rule.matchMode) {
+    case 'exact':
+      return normalizedName === keyword ? { rule, matchedText: payeeName.trim(), similarity: 100 } : null;
+    case 'whole-word':
+      return ` ${normalizedName} `.includes(` ${keyword} `) ? { rule, matchedText: keyword, similarity: 100 } : null;
+    case 'prefix': {
+      const word = ` ${normalizedName}`.split(` ${keyword}`)[1];
+      return word !== undefined ? { rule, matchedText: keyword + word.split(' ')[0], similarity: 100 } : null;
+    }
+    case 'fuzzy': {
+      const best = bestFuzzyWindow(normalizedName.split(' '), keyword);
+      const threshold = rule.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+      return best && best.similarity >= threshold ? { rule, matchedText: best.text, similarity: best.similarity } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * First non-fuzzy match in rule order, otherwise the closest fuzzy match
+ */
+export function findExclusionMatch(payeeName: string, rules: ExclusionRule[]): ExclusionRuleMatch | null {
+  const normalizedName = normalizeExclusionText(payeeName);
+  let bestFuzzy: ExclusionRuleMatch | null = null;
+
+  for (const rule of rules) {
+    const match = matchExclusionRule(rule, payeeName, normalizedName);
+    if (!match) continue;
+    if (rule.matchMode !== 'fuzzy') return match;
+    if (!bestFuzzy || match.similarity > bestFuzzy.similarity) bestFuzzy = match;
+  }
+  return bestFuzzy;
+}
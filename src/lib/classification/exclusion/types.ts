@@ -0,0 +1,79 @@
+// How a rule's keyword is compared with a payee name
+export const EXCLUSION_MATCH_MODES = ['whole-word', 'prefix', 'exact', 'regex', 'fuzzy'] as const;
+
+export type ExclusionMatchMode = typeof EXCLUSION_MATCH_MODES[number];
+
+export const EXCLUSION_CATEGORIES = ['bank', 'utility', 'insurer', 'government', 'other'] as const;
+
+export type ExclusionCategory = typeof EXCLUSION_CATEGORIES[number];
+
+export interface ExclusionRule {
+  keyword: string; // A regular expression when matchMode is 'regex'
+  matchMode: ExclusionMatchMode;
+  category: ExclusionCategory;
+  enabled: boolean;
+  fuzzyThreshold?: number; // Minimum similarity (0-100) for 'fuzzy' rules
+  notes?: string;
+}
+
+export interface ExclusionRuleMatch {
+  rule: ExclusionRule;
+  matchedText: string; // Part of the name the rule matched
+  similarity: number; // 100 except for fuzzy matches
+}
+
+/**
+ * Named set of exclusion rules, e.g. one per client
+ */
+export interface ExclusionProfile {
+  id: string;
+  name: string;
+  version: number; // Incremented every time the rules change
+  rules: ExclusionRule[];
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Identifies the profile and version a result was produced with
+export interface ExclusionProfileRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export type ExclusionProfileFormat = 'json' | 'csv';
+
+export interface ExclusionProfileDiff {
+  added: ExclusionRule[]; // Only in the second profile
+  removed: ExclusionRule[]; // Only in the first profile
+  changed: Array<{ before: ExclusionRule; after: ExclusionRule }>; // Same keyword and mode, other settings differ
+  unchangedCount: number;
+}
+
+export interface ExclusionImpactExample {
+  payeeName: string;
+  rowCount: number; // Rows with this name in the sample
+  rule: ExclusionRule; // Rule that now excludes the name, or that excluded it before
+}
+
+/**
+ * Change in excluded rows when a sample is checked with proposed rules instead of the current ones
+ */
+export interface ExclusionImpact {
+  checkedRows: number;
+  checkedNames: number; // Distinct names
+  excludedRowsBefore: number;
+  excludedRowsAfter: number;
+  newlyExcludedRows: number;
+  newlyIncludedRows: number;
+  newlyExcluded: ExclusionImpactExample[]; // Most frequent names first, capped
+  newlyIncluded: ExclusionImpactExample[];
+}
+
+// Payee names kept for previewing rule changes, e.g. from the last processed batch
+export interface ExclusionPreviewSample {
+  source: string;
+  payeeNames: string[];
+  savedAt: string;
+}
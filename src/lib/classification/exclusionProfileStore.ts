@@ -0,0 +1,239 @@
+import { logger } from '../logger';
+import { getComprehensiveExclusionRules } from './keywordExclusion';
+import {
+  ExclusionPreviewSample,
+  ExclusionProfile,
+  ExclusionRule,
+  createExclusionProfile,
+  isLegacyKeywordList,
+  migrateExclusionRules,
+  normalizeExclusionProfile,
+  withExclusionProfileRules
+} from './exclusion';
+
+export const EXCLUSION_PROFILES_STORAGE_KEY = 'exclusionProfiles';
+
+export const ACTIVE_EXCLUSION_PROFILE_STORAGE_KEY = 'activeExclusionProfile';
+
+/**
+ * Key of the single rule list used before profiles existed. Older versions stored
+ * a plain keyword list here. It is read once to seed the default profile.
+ */
+export const EXCLUDED_KEYWORDS_STORAGE_KEY = 'excludedKeywords';
+
+export const DEFAULT_EXCLUSION_PROFILE_NAME = 'Default';
+
+export const EXCLUSION_PREVIEW_SAMPLE_STORAGE_KEY = 'exclusionPreviewSample';
+
+// Names kept for rule previews; the sample shares the localStorage quota with the profiles
+export const MAX_PREVIEW_SAMPLE_ROWS = 5000;
+
+// Profiles parsed from storage, reused until the stored value changes
+let profilesCache: { raw: string | null; profiles: ExclusionProfile[] } | null = null;
+let activeProfileId: string | null = null;
+let previewSample: ExclusionPreviewSample | null = null;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+/**
+ * Rules from the pre-profile storage key, migrating a legacy keyword list in place
+ */
+function readLegacyExclusionRules(): ExclusionRule[] {
+  try {
+    const stored = localStorage.getItem(EXCLUDED_KEYWORDS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    const rules = migrateExclusionRules(parsed);
+    if (rules.length > 0 && isLegacyKeywordList(parsed)) {
+      localStorage.setItem(EXCLUDED_KEYWORDS_STORAGE_KEY, JSON.stringify(rules));
+      logger.info(`[EXCLUSION PROFILES] Migrated ${rules.length} stored keywords to exclusion rules`);
+    }
+    return rules;
+  } catch (error) {
+    logger.warn('[EXCLUSION PROFILES] Failed to read stored exclusion rules:', error);
+    return [];
+  }
+}
+
+function createDefaultProfile(): ExclusionProfile {
+  const legacyRules = hasLocalStorage() ? readLegacyExclusionRules() : [];
+  const rules = legacyRules.length > 0 ? legacyRules : getComprehensiveExclusionRules();
+  logger.info(`[EXCLUSION PROFILES] Created "${DEFAULT_EXCLUSION_PROFILE_NAME}" profile with ${rules.length} rules`);
+  return createExclusionProfile(DEFAULT_EXCLUSION_PROFILE_NAME, rules);
+}
+
+function persist(profiles: ExclusionProfile[]): void {
+  const raw = JSON.stringify(profiles);
+  profilesCache = { raw, profiles };
+  if (!hasLocalStorage()) return;
+  try {
+    localStorage.setItem(EXCLUSION_PROFILES_STORAGE_KEY, raw);
+  } catch (error) {
+    logger.error('[EXCLUSION PROFILES] Failed to save profiles:', error);
+  }
+}
+
+function getProfiles(): ExclusionProfile[] {
+  if (!hasLocalStorage()) {
+    if (!profilesCache) persist([createDefaultProfile()]);
+    return profilesCache!.profiles;
+  }
+
+  try {
+    const raw = localStorage.getItem(EXCLUSION_PROFILES_STORAGE_KEY);
+    if (raw !== null && profilesCache?.raw === raw) return profilesCache.profiles;
+
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    const profiles = Array.isArray(parsed)
+      ? parsed.map(normalizeExclusionProfile).filter((profile): profile is ExclusionProfile => profile !== null)
+      : [];
+    if (profiles.length > 0) {
+      profilesCache = { raw, profiles };
+      return profiles;
+    }
+  } catch (error) {
+    logger.error('[EXCLUSION PROFILES] Failed to load profiles:', error);
+  }
+
+  const profiles = [createDefaultProfile()];
+  persist(profiles);
+  return profiles;
+}
+
+function assertUniqueName(profiles: ExclusionProfile[], profile: ExclusionProfile): void {
+  if (!profile.name.trim()) {
+    throw new Error('Profile name must not be empty');
+  }
+  const name = profile.name.trim().toLowerCase();
+  if (profiles.some(existing => existing.id !== profile.id && existing.name.toLowerCase() === name)) {
+    throw new Error(`A profile named "${profile.name}" already exists`);
+  }
+}
+
+export function listExclusionProfiles(): ExclusionProfile[] {
+  return getProfiles();
+}
+
+/**
+ * Profile by id, or by name ignoring case
+ */
+export function getExclusionProfile(idOrName: string): ExclusionProfile | undefined {
+  const profiles = getProfiles();
+  const name = idOrName.trim().toLowerCase();
+  return profiles.find(profile => profile.id === idOrName) ||
+    profiles.find(profile => profile.name.toLowerCase() === name);
+}
+
+/**
+ * Profile used when a run does not pick one
+ */
+export function getActiveExclusionProfile(): ExclusionProfile {
+  const profiles = getProfiles();
+  if (hasLocalStorage()) {
+    try {
+      activeProfileId = localStorage.getItem(ACTIVE_EXCLUSION_PROFILE_STORAGE_KEY) || activeProfileId;
+    } catch (error) {
+      logger.warn('[EXCLUSION PROFILES] Failed to read the active profile:', error);
+    }
+  }
+  return profiles.find(profile => profile.id === activeProfileId) || profiles[0];
+}
+
+export function setActiveExclusionProfile(id: string): ExclusionProfile {
+  const profile = getProfiles().find(candidate => candidate.id === id);
+  if (!profile) {
+    throw new Error(`Exclusion profile "${id}" not found`);
+  }
+  activeProfileId = id;
+  if (hasLocalStorage()) {
+    try {
+      localStorage.setItem(ACTIVE_EXCLUSION_PROFILE_STORAGE_KEY, id);
+    } catch (error) {
+      logger.error('[EXCLUSION PROFILES] Failed to save the active profile:', error);
+    }
+  }
+  return profile;
+}
+
+/**
+ * Add a profile or replace the one with the same id
+ */
+export function saveExclusionProfile(profile: ExclusionProfile): ExclusionProfile {
+  const profiles = getProfiles();
+  assertUniqueName(profiles, profile);
+  const exists = profiles.some(existing => existing.id === profile.id);
+  persist(exists
+    ? profiles.map(existing => (existing.id === profile.id ? profile : existing))
+    : [...profiles, profile]);
+  return profile;
+}
+
+/**
+ * Store an imported profile as a new profile, numbering the name if it is taken
+ */
+export function importExclusionProfile(profile: ExclusionProfile): ExclusionProfile {
+  const profiles = getProfiles();
+  const taken = new Set(profiles.map(existing => existing.name.toLowerCase()));
+  let name = profile.name;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `${profile.name} (${suffix})`;
+  }
+  const imported = { ...createExclusionProfile(name, profile.rules, profile.description), version: profile.version };
+  return saveExclusionProfile(imported);
+}
+
+/**
+ * Replace a profile's rules, bumping its version
+ */
+export function updateExclusionProfileRules(id: string, rules: ExclusionRule[]): ExclusionProfile {
+  const profile = getProfiles().find(candidate => candidate.id === id);
+  if (!profile) {
+    throw new Error(`Exclusion profile "${id}" not found`);
+  }
+  return saveExclusionProfile(withExclusionProfileRules(profile, rules));
+}
+
+export function deleteExclusionProfile(id: string): void {
+  const profiles = getProfiles();
+  if (profiles.length <= 1) {
+    throw new Error('The last exclusion profile cannot be deleted');
+  }
+  persist(profiles.filter(profile => profile.id !== id));
+}
+
+/**
+ * Remember the payee names of a processed batch so rule edits can be previewed against them
+ */
+export function saveExclusionPreviewSample(source: string, payeeNames: string[]): ExclusionPreviewSample {
+  previewSample = {
+    source,
+    payeeNames: payeeNames.slice(0, MAX_PREVIEW_SAMPLE_ROWS),
+    savedAt: new Date().toISOString()
+  };
+  if (hasLocalStorage()) {
+    try {
+      localStorage.setItem(EXCLUSION_PREVIEW_SAMPLE_STORAGE_KEY, JSON.stringify(previewSample));
+    } catch (error) {
+      logger.warn('[EXCLUSION PROFILES] Failed to save the preview sample:', error);
+    }
+  }
+  return previewSample;
+}
+
+export function getExclusionPreviewSample(): ExclusionPreviewSample | null {
+  if (previewSample || !hasLocalStorage()) return previewSample;
+  try {
+    const stored = localStorage.getItem(EXCLUSION_PREVIEW_SAMPLE_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && Array.isArray(parsed.payeeNames)) {
+      previewSample = {
+        source: String(parsed.source || 'Last batch'),
+        payeeNames: parsed.payeeNames.map(String),
+        savedAt: String(parsed.savedAt || '')
+      };
+    }
+  } catch (error) {
+    logger.warn('[EXCLUSION PROFILES] Failed to read the preview sample:', error);
+  }
+  return previewSample;
+}
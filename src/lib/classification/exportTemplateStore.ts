@@ -0,0 +1,92 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../logger';
+import { ExportTemplate, STANDARD_EXPORT_TEMPLATE_ID, validateExportTemplate } from './exporters';
+
+export const EXPORT_TEMPLATES_STORAGE_KEY = 'exportTemplates';
+
+// Templates saved in this session when local storage is unavailable
+let memoryTemplates: ExportTemplate[] = [];
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+function readTemplates(): ExportTemplate[] {
+  if (!hasLocalStorage()) return memoryTemplates;
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(EXPORT_TEMPLATES_STORAGE_KEY) || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap(item => {
+      try {
+        return [validateExportTemplate(item)];
+      } catch (error) {
+        logger.warn('[EXPORT TEMPLATES] Skipping an invalid stored template:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    logger.error('[EXPORT TEMPLATES] Failed to load templates:', error);
+    return [];
+  }
+}
+
+function persist(templates: ExportTemplate[]): void {
+  memoryTemplates = templates;
+  if (!hasLocalStorage()) return;
+  try {
+    localStorage.setItem(EXPORT_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    logger.error('[EXPORT TEMPLATES] Failed to save templates:', error);
+  }
+}
+
+/**
+ * Saved templates; the standard columns are not stored and are always available
+ */
+export function listExportTemplates(): ExportTemplate[] {
+  return readTemplates();
+}
+
+/**
+ * Template by id, or by name ignoring case
+ */
+export function getExportTemplate(idOrName: string): ExportTemplate | undefined {
+  const templates = readTemplates();
+  const name = idOrName.trim().toLowerCase();
+  return templates.find(template => template.id === idOrName) ||
+    templates.find(template => template.name.toLowerCase() === name);
+}
+
+/**
+ * Add a template or replace the one with the same id
+ */
+export function saveExportTemplate(input: ExportTemplate): ExportTemplate {
+  const template = { ...validateExportTemplate(input), updatedAt: new Date().toISOString() };
+  if (template.id === STANDARD_EXPORT_TEMPLATE_ID) {
+    throw new Error('The standard columns cannot be changed; save the template under a new name');
+  }
+  const templates = readTemplates();
+  const name = template.name.toLowerCase();
+  if (templates.some(existing => existing.id !== template.id && existing.name.toLowerCase() === name)) {
+    throw new Error(`An export template named "${template.name}" already exists`);
+  }
+  const exists = templates.some(existing => existing.id === template.id);
+  persist(exists
+    ? templates.map(existing => (existing.id === template.id ? template : existing))
+    : [...templates, template]);
+  return template;
+}
+
+/**
+ * Store a template read from a file as a new template, numbering the name if it is taken
+ */
+export function importExportTemplate(template: ExportTemplate): ExportTemplate {
+  const taken = new Set(readTemplates().map(existing => existing.name.toLowerCase()));
+  let name = template.name;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `${template.name} (${suffix})`;
+  }
+  return saveExportTemplate({ ...template, id: uuidv4(), name });
+}
+
+export function deleteExportTemplate(id: string): void {
+  persist(readTemplates().filter(template => template.id !== id));
+}
@@ -0,0 +1,82 @@
+import { BatchProcessingResult, PayeeClassification, UnclassifiedReason } from '../../types';
+import { UNCLASSIFIED_REASON_MESSAGES } from './exportTemplates';
+import { AlignmentIssue, AlignmentIssueCode, AlignmentReport } from './types';
+
+type AlignableBatch = Pick<BatchProcessingResult, 'results' | 'originalFileData' | 'unclassifiedRows'>;
+
+export interface ResultAlignment {
+  results: Map<number, PayeeClassification>; // Result of each row that has one
+  gaps: Map<number, UnclassifiedReason>; // Why each other row has none
+  report: AlignmentReport;
+}
+
+const ISSUE_LABELS: Record<AlignmentIssueCode, string> = {
+  'empty-name': 'without a payee name',
+  'missing-result': 'without a result',
+  'duplicate-result': 'duplicate results',
+  'unmatched-result': 'results that match no row'
+};
+
+/**
+ * Match each result to its row by rowIndex. Rows without a result are reported with
+ * the reason the run gave for them, or 'missing-result'; a second result for a row
+ * and results outside the rows are reported and left out.
+ */
+export function alignResultsWithRows(batchResult: AlignableBatch): ResultAlignment {
+  const rowCount = batchResult.originalFileData?.length ?? batchResult.results.length;
+  const results = new Map<number, PayeeClassification>();
+  const issues: AlignmentIssue[] = [];
+
+  for (const result of batchResult.results) {
+    const rowIndex = result.rowIndex;
+    if (rowIndex === undefined || rowIndex === null) {
+      issues.push({ code: 'unmatched-result', message: `The result for "${result.payeeName}" has no row index` });
+    } else if (rowIndex < 0 || rowIndex >= rowCount) {
+      issues.push({
+        code: 'unmatched-result',
+        rowIndex,
+        message: `The result for "${result.payeeName}" refers to row ${rowIndex}, but there are ${rowCount} rows`
+      });
+    } else if (results.has(rowIndex)) {
+      issues.push({
+        code: 'duplicate-result',
+        rowIndex,
+        message: `Row ${rowIndex} has more than one result; the first ("${results.get(rowIndex)?.payeeName}") is kept`
+      });
+    } else {
+      results.set(rowIndex, result);
+    }
+  }
+
+  const reasons = new Map((batchResult.unclassifiedRows ?? []).map(row => [row.rowIndex, row.reason]));
+  const gaps = new Map<number, UnclassifiedReason>();
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    if (results.has(rowIndex)) continue;
+    const reason = reasons.get(rowIndex) ?? 'missing-result';
+    gaps.set(rowIndex, reason);
+    issues.push({ code: reason, rowIndex, message: `Row ${rowIndex}: ${UNCLASSIFIED_REASON_MESSAGES[reason]}` });
+  }
+
+  const issueCounts: AlignmentReport['issueCounts'] = {};
+  for (const issue of issues) {
+    issueCounts[issue.code] = (issueCounts[issue.code] ?? 0) + 1;
+  }
+  return {
+    results,
+    gaps,
+    report: { totalRows: rowCount, classifiedRows: results.size, unclassifiedRows: gaps.size, issueCounts, issues }
+  };
+}
+
+export const buildAlignmentReport = (batchResult: AlignableBatch): AlignmentReport =>
+  alignResultsWithRows(batchResult).report;
+
+/**
+ * One line for logs and notices, e.g. "98 of 100 rows classified; 1 without a payee name, 1 without a result"
+ */
+export function describeAlignmentReport(report: AlignmentReport): string {
+  const counts = (Object.entries(report.issueCounts) as [AlignmentIssueCode, number][])
+    .map(([code, count]) => `${count} ${ISSUE_LABELS[code]}`);
+  const classified = `${report.classifiedRows} of ${report.totalRows} rows classified`;
+  return counts.length > 0 ? `${classified}; ${counts.join(', ')}` : classified;
+}
@@ -0,0 +1,206 @@
+import * as XLSX from 'xlsx';
+import { BatchProcessingResult, PayeeClassification, UnclassifiedReason, UnclassifiedRow } from '../../types';
+import { getWorkbookSheet } from '../../fileValidation';
+import { exportColumnHeader, renderExportColumns, renderUnclassifiedColumns } from './exportTemplates';
+import { resolveExportTemplate } from './resultsMerger';
+import { EXPORT_FILE_MIME_TYPES } from './fileExporters';
+import { EnrichmentSource, ExportFile, ExportFileOptions, ExportRow } from './types';
+
+type EnrichmentOptions = Pick<ExportFileOptions, 'includeExplanation' | 'template' | 'customPrefix'>;
+
+// Result columns to add, as header names and one sparse row per data row of each sheet
+interface EnrichmentColumns {
+  headers: string[];
+  rowsBySheet: Map<string | undefined, ExportRow[]>;
+  unclassified: (position: number) => ExportRow; // Columns for a data row without a result
+}
+
+interface CsvRecord {
+  text: string;
+  lineEnd: string; // '\n', '\r\n', '\r', or '' for the last record without one
+  cellCount: number;
+  isBlank: boolean;
+}
+
+/**
+ * The result columns of each classified row, placed at the row's position among the
+ * data rows of its sheet: sourceRowIndex when rows were left out before the run, else
+ * rowIndex. Rows without a result are Unclassified. Rows left out before the run had
+ * no payee name; otherwise the reason is the one unclassifiedRows gives, or a missing result.
+ */
+function collectEnrichmentColumns(
+  results: PayeeClassification[],
+  unclassifiedRows: UnclassifiedRow[],
+  options: EnrichmentOptions
+): EnrichmentColumns {
+  const template = resolveExportTemplate(options, options.includeExplanation);
+  const prefix = options.customPrefix ?? template.prefix ?? '';
+  const rowsBySheet = new Map<string | undefined, ExportRow[]>();
+  for (const item of results) {
+    const rows = rowsBySheet.get(item.sheetName) ?? [];
+    rowsBySheet.set(item.sheetName, rows);
+    rows[item.sourceRowIndex ?? item.rowIndex ?? rows.length] = renderExportColumns(item, template, prefix);
+  }
+
+  const leftOutBeforeRun = results.some(item => item.sourceRowIndex !== undefined);
+  const reasons = new Map<number, UnclassifiedReason>(leftOutBeforeRun ? [] : unclassifiedRows.map(row => [row.rowIndex, row.reason]));
+  const fallbackReason: UnclassifiedReason = leftOutBeforeRun ? 'empty-name' : 'missing-result';
+  return {
+    headers: template.columns.map(column => `${prefix}${exportColumnHeader(column)}`),
+    rowsBySheet,
+    unclassified: position => renderUnclassifiedColumns(position, reasons.get(position) ?? fallbackReason, template, prefix)
+  };
+}
+
+function checkRowCount(rows: ExportRow[], dataRowCount: number, where: string): void {
+  if (rows.length > dataRowCount) {
+    throw new Error(`${where} has ${dataRowCount} data rows but the results refer to row ${rows.length}; enrich the file that was classified`);
+  }
+}
+
+/**
+ * Split CSV text into records with their exact text and line endings; quoted cells
+ * may span lines. A quote opens a quoted cell only at the start of the cell, so a
+ * quote inside a bare cell such as 5" Pipe is kept as text.
+ */
+function splitCsvRecords(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let start = 0;
+  let cellCount = 1;
+  let inQuotes = false;
+  let atCellStart = true;
+  for (let index = 0; index <= text.length; index++) {
+    const char = text[index];
+    if (inQuotes && index < text.length) {
+      if (char !== '"') continue;
+      if (text[index + 1] === '"') index++; // "" is an escaped quote inside the cell
+      else inQuotes = false;
+    } else if (char === '"' && atCellStart) {
+      inQuotes = true;
+      atCellStart = false;
+    } else if (char === ',') {
+      cellCount++;
+      atCellStart = true;
+    } else if (index === text.length || char === '\n' || char === '\r') {
+      const lineEnd = index === text.length ? '' : char === '\r' && text[index + 1] === '\n' ? '\r\n' : char;
+      const body = text.slice(start, index);
+      if (lineEnd || body) {
+        records.push({ text: body, lineEnd, cellCount, isBlank: /^[\s,]*$/.test(body) });
+      }
+      index += Math.max(lineEnd.length - 1, 0);
+      start = index + 1;
+      cellCount = 1;
+      atCellStart = true;
+    } else {
+      atCellStart = false;
+    }
+  }
+  return records;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Append the result columns to every record of a CSV file. The original text of each
+ * record is kept; short records are padded so the new columns line up, and blank
+ * lines are left as they are.
+ */
+export function enrichCsvText(
+  text: string,
+  headers: string[],
+  rows: ExportRow[],
+  unclassified: (position: number) => ExportRow = () => ({})
+): string {
+  const records = splitCsvRecords(text);
+  const headerIndex = records.findIndex(record => !record.isBlank);
+  if (headerIndex === -1) {
+    throw new Error('The file has no header row');
+  }
+  const tableRecords = records.slice(headerIndex).filter(record => !record.isBlank);
+  checkRowCount(rows, tableRecords.length - 1, 'The file');
+  const width = Math.max(...tableRecords.map(record => record.cellCount));
+
+  let dataRow = -1;
+  return records.map((record, index) => {
+    if (index < headerIndex || record.isBlank) return record.text + record.lineEnd;
+    const cells = dataRow === -1 ? headers : headers.map(header => (rows[dataRow] ?? unclassified(dataRow))[header]);
+    dataRow++;
+    return `${record.text}${','.repeat(width - record.cellCount)},${cells.map(csvCell).join(',')}${record.lineEnd}`;
+  }).join('');
+}
+
+function resultCell(value: unknown): XLSX.CellObject | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return { t: 'n', v: value };
+  if (typeof value === 'boolean') return { t: 'b', v: value };
+  return { t: 's', v: String(value) };
+}
+
+/**
+ * Write the result columns to the right of a sheet's used range. Every existing cell
+ * keeps its value, type and number format; data rows are the rows readSheetRows returns.
+ */
+export function enrichWorksheet(
+  sheet: XLSX.WorkSheet,
+  headers: string[],
+  rows: ExportRow[],
+  sheetName: string,
+  unclassified: (position: number) => ExportRow = () => ({})
+): void {
+  if (!sheet['!ref']) {
+    throw new Error(`Sheet "${sheetName}" is empty`);
+  }
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const dataRowNumbers = XLSX.utils.sheet_to_json<{ __rowNum__?: number }>(sheet, { defval: '' })
+    .map(row => row.__rowNum__ as number);
+  checkRowCount(rows, dataRowNumbers.length, `Sheet "${sheetName}"`);
+
+  const firstColumn = range.e.c + 1;
+  headers.forEach((header, offset) => {
+    sheet[XLSX.utils.encode_cell({ r: range.s.r, c: firstColumn + offset })] = { t: 's', v: header };
+  });
+  dataRowNumbers.forEach((rowNumber, position) => {
+    const row = rows[position] ?? unclassified(position);
+    headers.forEach((header, offset) => {
+      const cell = resultCell(row[header]);
+      if (cell) sheet[XLSX.utils.encode_cell({ r: rowNumber, c: firstColumn + offset })] = cell;
+    });
+  });
+  sheet['!ref'] = XLSX.utils.encode_range({ s: range.s, e: { r: range.e.r, c: firstColumn + headers.length - 1 } });
+}
+
+const decodeText = (data: EnrichmentSource['data']): string =>
+  typeof data === 'string' ? data : new TextDecoder('utf-8', { ignoreBOM: true }).decode(data);
+
+/**
+ * A copy of the uploaded file with the classification columns added after the
+ * original ones. Column order, duplicate headers, blank cells and row order are
+ * kept, so the output can be diffed against the input. Results must come from the
+ * same file: each is matched to its data row by sourceRowIndex, or by rowIndex. Data
+ * rows without a result get Unclassified result columns.
+ */
+export function enrichOriginalFile(
+  source: EnrichmentSource,
+  batchResult: Pick<BatchProcessingResult, 'results' | 'unclassifiedRows'>,
+  options: EnrichmentOptions = {}
+): ExportFile {
+  const { headers, rowsBySheet, unclassified } = collectEnrichmentColumns(batchResult.results, batchResult.unclassifiedRows ?? [], options);
+  const file = (content: string | ArrayBuffer): ExportFile =>
+    ({ content, mimeType: EXPORT_FILE_MIME_TYPES[source.format], extension: source.format });
+
+  if (source.format === 'csv') {
+    const rows = [...rowsBySheet.values()][0] ?? [];
+    return file(enrichCsvText(decodeText(source.data), headers, rows, unclassified));
+  }
+
+  const workbook = typeof source.data === 'string'
+    ? XLSX.read(source.data, { type: 'binary', cellStyles: true, cellNF: true })
+    : XLSX.read(source.data, { type: 'array', cellStyles: true, cellNF: true });
+  for (const [sheetName = source.sheetName ?? workbook.SheetNames[0], rows] of rowsBySheet) {
+    enrichWorksheet(getWorkbookSheet(workbook, sheetName), headers, rows, sheetName, unclassified);
+  }
+  return file(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', cellStyles: true }) as ArrayBuffer);
+}
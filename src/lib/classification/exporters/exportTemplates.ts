@@ -0,0 +1,260 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EntityClassification, PayeeClassification, UnclassifiedReason } from '../../types';
+import { ExportFieldId, ExportRow, ExportTemplate, ExportTemplateColumn, ExportValueFormat } from './types';
+
+export const STANDARD_EXPORT_TEMPLATE_ID = 'standard';
+
+// Classification and tier written for rows that have no result
+export const UNCLASSIFIED = 'Unclassified';
+
+export const UNCLASSIFIED_REASON_MESSAGES: Record<UnclassifiedReason, string> = {
+  'empty-name': 'The row has no payee name, so it was not classified',
+  'missing-result': 'No classification result came back for this row'
+};
+
+export const CLASSIFICATION_CODES: Record<EntityClassification, string> = {
+  Business: 'B',
+  Individual: 'I',
+  Government: 'G',
+  'Trust/Estate': 'T',
+  'Non-Profit': 'N'
+};
+
+interface ExportField {
+  header: string; // Standard column name
+  label: string;
+  formats: ExportValueFormat[];
+  read: (item: PayeeClassification) => unknown;
+}
+
+function similarityDetails(item: PayeeClassification): string {
+  const scores = item.result.similarityScores;
+  const details: string[] = [];
+  if (scores?.levenshtein) details.push(`Levenshtein: ${scores.levenshtein}`);
+  if (scores?.jaroWinkler) details.push(`Jaro-Winkler: ${scores.jaroWinkler}`);
+  if (scores?.dice) details.push(`Dice: ${scores.dice}`);
+  if (scores?.tokenSort) details.push(`Token Sort: ${scores.tokenSort}`);
+  if (scores?.combined) details.push(`Combined: ${scores.combined}`);
+  return details.join(' | ');
+}
+
+// Every field a template can pick, with the column name and value of the standard export
+export const EXPORT_FIELDS: Record<ExportFieldId, ExportField> = {
+  payeeName: { header: 'Payee_Name', label: 'Payee name', formats: [], read: item => item.payeeName },
+  classification: { header: 'AI_Classification', label: 'Classification', formats: ['code'], read: item => item.result.classification },
+  confidence: { header: 'AI_Confidence_%', label: 'Confidence', formats: ['decimal'], read: item => item.result.confidence },
+  processingTier: { header: 'AI_Processing_Tier', label: 'Processing tier', formats: [], read: item => item.result.processingTier },
+  reasoning: { header: 'AI_Reasoning', label: 'Reasoning', formats: [], read: item => item.result.reasoning },
+  processingMethod: {
+    header: 'AI_Processing_Method',
+    label: 'Processing method',
+    formats: [],
+    read: item => item.result.processingMethod || 'OpenAI Batch API'
+  },
+  keywordExclusion: {
+    header: 'Keyword_Exclusion',
+    label: 'Excluded by keyword',
+    formats: ['y-n', 'boolean'],
+    read: item => Boolean(item.result.keywordExclusion?.isExcluded)
+  },
+  matchedKeywords: {
+    header: 'Matched_Keywords',
+    label: 'Matched keywords',
+    formats: [],
+    read: item => item.result.keywordExclusion?.matchedKeywords?.join('; ') || ''
+  },
+  keywordConfidence: {
+    header: 'Keyword_Confidence_%',
+    label: 'Keyword confidence',
+    formats: ['decimal'],
+    read: item => item.result.keywordExclusion?.confidence || 0
+  },
+  keywordReasoning: {
+    header: 'Keyword_Reasoning',
+    label: 'Keyword reasoning',
+    formats: [],
+    read: item => item.result.keywordExclusion?.reasoning || 'No keyword exclusion applied'
+  },
+  exclusionProfile: { header: 'Exclusion_Profile', label: 'Exclusion profile', formats: [], read: item => item.exclusionProfile?.name || '' },
+  exclusionProfileVersion: {
+    header: 'Exclusion_Profile_Version',
+    label: 'Exclusion profile version',
+    formats: [],
+    read: item => item.exclusionProfile?.version ?? ''
+  },
+  matchingRules: { header: 'Matching_Rules', label: 'Matching rules', formats: [], read: item => item.result.matchingRules?.join('; ') || '' },
+  similarityScores: { header: 'Similarity_Scores', label: 'Similarity scores', formats: [], read: similarityDetails },
+  explanation: {
+    header: 'Explanation_JSON',
+    label: 'Explanation (JSON)',
+    formats: [],
+    read: item => item.result.explanation ? JSON.stringify(item.result.explanation) : ''
+  },
+  timestamp: { header: 'Classification_Timestamp', label: 'Timestamp', formats: ['date'], read: item => new Date(item.timestamp).toISOString() },
+  rowIndex: { header: 'Processing_Row_Index', label: 'Row index', formats: [], read: item => item.rowIndex },
+  alignmentStatus: { header: 'Data_Alignment_Status', label: 'Alignment status', formats: [], read: () => 'Perfect 1:1 Match' },
+  unclassifiedReason: { header: 'Unclassified_Reason', label: 'Unclassified reason', formats: [], read: () => '' }
+};
+
+export const EXPORT_FIELD_IDS = Object.keys(EXPORT_FIELDS) as ExportFieldId[];
+
+// Result columns of the standard export, in order
+const STANDARD_FIELDS: ExportFieldId[] = [
+  'classification', 'confidence', 'processingTier', 'reasoning', 'processingMethod',
+  'keywordExclusion', 'matchedKeywords', 'keywordConfidence', 'keywordReasoning',
+  'exclusionProfile', 'exclusionProfileVersion', 'matchingRules', 'similarityScores',
+  'explanation', 'timestamp', 'rowIndex', 'alignmentStatus'
+];
+
+/**
+ * The columns every export used before templates existed
+ */
+export function createStandardExportTemplate(includeExplanation = false): ExportTemplate {
+  return {
+    id: STANDARD_EXPORT_TEMPLATE_ID,
+    name: 'Standard columns',
+    columns: STANDARD_FIELDS
+      .filter(field => includeExplanation || field !== 'explanation')
+      .map(field => ({ field }))
+  };
+}
+
+export function createExportTemplate(
+  name: string,
+  columns: ExportTemplateColumn[],
+  options: Pick<ExportTemplate, 'includeOriginalColumns' | 'prefix' | 'description'> = {}
+): ExportTemplate {
+  return validateExportTemplate({ ...options, id: uuidv4(), name, columns, updatedAt: new Date().toISOString() });
+}
+
+export const exportColumnHeader = (column: ExportTemplateColumn): string =>
+  column.header?.trim() || EXPORT_FIELDS[column.field].header;
+
+/**
+ * Check a template from storage, a file or the editor, throwing on the first problem
+ */
+export function validateExportTemplate(input: unknown): ExportTemplate {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Export template must be a JSON object');
+  }
+  const candidate = input as Partial<ExportTemplate>;
+  if (typeof candidate.name !== 'string' || !candidate.name.trim()) {
+    throw new Error('Export template needs a name');
+  }
+  if (!Array.isArray(candidate.columns) || candidate.columns.length === 0) {
+    throw new Error(`Export template "${candidate.name}" has no columns`);
+  }
+
+  const headers = new Set<string>();
+  const columns = candidate.columns.map((column: ExportTemplateColumn) => {
+    const field = EXPORT_FIELDS[column?.field];
+    if (!field) {
+      throw new Error(`Unknown export field "${column?.field}". Expected one of: ${EXPORT_FIELD_IDS.join(', ')}`);
+    }
+    if (column.format !== undefined && !field.formats.includes(column.format)) {
+      throw new Error(`Field "${column.field}" does not support the "${column.format}" format`);
+    }
+    const header = exportColumnHeader(column);
+    if (headers.has(header)) {
+      throw new Error(`Column "${header}" appears more than once in export template "${candidate.name}"`);
+    }
+    headers.add(header);
+    return {
+      field: column.field,
+      ...(column.header?.trim() ? { header: column.header.trim() } : {}),
+      ...(column.format ? { format: column.format } : {})
+    };
+  });
+
+  return {
+    id: typeof candidate.id === 'string' && candidate.id ? candidate.id : uuidv4(),
+    name: candidate.name.trim(),
+    columns,
+    ...(candidate.includeOriginalColumns === false ? { includeOriginalColumns: false } : {}),
+    ...(candidate.prefix?.trim() ? { prefix: candidate.prefix.trim() } : {}),
+    ...(candidate.description?.trim() ? { description: candidate.description.trim() } : {}),
+    ...(candidate.updatedAt ? { updatedAt: candidate.updatedAt } : {})
+  };
+}
+
+export function parseExportTemplate(json: string): ExportTemplate {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid export template JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateExportTemplate(parsed);
+}
+
+export const exportTemplateToJson = ({ name, description, includeOriginalColumns, prefix, columns }: ExportTemplate): string =>
+  JSON.stringify({ name, description, includeOriginalColumns, prefix, columns }, null, 2);
+
+function formatValue(value: unknown, format?: ExportValueFormat): unknown {
+  switch (format) {
+    case 'code':
+      return CLASSIFICATION_CODES[value as EntityClassification] ?? value;
+    case 'decimal':
+      return typeof value === 'number' ? Number((value / 100).toFixed(4)) : value;
+    case 'y-n':
+      return value ? 'Y' : 'N';
+    case 'boolean':
+      return Boolean(value);
+    case 'date':
+      return String(value).slice(0, 10);
+    default:
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+  }
+}
+
+/**
+ * The result columns of one row as a template lays them out, each header
+ * preceded by the prefix
+ */
+export function renderExportColumns(item: PayeeClassification, template: ExportTemplate, prefix = template.prefix ?? ''): ExportRow {
+  const row: ExportRow = {};
+  for (const column of template.columns) {
+    row[`${prefix}${exportColumnHeader(column)}`] = formatValue(EXPORT_FIELDS[column.field].read(item), column.format);
+  }
+  return row;
+}
+
+// Value of a field for a row without a result; fields not listed are left blank
+function unclassifiedValue(field: ExportFieldId, rowIndex: number, reason: UnclassifiedReason): unknown {
+  switch (field) {
+    case 'classification':
+    case 'processingTier':
+      return UNCLASSIFIED;
+    case 'confidence':
+    case 'keywordConfidence':
+      return 0;
+    case 'reasoning':
+      return UNCLASSIFIED_REASON_MESSAGES[reason];
+    case 'keywordExclusion':
+      return false;
+    case 'rowIndex':
+      return rowIndex;
+    case 'alignmentStatus':
+      return `${UNCLASSIFIED}: ${reason}`;
+    case 'unclassifiedReason':
+      return reason;
+    default:
+      return '';
+  }
+}
+
+/**
+ * The result columns for a row that has no result: "Unclassified" with the reason code
+ */
+export function renderUnclassifiedColumns(
+  rowIndex: number,
+  reason: UnclassifiedReason,
+  template: ExportTemplate,
+  prefix = template.prefix ?? ''
+): ExportRow {
+  const row: ExportRow = {};
+  for (const column of template.columns) {
+    row[`${prefix}${exportColumnHeader(column)}`] = formatValue(unclassifiedValue(column.field, rowIndex, reason), column.format);
+  }
+  return row;
+}
@@ -1,11 +1,23 @@
 
-import { ExportRow } from './types';
+import { ExportOptions, ExportRow } from './types';
+import { renderExportColumns } from './exportTemplates';
+import { resolveExportTemplate } from './resultsMerger';
 
 /**
- * Creates export data from results only when no original file data is available
+ * Creates export data from results only when no original file data is available.
+ * With a template the payee name comes first, unless the template places it.
  */
-export function createFallbackExportData(results: any[]): ExportRow[] {
+export function createFallbackExportData(results: any[], includeExplanation: boolean = false, options: ExportOptions = {}): ExportRow[] {
   console.log('[FALLBACK EXPORTER] No original file data, creating export from results only');
+
+  if (options.template) {
+    const template = resolveExportTemplate(options, includeExplanation);
+    const placesName = template.columns.some(column => column.field === 'payeeName');
+    return results.map(result => ({
+      ...(placesName ? {} : { 'Payee_Name': result.payeeName }),
+      ...renderExportColumns(result, template, options.customPrefix)
+    }));
+  }
   
   return results.map(result => ({
     'Payee_Name': result.payeeName,
@@ -18,8 +30,13 @@ export function createFallbackExportData(results: any[]): ExportRow[] {
     'Matched_Keywords': result.result.keywordExclusion?.matchedKeywords?.join('; ') || '',
     'Keyword_Confidence_%': result.result.keywordExclusion?.confidence || 0,
     'Keyword_Reasoning': result.result.keywordExclusion?.reasoning || 'No keyword exclusion applied',
+    'Exclusion_Profile': result.exclusionProfile?.name || '',
+    'Exclusion_Profile_Version': result.exclusionProfile?.version ?? '',
     'Matching_Rules': result.result.matchingRules?.join('; ') || '',
     'Classification_Timestamp': result.timestamp.toISOString(),
-    'Row_Index': result.rowIndex || 0
+    'Row_Index': result.rowIndex || 0,
+    ...(includeExplanation
+      ? { 'Explanation_JSON': result.result.explanation ? JSON.stringify(result.result.explanation) : '' }
+      : {})
   }));
 }
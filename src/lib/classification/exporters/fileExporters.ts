@@ -0,0 +1,112 @@
+import * as XLSX from 'xlsx';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+import { BatchProcessingResult } from '../../types';
+import { exportResultsWithOriginalDataV3 } from './mainExporter';
+import { buildResultsWorkbook } from './workbookExporter';
+import { ExportFile, ExportFileFormat, ExportFileOptions, ExportRow } from './types';
+
+export const EXPORT_FILE_FORMATS: ExportFileFormat[] = ['xlsx', 'csv', 'json', 'jsonl', 'parquet'];
+
+export const EXPORT_FILE_FORMAT_LABELS: Record<ExportFileFormat, string> = {
+  xlsx: 'Excel workbook (.xlsx)',
+  csv: 'CSV',
+  json: 'JSON',
+  jsonl: 'JSON Lines',
+  parquet: 'Parquet'
+};
+
+export const EXPORT_FILE_MIME_TYPES: Record<ExportFileFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+};
+
+export const isExportFileFormat = (value: string): value is ExportFileFormat =>
+  (EXPORT_FILE_FORMATS as string[]).includes(value);
+
+/**
+ * Every column name across the rows, in the order first seen
+ */
+export function exportRowHeaders(rows: ExportRow[]): string[] {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) headers.add(key);
+  }
+  return [...headers];
+}
+
+export function exportRowsToCsv(rows: ExportRow[], header = exportRowHeaders(rows), skipHeader = false): string {
+  if (rows.length === 0) return skipHeader ? '' : `${header.join(',')}\n`;
+  return `${XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(rows, { header, skipHeader }))}\n`;
+}
+
+export const exportRowsToJsonLines = (rows: ExportRow[]): string =>
+  rows.map(row => `${JSON.stringify(row)}\n`).join('');
+
+// Numbers and booleans keep their type when every value in the column has it; anything else is text
+function parquetColumn(name: string, rows: ExportRow[]): ColumnSource {
+  const values = rows.map(row => row[name] ?? null);
+  const present = values.filter(value => value !== null && value !== '');
+  if (present.length > 0 && present.every(value => typeof value === 'number')) {
+    return { name, type: 'DOUBLE', data: values.map(value => (value === '' ? null : value)) };
+  }
+  if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+    return { name, type: 'BOOLEAN', data: values.map(value => (value === '' ? null : value)) };
+  }
+  return {
+    name,
+    type: 'STRING',
+    data: values.map(value => {
+      if (value === null) return null;
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    })
+  };
+}
+
+export function exportRowsToParquet(rows: ExportRow[]): ArrayBuffer {
+  return parquetWriteBuffer({ columnData: exportRowHeaders(rows).map(name => parquetColumn(name, rows)) });
+}
+
+/**
+ * Write export rows that line up 1:1 with batchResult.results in the given format.
+ * XLSX keeps the uploaded workbook's sheets and can add a summary sheet.
+ */
+export function writeExportFile(
+  exportRows: ExportRow[],
+  batchResult: BatchProcessingResult,
+  format: ExportFileFormat,
+  options: Pick<ExportFileOptions, 'includeSummary' | 'resultsSheetName'> = {}
+): ExportFile {
+  const file = (content: string | ArrayBuffer): ExportFile => ({ content, mimeType: EXPORT_FILE_MIME_TYPES[format], extension: format });
+  switch (format) {
+    case 'xlsx': {
+      const workbook = buildResultsWorkbook(exportRows, batchResult, options);
+      return file(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer);
+    }
+    case 'csv':
+      return file(exportRowsToCsv(exportRows));
+    case 'json':
+      return file(JSON.stringify(exportRows, null, 2));
+    case 'jsonl':
+      return file(exportRowsToJsonLines(exportRows));
+    case 'parquet':
+      return file(exportRowsToParquet(exportRows));
+  }
+}
+
+/**
+ * Export the results with their original rows and write them in the given format
+ */
+export function createExportFile(
+  batchResult: BatchProcessingResult,
+  format: ExportFileFormat,
+  options: ExportFileOptions = {}
+): ExportFile {
+  const { includeAllColumns = true, includeExplanation = false, includeSummary, ...exportOptions } = options;
+  const exportRows = exportResultsWithOriginalDataV3(batchResult, includeAllColumns, includeExplanation, exportOptions);
+  return writeExportFile(exportRows, batchResult, format, { includeSummary });
+}
@@ -4,3 +4,8 @@ export { exportResultsWithOriginalDataV3 } from './mainExporter';
 export * from './types';
 export * from './resultsMerger';
 export * from './fallbackExporter';
+export * from './workbookExporter';
+export * from './exportTemplates';
+export * from './fileExporters';
+export * from './enrichmentExporter';
+export * from './alignment';
@@ -1,17 +1,23 @@
 
-import { ExportRow, ExportContext } from './types';
-import { createResultsMap, mergeRowWithResult } from './resultsMerger';
+import { ExportRow, ExportContext, ExportOptions } from './types';
+import { createResultsMap, mergeRowWithResult, mergeRowWithoutResult } from './resultsMerger';
 import { createFallbackExportData } from './fallbackExporter';
+import { alignResultsWithRows, describeAlignmentReport } from './alignment';
 
 /**
- * Main export function with perfect 1:1 correspondence
+ * Main export function with perfect 1:1 correspondence. Rows without a result are
+ * exported as Unclassified with a reason code; options.strict throws on them instead.
  *
  * @param batchResult - Results plus original rows
  * @param includeAllColumns - If false, exclude original row fields and output only AI columns
+ * @param includeExplanation - If true, add each result's explanation trace as an Explanation_JSON column
+ * @param options - Export template, header prefix for the result columns and strict alignment
  */
 export function exportResultsWithOriginalDataV3(
   batchResult: any,
-  includeAllColumns: boolean = true
+  includeAllColumns: boolean = true,
+  includeExplanation: boolean = false,
+  options: ExportOptions = {}
 ): ExportRow[] {
   console.log('[MAIN EXPORTER] Processing batch result with GUARANTEED alignment:', {
     hasOriginalData: !!batchResult.originalFileData,
@@ -21,17 +27,34 @@ export function exportResultsWithOriginalDataV3(
   });
 
   if (!batchResult.originalFileData || batchResult.originalFileData.length === 0) {
-    return createFallbackExportData(batchResult.results);
+    return createFallbackExportData(batchResult.results, includeExplanation, options);
   }
 
-  console.log('[MAIN EXPORTER] Merging with PERFECT 1:1 correspondence - no fallbacks, no misalignment');
-  
-  // Create results map for efficient lookup by row index
-  const resultsMap = createResultsMap(batchResult.results);
-  
-  return batchResult.originalFileData.map((originalRow: any, index: number) => {
-    // Get the corresponding result by exact index match
-    const result = resultsMap.get(index);
-    return mergeRowWithResult(originalRow, result, index, includeAllColumns);
+  const keepOriginalColumns = includeAllColumns && options.template?.includeOriginalColumns !== false;
+
+  if (options.strict) {
+    console.log('[MAIN EXPORTER] Merging with PERFECT 1:1 correspondence - no fallbacks, no misalignment');
+    
+    // Create results map for efficient lookup by row index
+    const resultsMap = createResultsMap(batchResult.results);
+    
+    return batchResult.originalFileData.map((originalRow: any, index: number) => {
+      // Get the corresponding result by exact index match
+      const result = resultsMap.get(index);
+      return mergeRowWithResult(originalRow, result, index, keepOriginalColumns, includeExplanation, options);
+    });
+  }
+
+  // Rows without a result are written as Unclassified instead of failing the export
+  const { results, gaps, report } = alignResultsWithRows(batchResult);
+  if (report.issues.length > 0) {
+    console.warn(`[MAIN EXPORTER] ${describeAlignmentReport(report)}`);
+  }
+
+  return batchResult.originalFileData.map((originalRow: ExportRow, index: number) => {
+    const result = results.get(index);
+    return result
+      ? mergeRowWithResult(originalRow, result, index, keepOriginalColumns, includeExplanation, options)
+      : mergeRowWithoutResult(originalRow, index, gaps.get(index) ?? 'missing-result', keepOriginalColumns, includeExplanation, options);
   });
 }
@@ -1,5 +1,38 @@
 
-import { ExportRow, ExportContext } from './types';
+import { UnclassifiedReason } from '../../types';
+import { ExportRow, ExportOptions, ExportTemplate } from './types';
+import { createStandardExportTemplate, exportColumnHeader, renderExportColumns, renderUnclassifiedColumns } from './exportTemplates';
+
+/**
+ * Template an export writes: the chosen one, with the explanation column added when
+ * requested and missing, or the standard columns
+ */
+export function resolveExportTemplate(options: ExportOptions, includeExplanation: boolean = false): ExportTemplate {
+  const template = options.template;
+  if (!template) return createStandardExportTemplate(includeExplanation);
+  if (!includeExplanation || template.columns.some(column => column.field === 'explanation')) return template;
+  return { ...template, columns: [...template.columns, { field: 'explanation' }] };
+}
+
+/**
+ * Header of every export row, known before the rows are: the original columns, when
+ * kept, followed by the result columns. A result column named like an original one
+ * keeps the original's place, as it does in the merged rows.
+ */
+export function resolveExportHeader(
+  originalColumns: string[],
+  includeAllColumns: boolean = true,
+  includeExplanation: boolean = false,
+  options: ExportOptions = {}
+): string[] {
+  const template = resolveExportTemplate(options, includeExplanation);
+  const prefix = options.customPrefix ?? template.prefix ?? '';
+  const keepOriginalColumns = includeAllColumns && template.includeOriginalColumns !== false;
+  return Array.from(new Set([
+    ...(keepOriginalColumns ? originalColumns : []),
+    ...template.columns.map(column => `${prefix}${exportColumnHeader(column)}`)
+  ]));
+}
 
 /**
  * Creates a results map for efficient lookup by row index with validation
@@ -37,13 +70,16 @@ export function createResultsMap(results: any[]): Map<number, any> {
 }
 
 /**
- * Merges original row data with AI classification results with perfect alignment
+ * Merges original row data with AI classification results with perfect alignment.
+ * The result columns come from options.template, or the standard set when none is given.
  */
 export function mergeRowWithResult(
   originalRow: any,
   result: any | undefined,
   index: number,
-  includeAllColumns: boolean = true
+  includeAllColumns: boolean = true,
+  includeExplanation: boolean = false,
+  options: ExportOptions = {}
 ): ExportRow {
   // Start with ALL original data when requested, otherwise begin with an empty object
   const exportRow: ExportRow = includeAllColumns ? { ...originalRow } : {};
@@ -62,46 +98,21 @@ export function mergeRowWithResult(
   console.log(`[MERGE] Perfect alignment confirmed for row ${index}: "${result.payeeName}"`);
 
   // Add all AI classification data as NEW columns
-  exportRow['AI_Classification'] = result.result.classification;
-  exportRow['AI_Confidence_%'] = result.result.confidence;
-  exportRow['AI_Processing_Tier'] = result.result.processingTier;
-  exportRow['AI_Reasoning'] = result.result.reasoning;
-  exportRow['AI_Processing_Method'] = result.result.processingMethod || 'OpenAI Batch API';
-  
-  // Keyword exclusion details
-  exportRow['Keyword_Exclusion'] = result.result.keywordExclusion?.isExcluded ? 'Yes' : 'No';
-  exportRow['Matched_Keywords'] = result.result.keywordExclusion?.matchedKeywords?.join('; ') || '';
-  exportRow['Keyword_Confidence_%'] = result.result.keywordExclusion?.confidence || 0;
-  exportRow['Keyword_Reasoning'] = result.result.keywordExclusion?.reasoning || 'No keyword exclusion applied';
-  
-  // Enhanced classification details
-  exportRow['Matching_Rules'] = result.result.matchingRules?.join('; ') || '';
-  
-  // Similarity scores
-  const similarityDetails = [];
-  if (result.result.similarityScores?.levenshtein) {
-    similarityDetails.push(`Levenshtein: ${result.result.similarityScores.levenshtein}`);
-  }
-  if (result.result.similarityScores?.jaroWinkler) {
-    similarityDetails.push(`Jaro-Winkler: ${result.result.similarityScores.jaroWinkler}`);
-  }
-  if (result.result.similarityScores?.dice) {
-    similarityDetails.push(`Dice: ${result.result.similarityScores.dice}`);
-  }
-  if (result.result.similarityScores?.tokenSort) {
-    similarityDetails.push(`Token Sort: ${result.result.similarityScores.tokenSort}`);
-  }
-  if (result.result.similarityScores?.combined) {
-    similarityDetails.push(`Combined: ${result.result.similarityScores.combined}`);
-  }
-  exportRow['Similarity_Scores'] = similarityDetails.join(' | ') || '';
-  
-  // Timestamps and metadata
-  exportRow['Classification_Timestamp'] = result.timestamp.toISOString();
-  exportRow['Processing_Row_Index'] = result.rowIndex;
-  
-  // Data alignment status - should always be perfect now
-  exportRow['Data_Alignment_Status'] = 'Perfect 1:1 Match';
+  return Object.assign(exportRow, renderExportColumns(result, resolveExportTemplate(options, includeExplanation), options.customPrefix));
+}
 
-  return exportRow;
+/**
+ * Original row data with the result columns filled in as "Unclassified" and the reason
+ * the row has no result
+ */
+export function mergeRowWithoutResult(
+  originalRow: ExportRow,
+  index: number,
+  reason: UnclassifiedReason,
+  includeAllColumns: boolean = true,
+  includeExplanation: boolean = false,
+  options: ExportOptions = {}
+): ExportRow {
+  const exportRow: ExportRow = includeAllColumns ? { ...originalRow } : {};
+  return Object.assign(exportRow, renderUnclassifiedColumns(index, reason, resolveExportTemplate(options, includeExplanation), options.customPrefix));
 }
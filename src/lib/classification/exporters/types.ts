@@ -1,5 +1,5 @@
 
-import { BatchProcessingResult } from '../../types';
+import { BatchProcessingResult, UnclassifiedReason } from '../../types';
 
 export interface ExportRow {
   [key: string]: any;
@@ -12,17 +12,83 @@ export interface ExportRow {
   'Matched_Keywords'?: string;
   'Keyword_Confidence_%'?: number;
   'Keyword_Reasoning'?: string;
+  'Exclusion_Profile'?: string;
+  'Exclusion_Profile_Version'?: number | '';
   'Matching_Rules'?: string;
   'Similarity_Scores'?: string;
+  'Explanation_JSON'?: string;
   'Classification_Timestamp'?: string;
   'Processing_Row_Index'?: number;
   'Data_Alignment_Status'?: string;
 }
 
+// Result fields an export template can emit
+export type ExportFieldId =
+  | 'payeeName'
+  | 'classification'
+  | 'confidence'
+  | 'processingTier'
+  | 'reasoning'
+  | 'processingMethod'
+  | 'keywordExclusion'
+  | 'matchedKeywords'
+  | 'keywordConfidence'
+  | 'keywordReasoning'
+  | 'exclusionProfile'
+  | 'exclusionProfileVersion'
+  | 'matchingRules'
+  | 'similarityScores'
+  | 'explanation'
+  | 'timestamp'
+  | 'rowIndex'
+  | 'alignmentStatus'
+  | 'unclassifiedReason';
+
+/**
+ * How a value is written: one-letter classification codes ("B", "I"), confidence
+ * as a 0-1 decimal, yes/no as "Y"/"N" or true/false, or a timestamp as a date
+ */
+export type ExportValueFormat = 'code' | 'decimal' | 'y-n' | 'boolean' | 'date';
+
+export interface ExportTemplateColumn {
+  field: ExportFieldId;
+  header?: string; // Defaults to the field's standard column name
+  format?: ExportValueFormat;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportTemplateColumn[]; // Written in this order after the original columns
+  includeOriginalColumns?: boolean; // Defaults to true
+  prefix?: string; // Put before every result column header
+  description?: string;
+  updatedAt?: string;
+}
+
 export interface ExportOptions {
   includeAllColumns?: boolean;
   addTimestamp?: boolean;
-  customPrefix?: string;
+  customPrefix?: string; // Put before every result column header; overrides the template's prefix
+  template?: ExportTemplate; // Result columns to write instead of the standard set
+  strict?: boolean; // Throw on the first row without a result instead of exporting it as Unclassified
+}
+
+// Rows without a result, and results that match no row or the same row as another
+export type AlignmentIssueCode = UnclassifiedReason | 'duplicate-result' | 'unmatched-result';
+
+export interface AlignmentIssue {
+  code: AlignmentIssueCode;
+  rowIndex?: number; // Missing for results without a row index
+  message: string;
+}
+
+export interface AlignmentReport {
+  totalRows: number;
+  classifiedRows: number;
+  unclassifiedRows: number;
+  issueCounts: Partial<Record<AlignmentIssueCode, number>>;
+  issues: AlignmentIssue[];
 }
 
 export interface ExportContext {
@@ -30,3 +96,27 @@ export interface ExportContext {
   options: ExportOptions;
   resultsMap: Map<number, any>;
 }
+
+// File formats the results can be downloaded or written as
+export type ExportFileFormat = 'xlsx' | 'csv' | 'json' | 'jsonl' | 'parquet';
+
+export interface ExportFile {
+  content: string | ArrayBuffer;
+  mimeType: string;
+  extension: string;
+}
+
+export interface ExportFileOptions extends ExportOptions {
+  includeExplanation?: boolean;
+  includeSummary?: boolean; // XLSX only: add a sheet with the batch statistics
+  resultsSheetName?: string; // XLSX only: with sourceSheets, the one classified sheet every row belongs to
+}
+
+// Formats that can be enriched in place: classification columns added to a copy of the file
+export type EnrichableFormat = 'csv' | 'xlsx';
+
+export interface EnrichmentSource {
+  data: ArrayBuffer | Uint8Array | string; // The uploaded file, unchanged
+  format: EnrichableFormat;
+  sheetName?: string; // Sheet of a single-sheet workbook run; defaults to the first sheet
+}
@@ -0,0 +1,111 @@
+import * as XLSX from 'xlsx';
+import { BatchProcessingResult, EnhancedBatchStatistics } from '../../types';
+import { calculateBatchStatistics } from '../batchStatistics';
+import { buildAlignmentReport } from './alignment';
+import { ExportRow } from './types';
+
+// Sheet name used when the results did not come from a multi-sheet workbook
+export const RESULTS_SHEET_NAME = 'Enhanced Classification Results';
+
+export const SUMMARY_SHEET_NAME = 'Classification Summary';
+
+interface ResultsWorkbookOptions {
+  includeSummary?: boolean; // Add a sheet with the batch statistics after the result sheets
+  resultsSheetName?: string; // With sourceSheets, the one classified sheet every export row belongs to
+}
+
+/**
+ * Batch statistics as metric/value rows, computed from the results when the run
+ * did not record them
+ */
+export function summarizeBatchResult(batchResult: BatchProcessingResult): (string | number)[][] {
+  const stats: EnhancedBatchStatistics = batchResult.enhancedStats ?? calculateBatchStatistics(
+    batchResult.results,
+    batchResult.results.length,
+    batchResult.results,
+    [],
+    batchResult.processingTime ?? 0
+  );
+  const rows: (string | number)[][] = [
+    ['Metric', 'Value'],
+    ['Total payees', stats.totalProcessed],
+    ['Business', stats.businessCount],
+    ['Individual', stats.individualCount],
+    ['Government', stats.governmentCount],
+    ['Trust/Estate', stats.trustEstateCount],
+    ['Non-Profit', stats.nonProfitCount],
+    ['Excluded by keyword', stats.excludedCount],
+    ['Failed', Math.max(stats.failedCount, batchResult.failureCount)],
+    ['Average confidence %', stats.totalProcessed > 0 ? Number(stats.averageConfidence.toFixed(1)) : 0],
+    ['High confidence', stats.highConfidenceCount],
+    ['Medium confidence', stats.mediumConfidenceCount],
+    ['Low confidence', stats.lowConfidenceCount],
+    ['Processing time (ms)', stats.processingTime]
+  ];
+  if (stats.deduplicationSavings !== undefined) rows.push(['Duplicate names reused', stats.deduplicationSavings]);
+  if (stats.cacheStats) rows.push(['Cache hits', stats.cacheStats.hits], ['Cache misses', stats.cacheStats.misses]);
+  if (stats.retryCount !== undefined) rows.push(['Retries', stats.retryCount]);
+  for (const [tier, count] of Object.entries(stats.processingTierCounts)) {
+    rows.push([`Tier: ${tier}`, count]);
+  }
+  const alignment = buildAlignmentReport(batchResult);
+  rows.push(['Unclassified rows', alignment.unclassifiedRows]);
+  for (const [code, count] of Object.entries(alignment.issueCounts)) {
+    rows.push([`Alignment: ${code}`, count]);
+  }
+  return rows;
+}
+
+// Sheet names must be unique, so the summary is numbered if the upload already has one
+function unusedSheetName(workbook: XLSX.WorkBook, name: string): string {
+  let candidate = name;
+  for (let suffix = 2; workbook.SheetNames.includes(candidate); suffix++) {
+    candidate = `${name} ${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Workbook for export rows that line up 1:1 with batchResult.results. Results from
+ * an uploaded workbook are written back sheet by sheet in the original order, and
+ * sheets that were not classified are copied unchanged.
+ */
+export function buildResultsWorkbook(
+  exportRows: ExportRow[],
+  batchResult: BatchProcessingResult,
+  options: ResultsWorkbookOptions = {}
+): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  if (!batchResult.sourceSheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(exportRows), RESULTS_SHEET_NAME);
+  } else {
+    const rowsBySheet = new Map<string, ExportRow[]>();
+    if (options.resultsSheetName !== undefined) {
+      rowsBySheet.set(options.resultsSheetName, exportRows);
+    } else {
+      exportRows.forEach((row, index) => {
+        const sheetName = batchResult.results[index]?.sheetName;
+        if (sheetName === undefined) return;
+        const rows = rowsBySheet.get(sheetName);
+        if (rows) rows.push(row);
+        else rowsBySheet.set(sheetName, [row]);
+      });
+    }
+
+    for (const sheet of batchResult.sourceSheets) {
+      const worksheet = sheet.rows
+        ? XLSX.utils.aoa_to_sheet(sheet.rows)
+        : XLSX.utils.json_to_sheet(rowsBySheet.get(sheet.name) ?? []);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+    }
+  }
+
+  if (options.includeSummary) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(summarizeBatchResult(batchResult)),
+      unusedSheetName(workbook, SUMMARY_SHEET_NAME)
+    );
+  }
+  return workbook;
+}
@@ -1,10 +1,49 @@
+import { PayeeClassification, UnclassifiedReason } from '../types';
+import { alignResultsWithRows, describeAlignmentReport, ExportOptions, UNCLASSIFIED, UNCLASSIFIED_REASON_MESSAGES } from './exporters';
+
+
+const explanationJson = (result: PayeeClassification): string =>
+  result.result.explanation ? JSON.stringify(result.result.explanation) : '';
+
+// AI classification columns of a row
+const resultColumns = (result: PayeeClassification, index: number, includeExplanation: boolean) => ({
+  AI_Classification: result.result.classification,
+  AI_Confidence: result.result.confidence,
+  AI_Reasoning: result.result.reasoning,
+  Processing_Method: result.result.processingMethod || 'AI Classification',
+  Processing_Tier: result.result.processingTier,
+  Exclusion_Profile: result.exclusionProfile?.name || '',
+  Exclusion_Profile_Version: result.exclusionProfile?.version ?? '',
+  Classification_Timestamp: result.timestamp.toISOString(),
+  ...(includeExplanation ? { Explanation_JSON: explanationJson(result) } : {}),
+  Row_Index: index,
+  Data_Alignment_Status: 'Perfect 1:1 Match'
+});
+
+// Columns of a row that has no result
+const unclassifiedColumns = (index: number, reason: UnclassifiedReason, includeExplanation: boolean) => ({
+  AI_Classification: UNCLASSIFIED,
+  AI_Confidence: 0,
+  AI_Reasoning: UNCLASSIFIED_REASON_MESSAGES[reason],
+  Processing_Method: '',
+  Processing_Tier: UNCLASSIFIED,
+  Exclusion_Profile: '',
+  Exclusion_Profile_Version: '',
+  Classification_Timestamp: '',
+  ...(includeExplanation ? { Explanation_JSON: '' } : {}),
+  Row_Index: index,
+  Data_Alignment_Status: `${UNCLASSIFIED}: ${reason}`
+});
 
 /**
- * Fixed export function with guaranteed perfect 1:1 correspondence
+ * Fixed export function with guaranteed perfect 1:1 correspondence. Rows without a
+ * result are exported as Unclassified; options.strict throws on them instead.
  */
 export function exportResultsFixed(
   batchResult: any,
-  includeAllColumns: boolean = true
+  includeAllColumns: boolean = true,
+  includeExplanation: boolean = false,
+  options: Pick<ExportOptions, 'strict'> = {}
 ): any[] {
   console.log('[FIXED EXPORTER] Processing batch result with GUARANTEED 1:1 alignment:', {
     hasOriginalData: !!batchResult.originalFileData,
@@ -22,10 +61,27 @@ export function exportResultsFixed(
       AI_Confidence: result.result.confidence,
       AI_Reasoning: result.result.reasoning,
       Processing_Method: result.result.processingMethod || 'AI Classification',
-      Classification_Timestamp: result.timestamp.toISOString()
+      Exclusion_Profile: result.exclusionProfile?.name || '',
+      Exclusion_Profile_Version: result.exclusionProfile?.version ?? '',
+      Classification_Timestamp: result.timestamp.toISOString(),
+      ...(includeExplanation ? { Explanation_JSON: explanationJson(result) } : {})
     }));
   }
 
+  if (!options.strict) {
+    const { results, gaps, report } = alignResultsWithRows(batchResult);
+    if (report.issues.length > 0) {
+      console.warn(`[FIXED EXPORTER] ${describeAlignmentReport(report)}`);
+    }
+    return batchResult.originalFileData.map((originalRow: Record<string, unknown>, index: number) => {
+      const result = results.get(index);
+      const exportRow = includeAllColumns ? { ...originalRow } : {};
+      return Object.assign(exportRow, result
+        ? resultColumns(result, index, includeExplanation)
+        : unclassifiedColumns(index, gaps.get(index) ?? 'missing-result', includeExplanation));
+    });
+  }
+
   // Validate perfect alignment
   if (batchResult.originalFileData.length !== batchResult.results.length) {
     console.error('[FIXED EXPORTER] CRITICAL: Length mismatch detected!', {
@@ -52,16 +108,6 @@ export function exportResultsFixed(
     // Start with original data if requested
     const exportRow: any = includeAllColumns ? { ...originalRow } : {};
     
-    // Add AI classification columns
-    exportRow['AI_Classification'] = result.result.classification;
-    exportRow['AI_Confidence'] = result.result.confidence;
-    exportRow['AI_Reasoning'] = result.result.reasoning;
-    exportRow['Processing_Method'] = result.result.processingMethod || 'AI Classification';
-    exportRow['Processing_Tier'] = result.result.processingTier;
-    exportRow['Classification_Timestamp'] = result.timestamp.toISOString();
-    exportRow['Row_Index'] = index;
-    exportRow['Data_Alignment_Status'] = 'Perfect 1:1 Match';
-    
-    return exportRow;
+    return Object.assign(exportRow, resultColumns(result, index, includeExplanation));
   });
 }
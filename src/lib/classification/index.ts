@@ -41,6 +41,15 @@ export {
   bulkKeywordExclusion 
 } from './enhancedKeywordExclusion';
 
+// Export structured keyword exclusion rules
+export * from './exclusion';
+
+// Export named exclusion profiles kept in local storage
+export * from './exclusionProfileStore';
+
+// Export saved export templates kept in local storage
+export * from './exportTemplateStore';
+
 // Export name processing
 export * from './nameProcessing';
 
@@ -83,6 +92,30 @@ export {
 
 export { ensembleClassifyPayee } from './ensembleClassifier';
 
+// Export the pluggable classification pipeline and its version presets
+export * from './pipeline';
+
+// Export the engine-agnostic chunked batch runner used by the CLI
+export * from './batchRunner';
+
+// Export the runner that classifies rows while a file is still being read
+export * from './streamingRunner';
+
+// Export the labeled ground-truth evaluation harness
+export * from './evaluation';
+
+// Export score calibration and the saved calibration models
+export * from './calibration';
+
+// Export the human review queue and corrections store
+export * from './review';
+
+// Export the comparison of two batch runs and the store of finished runs
+export * from './comparison';
+
+// Export the labeled reference index behind the fuzzy-match tier
+export * from './referenceIndex';
+
 // Export new enhanced deterministic classifier modules
 export { EnhancedDeterministicClassifier, enhancedDeterministicClassifyPayee, getEnhancedDeterministicJSON } from './enhancedDeterministicClassifier';
 export * from './enhancedDeterministicTypes';
@@ -1,34 +1,39 @@
-import bundledKeywords from "../../../data/exclusion-keywords.json";
+import bundledRules from "../../../data/exclusion-keywords.json";
+import { ExclusionRule, ExclusionRuleMatch, getExclusionMatcher, migrateExclusionRules } from "./exclusion";
 
-// Fallback comprehensive exclusion keywords bundled with the application
-export const BUNDLED_EXCLUSION_KEYWORDS: string[] = bundledKeywords;
+// Fallback comprehensive exclusion rules bundled with the application
+export const BUNDLED_EXCLUSION_RULES: ExclusionRule[] = migrateExclusionRules(bundledRules);
 
-let cachedKeywords: string[] | null = null;
+// Keywords of the bundled rules, for callers that only need the names
+export const BUNDLED_EXCLUSION_KEYWORDS: string[] = BUNDLED_EXCLUSION_RULES.map(rule => rule.keyword);
+
+let cachedRules: ExclusionRule[] | null = null;
 
 /**
- * Load exclusion keywords from the JSON file at runtime.
- * Falls back to the bundled list if loading fails.
+ * Load exclusion rules from the JSON file at runtime. The file may hold rule
+ * objects or the legacy plain keyword list.
+ * Falls back to the bundled rules if loading fails.
  */
-export async function loadExclusionKeywords(
+export async function loadExclusionRules(
   url = "/data/exclusion-keywords.json"
-): Promise<string[]> {
-  if (cachedKeywords) return cachedKeywords;
+): Promise<ExclusionRule[]> {
+  if (cachedRules) return cachedRules;
 
   try {
     const response = await fetch(url);
     if (response.ok) {
-      const json = await response.json();
-      if (Array.isArray(json)) {
-        cachedKeywords = validateExclusionKeywords(json);
-        return cachedKeywords;
+      const rules = migrateExclusionRules(await response.json());
+      if (rules.length > 0) {
+        cachedRules = rules;
+        return cachedRules;
       }
     }
   } catch (err) {
-    console.warn(`[EXCLUSION] Failed to load keywords from ${url}`, err);
+    console.warn(`[EXCLUSION] Failed to load rules from ${url}`, err);
   }
 
-  cachedKeywords = BUNDLED_EXCLUSION_KEYWORDS;
-  return cachedKeywords;
+  cachedRules = BUNDLED_EXCLUSION_RULES;
+  return cachedRules;
 }
 
 
@@ -36,19 +41,19 @@ export interface ExclusionResult {
   isExcluded: boolean;
   matchedKeywords: string[];
   originalName: string;
+  match?: ExclusionRuleMatch;
 }
 
 /**
- * Check if a payee name contains any exclusion keywords
- * Uses simple contains matching - if ANY keyword is found, exclude the payee
- * No duplicates - each payee gets ONE result regardless of multiple keyword matches
+ * Check if a payee name matches any enabled exclusion rule
+ * Each rule uses its own match mode; plain keyword strings are treated as whole-word rules
+ * The rule list is compiled into a matcher once and reused while the same list is passed
+ * No duplicates - each payee gets ONE result regardless of multiple rule matches
  */
 export function checkKeywordExclusion(
   payeeName: string, 
-  exclusionKeywords: string[] = BUNDLED_EXCLUSION_KEYWORDS
+  exclusionRules: Array<ExclusionRule | string> = BUNDLED_EXCLUSION_RULES
 ): ExclusionResult {
-  console.log(`[KEYWORD EXCLUSION] Testing "${payeeName}" against ${exclusionKeywords.length} keywords`);
-  
   if (!payeeName || typeof payeeName !== 'string') {
     console.log(`[KEYWORD EXCLUSION] Invalid input: "${payeeName}"`);
     return {
@@ -58,28 +63,17 @@ export function checkKeywordExclusion(
     };
   }
 
-  const normalizedName = payeeName.toUpperCase().trim();
-  console.log(`[KEYWORD EXCLUSION] Normalized name: "${normalizedName}"`);
-
-  // Check each exclusion keyword - stop at first match to avoid duplicates
-  for (const keyword of exclusionKeywords) {
-    if (!keyword || typeof keyword !== 'string') continue;
-    
-    const normalizedKeyword = keyword.toUpperCase().trim();
-    if (!normalizedKeyword) continue;
-
-    // Simple contains matching
-    if (normalizedName.includes(normalizedKeyword)) {
-      console.log(`[KEYWORD EXCLUSION] MATCH FOUND! "${payeeName}" contains keyword "${keyword}"`);
-      return {
-        isExcluded: true,
-        matchedKeywords: [keyword],
-        originalName: payeeName
-      };
-    }
+  const match = getExclusionMatcher(exclusionRules).match(payeeName);
+  if (match) {
+    console.log(`[KEYWORD EXCLUSION] MATCH FOUND! "${payeeName}" matches ${match.rule.matchMode} rule "${match.rule.keyword}"`);
+    return {
+      isExcluded: true,
+      matchedKeywords: [match.rule.keyword],
+      originalName: payeeName,
+      match
+    };
   }
 
-  console.log(`[KEYWORD EXCLUSION] No match found for "${payeeName}"`);
   return {
     isExcluded: false,
     matchedKeywords: [],
@@ -93,7 +87,7 @@ export function checkKeywordExclusion(
  */
 export function filterPayeeNames(
   payeeNames: string[],
-  exclusionKeywords: string[] = BUNDLED_EXCLUSION_KEYWORDS
+  exclusionRules: Array<ExclusionRule | string> = BUNDLED_EXCLUSION_RULES
 ): {
   validNames: string[];
   excludedNames: Array<{ name: string; reason: string[] }>;
@@ -101,6 +95,7 @@ export function filterPayeeNames(
   const validNames: string[] = [];
   const excludedNames: Array<{ name: string; reason: string[] }> = [];
   const processedNames = new Set<string>(); // Prevent duplicates
+  const rules = migrateExclusionRules(exclusionRules);
 
   for (const name of payeeNames) {
     // Skip if we've already processed this exact name
@@ -109,7 +104,7 @@ export function filterPayeeNames(
     }
     processedNames.add(name);
 
-    const exclusionResult = checkKeywordExclusion(name, exclusionKeywords);
+    const exclusionResult = checkKeywordExclusion(name, rules);
     
     if (exclusionResult.isExcluded) {
       excludedNames.push({
@@ -125,22 +120,8 @@ export function filterPayeeNames(
 }
 
 /**
- * Get the comprehensive exclusion keywords
+ * Get a copy of the comprehensive bundled exclusion rules
  */
-export function getComprehensiveExclusionKeywords(): string[] {
-  return [...BUNDLED_EXCLUSION_KEYWORDS];
-}
-
-/**
- * Validate exclusion keywords array
- */
-export function validateExclusionKeywords(keywords: string[]): string[] {
-  if (!Array.isArray(keywords)) {
-    console.warn('[EXCLUSION] Invalid keywords array, using comprehensive list');
-    return BUNDLED_EXCLUSION_KEYWORDS;
-  }
-
-  return keywords
-    .filter(keyword => keyword && typeof keyword === 'string' && keyword.trim())
-    .map(keyword => keyword.trim());
+export function getComprehensiveExclusionRules(): ExclusionRule[] {
+  return BUNDLED_EXCLUSION_RULES.map(rule => ({ ...rule }));
 }
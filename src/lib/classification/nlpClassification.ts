@@ -1,6 +1,10 @@
 
-import { ClassificationResult } from '../types';
-import { probablepeople } from './probablepeople';
+import { ClassificationResult, ParsedPerson } from '../types';
+import { parsePersonNameParts, probablepeople } from './probablepeople';
+import { createExplanation } from './pipeline/explanation';
+
+// Cutoff recorded in the explanation of a structured-name verdict
+const NAME_PARTS_CUTOFF = 80;
 
 export async function classifyWithNLP(payeeName: string): Promise<ClassificationResult> {
   try {
@@ -43,5 +47,35 @@ export async function classifyWithNLP(payeeName: string): Promise<Classification
   }
 }
 
+/**
+ * Verdict for a name supplied as tagged parts; null when the parts do not mark a
+ * person, so the name is left to the classifiers
+ */
+export function classifyNameParts(parts: ParsedPerson, payeeName: string): ClassificationResult | null {
+  const parsed = parsePersonNameParts(parts);
+  if (!parsed || parsed.type !== 'Person') return null;
+
+  const confidence = Math.round(parsed.confidence * 100);
+  const tags = Object.keys(parts).filter(tag => parts[tag]).join(', ');
+  const reasoning = `Name supplied as separate parts (${tags}) with no business signal`;
+  return {
+    classification: 'Individual',
+    confidence,
+    reasoning,
+    processingTier: 'NLP-Based',
+    processingMethod: 'structured-name-parts',
+    explanation: createExplanation('structured-name-parts', payeeName, 'accepted', [{
+      stageId: 'name-parts',
+      label: 'Structured name parts',
+      outcome: 'accepted',
+      cutoff: NAME_PARTS_CUTOFF,
+      classification: 'Individual',
+      confidence,
+      processingTier: 'NLP-Based',
+      reasoning
+    }])
+  };
+}
+
 // Export for backward compatibility
 export const applyNLPClassification = classifyWithNLP;
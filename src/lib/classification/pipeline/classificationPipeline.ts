@@ -0,0 +1,154 @@
+import { ClassificationResult, ClassificationConfig } from '../../types';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '../config';
+import { applyCalibration, getActiveCalibration } from '../calibration';
+import { BUILT_IN_STAGES } from './stages';
+import { createExplanation, describeAttempts } from './explanation';
+import { PipelineStage, PipelineOptions, PipelineContext, PipelineAttempt } from './types';
+
+const DEFAULT_FALLBACK: ClassificationResult = {
+  classification: 'Individual',
+  confidence: 50,
+  reasoning: 'Default classification - no specific rules matched',
+  processingTier: 'Rule-Based'
+};
+
+/**
+ * Ordered set of classification stages with declared confidence cutoffs
+ *
+ * Stages run in order until one returns a result whose confidence reaches its
+ * cutoff. Order, cutoffs and enabled stages can be overridden per call through
+ * `ClassificationConfig.pipeline`. Cutoffs compare raw stage scores; the active
+ * confidence calibration is applied to the final result. Every result carries
+ * an `explanation` listing the stages tried and why the run stopped.
+ */
+export class ClassificationPipeline {
+  private stages: PipelineStage[];
+  private options: PipelineOptions;
+
+  constructor(stages: PipelineStage[], options: PipelineOptions) {
+    this.stages = [...stages];
+    this.options = options;
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  getStages(): PipelineStage[] {
+    return [...this.stages];
+  }
+
+  /**
+   * Register a stage, optionally before an existing stage id
+   */
+  register(stage: PipelineStage, beforeStageId?: string): this {
+    this.stages = this.stages.filter(s => s.id !== stage.id);
+    const index = beforeStageId ? this.stages.findIndex(s => s.id === beforeStageId) : -1;
+    if (index === -1) {
+      this.stages.push(stage);
+    } else {
+      this.stages.splice(index, 0, stage);
+    }
+    return this;
+  }
+
+  remove(stageId: string): this {
+    this.stages = this.stages.filter(s => s.id !== stageId);
+    return this;
+  }
+
+  setCutoff(stageId: string, cutoff: number): this {
+    this.stages = this.stages.map(s => (s.id === stageId ? { ...s, cutoff } : s));
+    return this;
+  }
+
+  /**
+   * Resolve the stage list for a config, applying order, disabled and cutoff overrides
+   */
+  resolveStages(config: ClassificationConfig): Array<{ stage: PipelineStage; cutoff: number }> {
+    const overrides = config.pipeline;
+    let ordered = this.stages;
+
+    if (overrides?.stageOrder && overrides.stageOrder.length > 0) {
+      // Ids not registered on this pipeline are looked up among the built-in stages
+      ordered = overrides.stageOrder
+        .map(id => this.stages.find(s => s.id === id) || BUILT_IN_STAGES[id]?.())
+        .filter((s): s is PipelineStage => !!s);
+    }
+
+    const disabled = new Set(overrides?.disabledStages || []);
+
+    return ordered
+      .filter(stage => !disabled.has(stage.id))
+      .map(stage => {
+        const declared = typeof stage.cutoff === 'function' ? stage.cutoff(config) : stage.cutoff;
+        const cutoff = overrides?.cutoffs?.[stage.id] ?? declared;
+        return { stage, cutoff };
+      });
+  }
+
+  async classify(
+    payeeName: string,
+    config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG
+  ): Promise<ClassificationResult> {
+    const { name, trimInput, emptyResult, errorResult, fallback, finalize } = this.options;
+
+    if (!payeeName || payeeName.trim() === '') {
+      console.log(`[PIPELINE:${name}] Empty name provided`);
+      return { ...emptyResult(payeeName), explanation: createExplanation(name, payeeName, 'empty-input') };
+    }
+
+    const input = trimInput ? payeeName.trim() : payeeName;
+    const context: PipelineContext = { payeeName: input, config, attempts: [], state: {} };
+    const resolved = this.resolveStages(config);
+    const explain = (stopReason: 'accepted' | 'fallback' | 'error', detail?: string) => createExplanation(
+      name,
+      input,
+      stopReason,
+      describeAttempts(context.attempts, resolved.map(({ stage }) => stage)),
+      detail
+    );
+    const complete = (result: ClassificationResult, stopReason: 'accepted' | 'fallback') => {
+      const finalized = finalize ? finalize(result, context) : result;
+      const calibration = config.useCalibration === false ? null : getActiveCalibration();
+      const calibrated = calibration ? applyCalibration(finalized, calibration) : finalized;
+      return { ...calibrated, explanation: explain(stopReason) };
+    };
+
+    try {
+      for (const { stage, cutoff } of resolved) {
+        if (stage.isEnabled && !stage.isEnabled(config)) {
+          context.attempts.push({ stageId: stage.id, result: null, cutoff, accepted: false, skipped: true });
+          continue;
+        }
+
+        const attempt: PipelineAttempt = { stageId: stage.id, result: null, cutoff, accepted: false };
+        context.attempts.push(attempt);
+
+        try {
+          attempt.result = await stage.run(context);
+        } catch (error) {
+          if (!stage.optional) throw error;
+          attempt.error = error instanceof Error ? error.message : String(error);
+          console.warn(`[PIPELINE:${name}] Stage ${stage.id} failed, continuing:`, error);
+          continue;
+        }
+
+        if (attempt.result && attempt.result.confidence >= cutoff) {
+          attempt.accepted = true;
+          console.log(`[PIPELINE:${name}] ${stage.label} accepted: ${attempt.result.classification} (${attempt.result.confidence}%)`);
+          return complete(stage.processingTier
+            ? { ...attempt.result, processingTier: stage.processingTier }
+            : attempt.result, 'accepted');
+        }
+      }
+
+      return complete(fallback ? fallback(context) : { ...DEFAULT_FALLBACK }, 'fallback');
+    } catch (error) {
+      if (!errorResult) throw error;
+      console.error(`[PIPELINE:${name}] Error processing "${payeeName}":`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...errorResult(error, payeeName), explanation: explain('error', message) };
+    }
+  }
+}
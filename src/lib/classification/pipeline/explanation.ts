@@ -0,0 +1,101 @@
+import {
+  ClassificationExplanation,
+  ExplanationFeatures,
+  ExplanationStep,
+  ExplanationStopReason
+} from '../../types';
+import { AdvancedPayeeClassifier } from '../advancedPayeeClassifier';
+import { generateFeatureFlags } from '../deterministicFeatures';
+import { normalizePayeeName } from '../deterministicNormalizer';
+import { PipelineAttempt, PipelineStage } from './types';
+
+const advancedClassifier = new AdvancedPayeeClassifier();
+
+function splitFeatures(features: object, values: Record<string, number>, prefix: string): string[] {
+  const fired: string[] = [];
+  for (const [name, value] of Object.entries(features)) {
+    if (value === true) fired.push(name);
+    if (typeof value === 'number') values[`${prefix}${name}`] = value;
+  }
+  return fired;
+}
+
+/**
+ * Features that fired for a name in the deterministic and advanced classifiers
+ */
+export function collectExplanationFeatures(payeeName: string): ExplanationFeatures {
+  const values: Record<string, number> = {};
+  if (!payeeName.trim()) return { deterministic: [], advanced: [], values };
+  return {
+    deterministic: splitFeatures(generateFeatureFlags(normalizePayeeName(payeeName)), values, ''),
+    advanced: splitFeatures(advancedClassifier.getFeatures(payeeName), values, 'advanced.'),
+    values
+  };
+}
+
+/**
+ * Turn the attempts of a pipeline run into explanation steps
+ */
+export function describeAttempts(attempts: PipelineAttempt[], stages: PipelineStage[]): ExplanationStep[] {
+  return attempts.map(attempt => {
+    const step: ExplanationStep = {
+      stageId: attempt.stageId,
+      label: stages.find(stage => stage.id === attempt.stageId)?.label || attempt.stageId,
+      outcome: attempt.skipped ? 'skipped'
+        : attempt.error ? 'error'
+        : attempt.accepted ? 'accepted'
+        : attempt.result ? 'below-cutoff'
+        : 'no-opinion',
+      cutoff: attempt.cutoff
+    };
+    if (attempt.result) {
+      step.classification = attempt.result.classification;
+      step.confidence = attempt.result.confidence;
+      step.processingTier = attempt.result.processingTier;
+      step.reasoning = attempt.result.reasoning;
+      if (attempt.result.matchingRules?.length) step.matchingRules = attempt.result.matchingRules;
+    }
+    if (attempt.error) step.error = attempt.error;
+    return step;
+  });
+}
+
+function summarize(stopReason: ExplanationStopReason, steps: ExplanationStep[], detail?: string): string {
+  const accepted = steps.find(step => step.outcome === 'accepted');
+  switch (stopReason) {
+    case 'accepted':
+      return accepted
+        ? `${accepted.label} returned ${accepted.classification} at ${accepted.confidence}%, reaching its ${accepted.cutoff}% cutoff`
+        : 'A stage reached its cutoff';
+    case 'fallback':
+      return `None of ${steps.length} stages reached its cutoff, so the fallback result was used`;
+    case 'error':
+      return `Stopped by an error${detail ? `: ${detail}` : ''}`;
+    case 'empty-input':
+      return 'The payee name was empty, so no stage ran';
+    case 'manual-override':
+      return 'A reviewer correction was applied instead of running the classifiers';
+  }
+}
+
+/**
+ * Explanation for a result, computing the fired features for the name
+ */
+export function createExplanation(
+  pipeline: string,
+  payeeName: string,
+  stopReason: ExplanationStopReason,
+  steps: ExplanationStep[] = [],
+  detail?: string
+): ClassificationExplanation {
+  const explanation: ClassificationExplanation = {
+    pipeline,
+    steps,
+    features: collectExplanationFeatures(payeeName || ''),
+    stopReason,
+    summary: summarize(stopReason, steps, detail)
+  };
+  const accepted = steps.find(step => step.outcome === 'accepted');
+  if (accepted) explanation.stoppedAt = accepted.stageId;
+  return explanation;
+}
@@ -0,0 +1,6 @@
+// Main export file for the classification pipeline module
+export { ClassificationPipeline } from './classificationPipeline';
+export * from './types';
+export * from './stages';
+export * from './presets';
+export * from './explanation';
@@ -0,0 +1,224 @@
+import { ClassificationResult, ClassificationConfig, KeywordExclusionResult } from '../../types';
+import { ClassificationPipeline } from './classificationPipeline';
+import {
+  KEYWORD_EXCLUSION_STATE_KEY,
+  entityTypeStage,
+  ensembleStage,
+  advancedWeightedStage,
+  worldClassRulesStage,
+  keywordExclusionStage,
+  exclusionProfileStage,
+  enhancedKeywordExclusionStage,
+  ruleBasedStage,
+  nlpStage,
+  aiHeuristicStage,
+  fuzzyMatchStage,
+  extendedBusinessRulesStage,
+  extendedIndividualRulesStage,
+  offlineStructureStage,
+  allCapsStage,
+  deterministicStage,
+  ruleOnlyStage,
+  basicHeuristicStage
+} from './stages';
+import { deterministicClassifyPayee } from '../deterministicClassifier';
+import { addReferenceResult } from '../referenceIndex';
+
+export type PipelinePresetName = 'v1' | 'v2' | 'v3' | 'v4' | 'deterministic' | 'ensemble' | 'rule-only';
+
+const invalidNameResult = (): ClassificationResult => ({
+  classification: 'Individual',
+  confidence: 0,
+  reasoning: "Invalid or empty payee name",
+  processingTier: 'Rule-Based'
+});
+
+/**
+ * Stages shared by the V1 and V2 engines after their exclusion step
+ */
+function tieredRuleStages() {
+  const belowAIThreshold = (config: ClassificationConfig) => config.aiThreshold;
+  const ruleNLPEnabled = (config: ClassificationConfig) => !config.bypassRuleNLP;
+
+  return [
+    entityTypeStage(),
+    extendedBusinessRulesStage(99),
+    extendedIndividualRulesStage(97),
+    offlineStructureStage(),
+    ruleBasedStage({ cutoff: belowAIThreshold, isEnabled: ruleNLPEnabled }),
+    nlpStage({ cutoff: belowAIThreshold, isEnabled: ruleNLPEnabled }),
+    aiHeuristicStage(),
+    basicHeuristicStage()
+  ];
+}
+
+/**
+ * V1: entity type and extended rules, then rule/NLP tiers gated by `aiThreshold`, then the AI heuristic
+ */
+export function createV1Pipeline(): ClassificationPipeline {
+  return new ClassificationPipeline(tieredRuleStages(), {
+    name: 'V1',
+    emptyResult: invalidNameResult
+  });
+}
+
+/**
+ * V2: V1 with the user-managed keyword exclusion list checked first
+ */
+export function createV2Pipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([enhancedKeywordExclusionStage(), ...tieredRuleStages()], {
+    name: 'V2',
+    emptyResult: invalidNameResult,
+    finalize: (result, { state }) => ({
+      ...result,
+      keywordExclusion: result.keywordExclusion ||
+        (state[KEYWORD_EXCLUSION_STATE_KEY] as KeywordExclusionResult | undefined)
+    })
+  });
+}
+
+/**
+ * V3: entity type detection, ensemble and weighted classifiers first, falling through to rules and heuristics.
+ * A run's exclusion profile is checked first and replaces the bundled keyword list.
+ * With fuzzy matching on, confident results label the reference index, and later look-alike names
+ * take the label of their nearest reference before the classifiers run.
+ */
+export function createV3Pipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([
+    exclusionProfileStage(),
+    entityTypeStage(),
+    // Labeled look-alikes go ahead of the classifiers below, which accept nearly every name
+    fuzzyMatchStage(),
+    ensembleStage({ isEnabled: config => !config.offlineMode || config.aiThreshold < 90 }),
+    advancedWeightedStage(),
+    worldClassRulesStage(),
+    keywordExclusionStage({ isEnabled: config => !config.exclusionProfile }),
+    ruleBasedStage(),
+    nlpStage(),
+    extendedBusinessRulesStage(),
+    extendedIndividualRulesStage(),
+    allCapsStage()
+  ], {
+    name: 'V3',
+    emptyResult: () => ({
+      classification: 'Individual',
+      confidence: 0,
+      reasoning: 'Empty payee name provided',
+      processingTier: 'Failed'
+    }),
+    errorResult: error => ({
+      classification: 'Individual',
+      confidence: 30,
+      reasoning: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      processingTier: 'Failed'
+    }),
+    finalize: (result, { payeeName, config }) => {
+      if (config.useFuzzyMatching) {
+        addReferenceResult(payeeName, result);
+      }
+      return result;
+    }
+  });
+}
+
+/**
+ * V4: entity type detection, then the deterministic classifier, rules as backup, deterministic result as fallback
+ */
+export function createV4Pipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([
+    exclusionProfileStage(),
+    entityTypeStage(),
+    deterministicStage({ cutoff: 80, processingTier: 'Deterministic-Primary' }),
+    worldClassRulesStage({ cutoff: 80, processingTier: 'Rule-Based-Backup' }),
+    ruleBasedStage({ cutoff: 70, processingTier: 'Rule-Based-Final' })
+  ], {
+    name: 'V4',
+    trimInput: true,
+    emptyResult: () => ({
+      classification: 'Individual',
+      confidence: 0,
+      reasoning: 'Empty or invalid payee name',
+      processingTier: 'Rule-Based',
+      processingMethod: 'Input validation'
+    }),
+    fallback: ({ payeeName, attempts }) => {
+      const deterministicResult = attempts.find(a => a.stageId === 'deterministic')?.result ||
+        deterministicClassifyPayee(payeeName);
+      return {
+        ...deterministicResult,
+        processingTier: 'Deterministic-Fallback',
+        reasoning: `${deterministicResult.reasoning} (Lower confidence fallback)`
+      };
+    },
+    errorResult: () => ({
+      classification: 'Business',
+      confidence: 75,
+      reasoning: 'Error occurred, defaulting to business classification',
+      processingTier: 'Error-Fallback',
+      processingMethod: 'Exception handling'
+    })
+  });
+}
+
+export function createDeterministicPipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([exclusionProfileStage(), deterministicStage()], {
+    name: 'Deterministic',
+    emptyResult: payeeName => deterministicClassifyPayee(payeeName)
+  });
+}
+
+export function createEnsemblePipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([exclusionProfileStage(), ensembleStage({ cutoff: 0, optional: false })], {
+    name: 'Ensemble',
+    emptyResult: invalidNameResult
+  });
+}
+
+export function createRuleOnlyPipeline(): ClassificationPipeline {
+  return new ClassificationPipeline([exclusionProfileStage(), ruleOnlyStage()], {
+    name: 'Rule-only',
+    emptyResult: invalidNameResult
+  });
+}
+
+/**
+ * Named presets reproducing the historical engine versions
+ */
+export const PIPELINE_PRESETS: Record<PipelinePresetName, () => ClassificationPipeline> = {
+  v1: createV1Pipeline,
+  v2: createV2Pipeline,
+  v3: createV3Pipeline,
+  v4: createV4Pipeline,
+  deterministic: createDeterministicPipeline,
+  ensemble: createEnsemblePipeline,
+  'rule-only': createRuleOnlyPipeline
+};
+
+const presetCache = new Map<PipelinePresetName, ClassificationPipeline>();
+
+/**
+ * Get the shared pipeline instance for a preset
+ */
+export function getPipelinePreset(preset: PipelinePresetName): ClassificationPipeline {
+  let pipeline = presetCache.get(preset);
+  if (!pipeline) {
+    const factory = PIPELINE_PRESETS[preset];
+    if (!factory) {
+      throw new Error(`Unknown classification pipeline preset: ${preset}`);
+    }
+    pipeline = factory();
+    presetCache.set(preset, pipeline);
+  }
+  return pipeline;
+}
+
+/**
+ * Classify with the preset named in `config.pipeline.preset` (V3 by default)
+ */
+export function classifyWithPipeline(
+  payeeName: string,
+  config: ClassificationConfig
+): Promise<ClassificationResult> {
+  const preset = (config.pipeline?.preset || 'v3') as PipelinePresetName;
+  return getPipelinePreset(preset).classify(payeeName, config);
+}
@@ -0,0 +1,361 @@
+import { ClassificationResult, KeywordExclusionResult } from '../../types';
+import { PipelineStage } from './types';
+import { applyRuleBasedClassification } from '../ruleBasedClassification';
+import { classifyWithNLP } from '../nlpClassification';
+import { applyAIClassification } from '../aiClassification';
+import { checkKeywordExclusion } from '../keywordExclusion';
+import { checkKeywordExclusion as checkEnhancedKeywordExclusion } from '../enhancedKeywordExclusion';
+import { EXCLUSION_PROFILE_STAGE_ID, getExclusionMatcher } from '../exclusion';
+import { detectBusinessByExtendedRules, detectIndividualByExtendedRules } from '../enhancedRules';
+import { worldClassClassification } from '../worldClassRules';
+import { advancedClassifyPayee } from '../advancedPayeeClassifier';
+import { ensembleClassifyPayee } from '../ensembleClassifier';
+import { classifyWithLocalLLM } from '../localLLMClassifier';
+import { deterministicClassifyPayee } from '../deterministicClassifier';
+import { enhancedRuleOnlyClassification } from '../enhancedRuleOnlyClassification';
+import { detectEntityType, createEntityTypeResult } from '../entityTypeDetection';
+import { findNearestReference, createReferenceMatchResult, toPercentThreshold } from '../referenceIndex';
+
+type StageOverrides = Partial<PipelineStage>;
+
+/**
+ * State key under which keyword exclusion stages record their verdict
+ */
+export const KEYWORD_EXCLUSION_STATE_KEY = 'keywordExclusion';
+
+/**
+ * Government, trust/estate and non-profit detection
+ */
+export function entityTypeStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'entity-type',
+    label: 'Entity type detection',
+    cutoff: 0,
+    run: ({ payeeName }) => {
+      const match = detectEntityType(payeeName);
+      return match ? createEntityTypeResult(match) : null;
+    },
+    ...overrides
+  };
+}
+
+export function ensembleStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'ensemble',
+    label: 'Ensemble classification',
+    cutoff: 70,
+    optional: true,
+    run: ({ payeeName }) => ensembleClassifyPayee(payeeName),
+    ...overrides
+  };
+}
+
+export function advancedWeightedStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'advanced-weighted',
+    label: 'Advanced weighted classifier',
+    cutoff: 70,
+    run: ({ payeeName }) => advancedClassifyPayee(payeeName),
+    ...overrides
+  };
+}
+
+export function worldClassRulesStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'world-class-rules',
+    label: 'World-class rules',
+    cutoff: 80,
+    run: ({ payeeName }) => worldClassClassification(payeeName),
+    ...overrides
+  };
+}
+
+/**
+ * Bundled keyword list exclusion, or the run's exclusion profile; excluded names stop the pipeline
+ */
+export function keywordExclusionStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'keyword-exclusion',
+    label: 'Keyword exclusion',
+    cutoff: 0,
+    run: ({ payeeName, config, state }) => {
+      const exclusionResult = checkKeywordExclusion(payeeName, config.exclusionProfile?.rules);
+      if (!exclusionResult.isExcluded) return null;
+
+      const reasoning = `Excluded due to keyword matches: ${exclusionResult.matchedKeywords.join(', ')}`;
+      const keywordExclusion: KeywordExclusionResult = {
+        isExcluded: exclusionResult.isExcluded,
+        matchedKeywords: exclusionResult.matchedKeywords,
+        confidence: 100,
+        reasoning
+      };
+      state[KEYWORD_EXCLUSION_STATE_KEY] = keywordExclusion;
+
+      return {
+        classification: 'Individual',
+        confidence: 0,
+        reasoning,
+        processingTier: 'Excluded',
+        keywordExclusion
+      };
+    },
+    ...overrides
+  };
+}
+
+/**
+ * The run's exclusion profile, checked before any classifier so a profile keyword always wins
+ */
+export function exclusionProfileStage(overrides: StageOverrides = {}): PipelineStage {
+  return keywordExclusionStage({
+    id: EXCLUSION_PROFILE_STAGE_ID,
+    label: 'Exclusion profile',
+    isEnabled: config => !!config.exclusionProfile,
+    ...overrides
+  });
+}
+
+/**
+ * User-managed keyword list exclusion with fuzzy matching, from the run's profile or the active one
+ */
+export function enhancedKeywordExclusionStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'enhanced-keyword-exclusion',
+    label: 'Enhanced keyword exclusion',
+    cutoff: 0,
+    run: ({ payeeName, config, state }) => {
+      const exclusionResult = checkEnhancedKeywordExclusion(
+        payeeName,
+        config.exclusionProfile && getExclusionMatcher(config.exclusionProfile.rules)
+      );
+      state[KEYWORD_EXCLUSION_STATE_KEY] = exclusionResult;
+      if (!exclusionResult.isExcluded) return null;
+
+      return {
+        classification: 'Individual',
+        confidence: 95,
+        reasoning: `Excluded by keyword filter: ${exclusionResult.matchedKeywords?.join(", ")}`,
+        processingTier: 'Excluded',
+        keywordExclusion: exclusionResult
+      };
+    },
+    ...overrides
+  };
+}
+
+export function ruleBasedStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'rule-based',
+    label: 'Rule-based classification',
+    cutoff: 0,
+    run: ({ payeeName }) => applyRuleBasedClassification(payeeName),
+    ...overrides
+  };
+}
+
+export function nlpStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'nlp',
+    label: 'NLP classification',
+    cutoff: 0,
+    isEnabled: config => !config.bypassRuleNLP,
+    run: ({ payeeName }) => classifyWithNLP(payeeName),
+    ...overrides
+  };
+}
+
+export function aiHeuristicStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'ai-heuristic',
+    label: 'AI-assisted heuristic',
+    cutoff: 0,
+    optional: true,
+    run: ({ payeeName }) => applyAIClassification(payeeName),
+    ...overrides
+  };
+}
+
+export function llmStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'llm',
+    label: 'Local LLM classification',
+    cutoff: config => config.llmConfidenceThreshold ?? 70,
+    optional: true,
+    isEnabled: config => config.useLLMClassification !== false && !config.offlineMode,
+    run: ({ payeeName }) => classifyWithLocalLLM(payeeName),
+    ...overrides
+  };
+}
+
+/**
+ * Label of the most similar previously classified or reviewed name
+ */
+export function fuzzyMatchStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'fuzzy',
+    label: 'Fuzzy matching',
+    cutoff: 0,
+    isEnabled: config => !!config.useFuzzyMatching,
+    run: ({ payeeName, config }) => {
+      const match = findNearestReference(payeeName, toPercentThreshold(config.similarityThreshold));
+      return match ? createReferenceMatchResult(match) : null;
+    },
+    ...overrides
+  };
+}
+
+export function extendedBusinessRulesStage(
+  confidence = 65,
+  overrides: StageOverrides = {}
+): PipelineStage {
+  return {
+    id: 'extended-business-rules',
+    label: 'Extended business rules',
+    cutoff: 0,
+    run: ({ payeeName }) => {
+      const businessRulesResult = detectBusinessByExtendedRules(payeeName);
+      if (!businessRulesResult.isMatch) return null;
+      return {
+        classification: 'Business',
+        confidence,
+        reasoning: `Detected as business by extended rules: ${businessRulesResult.rules.join(', ')}`,
+        processingTier: 'Rule-Based',
+        matchingRules: businessRulesResult.rules
+      };
+    },
+    ...overrides
+  };
+}
+
+export function extendedIndividualRulesStage(
+  confidence = 65,
+  overrides: StageOverrides = {}
+): PipelineStage {
+  return {
+    id: 'extended-individual-rules',
+    label: 'Extended individual rules',
+    cutoff: 0,
+    run: ({ payeeName }) => {
+      const individualRulesResult = detectIndividualByExtendedRules(payeeName);
+      if (!individualRulesResult.isMatch) return null;
+      return {
+        classification: 'Individual',
+        confidence,
+        reasoning: `Detected as individual by extended rules: ${individualRulesResult.rules.join(', ')}`,
+        processingTier: 'Rule-Based',
+        matchingRules: individualRulesResult.rules
+      };
+    },
+    ...overrides
+  };
+}
+
+/**
+ * Name-structure guess used when running fully offline
+ */
+export function offlineStructureStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'offline-structure',
+    label: 'Offline structural heuristic',
+    cutoff: 0,
+    isEnabled: config => !!config.offlineMode,
+    run: ({ payeeName }) => {
+      const isLikelyBusiness = payeeName.split(' ').length > 2 ||
+                              /\d/.test(payeeName) ||
+                              payeeName.length > 25;
+      return {
+        classification: isLikelyBusiness ? 'Business' : 'Individual',
+        confidence: 65,
+        reasoning: `Offline classification based on name structure and patterns.`,
+        processingTier: 'Rule-Based'
+      };
+    },
+    ...overrides
+  };
+}
+
+export function allCapsStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'all-caps',
+    label: 'All-caps heuristic',
+    cutoff: 0,
+    run: ({ payeeName }) => {
+      if (payeeName.length > 3 && payeeName === payeeName.toUpperCase() && !/[a-z]/.test(payeeName)) {
+        return {
+          classification: 'Business',
+          confidence: 55,
+          reasoning: 'All caps name detected (typical of businesses)',
+          processingTier: 'Rule-Based'
+        };
+      }
+      return null;
+    },
+    ...overrides
+  };
+}
+
+export function deterministicStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'deterministic',
+    label: 'Deterministic classifier',
+    cutoff: 0,
+    run: ({ payeeName }) => deterministicClassifyPayee(payeeName),
+    ...overrides
+  };
+}
+
+/**
+ * World-class rules with extra heuristics for weak verdicts, without AI or ensemble classifiers
+ */
+export function ruleOnlyStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'rule-only',
+    label: 'Rule-only classifier',
+    cutoff: 0,
+    run: ({ payeeName }) => enhancedRuleOnlyClassification(payeeName),
+    ...overrides
+  };
+}
+
+/**
+ * Word-count guess used when every other stage failed
+ */
+export function basicHeuristicStage(overrides: StageOverrides = {}): PipelineStage {
+  return {
+    id: 'basic-heuristic',
+    label: 'Basic fallback heuristic',
+    cutoff: 0,
+    run: ({ payeeName }): ClassificationResult => ({
+      classification: payeeName.split(/\s+/).length <= 2 ? 'Individual' : 'Business',
+      confidence: 51,
+      reasoning: "Classification based on fallback heuristics due to service errors",
+      processingTier: 'Rule-Based'
+    }),
+    ...overrides
+  };
+}
+
+/**
+ * Built-in stages by id, available to `ClassificationConfig.pipeline.stageOrder`
+ */
+export const BUILT_IN_STAGES: Record<string, () => PipelineStage> = {
+  'entity-type': () => entityTypeStage(),
+  'ensemble': () => ensembleStage(),
+  'advanced-weighted': () => advancedWeightedStage(),
+  'world-class-rules': () => worldClassRulesStage(),
+  'keyword-exclusion': () => keywordExclusionStage(),
+  [EXCLUSION_PROFILE_STAGE_ID]: () => exclusionProfileStage(),
+  'enhanced-keyword-exclusion': () => enhancedKeywordExclusionStage(),
+  'rule-based': () => ruleBasedStage(),
+  'nlp': () => nlpStage(),
+  'ai-heuristic': () => aiHeuristicStage(),
+  'llm': () => llmStage(),
+  'fuzzy': () => fuzzyMatchStage(),
+  'extended-business-rules': () => extendedBusinessRulesStage(),
+  'extended-individual-rules': () => extendedIndividualRulesStage(),
+  'offline-structure': () => offlineStructureStage(),
+  'all-caps': () => allCapsStage(),
+  'deterministic': () => deterministicStage(),
+  'rule-only': () => ruleOnlyStage(),
+  'basic-heuristic': () => basicHeuristicStage()
+};
@@ -0,0 +1,50 @@
+import { ClassificationResult, ClassificationConfig } from '../../types';
+
+export type ProcessingTier = ClassificationResult['processingTier'];
+
+/**
+ * Per-name state shared by every stage of a single pipeline run
+ */
+export interface PipelineContext {
+  payeeName: string;
+  config: ClassificationConfig;
+  attempts: PipelineAttempt[];
+  state: Record<string, unknown>;
+}
+
+/**
+ * Record of one stage that was tried for a name
+ */
+export interface PipelineAttempt {
+  stageId: string;
+  result: ClassificationResult | null;
+  cutoff: number;
+  accepted: boolean;
+  skipped?: boolean;
+  error?: string;
+}
+
+/**
+ * A registered classification tier
+ *
+ * `run` returns null when the stage has no opinion. A non-null result is
+ * accepted when its confidence reaches the stage cutoff.
+ */
+export interface PipelineStage {
+  id: string;
+  label: string;
+  cutoff: number | ((config: ClassificationConfig) => number);
+  processingTier?: ProcessingTier; // Relabel accepted results with this tier
+  optional?: boolean; // Errors are logged and the next stage runs
+  isEnabled?: (config: ClassificationConfig) => boolean;
+  run: (context: PipelineContext) => Promise<ClassificationResult | null> | ClassificationResult | null;
+}
+
+export interface PipelineOptions {
+  name: string;
+  trimInput?: boolean;
+  emptyResult: (payeeName: string) => ClassificationResult;
+  errorResult?: (error: unknown, payeeName: string) => ClassificationResult; // Errors propagate when omitted
+  fallback?: (context: PipelineContext) => ClassificationResult;
+  finalize?: (result: ClassificationResult, context: PipelineContext) => ClassificationResult;
+}
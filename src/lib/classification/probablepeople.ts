@@ -1,4 +1,6 @@
 
+import { ParsedPerson } from '../types';
+
 // Enhanced probablepeople-like functionality with better business detection
 export interface NameParsing {
   type: 'Person' | 'Corporation';
@@ -122,6 +124,24 @@ export function parsePersonName(name: string): NameParsing {
   };
 }
 
+/**
+ * Parse a name that arrived already split into tagged parts, e.g. from First and
+ * Last columns. The split marks a person unless the joined name reads as a business.
+ */
+export function parsePersonNameParts(parts: ParsedPerson): NameParsing | null {
+  const name = [parts.GivenName, parts.MiddleName, parts.Surname, parts.SuffixGenerational].filter(Boolean).join(' ');
+  if (!name) return null;
+
+  const parsed = parsePersonName(name);
+  if (parsed.type === 'Corporation' && parsed.confidence >= 0.85) {
+    return parsed;
+  }
+  return {
+    type: 'Person',
+    confidence: parts.GivenName && parts.Surname ? 0.92 : 0.80
+  };
+}
+
 // Export the main function that other files expect
 export const probablepeople = {
   tag: parsePersonName
@@ -0,0 +1,251 @@
+import { ClassificationResult, EntityClassification, SimilarityScores } from '../types';
+import { logger } from '../logger';
+import { NAME_SIMILARITY_THRESHOLD } from './config';
+import { normalizeText } from './enhancedRules';
+import { calculateCombinedSimilarity } from './stringMatching';
+import { loadCorrections } from './review/correctionsStore';
+
+export const REFERENCE_INDEX_STORAGE_KEY = 'payeeReferenceIndex';
+
+// Unlabeled name list written by the old fuzzy tier; dropped on first load
+const LEGACY_NAMES_STORAGE_KEY = 'payeeNames';
+
+// Oldest result entries are dropped beyond this size
+export const MAX_REFERENCE_ENTRIES = 5000;
+
+// Results below this confidence are not trusted as labels
+export const MIN_REFERENCE_CONFIDENCE = 80;
+
+// Confidence a reviewer correction lends before similarity scaling
+const CORRECTION_REFERENCE_CONFIDENCE = 95;
+
+export const REFERENCE_MATCH_METHOD = 'Reference index match';
+
+const UNLABELED_TIERS: ClassificationResult['processingTier'][] = [
+  'Excluded', 'Failed', 'Error-Fallback', 'Deterministic-Fallback'
+];
+
+export interface ReferenceEntry {
+  normalizedName: string;
+  payeeName: string;
+  classification: EntityClassification;
+  confidence: number;
+  source: 'result' | 'correction';
+  updatedAt: string;
+}
+
+export interface ReferenceMatch {
+  entry: ReferenceEntry;
+  similarity: SimilarityScores;
+}
+
+// Result entries in insertion order, so the oldest are evicted first
+let entries: Map<string, ReferenceEntry> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+export const normalizeReferenceName = (payeeName: string): string =>
+  normalizeText(payeeName || '').replace(/[^A-Z0-9& ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+function persist(): void {
+  if (!hasLocalStorage() || !entries) return;
+  try {
+    localStorage.setItem(REFERENCE_INDEX_STORAGE_KEY, JSON.stringify(Array.from(entries.values())));
+  } catch (error) {
+    logger.error('[REFERENCE INDEX] Failed to save reference index:', error);
+  }
+}
+
+// Batches add thousands of names; write them out once the run goes quiet
+function schedulePersist(): void {
+  if (!hasLocalStorage() || persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    persist();
+  }, 1000);
+}
+
+/**
+ * Write pending reference entries to storage immediately
+ */
+export function flushReferenceIndex(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  persist();
+}
+
+function getStore(): Map<string, ReferenceEntry> {
+  if (entries) return entries;
+  entries = new Map();
+  if (!hasLocalStorage()) return entries;
+
+  try {
+    const stored = localStorage.getItem(REFERENCE_INDEX_STORAGE_KEY);
+    const list: ReferenceEntry[] = stored ? JSON.parse(stored) : [];
+    for (const entry of Array.isArray(list) ? list : []) {
+      if (entry?.normalizedName && entry.classification) {
+        entries.set(entry.normalizedName, entry);
+      }
+    }
+    localStorage.removeItem(LEGACY_NAMES_STORAGE_KEY);
+    logger.info(`[REFERENCE INDEX] Loaded ${entries.size} labeled reference names`);
+  } catch (error) {
+    logger.error('[REFERENCE INDEX] Failed to load reference index:', error);
+  }
+  return entries;
+}
+
+/**
+ * Whether a result is trustworthy enough to label future look-alike names
+ */
+export function isReferenceCandidate(result: ClassificationResult): boolean {
+  return result.confidence >= MIN_REFERENCE_CONFIDENCE &&
+    !UNLABELED_TIERS.includes(result.processingTier) &&
+    result.processingMethod !== REFERENCE_MATCH_METHOD;
+}
+
+/**
+ * Remember the label of a classified name. Returns false when the result was not recorded.
+ */
+export function addReferenceResult(payeeName: string, result: ClassificationResult): boolean {
+  const normalizedName = normalizeReferenceName(payeeName);
+  if (!normalizedName || !isReferenceCandidate(result)) return false;
+
+  const store = getStore();
+  store.delete(normalizedName);
+  store.set(normalizedName, {
+    normalizedName,
+    payeeName,
+    classification: result.classification,
+    confidence: Math.round(result.rawConfidence ?? result.confidence),
+    source: 'result',
+    updatedAt: new Date().toISOString()
+  });
+
+  while (store.size > MAX_REFERENCE_ENTRIES) {
+    store.delete(store.keys().next().value);
+  }
+  schedulePersist();
+  return true;
+}
+
+/**
+ * Record every usable result of a batch run
+ */
+export function addReferenceResults(results: Array<{ payeeName: string; result: ClassificationResult }>): number {
+  let added = 0;
+  for (const { payeeName, result } of results) {
+    if (addReferenceResult(payeeName, result)) added++;
+  }
+  return added;
+}
+
+/**
+ * Use entries for this process without persisting them (Web Workers)
+ */
+export function setReferenceEntries(list: ReferenceEntry[]): void {
+  entries = new Map(list.map(entry => [entry.normalizedName, entry]));
+}
+
+/**
+ * Result entries plus reviewer corrections; a correction replaces a result for the same name
+ */
+export function getReferenceEntries(): ReferenceEntry[] {
+  const merged = new Map(getStore());
+  for (const correction of loadCorrections()) {
+    const normalizedName = normalizeReferenceName(correction.payeeName);
+    if (!normalizedName) continue;
+    merged.set(normalizedName, {
+      normalizedName,
+      payeeName: correction.payeeName,
+      classification: correction.classification,
+      confidence: CORRECTION_REFERENCE_CONFIDENCE,
+      source: 'correction',
+      updatedAt: correction.createdAt
+    });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Accept thresholds on either the 0-1 or the 0-100 scale
+ */
+export function toPercentThreshold(threshold?: number): number {
+  if (!threshold || threshold <= 0) return NAME_SIMILARITY_THRESHOLD;
+  return threshold <= 1 ? threshold * 100 : threshold;
+}
+
+// Cheap filter so only names that could plausibly reach the threshold are scored
+function isPlausibleNeighbor(target: string, targetTokens: Set<string>, candidate: string): boolean {
+  const lengthRatio = Math.min(target.length, candidate.length) / Math.max(target.length, candidate.length);
+  if (lengthRatio < 0.5) return false;
+  if (target.slice(0, 3) === candidate.slice(0, 3)) return true;
+  return candidate.split(' ').some(token => token.length >= 3 && targetTokens.has(token));
+}
+
+/**
+ * Most similar labeled name at or above the threshold (combined score, 0-100)
+ */
+export function findNearestReference(
+  payeeName: string,
+  threshold: number = NAME_SIMILARITY_THRESHOLD
+): ReferenceMatch | null {
+  const target = normalizeReferenceName(payeeName);
+  if (!target) return null;
+
+  const targetTokens = new Set(target.split(' '));
+  let best: ReferenceMatch | null = null;
+
+  for (const entry of getReferenceEntries()) {
+    if (!isPlausibleNeighbor(target, targetTokens, entry.normalizedName)) continue;
+
+    const similarity = calculateCombinedSimilarity(target, entry.normalizedName);
+    if (similarity.combined < threshold) continue;
+
+    const isBetter = !best ||
+      similarity.combined > best.similarity.combined ||
+      (similarity.combined === best.similarity.combined && entry.source === 'correction');
+    if (isBetter) {
+      best = { entry, similarity };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Classification borrowed from the nearest labeled name, with confidence scaled by similarity
+ */
+export function createReferenceMatchResult(match: ReferenceMatch): ClassificationResult {
+  const { entry, similarity } = match;
+  const similarityPercent = Math.round(similarity.combined);
+
+  return {
+    classification: entry.classification,
+    confidence: Math.round(entry.confidence * similarity.combined / 100),
+    reasoning: `Similar to previously ${entry.source === 'correction' ? 'reviewed' : 'classified'} payee "${entry.payeeName}" ` +
+      `(${entry.classification}, ${similarityPercent}% similar)`,
+    processingTier: 'Rule-Based',
+    processingMethod: REFERENCE_MATCH_METHOD,
+    matchingRules: [`Reference match: ${entry.payeeName}`],
+    similarityScores: similarity
+  };
+}
+
+export function getReferenceIndexSize(): number {
+  return getStore().size;
+}
+
+export function clearReferenceIndex(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  entries = new Map();
+  if (hasLocalStorage()) {
+    localStorage.removeItem(REFERENCE_INDEX_STORAGE_KEY);
+  }
+}
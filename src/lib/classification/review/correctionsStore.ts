@@ -0,0 +1,130 @@
+import { ClassificationResult, EntityClassification } from '../../types';
+import { logger } from '../../logger';
+import { normalizePayeeName } from '../nameProcessing';
+import { createExplanation } from '../pipeline/explanation';
+import { ManualCorrection } from './types';
+
+export const CORRECTIONS_STORAGE_KEY = 'payeeCorrections';
+
+// In-memory copy so batch processors do not re-read localStorage per name
+let corrections: Map<string, ManualCorrection> | null = null;
+
+const hasLocalStorage = () => typeof localStorage !== 'undefined';
+
+function persist(): void {
+  if (!hasLocalStorage() || !corrections) return;
+  try {
+    localStorage.setItem(CORRECTIONS_STORAGE_KEY, JSON.stringify(Array.from(corrections.values())));
+  } catch (error) {
+    logger.error('[CORRECTIONS] Failed to save corrections:', error);
+  }
+}
+
+function getStore(): Map<string, ManualCorrection> {
+  if (corrections) return corrections;
+  corrections = new Map();
+  if (!hasLocalStorage()) return corrections;
+
+  try {
+    const stored = localStorage.getItem(CORRECTIONS_STORAGE_KEY);
+    const list: ManualCorrection[] = stored ? JSON.parse(stored) : [];
+    for (const correction of list) {
+      if (correction?.normalizedName && correction.classification) {
+        corrections.set(correction.normalizedName, correction);
+      }
+    }
+    logger.info(`[CORRECTIONS] Loaded ${corrections.size} manual corrections`);
+  } catch (error) {
+    logger.error('[CORRECTIONS] Failed to load corrections:', error);
+  }
+  return corrections;
+}
+
+/**
+ * Use corrections for this process without persisting them (Web Workers)
+ */
+export function setCorrections(list: ManualCorrection[]): void {
+  corrections = new Map(list.map(correction => [correction.normalizedName, correction]));
+}
+
+/**
+ * All stored corrections, newest first
+ */
+export function loadCorrections(): ManualCorrection[] {
+  return Array.from(getStore().values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getCorrection(payeeName: string): ManualCorrection | undefined {
+  const normalizedName = normalizePayeeName(payeeName);
+  return normalizedName ? getStore().get(normalizedName) : undefined;
+}
+
+/**
+ * Record a reviewer decision for a payee name (replaces any earlier one)
+ */
+export function saveCorrection(
+  payeeName: string,
+  classification: EntityClassification,
+  details: { note?: string; original?: ClassificationResult } = {}
+): ManualCorrection {
+  const normalizedName = normalizePayeeName(payeeName);
+  if (!normalizedName) {
+    throw new Error('Cannot store a correction for an empty payee name');
+  }
+
+  const correction: ManualCorrection = {
+    normalizedName,
+    payeeName,
+    classification,
+    action: details.original && details.original.classification !== classification ? 'flipped' : 'confirmed',
+    originalClassification: details.original?.classification,
+    originalConfidence: details.original?.rawConfidence ?? details.original?.confidence,
+    note: details.note?.trim() || undefined,
+    createdAt: new Date().toISOString()
+  };
+
+  getStore().set(normalizedName, correction);
+  persist();
+  logger.info(`[CORRECTIONS] ${correction.action} "${payeeName}" as ${classification}`);
+  return correction;
+}
+
+export function removeCorrection(payeeName: string): void {
+  if (getStore().delete(normalizePayeeName(payeeName))) {
+    persist();
+  }
+}
+
+export function clearCorrections(): void {
+  corrections = new Map();
+  if (hasLocalStorage()) {
+    localStorage.removeItem(CORRECTIONS_STORAGE_KEY);
+  }
+}
+
+/**
+ * Build the result a reviewer decision produces
+ */
+export function createManualOverrideResult(correction: ManualCorrection): ClassificationResult {
+  const decision = correction.action === 'flipped'
+    ? `changed from ${correction.originalClassification} to ${correction.classification}`
+    : `confirmed as ${correction.classification}`;
+
+  return {
+    classification: correction.classification,
+    confidence: 100,
+    reasoning: `Manual override: ${decision}${correction.note ? ` (${correction.note})` : ''}`,
+    processingTier: 'Manual-Override',
+    processingMethod: 'Reviewer correction',
+    explanation: createExplanation('review', correction.payeeName, 'manual-override')
+  };
+}
+
+/**
+ * Result from the corrections store, or null when the name has not been reviewed.
+ * Batch processors call this before any classification tier runs.
+ */
+export function getManualOverride(payeeName: string): ClassificationResult | null {
+  const correction = getCorrection(payeeName);
+  return correction ? createManualOverrideResult(correction) : null;
+}
@@ -0,0 +1,4 @@
+// Main export file for the human review module
+export * from './types';
+export * from './correctionsStore';
+export * from './reviewQueue';
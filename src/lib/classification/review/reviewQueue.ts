@@ -0,0 +1,62 @@
+import { EntityClassification, PayeeClassification } from '../../types';
+import { normalizePayeeName } from '../nameProcessing';
+import { createManualOverrideResult, getCorrection } from './correctionsStore';
+import { ManualCorrection, ReviewItem, ReviewQueueOptions, ReviewReason } from './types';
+
+const FALLBACK_TIERS = new Set(['Failed', 'Error-Fallback', 'Deterministic-Fallback']);
+
+/**
+ * Collect low-confidence, fallback and conflicting results for human review, lowest confidence first
+ */
+export function buildReviewQueue(results: PayeeClassification[], options: ReviewQueueOptions = {}): ReviewItem[] {
+  const threshold = options.confidenceThreshold ?? 70;
+
+  // Labels given to each normalized name across the batch
+  const labelsByName = new Map<string, Set<EntityClassification>>();
+  for (const item of results) {
+    if (!item?.result) continue;
+    const key = normalizePayeeName(item.payeeName);
+    const labels = labelsByName.get(key) || new Set<EntityClassification>();
+    labels.add(item.result.classification);
+    labelsByName.set(key, labels);
+  }
+
+  const queue: ReviewItem[] = [];
+  for (const item of results) {
+    if (!item?.result || item.result.processingTier === 'Manual-Override' || item.result.processingTier === 'Excluded') continue;
+
+    const correction = getCorrection(item.payeeName);
+    if (correction && !options.includeReviewed) continue;
+
+    const reasons: ReviewReason[] = [];
+    if (item.result.confidence < threshold) reasons.push('low-confidence');
+    if (FALLBACK_TIERS.has(item.result.processingTier)) reasons.push('fallback');
+
+    const labels = labelsByName.get(normalizePayeeName(item.payeeName));
+    const conflictingClassifications = labels && labels.size > 1
+      ? Array.from(labels).filter(label => label !== item.result.classification)
+      : undefined;
+    if (conflictingClassifications) reasons.push('conflicting');
+
+    if (reasons.length > 0) {
+      queue.push({ result: item, reasons, conflictingClassifications, correction });
+    }
+  }
+
+  return queue.sort((a, b) => a.result.result.confidence - b.result.result.confidence);
+}
+
+/**
+ * Apply a correction to every result with the same normalized name
+ */
+export function applyCorrectionToResults(
+  results: PayeeClassification[],
+  correction: ManualCorrection
+): PayeeClassification[] {
+  const overrideResult = createManualOverrideResult(correction);
+  return results.map(item =>
+    item?.result && normalizePayeeName(item.payeeName) === correction.normalizedName
+      ? { ...item, result: { ...overrideResult, keywordExclusion: item.result.keywordExclusion } }
+      : item
+  );
+}
@@ -0,0 +1,26 @@
+import { EntityClassification, PayeeClassification } from '../../types';
+
+export interface ManualCorrection {
+  normalizedName: string; // Key from normalizePayeeName
+  payeeName: string; // Name as the reviewer saw it
+  classification: EntityClassification;
+  action: 'confirmed' | 'flipped';
+  originalClassification?: EntityClassification;
+  originalConfidence?: number;
+  note?: string;
+  createdAt: string;
+}
+
+export type ReviewReason = 'low-confidence' | 'conflicting' | 'fallback';
+
+export interface ReviewItem {
+  result: PayeeClassification;
+  reasons: ReviewReason[];
+  conflictingClassifications?: EntityClassification[]; // Other labels given to the same normalized name
+  correction?: ManualCorrection;
+}
+
+export interface ReviewQueueOptions {
+  confidenceThreshold?: number; // Results below this confidence are queued (default 70)
+  includeReviewed?: boolean; // Keep names that already have a correction
+}
@@ -1,6 +1,7 @@
 
 import { ClassificationResult } from '../types';
 import { enhancedDeterministicClassifyPayee } from './enhancedDeterministicClassifier';
+import { getManualOverride } from './review';
 
 /**
  * Simplified pure rule-based classification using enhanced probablepeople
@@ -29,7 +30,7 @@ export async function batchRuleOnlyClassification(payeeNames: string[]): Promise
   const results: ClassificationResult[] = [];
   
   for (const name of payeeNames) {
-    const result = await ruleOnlyClassification(name);
+    const result = getManualOverride(name) || await ruleOnlyClassification(name);
     results.push(result);
   }
   
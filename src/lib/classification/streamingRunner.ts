@@ -0,0 +1,115 @@
+import { BatchProcessingResult, ParsedPerson, PayeeClassification, UnclassifiedRow } from '../types';
+import { extractMappedPayees, extractPayeeColumn, isEmptyPayeeName, MappedPayees, PayeeNameMapping, TabularRow } from '../fileValidation';
+import { BatchRunCancelledError, BatchRunOptions, createBatchRunResult, runBatchClassification } from './batchRunner';
+
+export interface StreamingBatchRunOptions extends Omit<BatchRunOptions, 'originalFileData' | 'onProgress' | 'onChunk'> {
+  column?: string; // Payee column; defaults to the best-ranked column of the first batch
+  nameMapping?: PayeeNameMapping; // Builds names from several columns instead of reading one
+  skipEmptyNames?: boolean; // Leave rows without a payee name out of the result instead of reporting them unclassified
+  keepResults?: boolean; // Defaults to true; false returns only the counts, so memory stays flat
+  // Classifies one batch, e.g. in a worker pool; defaults to runBatchClassification
+  classifyBatch?: (payeeNames: string[], rows: TabularRow[], nameParts?: ParsedPerson[]) => Promise<BatchProcessingResult>;
+  onProgress?: (completed: number) => void;
+  // Each batch as it finishes, with row indexes local to the batch, like BatchRunOptions.onChunk
+  onChunk?: (chunk: BatchProcessingResult, offset: number) => void | Promise<void>;
+}
+
+export interface StreamingBatchRunResult extends BatchProcessingResult {
+  payeeColumnName: string;
+  rowCount: number; // Rows read, including those left out by skipEmptyNames
+}
+
+/**
+ * Classify rows as they are read, one batch at a time, so a file of any size can
+ * be processed without loading it first. Row indexes in the result are global.
+ */
+export async function runStreamingBatchClassification(
+  rowBatches: AsyncIterable<TabularRow[]>,
+  options: StreamingBatchRunOptions = {}
+): Promise<StreamingBatchRunResult> {
+  const keepResults = options.keepResults !== false;
+  const startTime = Date.now();
+  const results: PayeeClassification[] = [];
+  const unclassifiedRows: UnclassifiedRow[] = [];
+  const originalFileData: TabularRow[] = []; // Every classified row, including those that got no result
+  let payeeColumnName: string | undefined;
+  let rowCount = 0;
+  let completed = 0;
+  let failureCount = 0;
+
+  const classifyBatch = options.classifyBatch || ((payeeNames: string[], rows: TabularRow[], nameParts?: ParsedPerson[]) =>
+    runBatchClassification(payeeNames, {
+      engine: options.engine,
+      config: options.config,
+      chunkSize: options.chunkSize,
+      signal: options.signal,
+      originalFileData: rows,
+      nameParts
+    }));
+
+  for await (const batch of rowBatches) {
+    if (options.signal?.aborted) {
+      throw new BatchRunCancelledError(completed, rowCount);
+    }
+    if (batch.length === 0) continue;
+
+    const extracted: MappedPayees = options.nameMapping
+      ? extractMappedPayees(batch, options.nameMapping)
+      : extractPayeeColumn(batch, payeeColumnName || options.column);
+    payeeColumnName = extracted.payeeColumnName;
+    const batchStart = rowCount;
+    rowCount += batch.length;
+
+    const kept = extracted.payeeNames
+      .map((name, index) => ({ name, row: batch[index], parts: extracted.nameParts?.[index], sourceRowIndex: batchStart + index }))
+      .filter(item => !options.skipEmptyNames || !isEmptyPayeeName(item.name));
+    if (kept.length === 0) continue;
+
+    let chunk: BatchProcessingResult;
+    try {
+      const nameParts = extracted.nameParts && kept.map(item => item.parts ?? {});
+      chunk = await classifyBatch(kept.map(item => item.name), kept.map(item => item.row), nameParts);
+      if (options.skipEmptyNames) {
+        chunk = {
+          ...chunk,
+          results: chunk.results.map(item => ({ ...item, sourceRowIndex: kept[item.rowIndex ?? 0].sourceRowIndex }))
+        };
+      }
+    } catch (error) {
+      if (error instanceof BatchRunCancelledError) {
+        throw new BatchRunCancelledError(completed + error.completed, rowCount);
+      }
+      throw error;
+    }
+
+    await options.onChunk?.(chunk, completed);
+    failureCount += chunk.failureCount;
+    if (keepResults) {
+      results.push(...chunk.results.map(item => ({
+        ...item,
+        id: `payee-${completed + (item.rowIndex ?? 0)}`,
+        rowIndex: completed + (item.rowIndex ?? 0)
+      })));
+      unclassifiedRows.push(...(chunk.unclassifiedRows ?? []).map(row => ({ ...row, rowIndex: completed + row.rowIndex })));
+      originalFileData.push(...kept.map(item => item.row));
+    }
+    completed += kept.length;
+    options.onProgress?.(completed);
+  }
+
+  if (!payeeColumnName) {
+    throw new Error('No data rows found in the input');
+  }
+
+  if (!keepResults) {
+    return {
+      results: [],
+      successCount: completed - failureCount,
+      failureCount,
+      processingTime: Date.now() - startTime,
+      payeeColumnName,
+      rowCount
+    };
+  }
+  return { ...createBatchRunResult(results, completed, startTime, originalFileData, { unclassifiedRows }), payeeColumnName, rowCount };
+}
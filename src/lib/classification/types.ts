@@ -2,6 +2,7 @@
 // Re-export types from the main types file, but avoid conflicts
 export type {
   ClassificationResult,
+  EntityClassification,
   KeywordExclusionResult,
   PayeeClassification,
   BatchProcessingResult,
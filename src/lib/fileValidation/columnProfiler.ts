@@ -0,0 +1,143 @@
+import { ColumnProfile, PayeeColumnCandidate } from './types';
+import type { TabularRow } from './tabularInput';
+
+// Rows profiled per column; enough to rank columns without reading a large file twice
+export const COLUMN_PROFILE_SAMPLE_ROWS = 1000;
+
+// Header words that name a payee, and words that name some other kind of field
+const PAYEE_HEADER_WORDS = new Set([
+  'name', 'payee', 'vendor', 'company', 'client', 'customer', 'recipient', 'supplier',
+  'beneficiary', 'merchant', 'party', 'counterparty', 'contractor', 'employee'
+]);
+const OTHER_HEADER_WORDS = new Set([
+  'id', 'code', 'number', 'no', 'num', 'date', 'amount', 'amt', 'total', 'price', 'qty',
+  'zip', 'postal', 'phone', 'email', 'address', 'city', 'state', 'country', 'type',
+  'status', 'category', 'account', 'acct', 'memo', 'description', 'currency', 'reference'
+]);
+
+const NUMERIC_VALUE = /^[-+(]?[$€£¥]?\s?\d[\d,.\s]*\)?%?$/;
+const DATE_VALUE = /^(\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\d{1,2}\s+[a-z]{3,9}\s+\d{2,4}|[a-z]{3,9}\s+\d{1,2},?\s+\d{2,4})(\b|T)/i;
+const EMAIL_OR_URL = /@|^https?:|^www\./i;
+
+const cellText = (value: unknown) => value instanceof Date ? value.toISOString() : String(value ?? '').trim();
+
+function headerWords(header: string): string[] {
+  return header.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z]+/).filter(Boolean);
+}
+
+function classifyHeader(header: string): ColumnProfile['headerHint'] {
+  const words = headerWords(header);
+  if (words.some(word => OTHER_HEADER_WORDS.has(word))) return 'other';
+  if (words.some(word => PAYEE_HEADER_WORDS.has(word))) return 'payee';
+  return 'none';
+}
+
+const isNumeric = (text: string) => NUMERIC_VALUE.test(text);
+const isDate = (value: unknown, text: string) => value instanceof Date || DATE_VALUE.test(text);
+
+/**
+ * A value that reads like a person or organisation name: a few words, mostly
+ * letters, and not an email address, URL or short code such as "USD"
+ */
+function isNameLike(text: string): boolean {
+  if (text.length < 2 || text.length > 120 || EMAIL_OR_URL.test(text)) return false;
+  const tokens = text.split(/\s+/);
+  if (tokens.length > 8 || (tokens.length === 1 && text.length <= 3)) return false;
+  const characters = text.replace(/\s/g, '');
+  const letters = characters.replace(/[^\p{L}]/gu, '').length;
+  return letters / characters.length >= 0.6;
+}
+
+/**
+ * Profile one column over the first sampleSize rows
+ */
+export function profileColumn(rows: TabularRow[], column: string, sampleSize = COLUMN_PROFILE_SAMPLE_ROWS): ColumnProfile {
+  const sample = rows.slice(0, sampleSize);
+  const values = sample.map(row => row[column]).filter(value => cellText(value) !== '');
+  const texts = values.map(cellText);
+  const share = (count: number) => texts.length > 0 ? count / texts.length : 0;
+
+  return {
+    column,
+    filledRatio: sample.length > 0 ? values.length / sample.length : 0,
+    distinctRatio: share(new Set(texts.map(text => text.toLowerCase())).size),
+    nameLikeRatio: share(texts.filter(isNameLike).length),
+    numericRatio: share(texts.filter(isNumeric).length),
+    dateRatio: share(values.filter((value, index) => isDate(value, texts[index])).length),
+    averageTokens: share(texts.reduce((sum, text) => sum + text.split(/\s+/).length, 0)),
+    headerHint: classifyHeader(column)
+  };
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Score a profile as a payee column, with the reasons that moved the score most
+ */
+function scoreProfile(profile: ColumnProfile): Pick<PayeeColumnCandidate, 'score' | 'reasons'> {
+  if (profile.filledRatio === 0) return { score: 0, reasons: ['no values in the sample'] };
+
+  const reasons: string[] = [];
+  let score = 45 * profile.nameLikeRatio
+    + 15 * Math.min(profile.distinctRatio / 0.5, 1)
+    + 10 * profile.filledRatio
+    - 40 * profile.numericRatio
+    - 40 * profile.dateRatio;
+
+  if (profile.headerHint === 'payee') {
+    score += 25;
+    reasons.push('header names a payee');
+  } else if (profile.headerHint === 'other') {
+    score -= 15;
+    reasons.push('header names another kind of field');
+  }
+  if (profile.nameLikeRatio >= 0.5) reasons.push(`${percent(profile.nameLikeRatio)} of values look like names`);
+  if (profile.averageTokens >= 1.5 && profile.averageTokens <= 5) score += 5;
+  if (profile.numericRatio >= 0.5) reasons.push(`${percent(profile.numericRatio)} of values are numbers`);
+  if (profile.dateRatio >= 0.5) reasons.push(`${percent(profile.dateRatio)} of values are dates`);
+  if (profile.distinctRatio < 0.2) reasons.push(`few distinct values (${percent(profile.distinctRatio)})`);
+  if (profile.filledRatio < 0.8) reasons.push(`${percent(1 - profile.filledRatio)} of rows are empty`);
+
+  return { score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+}
+
+/**
+ * Every column ranked by how likely it is to hold payee names, best first;
+ * columns with equal scores keep their file order
+ */
+export function rankPayeeColumns(rows: TabularRow[], sampleSize = COLUMN_PROFILE_SAMPLE_ROWS): PayeeColumnCandidate[] {
+  const columns = Array.from(new Set(rows.slice(0, sampleSize).flatMap(row => Object.keys(row))));
+  return columns
+    .map(column => {
+      const profile = profileColumn(rows, column, sampleSize);
+      return { column, ...scoreProfile(profile), profile };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The best payee column, or the first column when none scores above zero
+ */
+export function detectPayeeColumn(rows: TabularRow[]): string | undefined {
+  const [best] = rankPayeeColumns(rows);
+  return best && best.score > 0 ? best.column : Object.keys(rows[0] ?? {})[0];
+}
+
+/**
+ * Whether a row of cells is a header: distinct text labels that are not numbers or
+ * dates, at least one of which sits above numeric or date values. Field-like words
+ * alone are not enough, since names such as "City of Austin" or "ABC Company" use them.
+ */
+export function looksLikeHeaderRow(cells: unknown[], bodyRows: unknown[][] = []): boolean {
+  const labels = cells.map(cellText);
+  const filled = labels.filter(Boolean);
+  if (filled.length === 0 || new Set(filled).size !== filled.length) return false;
+  if (cells.some((cell, index) => labels[index] && (typeof cell !== 'string' || isNumeric(labels[index]) || isDate(cell, labels[index])))) {
+    return false;
+  }
+
+  return labels.some((label, index) => {
+    const below = bodyRows.map(row => row[index]).filter(value => cellText(value) !== '');
+    return label !== '' && below.length > 0 && below.every(value => isNumeric(cellText(value)) || isDate(value, cellText(value)));
+  });
+}
@@ -9,3 +9,10 @@ export const VALID_MIME_TYPES = [
   'text/csv', // .csv
   'application/csv'
 ];
+
+// Files above this size are classified while they are read instead of being loaded up front
+export const STREAMING_THRESHOLD_BYTES = 10 * 1024 * 1024; // 10MB
+// CSV is read in chunks, so it may be larger than MAX_FILE_SIZE; XLSX must fit in memory whole
+export const MAX_STREAMING_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
+export const STREAM_CHUNK_BYTES = 1024 * 1024;
+export const STREAM_BATCH_ROWS = 5000;
@@ -1,7 +1,9 @@
 
 import * as XLSX from 'xlsx';
+import { getWorkbookSheet } from './tabularInput';
+import { readSheetHeaders, readSheetRows } from './workbookSheets';
 
-export const parseUploadedFile = async (file: File, headersOnly: boolean = false): Promise<any[]> => {
+export const parseUploadedFile = async (file: File, headersOnly: boolean = false, sheetName?: string): Promise<any[]> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -14,42 +16,21 @@ export const parseUploadedFile = async (file: File, headersOnly: boolean = false
         }
 
         const workbook = XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
+        const worksheet = getWorkbookSheet(workbook, sheetName);
         
+        // Same headers and rows as the workbook readers: repeated headers get "_1" suffixes,
+        // blank rows are skipped and cell values are kept as read
         if (headersOnly) {
-          // Get only the header row
-          const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
-          const headers: string[] = [];
-          
-          for (let col = range.s.c; col <= range.e.c; col++) {
-            const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-            const cell = worksheet[cellAddress];
-            headers.push(cell ? String(cell.v) : `Column ${col + 1}`);
-          }
-          
-          resolve(headers);
-        } else {
-          // Get all data
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          
-          if (jsonData.length === 0) {
-            reject(new Error('File is empty'));
-            return;
-          }
+          resolve(readSheetHeaders(worksheet));
+          return;
+        }
 
-          // Convert array format to object format
-          const headers = jsonData[0] as string[];
-          const rows = jsonData.slice(1).map(row => {
-            const obj: any = {};
-            headers.forEach((header, index) => {
-              obj[header] = (row as any[])[index] || '';
-            });
-            return obj;
-          });
-          
-          resolve(rows);
+        const rows = readSheetRows(worksheet);
+        if (rows.length === 0 && readSheetHeaders(worksheet).length === 0) {
+          reject(new Error('File is empty'));
+          return;
         }
+        resolve(rows);
       } catch (error) {
         reject(error);
       }
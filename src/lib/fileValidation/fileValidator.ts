@@ -1,7 +1,9 @@
 
 import { FileValidationError, ERROR_CODES } from '../errorHandler';
+import type { WorkBook } from 'xlsx';
 import { FileValidationResult } from './types';
-import { MAX_FILE_SIZE, SUPPORTED_EXTENSIONS, VALID_MIME_TYPES } from './constants';
+import { describeWorkbookSheets } from './workbookSheets';
+import { MAX_FILE_SIZE, MAX_STREAMING_FILE_SIZE, SUPPORTED_EXTENSIONS, VALID_MIME_TYPES } from './constants';
 
 export const validateFile = (file: File): FileValidationResult => {
   console.log(`[FILE VALIDATION] Validating file: ${file.name}, size: ${file.size} bytes`);
@@ -18,19 +20,21 @@ export const validateFile = (file: File): FileValidationResult => {
     };
   }
 
-  if (file.size > MAX_FILE_SIZE) {
+  // CSV is read in chunks while classifying; workbooks have to be loaded whole
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const sizeLimit = extension === 'csv' ? MAX_STREAMING_FILE_SIZE : MAX_FILE_SIZE;
+  if (file.size > sizeLimit) {
     return {
       isValid: false,
       error: new FileValidationError(
         ERROR_CODES.FILE_TOO_LARGE,
-        `File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds the maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB.`,
-        `File size: ${file.size} bytes, limit: ${MAX_FILE_SIZE} bytes`
+        `File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds the maximum limit of ${sizeLimit / 1024 / 1024}MB.`,
+        `File size: ${file.size} bytes, limit: ${sizeLimit} bytes`
       )
     };
   }
 
   // Check file extension
-  const extension = file.name.split('.').pop()?.toLowerCase();
   if (!extension || !SUPPORTED_EXTENSIONS.includes(extension)) {
     return {
       isValid: false,
@@ -56,3 +60,26 @@ export const validateFile = (file: File): FileValidationResult => {
     }
   };
 };
+
+/**
+ * Adds the sheets of an uploaded workbook, with their row counts, to a file validation result
+ */
+export const validateWorkbookSheets = (validation: FileValidationResult, workbook: WorkBook): FileValidationResult => {
+  const sheets = describeWorkbookSheets(workbook);
+  if (!sheets.some(sheet => sheet.rowCount > 0)) {
+    return {
+      isValid: false,
+      error: new FileValidationError(
+        ERROR_CODES.EMPTY_FILE,
+        'The workbook has no sheets with data rows.',
+        `Sheets: ${sheets.map(sheet => sheet.name).join(', ') || 'none'}`
+      )
+    };
+  }
+
+  return {
+    ...validation,
+    fileType: 'excel',
+    fileInfo: { ...validation.fileInfo!, sheets }
+  };
+};
@@ -6,3 +6,8 @@ export * from './fileValidator';
 export * from './dataValidator';
 export * from './fileParser';
 export * from './payeeExtractor';
+export * from './tabularInput';
+export * from './streamingInput';
+export * from './workbookSheets';
+export * from './payeeNameMapping';
+export * from './columnProfiler';
@@ -1,16 +1,23 @@
 import { ValidationResult } from './types';
+import { detectPayeeColumn, looksLikeHeaderRow } from './columnProfiler';
+import { EMPTY_PAYEE_NAME } from './tabularInput';
+
+// A first row whose filled cells repeat their own column names, as when a header was exported twice
+const repeatsColumnNames = (row: Record<string, unknown>): boolean => {
+  const filled = Object.entries(row).filter(([, value]) => String(value ?? '').trim() !== '');
+  return filled.length > 0 && filled.every(([key, value]) => String(value).trim().toLowerCase() === key.trim().toLowerCase());
+};
 
 export const validateFileContents = (data: any[]): ValidationResult => {
   if (!Array.isArray(data) || data.length === 0) {
     throw new Error('File appears to be empty or invalid');
   }
 
-  // Remove header row if it exists (detect by checking if first row has likely header values)
-  const hasHeader = data.length > 1 && 
-    Object.values(data[0]).some(value => 
-      typeof value === 'string' && 
-      /^(name|payee|vendor|company|client|customer)/i.test(value as string)
-    );
+  // Remove a repeated header row if it exists (the column names again, or text labels over numbers or dates)
+  const hasHeader = data.length > 1 && (
+    repeatsColumnNames(data[0]) ||
+    looksLikeHeaderRow(Object.values(data[0]), data.slice(1, 50).map(row => Object.values(row)))
+  );
   
   const dataRows = hasHeader ? data.slice(1) : data;
   const originalData = [...dataRows]; // Preserve complete original data
@@ -19,24 +26,8 @@ export const validateFileContents = (data: any[]): ValidationResult => {
     throw new Error('No data rows found in the file');
   }
 
-  // Find the payee column name
-  let payeeColumnName = '';
-  if (dataRows.length > 0) {
-    const firstRow = dataRows[0];
-    const keys = Object.keys(firstRow);
-    
-    // Look for common payee name column names
-    const nameKeys = keys.filter(key => 
-      /^(name|payee|vendor|company|client|customer|recipient|supplier)/i.test(key)
-    );
-    
-    if (nameKeys.length > 0) {
-      payeeColumnName = nameKeys[0];
-    } else {
-      // Fallback to first column
-      payeeColumnName = keys[0];
-    }
-  }
+  // Pick the column whose header and values look most like payee names
+  const payeeColumnName = detectPayeeColumn(dataRows) || '';
 
   if (!payeeColumnName) {
     throw new Error('No valid payee column found in the file.');
@@ -48,7 +39,7 @@ export const validateFileContents = (data: any[]): ValidationResult => {
   for (const row of dataRows) {
     const payeeName = String(row[payeeColumnName] || '').trim();
     // Keep ALL rows, even empty ones - this maintains index correspondence
-    payeeNames.push(payeeName || '[Empty]');
+    payeeNames.push(payeeName || EMPTY_PAYEE_NAME);
   }
 
   console.log(`[FILE VALIDATION] Extracted ${payeeNames.length} payee names (including empty) and preserved ${originalData.length} original data rows with exact 1:1 correspondence`);
@@ -0,0 +1,114 @@
+import { ParsedPerson } from '../types';
+import { NamePartTag, PayeeNameMapping } from './types';
+import { EMPTY_PAYEE_NAME, ExtractedPayees, TabularRow, extractPayeeColumn } from './tabularInput';
+
+// Name parts in the order they are read aloud
+export const NAME_PART_TAGS: NamePartTag[] = ['GivenName', 'MiddleName', 'Surname', 'SuffixGenerational'];
+
+const TEMPLATE_PLACEHOLDER = /\{([^{}]+)\}/g;
+
+// Separators left at either end when a template part is empty, e.g. "Smith, " for "{Last}, {First}"
+const DANGLING_SEPARATORS = /^[\s,;/&]+|[\s,;/&]+$/g;
+
+export interface MappedPayees extends ExtractedPayees {
+  nameParts?: ParsedPerson[]; // One per row in parts mode, for the person parser
+}
+
+/**
+ * Column names referenced by a template, in order of first use
+ */
+export function templateColumns(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(TEMPLATE_PLACEHOLDER), match => match[1].trim())));
+}
+
+export function mappingColumns(mapping: PayeeNameMapping): string[] {
+  switch (mapping.mode) {
+    case 'column':
+      return [mapping.column];
+    case 'template':
+      return templateColumns(mapping.template);
+    case 'parts':
+      return NAME_PART_TAGS.flatMap(tag => mapping.columns[tag] ? [mapping.columns[tag]!] : []);
+  }
+}
+
+function resolveColumn(columns: string[], column: string): string | undefined {
+  return columns.find(name => name === column) || columns.find(name => name.toLowerCase() === column.toLowerCase());
+}
+
+/**
+ * Columns a mapping uses that the file does not have
+ */
+export function missingMappingColumns(mapping: PayeeNameMapping, columns: string[]): string[] {
+  return mappingColumns(mapping).filter(column => !resolveColumn(columns, column));
+}
+
+const cellText = (row: TabularRow, column: string | undefined) =>
+  column === undefined ? '' : String(row[column] ?? '').trim();
+
+/**
+ * Fill a template such as "{Last}, {First}" from a row; separators around empty parts are dropped
+ */
+export function formatNameTemplate(template: string, row: TabularRow, columns: string[] = Object.keys(row)): string {
+  return template
+    .replace(TEMPLATE_PLACEHOLDER, (_, column: string) => cellText(row, resolveColumn(columns, column.trim())))
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,;])/g, '$1')
+    .replace(/([,;])(\s*[,;])+/g, '$1')
+    .replace(DANGLING_SEPARATORS, '');
+}
+
+export function readNameParts(row: TabularRow, mapping: Partial<Record<NamePartTag, string>>, columns: string[] = Object.keys(row)): ParsedPerson {
+  const parts: ParsedPerson = {};
+  for (const tag of NAME_PART_TAGS) {
+    const column = mapping[tag];
+    const value = column ? cellText(row, resolveColumn(columns, column)) : '';
+    if (value) parts[tag] = value;
+  }
+  return parts;
+}
+
+/**
+ * Display name for structured parts, e.g. "Mary Ann Jones Jr"
+ */
+export function formatNameParts(parts: ParsedPerson): string {
+  return NAME_PART_TAGS.map(tag => parts[tag]).filter(Boolean).join(' ');
+}
+
+/**
+ * Short label for a mapping, used where a single payee column name is shown
+ */
+export function describeNameMapping(mapping: PayeeNameMapping): string {
+  return mapping.mode === 'template' ? mapping.template : mappingColumns(mapping).join(' + ');
+}
+
+/**
+ * Payee names built from one or more columns. Every row is kept, so the names stay
+ * aligned with the original data and its columns are exported unchanged.
+ */
+export function extractMappedPayees(rows: TabularRow[], mapping: PayeeNameMapping): MappedPayees {
+  if (mapping.mode === 'column') {
+    return extractPayeeColumn(rows, mapping.column);
+  }
+  if (rows.length === 0) {
+    throw new Error('No data rows found in the input');
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const missing = missingMappingColumns(mapping, columns);
+  if (mappingColumns(mapping).length === 0 || missing.length > 0) {
+    throw new Error(missing.length > 0
+      ? `Column "${missing[0]}" not found. Available columns: ${columns.join(', ')}`
+      : 'The name mapping does not use any columns');
+  }
+
+  const payeeColumnName = describeNameMapping(mapping);
+  if (mapping.mode === 'template') {
+    const payeeNames = rows.map(row => formatNameTemplate(mapping.template, row, columns) || EMPTY_PAYEE_NAME);
+    return { payeeNames, originalData: rows, payeeColumnName };
+  }
+
+  const nameParts = rows.map(row => readNameParts(row, mapping.columns, columns));
+  const payeeNames = nameParts.map(parts => formatNameParts(parts) || EMPTY_PAYEE_NAME);
+  return { payeeNames, originalData: rows, payeeColumnName, nameParts };
+}
@@ -0,0 +1,323 @@
+import * as XLSX from 'xlsx';
+import { STREAM_BATCH_ROWS, STREAM_CHUNK_BYTES } from './constants';
+import { TEXT_INPUT_COLUMN, TabularInputFormat, TabularRow, getWorkbookSheet, parseJsonLine } from './tabularInput';
+
+// A browser File or Blob, or a Node stream such as a file read stream or stdin
+export type ByteSource = Blob | AsyncIterable<Uint8Array>;
+
+export interface StreamTabularOptions {
+  batchSize?: number; // Rows per yielded batch
+  chunkBytes?: number; // Bytes read from a Blob at a time
+  sheetName?: string; // Workbook sheet to read; defaults to the first
+  onHeaders?: (headers: string[]) => void;
+  onBytesRead?: (bytesRead: number) => void;
+}
+
+export interface CsvRowParser {
+  push(text: string): string[][]; // Rows completed by this piece of text
+  end(): string[][]; // The last row, when the input does not end with a newline
+}
+
+const isBlob = (source: ByteSource): source is Blob =>
+  typeof Blob !== 'undefined' && source instanceof Blob;
+
+/**
+ * Incremental CSV parser: text can be split anywhere, including inside quoted
+ * fields, escaped quotes and CRLF line endings
+ */
+export function createCsvRowParser(delimiter = ','): CsvRowParser {
+  let row: string[] = [];
+  let field = '';
+  let fieldStarted = false;
+  let inQuotes = false;
+  let quotePending = false; // A quote inside quotes either escapes the next quote or closes the field
+  let skipLineFeed = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const push = (text: string): string[][] => {
+    const rows: string[][] = [];
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += char;
+          continue;
+        }
+        inQuotes = false;
+      } else if (inQuotes) {
+        if (char === '"') quotePending = true;
+        else field += char;
+        continue;
+      }
+
+      if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endField();
+        rows.push(row);
+        row = [];
+        skipLineFeed = char === '\r';
+      } else if (char === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+    return rows;
+  };
+
+  const end = (): string[][] => {
+    inQuotes = false;
+    quotePending = false;
+    if (row.length === 0 && !fieldStarted) return [];
+    endField();
+    const last = row;
+    row = [];
+    return [last];
+  };
+
+  return { push, end };
+}
+
+// Same names as XLSX.utils.sheet_to_json: "__EMPTY" for blank headers, "_1", "_2" for repeats
+export function uniqueHeaders(cells: unknown[]): string[] {
+  const counts: Record<string, number> = {};
+  return cells.map(cell => {
+    const name = cell === undefined || cell === null || cell === '' ? '__EMPTY' : String(cell);
+    let counter = counts[name] || 0;
+    if (!counter) {
+      counts[name] = 1;
+      return name;
+    }
+    let unique: string;
+    do {
+      unique = `${name}_${counter++}`;
+    } while (counts[unique]);
+    counts[name] = counter;
+    counts[unique] = 1;
+    return unique;
+  });
+}
+
+// Turns cell arrays into row objects; the first non-blank row is the header
+function createRowBuilder(onHeaders?: (headers: string[]) => void) {
+  let headers: string[] | null = null;
+  return (cellRows: unknown[][]): TabularRow[] => {
+    const rows: TabularRow[] = [];
+    for (const cells of cellRows) {
+      if (cells.every(cell => cell === '' || cell === null || cell === undefined)) continue;
+      if (!headers) {
+        headers = uniqueHeaders(cells);
+        onHeaders?.(headers);
+        continue;
+      }
+      const row: TabularRow = {};
+      headers.forEach((header, index) => {
+        row[header] = cells[index] ?? '';
+      });
+      rows.push(row);
+    }
+    return rows;
+  };
+}
+
+async function* readBytes(source: ByteSource, chunkBytes: number): AsyncGenerator<Uint8Array> {
+  if (!isBlob(source)) {
+    yield* source;
+    return;
+  }
+  for (let offset = 0; offset < source.size; offset += chunkBytes) {
+    yield new Uint8Array(await source.slice(offset, offset + chunkBytes).arrayBuffer());
+  }
+}
+
+async function* readText(source: ByteSource, options: StreamTabularOptions): AsyncGenerator<string> {
+  const decoder = new TextDecoder(); // Drops a UTF-8 byte order mark
+  let bytesRead = 0;
+  for await (const bytes of readBytes(source, options.chunkBytes || STREAM_CHUNK_BYTES)) {
+    bytesRead += bytes.length;
+    options.onBytesRead?.(bytesRead);
+    const text = decoder.decode(bytes, { stream: true });
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+async function* readLines(chunks: AsyncIterable<string>): AsyncGenerator<string[]> {
+  let pending = '';
+  for await (const text of chunks) {
+    const lines = (pending + text).split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    yield lines;
+  }
+  if (pending) yield [pending];
+}
+
+async function readAllBytes(source: ByteSource, options: StreamTabularOptions): Promise<Uint8Array> {
+  if (isBlob(source)) {
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    options.onBytesRead?.(bytes.length);
+    return bytes;
+  }
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for await (const chunk of source) {
+    chunks.push(chunk);
+    length += chunk.length;
+    options.onBytesRead?.(length);
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// XLSX is a zip archive, so the file is read whole, but rows are built one batch at a time
+function* readWorkbookRows(bytes: Uint8Array, batchSize: number, options: StreamTabularOptions): Generator<TabularRow[]> {
+  const sheet = getWorkbookSheet(XLSX.read(bytes, { type: 'array' }), options.sheetName);
+  const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1:A1');
+  const toRows = createRowBuilder(options.onHeaders);
+  for (let start = range.s.r; start <= range.e.r; start += batchSize) {
+    const cells = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      defval: '',
+      blankrows: false,
+      range: { s: { r: start, c: range.s.c }, e: { r: Math.min(start + batchSize - 1, range.e.r), c: range.e.c } }
+    });
+    yield toRows(cells);
+  }
+}
+
+async function* readRows(source: ByteSource, format: TabularInputFormat, options: StreamTabularOptions): AsyncGenerator<TabularRow[]> {
+  const batchSize = options.batchSize || STREAM_BATCH_ROWS;
+  if (format === 'xlsx') {
+    yield* readWorkbookRows(await readAllBytes(source, options), batchSize, options);
+    return;
+  }
+
+  const text = readText(source, options);
+  if (format === 'csv') {
+    const parser = createCsvRowParser();
+    const toRows = createRowBuilder(options.onHeaders);
+    for await (const chunk of text) {
+      yield toRows(parser.push(chunk));
+    }
+    yield toRows(parser.end());
+    return;
+  }
+
+  if (format === 'text') options.onHeaders?.([TEXT_INPUT_COLUMN]);
+  let lineNumber = 0;
+  let sawRecord = false;
+  for await (const lines of readLines(text)) {
+    const rows: TabularRow[] = [];
+    for (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+      const row = format === 'jsonl' ? parseJsonLine(line, lineNumber) : { [TEXT_INPUT_COLUMN]: line.trim() };
+      if (!sawRecord && format === 'jsonl') options.onHeaders?.(Object.keys(row));
+      sawRecord = true;
+      rows.push(row);
+    }
+    yield rows;
+  }
+}
+
+/**
+ * Read CSV, XLSX, JSON Lines or plain-text input as batches of row objects keyed
+ * by header, without holding the whole file or every row in memory at once.
+ * Rows match parseTabularInput; blank rows are skipped.
+ */
+export async function* streamTabularRows(
+  source: ByteSource,
+  format: TabularInputFormat,
+  options: StreamTabularOptions = {}
+): AsyncGenerator<TabularRow[]> {
+  const batchSize = Math.max(1, options.batchSize || STREAM_BATCH_ROWS);
+  let batch: TabularRow[] = [];
+  for await (const rows of readRows(source, format, options)) {
+    for (const row of rows) {
+      batch.push(row);
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+/**
+ * Column names from the header row, reading no further into the file than needed
+ */
+export async function readTabularHeaders(source: ByteSource, format: TabularInputFormat, sheetName?: string): Promise<string[]> {
+  let headers: string[] = [];
+  const rows = streamTabularRows(source, format, {
+    batchSize: 1,
+    sheetName,
+    onHeaders: found => { headers = found; }
+  });
+  for await (const batch of rows) {
+    if (batch.length > 0) break;
+  }
+  return headers;
+}
+
+/**
+ * Column names and the first rows, for profiling columns without reading the whole file
+ */
+export async function readTabularSample(
+  source: ByteSource,
+  format: TabularInputFormat,
+  sampleRows: number,
+  sheetName?: string
+): Promise<{ headers: string[]; rows: TabularRow[] }> {
+  let headers: string[] = [];
+  const batches = streamTabularRows(source, format, {
+    batchSize: sampleRows,
+    sheetName,
+    onHeaders: found => { headers = found; }
+  });
+  for await (const batch of batches) {
+    return { headers: headers.length > 0 ? headers : Object.keys(batch[0] ?? {}), rows: batch };
+  }
+  return { headers, rows: [] };
+}
+
+/**
+ * The start of a byte stream as text, for format detection, and the same stream from the beginning
+ */
+export async function peekTextSample(
+  source: AsyncIterable<Uint8Array>,
+  sampleBytes = 4096
+): Promise<{ sample: string; source: AsyncIterable<Uint8Array> }> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  async function* replay(): AsyncGenerator<Uint8Array> {
+    if (first.done) return;
+    yield first.value;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+  return {
+    sample: first.done ? '' : new TextDecoder().decode(first.value.subarray(0, sampleBytes)),
+    source: replay()
+  };
+}
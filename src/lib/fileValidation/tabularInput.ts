@@ -0,0 +1,115 @@
+import * as XLSX from 'xlsx';
+import { detectPayeeColumn } from './columnProfiler';
+
+export type TabularInputFormat = 'csv' | 'xlsx' | 'jsonl' | 'text';
+
+export type TabularRow = Record<string, unknown>;
+
+export const TABULAR_INPUT_FORMATS: TabularInputFormat[] = ['csv', 'xlsx', 'jsonl', 'text'];
+
+// Column used for plain-text input, one name per line
+export const TEXT_INPUT_COLUMN = 'Payee_Name';
+
+// Name given to rows without a payee name; the row is kept for alignment but never classified
+export const EMPTY_PAYEE_NAME = '[Empty]';
+
+export const isEmptyPayeeName = (name: unknown): boolean => {
+  const trimmed = String(name ?? '').trim();
+  return trimmed === '' || trimmed === EMPTY_PAYEE_NAME;
+};
+
+export const PAYEE_COLUMN_PATTERN = /^(name|payee|vendor|company|client|customer|recipient|supplier)/i;
+
+export interface ExtractedPayees {
+  payeeNames: string[];
+  originalData: TabularRow[];
+  payeeColumnName: string;
+}
+
+/**
+ * Input format from a file extension, or from the content when reading a stream
+ */
+export function detectInputFormat(fileName?: string, sample?: string): TabularInputFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx' || extension === 'xls') return 'xlsx';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt') return 'text';
+
+  const firstLine = sample?.split(/\r?\n/).find(line => line.trim() !== '')?.trim() || '';
+  if (firstLine.startsWith('{')) return 'jsonl';
+  if (firstLine.includes(',') && PAYEE_COLUMN_PATTERN.test(firstLine.replace(/^"/, ''))) return 'csv';
+  return 'text';
+}
+
+/**
+ * One JSON Lines record; a bare string becomes a row with just the payee name
+ */
+export function parseJsonLine(line: string, lineNumber: number): TabularRow {
+  try {
+    const value = JSON.parse(line);
+    return typeof value === 'string' ? { [TEXT_INPUT_COLUMN]: value } : value;
+  } catch (error) {
+    throw new Error(`Invalid JSON on line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseJsonLines(content: string): TabularRow[] {
+  return content.split(/\r?\n/).flatMap((line, index) => line.trim() === '' ? [] : [parseJsonLine(line, index + 1)]);
+}
+
+/**
+ * A sheet by name, or the first sheet when no name is given
+ */
+export function getWorkbookSheet(workbook: XLSX.WorkBook, sheetName?: string): XLSX.WorkSheet {
+  const name = sheetName ?? workbook.SheetNames[0];
+  const sheet = name !== undefined ? workbook.Sheets[name] : undefined;
+  if (!sheet) {
+    throw new Error(workbook.SheetNames.length === 0
+      ? 'File contains no sheets'
+      : `Sheet "${name}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`);
+  }
+  return sheet;
+}
+
+/**
+ * Parse CSV, XLSX, JSON Lines or plain-text input into row objects keyed by header;
+ * workbooks are read from the named sheet, or the first one
+ */
+export function parseTabularInput(data: Uint8Array | string, format: TabularInputFormat, sheetName?: string): TabularRow[] {
+  if (format === 'text' || format === 'jsonl') {
+    const content = typeof data === 'string' ? data : new TextDecoder().decode(data);
+    if (format === 'jsonl') return parseJsonLines(content);
+    return content.split(/\r?\n/)
+      .filter(line => line.trim() !== '')
+      .map(line => ({ [TEXT_INPUT_COLUMN]: line.trim() }));
+  }
+
+  // CSV cells stay as text so IDs and zip codes keep their leading zeros
+  const workbook = typeof data === 'string'
+    ? XLSX.read(data, { type: 'string', raw: format === 'csv' })
+    : XLSX.read(data, { type: 'array', raw: format === 'csv' });
+  return XLSX.utils.sheet_to_json<TabularRow>(getWorkbookSheet(workbook, sheetName), { defval: '' });
+}
+
+/**
+ * Pick the payee column (requested, or the best ranked by rankPayeeColumns) and extract one name per row
+ */
+export function extractPayeeColumn(rows: TabularRow[], column?: string): ExtractedPayees {
+  if (rows.length === 0) {
+    throw new Error('No data rows found in the input');
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const payeeColumnName = column
+    ? columns.find(name => name === column) || columns.find(name => name.toLowerCase() === column.toLowerCase())
+    : detectPayeeColumn(rows) || columns[0];
+
+  if (!payeeColumnName) {
+    throw new Error(`Column "${column}" not found. Available columns: ${columns.join(', ')}`);
+  }
+
+  // Keep every row, even empty ones, so results stay aligned with the original data
+  const payeeNames = rows.map(row => String(row[payeeColumnName] ?? '').trim() || EMPTY_PAYEE_NAME);
+  return { payeeNames, originalData: rows, payeeColumnName };
+}
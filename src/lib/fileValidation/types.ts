@@ -5,6 +5,46 @@ export interface ValidationResult {
   error?: Error;
 }
 
+// Name parts a column can supply, tagged the way the person parser tags them
+export type NamePartTag = 'GivenName' | 'MiddleName' | 'Surname' | 'SuffixGenerational';
+
+/**
+ * Where each row's payee name comes from: one column, a template over several
+ * columns such as "{Last}, {First}", or columns holding the parts of a person's name
+ */
+export type PayeeNameMapping =
+  | { mode: 'column'; column: string }
+  | { mode: 'template'; template: string }
+  | { mode: 'parts'; columns: Partial<Record<NamePartTag, string>> };
+
+/**
+ * What a column's values look like, measured on a sample of rows. Ratios other
+ * than filledRatio are shares of the non-empty values.
+ */
+export interface ColumnProfile {
+  column: string;
+  filledRatio: number;
+  distinctRatio: number;
+  nameLikeRatio: number; // Short runs of words, mostly letters
+  numericRatio: number;
+  dateRatio: number;
+  averageTokens: number;
+  headerHint: 'payee' | 'other' | 'none'; // Whether the header names a payee, or some other kind of field
+}
+
+export interface PayeeColumnCandidate {
+  column: string;
+  score: number; // 0-100
+  reasons: string[];
+  profile: ColumnProfile;
+}
+
+export interface WorkbookSheetInfo {
+  name: string;
+  rowCount: number; // Data rows below the header row
+  columnCount: number;
+}
+
 export interface FileValidationResult {
   isValid: boolean;
   error?: Error;
@@ -16,6 +56,7 @@ export interface FileValidationResult {
     type: string;
     rowCount?: number;
     columnCount?: number;
+    sheets?: WorkbookSheetInfo[]; // Every sheet of a workbook, in workbook order
   };
 }
 
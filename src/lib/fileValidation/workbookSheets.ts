@@ -0,0 +1,81 @@
+import * as XLSX from 'xlsx';
+import { SourceWorkbookSheet } from '../types';
+import { PayeeNameMapping, WorkbookSheetInfo } from './types';
+import { PAYEE_COLUMN_PATTERN, TabularRow, extractPayeeColumn, getWorkbookSheet } from './tabularInput';
+import { uniqueHeaders } from './streamingInput';
+import { MappedPayees, extractMappedPayees, missingMappingColumns } from './payeeNameMapping';
+
+export interface SheetPayees extends MappedPayees {
+  sheetName: string;
+}
+
+export function readWorkbook(data: Uint8Array | ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(data, { type: 'array' });
+}
+
+export function describeWorkbookSheets(workbook: XLSX.WorkBook): WorkbookSheetInfo[] {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, rowCount: 0, columnCount: 0 };
+    const range = XLSX.utils.decode_range(ref);
+    return { name, rowCount: range.e.r - range.s.r, columnCount: range.e.c - range.s.c + 1 };
+  });
+}
+
+/**
+ * Column names of a sheet, named the same way as the keys of readSheetRows
+ */
+export function readSheetHeaders(sheet: XLSX.WorkSheet): string[] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const [cells = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: '',
+    raw: false,
+    range: { s: range.s, e: { r: range.s.r, c: range.e.c } }
+  });
+  return uniqueHeaders(cells);
+}
+
+export function readSheetRows(sheet: XLSX.WorkSheet): TabularRow[] {
+  return XLSX.utils.sheet_to_json<TabularRow>(sheet, { defval: '' });
+}
+
+/**
+ * The first sheet with a name-like header, where vendor masters usually keep the payee list
+ */
+export function findPayeeSheet(workbook: XLSX.WorkBook): string | undefined {
+  return workbook.SheetNames.find(name =>
+    readSheetHeaders(workbook.Sheets[name]).some(header => PAYEE_COLUMN_PATTERN.test(header))
+  ) ?? workbook.SheetNames[0];
+}
+
+/**
+ * Payee names from several sheets; each uses the preferred column or name mapping
+ * when it has the columns, otherwise its own best-ranked payee column. Sheets without
+ * data rows are left out.
+ */
+export function extractSheetPayees(
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  preferred?: string | PayeeNameMapping
+): SheetPayees[] {
+  const mapping: PayeeNameMapping | undefined = typeof preferred === 'string' ? { mode: 'column', column: preferred } : preferred;
+  return sheetNames.flatMap(sheetName => {
+    const rows = readSheetRows(getWorkbookSheet(workbook, sheetName));
+    if (rows.length === 0) return [];
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const usable = mapping !== undefined && missingMappingColumns(mapping, columns).length === 0;
+    return [{ ...(usable ? extractMappedPayees(rows, mapping) : extractPayeeColumn(rows)), sheetName }];
+  });
+}
+
+/**
+ * Every sheet in workbook order; sheets that are not classified keep their cells
+ * so the export can copy them unchanged
+ */
+export function captureSourceSheets(workbook: XLSX.WorkBook, classifiedSheets: string[]): SourceWorkbookSheet[] {
+  return workbook.SheetNames.map(name => classifiedSheets.includes(name)
+    ? { name }
+    : { name, rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '' }) });
+}
@@ -0,0 +1,9 @@
+// Web Worker entry that runs batch jobs off the main thread
+import { createJobWorkerHandler } from './jobWorkerCore';
+import { JobWorkerEvent, JobWorkerRequest } from './types';
+
+const handle = createJobWorkerHandler((event: JobWorkerEvent) => self.postMessage(event));
+
+self.onmessage = (event: MessageEvent<JobWorkerRequest>) => {
+  void handle(event.data);
+};
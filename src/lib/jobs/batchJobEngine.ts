@@ -0,0 +1,276 @@
+import { BatchJob } from '../types/batchJob';
+import { ClassificationConfig, PayeeClassification } from '../types';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '../classification/config';
+import { BatchRunCancelledError, isFailedResult } from '../classification/batchRunner';
+import { logger } from '../logger';
+import { createDefaultExecutor } from './executors';
+import { createDefaultResultStore } from './resultStore';
+import {
+  BatchJobEngineOptions,
+  BatchJobListener,
+  BatchJobRequest,
+  JobExecutor,
+  JobResultStore
+} from './types';
+
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_JOB_CHUNK_SIZE = 100;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const FINISHED_STATUSES: BatchJob['status'][] = ['completed', 'failed', 'expired', 'cancelled'];
+
+export const isFinishedJob = (job: BatchJob): boolean => FINISHED_STATUSES.includes(job.status);
+
+// Copy handed to callers so later progress updates do not change it
+const snapshot = (job: BatchJob): BatchJob => ({ ...job, request_counts: { ...job.request_counts } });
+
+interface ActiveJob {
+  job: BatchJob;
+  request: BatchJobRequest;
+  controller: AbortController;
+}
+
+/**
+ * Queue of async batch jobs. Jobs run one at a time on the executor and move through
+ * validating -> in_progress -> finalizing -> completed, like the hosted batch API.
+ * Snapshots and results go to the result store so they outlive the page or process.
+ */
+export class BatchJobEngine {
+  private jobs = new Map<string, ActiveJob>();
+  private queue: string[] = [];
+  private running = false;
+  private listeners = new Set<BatchJobListener>();
+  private readonly executor: JobExecutor;
+  private readonly store: JobResultStore;
+  private readonly config: ClassificationConfig;
+  private readonly retentionMs: number;
+  private readonly chunkSize: number;
+
+  constructor(options: BatchJobEngineOptions = {}) {
+    this.executor = options.executor || createDefaultExecutor();
+    this.store = options.store || createDefaultResultStore();
+    this.config = options.config || DEFAULT_CLASSIFICATION_CONFIG;
+    this.retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+    this.chunkSize = options.chunkSize ?? DEFAULT_JOB_CHUNK_SIZE;
+  }
+
+  submit(request: BatchJobRequest): BatchJob {
+    const job: BatchJob = {
+      id: `batch_local_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      status: 'validating',
+      created_at: nowSeconds(),
+      request_counts: { total: request.names.length, completed: 0, failed: 0 },
+      metadata: {
+        description: request.description || `Classification of ${request.names.length} payees with ${request.engine}`
+      }
+    };
+
+    const active = { job, request, controller: new AbortController() };
+    this.jobs.set(job.id, active);
+    this.queue.push(job.id);
+    logger.info(`[JOB ENGINE] Queued ${job.id} with ${request.names.length} names on ${this.executor.name}`);
+    this.publish(active, true);
+    setTimeout(() => void this.runQueue(), 0);
+    return snapshot(job);
+  }
+
+  /**
+   * Status of a job known to this engine instance
+   */
+  status(jobId: string): BatchJob | undefined {
+    this.expireFinishedJobs();
+    const active = this.jobs.get(jobId);
+    return active && snapshot(active.job);
+  }
+
+  /**
+   * Status of any job, including ones persisted by an earlier page or process.
+   * A persisted job that never finished was interrupted and is reported as failed.
+   */
+  async lookup(jobId: string): Promise<BatchJob | undefined> {
+    const current = this.status(jobId);
+    if (current) return current;
+
+    const record = await this.store.load(jobId);
+    if (!record) return undefined;
+    const { job } = record;
+
+    if (!isFinishedJob(job)) {
+      job.status = 'failed';
+      job.failed_at = nowSeconds();
+      job.errors = [{ message: 'Job was interrupted before it finished' }];
+      await this.store.save({ job });
+    } else if (this.isExpired(job)) {
+      this.markExpired(job);
+      await this.store.save({ job });
+    }
+    return job;
+  }
+
+  list(): BatchJob[] {
+    this.expireFinishedJobs();
+    return Array.from(this.jobs.values()).map(active => snapshot(active.job));
+  }
+
+  /**
+   * Cancel a queued or running job; finished jobs are returned unchanged
+   */
+  cancel(jobId: string): BatchJob | undefined {
+    const active = this.jobs.get(jobId);
+    if (!active) return undefined;
+    if (isFinishedJob(active.job)) return snapshot(active.job);
+
+    active.controller.abort();
+    if (active.job.status === 'validating') {
+      this.queue = this.queue.filter(id => id !== jobId);
+      this.markCancelled(active);
+    }
+    return snapshot(active.job);
+  }
+
+  /**
+   * Results of a completed job, in request order
+   */
+  async results(jobId: string): Promise<PayeeClassification[] | undefined> {
+    const job = await this.lookup(jobId);
+    if (!job || job.status !== 'completed') return undefined;
+    return (await this.store.load(jobId))?.results;
+  }
+
+  /**
+   * Called with a snapshot on every status change and progress update
+   */
+  subscribe(listener: BatchJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves once every queued job has finished
+   */
+  async idle(): Promise<void> {
+    while (this.running || this.queue.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
+  dispose(): void {
+    this.jobs.forEach(active => active.controller.abort());
+    this.executor.dispose?.();
+  }
+
+  private publish(active: ActiveJob, persist: boolean): void {
+    const job = snapshot(active.job);
+    this.listeners.forEach(listener => {
+      try {
+        listener(job);
+      } catch (error) {
+        logger.warn('[JOB ENGINE] Job listener failed:', error);
+      }
+    });
+    if (persist) {
+      this.store.save({ job }).catch(error => {
+        logger.warn(`[JOB ENGINE] Could not persist ${job.id}:`, error);
+      });
+    }
+  }
+
+  private markCancelled(active: ActiveJob): void {
+    active.job.status = 'cancelled';
+    active.job.completed_at = nowSeconds();
+    logger.info(`[JOB ENGINE] Cancelled ${active.job.id}`);
+    this.publish(active, true);
+  }
+
+  private async runQueue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let jobId: string | undefined;
+      while ((jobId = this.queue.shift())) {
+        const active = this.jobs.get(jobId);
+        if (active) await this.runJob(active);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(active: ActiveJob): Promise<void> {
+    const { job, request, controller } = active;
+    job.status = 'in_progress';
+    job.in_progress_at = nowSeconds();
+    this.publish(active, true);
+
+    try {
+      const results = await this.executor.run({
+        jobId: job.id,
+        payeeNames: request.names,
+        engine: request.engine,
+        config: request.config || this.config,
+        chunkSize: this.chunkSize
+      }, completed => {
+        if (completed === job.request_counts.completed) return;
+        job.request_counts.completed = completed;
+        this.publish(active, false);
+      }, controller.signal);
+
+      job.status = 'finalizing';
+      job.finalizing_at = nowSeconds();
+      this.publish(active, false);
+
+      // Names skipped without a result, such as blank ones, are done too and come back unclassified
+      const failed = results.filter(item => isFailedResult(item.result)).length;
+      job.request_counts.completed = request.names.length - failed;
+      job.request_counts.failed = failed;
+      job.status = 'completed';
+      job.completed_at = nowSeconds();
+      await this.store.save({ job: snapshot(job), results });
+      this.publish(active, false);
+      logger.info(`[JOB ENGINE] Completed ${job.id}: ${results.length - failed} succeeded, ${failed} failed`);
+    } catch (error) {
+      if (error instanceof BatchRunCancelledError) {
+        job.request_counts.completed = error.completed;
+        this.markCancelled(active);
+        return;
+      }
+      logger.error(`[JOB ENGINE] Job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.failed_at = nowSeconds();
+      job.errors = [{ message: error instanceof Error ? error.message : String(error) }];
+      this.publish(active, true);
+    }
+  }
+
+  private isExpired(job: BatchJob): boolean {
+    const cutoff = nowSeconds() - Math.floor(this.retentionMs / 1000);
+    return job.status === 'completed' && job.completed_at !== undefined && job.completed_at < cutoff;
+  }
+
+  private markExpired(job: BatchJob): void {
+    job.status = 'expired';
+    job.expired_at = nowSeconds();
+  }
+
+  private expireFinishedJobs(): void {
+    for (const active of this.jobs.values()) {
+      if (this.isExpired(active.job)) {
+        this.markExpired(active.job);
+        this.publish(active, true);
+      }
+    }
+  }
+}
+
+let defaultEngine: BatchJobEngine | null = null;
+
+/**
+ * Shared engine used by the batch job UI
+ */
+export function getBatchJobEngine(): BatchJobEngine {
+  if (!defaultEngine) defaultEngine = new BatchJobEngine();
+  return defaultEngine;
+}
@@ -0,0 +1,127 @@
+import { BatchRunCancelledError, runBatchClassification } from '../classification/batchRunner';
+import { PayeeClassification } from '../types';
+import { logger } from '../logger';
+import { JobExecutor, JobRunRequest, JobWorkerEvent, JobWorkerRequest } from './types';
+
+interface PendingRun {
+  resolve: (results: PayeeClassification[]) => void;
+  reject: (error: Error) => void;
+  onProgress: (completed: number, total: number) => void;
+}
+
+export interface WorkerConnection {
+  post(message: JobWorkerRequest, transfer?: Transferable[]): void;
+  terminate(): void;
+}
+
+export type WorkerConnector = (
+  onEvent: (event: JobWorkerEvent) => void,
+  onError: (error: Error) => void
+) => WorkerConnection;
+
+/**
+ * Runs jobs on this thread; used in tests and where workers are unavailable
+ */
+export function createInProcessExecutor(): JobExecutor {
+  return {
+    name: 'in-process',
+    run: async (request, onProgress, signal) => {
+      const result = await runBatchClassification(request.payeeNames, {
+        engine: request.engine,
+        config: request.config,
+        chunkSize: request.chunkSize,
+        signal,
+        onProgress,
+        // Yield between chunks so a cancel request can be handled mid-run
+        onChunk: () => new Promise(resolve => setTimeout(resolve, 0))
+      });
+      return result.results;
+    }
+  };
+}
+
+/**
+ * Executor talking to a worker that runs createJobWorkerHandler. The worker is
+ * started on first use and reused for later jobs.
+ */
+export function createWorkerExecutor(name: string, connect: WorkerConnector): JobExecutor {
+  const pending = new Map<string, PendingRun>();
+  let connection: WorkerConnection | null = null;
+
+  const handleEvent = (event: JobWorkerEvent) => {
+    const run = pending.get(event.jobId);
+    if (!run) return;
+    if (event.type === 'progress') {
+      run.onProgress(event.completed, event.total);
+      return;
+    }
+
+    pending.delete(event.jobId);
+    if (event.type === 'completed') run.resolve(event.results);
+    else if (event.type === 'cancelled') run.reject(new BatchRunCancelledError(event.completed, event.total));
+    else run.reject(new Error(event.message));
+  };
+
+  // A crashed worker fails every run it held; the next job starts a new one
+  const handleError = (error: Error) => {
+    if (!connection) return;
+    logger.error(`[JOB EXECUTOR] ${name} worker failed:`, error);
+    const crashed = connection;
+    connection = null;
+    crashed.terminate();
+    pending.forEach(run => run.reject(error));
+    pending.clear();
+  };
+
+  return {
+    name,
+    run: (request: JobRunRequest, onProgress, signal) => new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new BatchRunCancelledError(0, request.payeeNames.length));
+        return;
+      }
+      if (!connection) connection = connect(handleEvent, handleError);
+
+      pending.set(request.jobId, { resolve, reject, onProgress });
+      signal.addEventListener('abort', () => connection?.post({ type: 'cancel', jobId: request.jobId }), { once: true });
+      connection.post({ type: 'start', request });
+    }),
+    dispose: () => {
+      const current = connection;
+      connection = null;
+      current?.terminate();
+    }
+  };
+}
+
+export const canUseWebWorkers = (): boolean => typeof Worker !== 'undefined' && typeof window !== 'undefined';
+
+/**
+ * Start a module Web Worker running the batch job handler
+ */
+export const connectWebWorker: WorkerConnector = (onEvent, onError) => {
+  const worker = new Worker(new URL('./batchJob.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<JobWorkerEvent>) => onEvent(event.data);
+  worker.onerror = event => {
+    event.preventDefault();
+    onError(new Error(event.message || 'Batch job worker crashed'));
+  };
+  return {
+    post: (message, transfer) => worker.postMessage(message, transfer ?? []),
+    terminate: () => worker.terminate()
+  };
+};
+
+/**
+ * Browser executor backed by a module Web Worker
+ */
+export function createWebWorkerExecutor(): JobExecutor {
+  return createWorkerExecutor('web-worker', connectWebWorker);
+}
+
+/**
+ * Web Worker when the environment has one, this thread otherwise
+ */
+export function createDefaultExecutor(): JobExecutor {
+  return canUseWebWorkers() ? createWebWorkerExecutor() : createInProcessExecutor();
+}
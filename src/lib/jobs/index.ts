@@ -0,0 +1,7 @@
+// Main export file for the async batch job engine
+export { BatchJobEngine, getBatchJobEngine, isFinishedJob } from './batchJobEngine';
+export * from './executors';
+export * from './resultStore';
+export { createJobWorkerHandler, decodePayeeNames, encodePayeeNames } from './jobWorkerCore';
+export * from './types';
+export * from './workerPool';
@@ -0,0 +1,64 @@
+import { BatchRunCancelledError, runBatchClassification } from '../classification/batchRunner';
+import { setActiveCalibration } from '../classification/calibration';
+import { setCorrections } from '../classification/review';
+import { setReferenceEntries } from '../classification/referenceIndex';
+import { JobWorkerEvent, JobWorkerRequest, WorkerEnvironment } from './types';
+
+/**
+ * Payee names as UTF-8 JSON in a buffer that postMessage can transfer
+ */
+export function encodePayeeNames(payeeNames: string[]): ArrayBuffer {
+  const bytes = new TextEncoder().encode(JSON.stringify(payeeNames));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+export function decodePayeeNames(buffer: ArrayBuffer): string[] {
+  return JSON.parse(new TextDecoder().decode(buffer));
+}
+
+function applyWorkerEnvironment(environment: WorkerEnvironment): void {
+  setActiveCalibration(environment.calibration);
+  setCorrections(environment.corrections);
+  setReferenceEntries(environment.referenceEntries);
+}
+
+/**
+ * Message handler shared by the browser Web Worker and the Node worker thread
+ */
+export function createJobWorkerHandler(post: (event: JobWorkerEvent) => void) {
+  const running = new Map<string, AbortController>();
+
+  return async (message: JobWorkerRequest): Promise<void> => {
+    if (message.type === 'cancel') {
+      running.get(message.jobId)?.abort();
+      return;
+    }
+
+    const { jobId, engine, config, chunkSize } = message.request;
+    const payeeNames = message.encodedNames ? decodePayeeNames(message.encodedNames) : message.request.payeeNames;
+    if (message.environment) applyWorkerEnvironment(message.environment);
+    const controller = new AbortController();
+    running.set(jobId, controller);
+
+    try {
+      const result = await runBatchClassification(payeeNames, {
+        engine,
+        config,
+        chunkSize,
+        signal: controller.signal,
+        onProgress: (completed, total) => post({ type: 'progress', jobId, completed, total }),
+        // Give queued messages a turn between chunks so a cancel is seen before the run ends
+        onChunk: () => new Promise(resolve => setTimeout(resolve, 0))
+      });
+      post({ type: 'completed', jobId, results: result.results });
+    } catch (error) {
+      if (error instanceof BatchRunCancelledError) {
+        post({ type: 'cancelled', jobId, completed: error.completed, total: error.total });
+      } else {
+        post({ type: 'failed', jobId, message: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      running.delete(jobId);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { JobResultStore, PersistedBatchJob } from './types';
+
+const DB_NAME = 'payee-batch-jobs';
+const STORE_NAME = 'jobs';
+
+// Structured clone keeps Date fields intact, matching what IndexedDB stores
+const copyRecord = (record: PersistedBatchJob): PersistedBatchJob => structuredClone(record);
+
+/**
+ * Process-lifetime store used when no persistent storage is available
+ */
+export function createMemoryResultStore(): JobResultStore {
+  const records = new Map<string, PersistedBatchJob>();
+  return {
+    name: 'memory',
+    save: async record => {
+      records.set(record.job.id, copyRecord(record));
+    },
+    load: async jobId => {
+      const record = records.get(jobId);
+      return record && copyRecord(record);
+    },
+    remove: async jobId => {
+      records.delete(jobId);
+    }
+  };
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Browser store keeping one record per job in IndexedDB
+ */
+export function createIndexedDbResultStore(dbName = DB_NAME): JobResultStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'job.id' });
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async (mode: IDBTransactionMode, work: (store: IDBObjectStore) => void) => {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      work(transaction.objectStore(STORE_NAME));
+    });
+  };
+
+  return {
+    name: 'indexeddb',
+    save: record => withStore('readwrite', store => store.put(record)),
+    load: async jobId => {
+      const db = await openDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return requestToPromise(store.get(jobId) as IDBRequest<PersistedBatchJob | undefined>);
+    },
+    remove: jobId => withStore('readwrite', store => store.delete(jobId))
+  };
+}
+
+/**
+ * IndexedDB in the browser, memory otherwise
+ */
+export function createDefaultResultStore(): JobResultStore {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbResultStore() : createMemoryResultStore();
+}
@@ -0,0 +1,82 @@
+import { BatchJob } from '../types/batchJob';
+import { ClassificationConfig, PayeeClassification } from '../types';
+import { ClassificationEngine } from '../classification/batchRunner';
+import { CalibrationModel } from '../classification/calibration/types';
+import { ManualCorrection } from '../classification/review/types';
+import { ReferenceEntry } from '../classification/referenceIndex';
+
+export interface BatchJobRequest {
+  names: string[];
+  engine: ClassificationEngine;
+  description?: string;
+  config?: ClassificationConfig; // Falls back to the engine's config
+}
+
+export interface JobRunRequest {
+  jobId: string;
+  payeeNames: string[];
+  engine: ClassificationEngine;
+  config: ClassificationConfig;
+  chunkSize: number;
+}
+
+/**
+ * Classification state kept in local storage, which a Web Worker cannot read
+ */
+export interface WorkerEnvironment {
+  calibration: CalibrationModel | null;
+  corrections: ManualCorrection[];
+  referenceEntries: ReferenceEntry[];
+}
+
+// Messages sent to a job worker. encodedNames, when set, replaces request.payeeNames
+// so the names can be transferred instead of copied.
+export type JobWorkerRequest =
+  | { type: 'start'; request: JobRunRequest; encodedNames?: ArrayBuffer; environment?: WorkerEnvironment }
+  | { type: 'cancel'; jobId: string };
+
+// Messages posted back by a job worker
+export type JobWorkerEvent =
+  | { type: 'progress'; jobId: string; completed: number; total: number }
+  | { type: 'completed'; jobId: string; results: PayeeClassification[] }
+  | { type: 'cancelled'; jobId: string; completed: number; total: number }
+  | { type: 'failed'; jobId: string; message: string };
+
+/**
+ * Runs one job somewhere (this thread, a Web Worker, a worker thread).
+ * Aborting the signal rejects the run with BatchRunCancelledError.
+ */
+export interface JobExecutor {
+  name: string;
+  run(
+    request: JobRunRequest,
+    onProgress: (completed: number, total: number) => void,
+    signal: AbortSignal
+  ): Promise<PayeeClassification[]>;
+  dispose?(): void;
+}
+
+export interface PersistedBatchJob {
+  job: BatchJob;
+  results?: PayeeClassification[];
+}
+
+/**
+ * Keeps job snapshots and results across page reloads or server restarts
+ */
+export interface JobResultStore {
+  name: string;
+  save(record: PersistedBatchJob): Promise<void>;
+  load(jobId: string): Promise<PersistedBatchJob | undefined>;
+  remove(jobId: string): Promise<void>;
+}
+
+export interface BatchJobEngineOptions {
+  executor?: JobExecutor;
+  store?: JobResultStore;
+  config?: ClassificationConfig;
+  retentionMs?: number; // Completed jobs expire after this long
+  chunkSize?: number; // Names per progress update
+}
+
+export type BatchJobListener = (job: BatchJob) => void;
@@ -0,0 +1,204 @@
+import { BatchProcessingResult, ClassificationConfig, ParsedPerson, PayeeClassification } from '../types';
+import { logger } from '../logger';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '../classification/config';
+import {
+  BatchRunCancelledError,
+  ClassificationEngine,
+  applyNameParts,
+  createBatchRunResult,
+  runBatchClassification
+} from '../classification/batchRunner';
+import { getActiveCalibration } from '../classification/calibration';
+import { loadCorrections } from '../classification/review';
+import { addReferenceResults, getReferenceEntries } from '../classification/referenceIndex';
+import { encodePayeeNames } from './jobWorkerCore';
+import { WorkerConnection, WorkerConnector, canUseWebWorkers, connectWebWorker } from './executors';
+import { WorkerEnvironment } from './types';
+import { isEmptyPayeeName } from '../fileValidation';
+
+export const MAX_POOL_WORKERS = 4;
+
+// Smaller batches are not worth starting another worker for
+export const MIN_NAMES_PER_WORKER = 50;
+
+// Names each worker classifies between progress messages
+export const POOL_PROGRESS_CHUNK_SIZE = 100;
+
+export interface WorkerPoolOptions {
+  engine?: ClassificationEngine;
+  config?: ClassificationConfig;
+  originalFileData?: unknown[]; // One row per payee name; kept on this thread and attached to the results
+  nameParts?: ParsedPerson[]; // Structured names, applied on this thread once the workers finish
+  poolSize?: number; // Defaults to one worker per spare core, up to MAX_POOL_WORKERS
+  chunkSize?: number;
+  signal?: AbortSignal; // Aborting rejects with BatchRunCancelledError and stops every worker
+  onProgress?: (completed: number, total: number) => void;
+  connect?: WorkerConnector | null; // Defaults to module Web Workers; null runs on this thread
+}
+
+interface Shard {
+  start: number;
+  names: string[];
+}
+
+let poolRunCount = 0;
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.min(MAX_POOL_WORKERS, Math.max(1, cores - 1));
+}
+
+function splitIntoShards(payeeNames: string[], poolSize: number): Shard[] {
+  const count = Math.max(1, Math.min(poolSize, Math.ceil(payeeNames.length / MIN_NAMES_PER_WORKER)));
+  const size = Math.ceil(payeeNames.length / count);
+  const shards: Shard[] = [];
+  for (let start = 0; start < payeeNames.length; start += size) {
+    shards.push({ start, names: payeeNames.slice(start, start + size) });
+  }
+  return shards;
+}
+
+/**
+ * Local-storage state the classifiers read, captured for workers that cannot reach it
+ */
+export function captureWorkerEnvironment(config: ClassificationConfig): WorkerEnvironment {
+  return {
+    calibration: config.useCalibration === false ? null : getActiveCalibration(),
+    corrections: loadCorrections(),
+    referenceEntries: config.useFuzzyMatching ? getReferenceEntries() : []
+  };
+}
+
+/**
+ * Classify a batch in a pool of Web Workers, one contiguous shard of names per
+ * worker, so large files do not block the page. Falls back to this thread when
+ * workers are unavailable, and re-runs a shard here if its worker crashes.
+ */
+export async function classifyInWorkerPool(
+  payeeNames: string[],
+  options: WorkerPoolOptions = {}
+): Promise<BatchProcessingResult> {
+  const engine = options.engine || 'v3';
+  const config = options.config || DEFAULT_CLASSIFICATION_CONFIG;
+  const chunkSize = options.chunkSize || POOL_PROGRESS_CHUNK_SIZE;
+  const connect = options.connect === undefined ? (canUseWebWorkers() ? connectWebWorker : null) : options.connect;
+
+  if (!connect || payeeNames.length === 0) {
+    if (!connect) logger.info('[WORKER POOL] Web Workers unavailable, classifying on the main thread');
+    return runBatchClassification(payeeNames, { ...options, engine, config, chunkSize });
+  }
+  if (options.originalFileData && options.originalFileData.length !== payeeNames.length) {
+    throw new Error(`Data alignment error: ${payeeNames.length} payees but ${options.originalFileData.length} original rows`);
+  }
+  if (options.nameParts && options.nameParts.length !== payeeNames.length) {
+    throw new Error(`Data alignment error: ${payeeNames.length} payees but ${options.nameParts.length} name part rows`);
+  }
+  if (options.signal?.aborted) {
+    throw new BatchRunCancelledError(0, payeeNames.length);
+  }
+
+  const startTime = Date.now();
+  const runId = `pool-${++poolRunCount}`;
+  const shards = splitIntoShards(payeeNames, options.poolSize || defaultPoolSize());
+  const environment = captureWorkerEnvironment(config);
+  const completed = shards.map(() => 0);
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  const reportProgress = (shardIndex: number, count: number) => {
+    completed[shardIndex] = count;
+    options.onProgress?.(completed.reduce((sum, value) => sum + value, 0), payeeNames.length);
+  };
+
+  const runOnThisThread = (shard: Shard, shardIndex: number) =>
+    runBatchClassification(shard.names, {
+      engine,
+      config,
+      chunkSize,
+      signal: controller.signal,
+      onProgress: count => reportProgress(shardIndex, count)
+    }).then(result => result.results);
+
+  const runShard = (shard: Shard, shardIndex: number) => new Promise<PayeeClassification[]>((resolve, reject) => {
+    const jobId = `${runId}-${shardIndex}`;
+    let connection: WorkerConnection | null = null;
+    let settled = false;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      connection?.terminate();
+      connection = null;
+      finish();
+    };
+
+    const fallBack = (error: unknown) => settle(() => {
+      logger.warn(`[WORKER POOL] Worker ${shardIndex + 1} failed, classifying its ${shard.names.length} names on the main thread:`, error);
+      runOnThisThread(shard, shardIndex).then(resolve, reject);
+    });
+
+    try {
+      connection = connect(event => {
+        if (event.jobId !== jobId) return;
+        if (event.type === 'progress') {
+          reportProgress(shardIndex, event.completed);
+        } else if (event.type === 'completed') {
+          settle(() => resolve(event.results));
+        } else if (event.type === 'cancelled') {
+          settle(() => reject(new BatchRunCancelledError(event.completed, event.total)));
+        } else {
+          settle(() => reject(new Error(event.message)));
+        }
+      }, fallBack);
+    } catch (error) {
+      fallBack(error);
+      return;
+    }
+
+    controller.signal.addEventListener('abort', () => {
+      connection?.post({ type: 'cancel', jobId });
+      settle(() => reject(new BatchRunCancelledError(completed[shardIndex], shard.names.length)));
+    }, { once: true });
+
+    const encodedNames = encodePayeeNames(shard.names);
+    connection.post({
+      type: 'start',
+      request: { jobId, payeeNames: [], engine, config, chunkSize },
+      encodedNames,
+      environment
+    }, [encodedNames]);
+  });
+
+  logger.info(`[WORKER POOL] Classifying ${payeeNames.length} names in ${shards.length} workers`);
+  options.onProgress?.(0, payeeNames.length);
+
+  let shardResults: PayeeClassification[][];
+  try {
+    shardResults = await Promise.all(shards.map(runShard));
+  } catch (error) {
+    const cancelled = options.signal?.aborted;
+    controller.abort();
+    if (cancelled) {
+      throw new BatchRunCancelledError(completed.reduce((sum, value) => sum + value, 0), payeeNames.length);
+    }
+    throw error;
+  } finally {
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  const merged = shardResults.flatMap((items, shardIndex) => items.map(item => {
+    const rowIndex = shards[shardIndex].start + (item.rowIndex ?? 0);
+    return { ...item, id: `payee-${rowIndex}`, rowIndex, originalData: options.originalFileData?.[rowIndex] };
+  }));
+  const results = options.nameParts ? applyNameParts(merged, options.nameParts) : merged;
+
+  // Workers learn look-alike names in their own memory; keep them for later runs
+  if (config.useFuzzyMatching) {
+    addReferenceResults(results);
+  }
+
+  // Workers skip rows without a payee name; report them like a run on this thread
+  const unclassifiedRows = payeeNames.flatMap((name, rowIndex) => isEmptyPayeeName(name) ? [{ rowIndex, reason: 'empty-name' as const }] : []);
+  return createBatchRunResult(results, payeeNames.length, startTime, options.originalFileData, { unclassifiedRows });
+}
@@ -0,0 +1,247 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { ZodError, ZodTypeAny, z } from 'zod';
+import { BatchProcessingResult } from '../types';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '../classification/config';
+import { CLASSIFICATION_ENGINES, runBatchClassification } from '../classification/batchRunner';
+import { logger } from '../logger';
+import { BatchJobEngine, createInProcessExecutor, createMemoryResultStore } from '../jobs';
+import { createOpenApiDocument } from './openapi';
+import {
+  DEFAULT_MAX_BODY_BYTES,
+  DEFAULT_MAX_JOB_SIZE,
+  DEFAULT_MAX_SYNC_BATCH_SIZE,
+  classifyRequestSchema,
+  createBatchRequestSchema,
+  createJobRequestSchema
+} from './schemas';
+import { ApiErrorBody, ClassificationServerOptions } from './types';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+type RouteHandler = (request: IncomingMessage, params: string[]) => Promise<[number, unknown]>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+function decodePathParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new ApiError(400, 'INVALID_PATH', `Path segment "${value}" is not valid percent-encoding`);
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  response.end(payload);
+}
+
+function readJsonBody(request: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const contentType = request.headers['content-type'] || '';
+  if (!contentType.toLowerCase().startsWith('application/json')) {
+    return Promise.reject(new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Request body must be application/json'));
+  }
+
+  const declaredLength = Number(request.headers['content-length']);
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    return Promise.reject(new ApiError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBytes} bytes`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let rejected = false;
+
+    request.on('data', (chunk: Buffer) => {
+      if (rejected) return;
+      received += chunk.length;
+      if (received > maxBytes) {
+        rejected = true;
+        reject(new ApiError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (rejected) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+      } catch {
+        reject(new ApiError(400, 'INVALID_JSON', 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function parseBody<T extends ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  try {
+    return schema.parse(body);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'Request body does not match the schema',
+        error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })));
+    }
+    throw error;
+  }
+}
+
+const toBatchResponse = (result: Pick<BatchProcessingResult, 'results' | 'successCount' | 'failureCount' | 'processingTime'>) => ({
+  results: result.results.map(({ payeeName, rowIndex, result: classification }) => ({ payeeName, rowIndex, result: classification })),
+  successCount: result.successCount,
+  failureCount: result.failureCount,
+  processingTime: result.processingTime
+});
+
+/**
+ * Node HTTP server exposing single, synchronous batch and async job classification
+ */
+export function createClassificationServer(options: ClassificationServerOptions = {}): Server & { jobs: BatchJobEngine } {
+  const limits = {
+    maxBodyBytes: options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+    maxSyncBatchSize: options.maxSyncBatchSize ?? DEFAULT_MAX_SYNC_BATCH_SIZE,
+    maxJobSize: options.maxJobSize ?? DEFAULT_MAX_JOB_SIZE
+  };
+  const config = options.config || DEFAULT_CLASSIFICATION_CONFIG;
+  const jobs = new BatchJobEngine({
+    config,
+    retentionMs: options.jobRetentionMs,
+    executor: options.executor || createInProcessExecutor(),
+    store: options.store || createMemoryResultStore()
+  });
+  const openApiDocument = createOpenApiDocument(limits);
+  const batchSchema = createBatchRequestSchema(limits.maxSyncBatchSize);
+  const jobSchema = createJobRequestSchema(limits.maxJobSize);
+
+  const findJob = async (jobId: string) => {
+    const job = await jobs.lookup(jobId);
+    if (!job) throw new ApiError(404, 'JOB_NOT_FOUND', `No batch job with id ${jobId}`);
+    return job;
+  };
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      pattern: /^\/health$/,
+      handler: async () => [200, { status: 'ok', engines: CLASSIFICATION_ENGINES }]
+    },
+    {
+      method: 'GET',
+      pattern: /^\/openapi\.json$/,
+      handler: async () => [200, openApiDocument]
+    },
+    {
+      method: 'POST',
+      pattern: /^\/v1\/classify$/,
+      handler: async request => {
+        const { name, engine } = parseBody(classifyRequestSchema, await readJsonBody(request, limits.maxBodyBytes));
+        const result = await runBatchClassification([name], { engine, config });
+        const [{ payeeName, rowIndex, result: classification }] = result.results;
+        return [200, { payeeName, rowIndex, result: classification }];
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/v1\/classify\/batch$/,
+      handler: async request => {
+        const { names, engine } = parseBody(batchSchema, await readJsonBody(request, limits.maxBodyBytes));
+        return [200, toBatchResponse(await runBatchClassification(names, { engine, config }))];
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/v1\/batches$/,
+      handler: async () => [200, { data: jobs.list() }]
+    },
+    {
+      method: 'POST',
+      pattern: /^\/v1\/batches$/,
+      handler: async request => {
+        const body = parseBody(jobSchema, await readJsonBody(request, limits.maxBodyBytes));
+        return [202, jobs.submit({ names: body.names, engine: body.engine, description: body.description })];
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/v1\/batches\/([^/]+)$/,
+      handler: async (_request, [jobId]) => [200, await findJob(jobId)]
+    },
+    {
+      method: 'GET',
+      pattern: /^\/v1\/batches\/([^/]+)\/results$/,
+      handler: async (_request, [jobId]) => {
+        const job = await findJob(jobId);
+        if (job.status === 'expired') {
+          throw new ApiError(410, 'JOB_EXPIRED', `Results for ${jobId} have expired`);
+        }
+        const results = await jobs.results(jobId);
+        if (job.status !== 'completed' || !results) {
+          throw new ApiError(409, 'JOB_NOT_COMPLETED', `Batch job ${jobId} is ${job.status}`);
+        }
+        return [200, toBatchResponse({
+          results,
+          successCount: job.request_counts.completed,
+          failureCount: job.request_counts.failed,
+          processingTime: ((job.completed_at ?? job.created_at) - (job.in_progress_at ?? job.created_at)) * 1000
+        })];
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/v1\/batches\/([^/]+)\/cancel$/,
+      handler: async (_request, [jobId]) => {
+        const job = await findJob(jobId);
+        return [200, jobs.cancel(jobId) || job];
+      }
+    }
+  ];
+
+  const server = createServer(async (request, response) => {
+    const path = new URL(request.url || '/', 'http://localhost').pathname;
+    const matching = routes.filter(route => route.pattern.test(path));
+    const route = matching.find(candidate => candidate.method === request.method);
+
+    try {
+      if (!route) {
+        throw matching.length > 0
+          ? new ApiError(405, 'METHOD_NOT_ALLOWED', `${request.method} is not supported for ${path}`)
+          : new ApiError(404, 'NOT_FOUND', `No route for ${path}`);
+      }
+      const params = path.match(route.pattern)?.slice(1).map(decodePathParam) || [];
+      const [status, body] = await route.handler(request, params);
+      sendJson(response, status, body);
+    } catch (error) {
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : 'Unexpected error');
+      if (apiError.status >= 500) {
+        logger.error(`[API SERVER] ${request.method} ${path} failed:`, error);
+      }
+      const body: ApiErrorBody = {
+        error: { code: apiError.code, message: apiError.message, details: apiError.details }
+      };
+      // Stop reading an oversized body once the error has been sent
+      if (apiError.status === 413) response.setHeader('Connection', 'close');
+      sendJson(response, apiError.status, body);
+    }
+  });
+
+  return Object.assign(server, { jobs });
+}
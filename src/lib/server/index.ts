@@ -0,0 +1,6 @@
+// Main export file for the Node classification API server
+export { createClassificationServer, ApiError } from './classificationServer';
+export { createWorkerThreadExecutor } from './workerThreadExecutor';
+export { createOpenApiDocument } from './openapi';
+export * from './schemas';
+export * from './types';
@@ -0,0 +1,15 @@
+// Node worker thread entry that runs batch jobs off the server's event loop
+import { parentPort } from 'worker_threads';
+import { createJobWorkerHandler } from '../jobs/jobWorkerCore';
+import { JobWorkerEvent, JobWorkerRequest } from '../jobs/types';
+
+if (!parentPort) {
+  throw new Error('jobWorkerThread must be started as a worker thread');
+}
+
+const port = parentPort;
+const handle = createJobWorkerHandler((event: JobWorkerEvent) => port.postMessage(event));
+
+port.on('message', (message: JobWorkerRequest) => {
+  void handle(message);
+});
@@ -0,0 +1,232 @@
+import { CLASSIFICATION_ENGINES } from '../classification/batchRunner';
+import { ENTITY_CLASSIFICATIONS } from '../classification/config';
+import { EMPTY_PAYEE_NAME } from '../fileValidation';
+import { MAX_PAYEE_NAME_LENGTH } from './schemas';
+
+interface OpenApiLimits {
+  maxBodyBytes: number;
+  maxSyncBatchSize: number;
+  maxJobSize: number;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: object) => ({ 'application/json': { schema } });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) });
+
+const payeeNameSchema = { type: 'string', minLength: 1, maxLength: MAX_PAYEE_NAME_LENGTH, not: { const: EMPTY_PAYEE_NAME } };
+
+const engineSchema = { type: 'string', enum: [...CLASSIFICATION_ENGINES], default: 'v3' };
+
+/**
+ * OpenAPI 3.0 description of the classification server, with the configured limits
+ */
+export function createOpenApiDocument(limits: OpenApiLimits) {
+  const jobIdParameter = { name: 'jobId', in: 'path', required: true, schema: { type: 'string' } };
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Payee Classification API',
+      version: '1.0.0',
+      description: `Local payee classification service. Request bodies are limited to ${limits.maxBodyBytes} bytes.`
+    },
+    paths: {
+      '/health': {
+        get: {
+          summary: 'Liveness check',
+          responses: { 200: { description: 'Server is running', content: jsonContent(ref('Health')) } }
+        }
+      },
+      '/openapi.json': {
+        get: {
+          summary: 'This document',
+          responses: { 200: { description: 'OpenAPI document' } }
+        }
+      },
+      '/v1/classify': {
+        post: {
+          summary: 'Classify a single payee name',
+          requestBody: { required: true, content: jsonContent(ref('ClassifyRequest')) },
+          responses: {
+            200: { description: 'Classification', content: jsonContent(ref('PayeeResult')) },
+            400: errorResponse('Invalid request'),
+            413: errorResponse('Request body too large'),
+            415: errorResponse('Content type is not application/json')
+          }
+        }
+      },
+      '/v1/classify/batch': {
+        post: {
+          summary: `Classify up to ${limits.maxSyncBatchSize} names and wait for the results`,
+          requestBody: { required: true, content: jsonContent(ref('BatchRequest')) },
+          responses: {
+            200: { description: 'Classifications in request order', content: jsonContent(ref('BatchResponse')) },
+            400: errorResponse('Invalid request'),
+            413: errorResponse('Request body too large'),
+            415: errorResponse('Content type is not application/json')
+          }
+        }
+      },
+      '/v1/batches': {
+        get: {
+          summary: 'List batch jobs',
+          responses: {
+            200: {
+              description: 'Known jobs',
+              content: jsonContent({ type: 'object', properties: { data: { type: 'array', items: ref('BatchJob') } } })
+            }
+          }
+        },
+        post: {
+          summary: `Start an asynchronous job for up to ${limits.maxJobSize} names`,
+          requestBody: { required: true, content: jsonContent(ref('JobRequest')) },
+          responses: {
+            202: { description: 'Job accepted', content: jsonContent(ref('BatchJob')) },
+            400: errorResponse('Invalid request'),
+            413: errorResponse('Request body too large'),
+            415: errorResponse('Content type is not application/json')
+          }
+        }
+      },
+      '/v1/batches/{jobId}': {
+        get: {
+          summary: 'Job status',
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: 'Job', content: jsonContent(ref('BatchJob')) },
+            404: errorResponse('Unknown job')
+          }
+        }
+      },
+      '/v1/batches/{jobId}/results': {
+        get: {
+          summary: 'Results of a completed job',
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: 'Classifications in request order', content: jsonContent(ref('BatchResponse')) },
+            404: errorResponse('Unknown job'),
+            409: errorResponse('Job has not completed'),
+            410: errorResponse('Job results have expired')
+          }
+        }
+      },
+      '/v1/batches/{jobId}/cancel': {
+        post: {
+          summary: 'Cancel a queued or running job',
+          parameters: [jobIdParameter],
+          responses: {
+            200: { description: 'Job after cancellation', content: jsonContent(ref('BatchJob')) },
+            404: errorResponse('Unknown job')
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        Health: {
+          type: 'object',
+          required: ['status'],
+          properties: { status: { type: 'string', enum: ['ok'] }, engines: { type: 'array', items: engineSchema } }
+        },
+        ClassifyRequest: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['name'],
+          properties: { name: payeeNameSchema, engine: engineSchema }
+        },
+        BatchRequest: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['names'],
+          properties: {
+            names: { type: 'array', items: payeeNameSchema, minItems: 1, maxItems: limits.maxSyncBatchSize },
+            engine: engineSchema
+          }
+        },
+        JobRequest: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['names'],
+          properties: {
+            names: { type: 'array', items: payeeNameSchema, minItems: 1, maxItems: limits.maxJobSize },
+            engine: engineSchema,
+            description: { type: 'string', maxLength: 500 }
+          }
+        },
+        ClassificationResult: {
+          type: 'object',
+          required: ['classification', 'confidence', 'reasoning', 'processingTier'],
+          properties: {
+            classification: { type: 'string', enum: [...ENTITY_CLASSIFICATIONS] },
+            confidence: { type: 'number', minimum: 0, maximum: 100 },
+            rawConfidence: { type: 'number' },
+            reasoning: { type: 'string' },
+            processingTier: { type: 'string' },
+            processingMethod: { type: 'string' },
+            matchingRules: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        PayeeResult: {
+          type: 'object',
+          required: ['payeeName', 'rowIndex', 'result'],
+          properties: {
+            payeeName: { type: 'string' },
+            rowIndex: { type: 'integer' },
+            result: ref('ClassificationResult')
+          }
+        },
+        BatchResponse: {
+          type: 'object',
+          required: ['results'],
+          properties: {
+            results: { type: 'array', items: ref('PayeeResult') },
+            successCount: { type: 'integer' },
+            failureCount: { type: 'integer' },
+            processingTime: { type: 'integer' }
+          }
+        },
+        BatchJob: {
+          type: 'object',
+          required: ['id', 'status', 'created_at', 'request_counts'],
+          properties: {
+            id: { type: 'string' },
+            status: {
+              type: 'string',
+              enum: ['validating', 'in_progress', 'finalizing', 'completed', 'failed', 'expired', 'cancelled']
+            },
+            created_at: { type: 'integer', description: 'Unix seconds' },
+            in_progress_at: { type: 'integer' },
+            finalizing_at: { type: 'integer' },
+            completed_at: { type: 'integer' },
+            failed_at: { type: 'integer' },
+            expired_at: { type: 'integer' },
+            request_counts: {
+              type: 'object',
+              required: ['total', 'completed', 'failed'],
+              properties: {
+                total: { type: 'integer' },
+                completed: { type: 'integer' },
+                failed: { type: 'integer' }
+              }
+            },
+            metadata: { type: 'object', properties: { description: { type: 'string' } } },
+            errors: { type: 'array', items: { type: 'object' } }
+          }
+        },
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: { code: { type: 'string' }, message: { type: 'string' }, details: {} }
+            }
+          }
+        }
+      }
+    }
+  };
+}
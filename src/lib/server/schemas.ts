@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { CLASSIFICATION_ENGINES } from '../classification/batchRunner';
+import { EMPTY_PAYEE_NAME, isEmptyPayeeName } from '../fileValidation';
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+export const DEFAULT_MAX_SYNC_BATCH_SIZE = 100;
+export const DEFAULT_MAX_JOB_SIZE = 50000;
+export const MAX_PAYEE_NAME_LENGTH = 500;
+
+// The runner never classifies blank names or the file placeholder, so they are rejected up front
+const payeeName = z.string().trim().min(1, 'Payee name must not be empty').max(MAX_PAYEE_NAME_LENGTH)
+  .refine(name => !isEmptyPayeeName(name), `Payee name must not be the ${EMPTY_PAYEE_NAME} placeholder`);
+const engine = z.enum(CLASSIFICATION_ENGINES).default('v3');
+
+export const classifyRequestSchema = z.object({
+  name: payeeName,
+  engine
+}).strict();
+
+/**
+ * Batch schemas take their size limit from the server options
+ */
+export const createBatchRequestSchema = (maxSize: number) => z.object({
+  names: z.array(payeeName).min(1).max(maxSize, `At most ${maxSize} names per request`),
+  engine
+}).strict();
+
+export const createJobRequestSchema = (maxSize: number) => z.object({
+  names: z.array(payeeName).min(1).max(maxSize, `At most ${maxSize} names per job`),
+  engine,
+  description: z.string().max(500).optional()
+}).strict();
+
+export type ClassifyRequest = z.infer<typeof classifyRequestSchema>;
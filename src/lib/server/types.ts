@@ -0,0 +1,20 @@
+import { ClassificationConfig } from '../types';
+import { JobExecutor, JobResultStore } from '../jobs/types';
+
+export interface ClassificationServerOptions {
+  maxBodyBytes?: number; // Larger request bodies are rejected with 413
+  maxSyncBatchSize?: number; // Larger synchronous batches must use the job endpoints
+  maxJobSize?: number;
+  jobRetentionMs?: number; // Finished jobs expire after this long
+  config?: ClassificationConfig;
+  executor?: JobExecutor; // Where async jobs run; defaults to this thread
+  store?: JobResultStore; // Where finished jobs are kept; defaults to memory
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
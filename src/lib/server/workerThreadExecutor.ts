@@ -0,0 +1,25 @@
+import { Worker } from 'worker_threads';
+import { createWorkerExecutor } from '../jobs/executors';
+import { JobExecutor, JobWorkerEvent } from '../jobs/types';
+
+/**
+ * Node executor running jobs on a worker thread. The worker inherits the parent's
+ * execArgv so a TypeScript loader used to start the server also applies to it.
+ */
+export function createWorkerThreadExecutor(
+  entry: URL = new URL('./jobWorkerThread.ts', import.meta.url)
+): JobExecutor {
+  return createWorkerExecutor('worker-thread', (onEvent, onError) => {
+    const worker = new Worker(entry, { execArgv: process.execArgv });
+    worker.on('message', (event: JobWorkerEvent) => onEvent(event));
+    worker.on('error', onError);
+    worker.on('exit', code => {
+      if (code !== 0) onError(new Error(`Batch job worker exited with code ${code}`));
+    });
+    worker.unref();
+    return {
+      post: message => worker.postMessage(message),
+      terminate: () => void worker.terminate()
+    };
+  });
+}
@@ -1,13 +1,57 @@
+import { ExclusionProfile, ExclusionProfileRef, ExclusionRule } from './classification/exclusion/types';
+
+
+export type EntityClassification = 'Business' | 'Individual' | 'Government' | 'Trust/Estate' | 'Non-Profit';
 
 export interface ClassificationResult {
-  classification: 'Business' | 'Individual';
+  classification: EntityClassification;
   confidence: number;
   reasoning: string;
-  processingTier: 'Rule-Based' | 'NLP-Based' | 'AI-Assisted' | 'AI-Powered' | 'Excluded' | 'Failed' | 'Advanced-Weighted' | 'Deterministic' | 'Deterministic-Primary' | 'Deterministic-Fallback' | 'Rule-Based-Backup' | 'Rule-Based-Final' | 'Error-Fallback' | 'Deterministic-Enhanced';
+  processingTier: 'Rule-Based' | 'NLP-Based' | 'AI-Assisted' | 'AI-Powered' | 'Excluded' | 'Failed' | 'Advanced-Weighted' | 'Deterministic' | 'Deterministic-Primary' | 'Deterministic-Fallback' | 'Rule-Based-Backup' | 'Rule-Based-Final' | 'Error-Fallback' | 'Deterministic-Enhanced' | 'Manual-Override';
   matchingRules?: string[];
   similarityScores?: SimilarityScores;
   keywordExclusion?: KeywordExclusionResult;
   processingMethod?: string;
+  rawConfidence?: number; // Stage score before confidence calibration was applied
+  explanation?: ClassificationExplanation;
+}
+
+export type ExplanationStepOutcome = 'accepted' | 'below-cutoff' | 'no-opinion' | 'skipped' | 'error';
+
+export type ExplanationStopReason = 'accepted' | 'fallback' | 'error' | 'empty-input' | 'manual-override';
+
+/**
+ * One pipeline stage that was tried for a name, with its raw verdict
+ */
+export interface ExplanationStep {
+  stageId: string;
+  label: string;
+  outcome: ExplanationStepOutcome;
+  cutoff: number;
+  classification?: EntityClassification;
+  confidence?: number; // Stage score before calibration
+  processingTier?: ClassificationResult['processingTier'];
+  reasoning?: string;
+  matchingRules?: string[];
+  error?: string;
+}
+
+export interface ExplanationFeatures {
+  deterministic: string[]; // Flags from generateFeatureFlags that are set
+  advanced: string[]; // Flags from the advanced classifier's ClassifierFeatures that are set
+  values: Record<string, number>; // Numeric features such as token_count
+}
+
+/**
+ * Step-by-step trace of how a result was reached
+ */
+export interface ClassificationExplanation {
+  pipeline: string;
+  steps: ExplanationStep[];
+  features: ExplanationFeatures;
+  stopReason: ExplanationStopReason;
+  stoppedAt?: string; // Id of the accepting stage
+  summary: string;
 }
 
 export interface SimilarityScores {
@@ -23,6 +67,7 @@ export interface KeywordExclusionResult {
   matchedKeywords: string[];
   confidence: number;
   reasoning: string;
+  matchedRule?: ExclusionRule; // Rule that excluded the name, with its match mode and category
 }
 
 export interface PayeeClassification {
@@ -32,6 +77,28 @@ export interface PayeeClassification {
   timestamp: Date;
   originalData?: any; // For preserving original file data
   rowIndex?: number; // For maintaining order from original file
+  exclusionProfile?: ExclusionProfileRef; // Keyword exclusion profile the batch ran with
+  sheetName?: string; // Workbook sheet the row came from, when several sheets were classified
+  sourceRowIndex?: number; // Data row of the uploaded file or sheet, counted without blank rows, when rows were left out
+}
+
+export interface SourceWorkbookSheet {
+  name: string;
+  rows?: unknown[][]; // Cells of a sheet that was not classified, copied to the export unchanged
+}
+
+// Why a row has no classification: its payee name was empty, or no result came back for it
+export type UnclassifiedReason = 'empty-name' | 'missing-result';
+
+export interface UnclassifiedRow {
+  rowIndex: number;
+  reason: UnclassifiedReason;
+}
+
+// The uploaded file a batch was read from, kept so results can be written into a copy of it
+export interface SourceUpload {
+  file: File;
+  sheetName?: string; // Sheet a single-sheet workbook run read from
 }
 
 export interface BatchProcessingResult {
@@ -41,6 +108,8 @@ export interface BatchProcessingResult {
   processingTime?: number;
   originalFileData?: any[]; // Preserve original file structure
   enhancedStats?: EnhancedBatchStatistics;
+  sourceSheets?: SourceWorkbookSheet[]; // Sheets of the uploaded workbook, so the export keeps its structure
+  unclassifiedRows?: UnclassifiedRow[]; // Rows the run left out on purpose, e.g. without a payee name
 }
 
 export interface ParsedPerson {
@@ -75,12 +144,26 @@ export interface ClassificationConfig {
   maxRetries?: number;
   useLLMClassification?: boolean; // NEW: Enable/disable LLM classification
   llmConfidenceThreshold?: number; // NEW: Minimum confidence for LLM results
+  pipeline?: PipelineConfig; // Stage order and cutoff overrides for the classification pipeline
+  useCalibration?: boolean; // Apply the active confidence calibration (default true when one is saved)
+  usePersistentCache?: boolean; // Reuse results cached by earlier batches (default true)
+  exclusionProfile?: ExclusionProfile; // Keyword exclusion rules for this run instead of the bundled (V3) or active (V2) rules
+}
+
+export interface PipelineConfig {
+  preset?: string; // Named preset to start from (v1, v2, v3, v4, deterministic, ensemble)
+  stageOrder?: string[]; // Explicit stage order by id; unlisted stages are dropped
+  disabledStages?: string[]; // Stage ids to skip
+  cutoffs?: Record<string, number>; // Per-stage minimum confidence overrides
 }
 
 export interface EnhancedBatchStatistics {
   totalProcessed: number;
   businessCount: number;
   individualCount: number;
+  governmentCount: number;
+  trustEstateCount: number;
+  nonProfitCount: number;
   excludedCount: number;
   failedCount: number;
   averageConfidence: number;
@@ -90,7 +173,12 @@ export interface EnhancedBatchStatistics {
   processingTierCounts: Record<string, number>;
   processingTime: number;
   deduplicationSavings?: number;
-  cacheSavings?: number;
+  cacheSavings?: number; // Names answered from the persistent classification cache
+  cacheStats?: {
+    hits: number;
+    misses: number;
+    hitRate: number;
+  };
   retryCount?: number;
   similarityStats?: {
     averageLevenshtein: number;
@@ -1,5 +1,9 @@
+import { ClassificationConfig, ClassificationResult, UnclassifiedReason } from '../types';
+import { isEmptyPayeeName } from '../fileValidation';
+import { ClassificationEngine } from '../classification/batchRunner';
+import { getBatchJobEngine } from '../jobs/batchJobEngine';
 
-// Offline batch job types - no OpenAI dependency
+// Batch job types - jobs run locally on the batch job engine, no OpenAI dependency
 export interface BatchJob {
   id: string;
   status: 'validating' | 'in_progress' | 'finalizing' | 'completed' | 'failed' | 'expired' | 'cancelled';
@@ -20,60 +24,78 @@ export interface BatchJob {
   errors?: any[];
 }
 
-// Mock batch job functions for offline operation
-export function createMockBatchJob(payeeNames: string[], description?: string): BatchJob {
-  const jobId = `batch_offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  return {
-    id: jobId,
-    status: 'completed', // Immediately mark as completed for offline processing
-    created_at: Math.floor(Date.now() / 1000),
-    completed_at: Math.floor(Date.now() / 1000),
-    request_counts: {
-      total: payeeNames.length,
-      completed: payeeNames.length,
-      failed: 0
-    },
-    metadata: {
-      description: description || `Offline classification of ${payeeNames.length} payees`
-    }
-  };
+export interface CreateBatchJobOptions {
+  description?: string;
+  engine?: ClassificationEngine;
+  config?: ClassificationConfig;
 }
 
-export function checkBatchJobStatus(jobId: string): Promise<BatchJob> {
-  // For offline mode, just return a mock completed status
-  return Promise.resolve({
-    id: jobId,
-    status: 'completed',
-    created_at: Math.floor(Date.now() / 1000),
-    completed_at: Math.floor(Date.now() / 1000),
-    request_counts: {
-      total: 0,
-      completed: 0,
-      failed: 0
-    }
+export type BatchJobResult =
+  | { status: 'success'; classification: ClassificationResult['classification']; confidence: number; reasoning: string; result: ClassificationResult }
+  | { status: 'unclassified'; reason: UnclassifiedReason } // Rows the job skipped, such as those without a payee name
+  | { status: 'error'; error: string };
+
+const notFound = (jobId: string) => new Error(`Batch job ${jobId} not found (404)`);
+
+/**
+ * Queue a classification job; it starts in 'validating' and runs in the background
+ */
+export async function createBatchJob(payeeNames: string[], options: CreateBatchJobOptions = {}): Promise<BatchJob> {
+  return getBatchJobEngine().submit({
+    names: payeeNames,
+    engine: options.engine || 'v3',
+    description: options.description,
+    config: options.config
   });
 }
 
-export function cancelBatchJob(jobId: string): Promise<BatchJob> {
-  return Promise.resolve({
-    id: jobId,
-    status: 'cancelled',
-    created_at: Math.floor(Date.now() / 1000),
-    request_counts: {
-      total: 0,
-      completed: 0,
-      failed: 0
-    }
-  });
+export async function checkBatchJobStatus(jobId: string): Promise<BatchJob> {
+  const job = await getBatchJobEngine().lookup(jobId);
+  if (!job) throw notFound(jobId);
+  return job;
+}
+
+export async function cancelBatchJob(jobId: string): Promise<BatchJob> {
+  const engine = getBatchJobEngine();
+  const job = engine.cancel(jobId) || await engine.lookup(jobId);
+  if (!job) throw notFound(jobId);
+  return job;
 }
 
-export function getBatchJobResults(job: any, payeeNames: string[], originalRowIndexes: number[]): Promise<any[]> {
-  // Return mock results for offline processing
-  return Promise.resolve(payeeNames.map((name, index) => ({
-    status: 'success',
-    classification: 'Individual',
-    confidence: 75,
-    reasoning: 'Offline rule-based classification'
-  })));
+/**
+ * Live status updates for jobs running in this page
+ */
+export function subscribeToBatchJobs(listener: (job: BatchJob) => void): () => void {
+  return getBatchJobEngine().subscribe(listener);
+}
+
+/**
+ * Results of a completed job, one per payee name in submission order. Results are
+ * matched to names by rowIndex; names the job skipped come back unclassified.
+ */
+export async function getBatchJobResults(job: BatchJob, payeeNames: string[], originalRowIndexes: number[]): Promise<BatchJobResult[]> {
+  const current = await checkBatchJobStatus(job.id);
+  if (current.status !== 'completed') {
+    throw new Error(`Batch job ${job.id} is ${current.status}; results are only available once it has completed`);
+  }
+
+  const results = await getBatchJobEngine().results(job.id);
+  if (!results) throw notFound(job.id);
+  const byRow = new Map(results.map((item, position) => [item.rowIndex ?? position, item]));
+  if (results.length > payeeNames.length || [...byRow.keys()].some(rowIndex => rowIndex >= payeeNames.length)) {
+    throw new Error(`Batch job ${job.id} returned ${results.length} results for ${payeeNames.length} payees`);
+  }
+
+  return originalRowIndexes.map(index => {
+    const item = byRow.get(index);
+    if (!item && isEmptyPayeeName(payeeNames[index])) return { status: 'unclassified', reason: 'empty-name' };
+    if (!item) return { status: 'error', error: `No result for row ${index}` };
+    return {
+      status: 'success',
+      classification: item.result.classification,
+      confidence: item.result.confidence,
+      reasoning: item.result.reasoning,
+      result: item.result
+    };
+  });
 }
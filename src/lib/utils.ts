@@ -1,7 +1,7 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { PayeeClassification, ClassificationResult, BatchProcessingResult } from "@/lib/types"
-import { exportResultsWithOriginalDataV3 } from "@/lib/classification/exporters"
+import { createExportFile, ExportFile, ExportFileFormat, ExportFileOptions } from "@/lib/classification/exporters"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -33,7 +33,19 @@ export const formatDate = (date: Date): string => {
   }).format(date);
 };
 
-export const downloadCSV = (results: PayeeClassification[]) => {
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadExportFile = (file: ExportFile, baseName: string) =>
+  downloadBlob(new Blob([file.content], { type: file.mimeType }), `${baseName}.${file.extension}`);
+
+export const downloadResults = (results: PayeeClassification[], format: ExportFileFormat, options: ExportFileOptions = {}) => {
   if (results.length === 0) return;
 
   const summary: BatchProcessingResult = {
@@ -43,32 +55,5 @@ export const downloadCSV = (results: PayeeClassification[]) => {
     originalFileData: results.map(r => r.originalData)
   };
 
-  const exportRows = exportResultsWithOriginalDataV3(summary, true);
-
-  const headers = Object.keys(exportRows[0]);
-  const csvLines = [
-    headers.join(','),
-    ...exportRows.map(row =>
-      headers.map(h => `"${(row[h] ?? '').toString().replace(/"/g, '""')}"`).join(',')
-    )
-  ];
-
-  const blob = new Blob([csvLines.join('\n')], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = 'classification-results.csv';
-  a.click();
-  URL.revokeObjectURL(url);
-};
-
-export const downloadJSON = (results: PayeeClassification[]) => {
-  const json = JSON.stringify(results, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = 'classification-results.json';
-  a.click();
-  URL.revokeObjectURL(url);
+  downloadExportFile(createExportFile(summary, format, { includeSummary: true, ...options }), 'classification-results');
 };
@@ -2,11 +2,15 @@
 import { useState } from "react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import BatchClassificationForm from "@/components/BatchClassificationForm";
+import EvaluationPanel from "@/components/EvaluationPanel";
+import BatchComparisonPanel from "@/components/BatchComparisonPanel";
 import { PayeeClassification, BatchProcessingResult } from "@/lib/types";
 
 const Index = () => {
   const [classificationResults, setClassificationResults] = useState<PayeeClassification[]>([]);
   const [lastProcessingSummary, setLastProcessingSummary] = useState<BatchProcessingResult | null>(null);
+  // Bumped when a finished run is stored, so the comparison lists it
+  const [storedRunCount, setStoredRunCount] = useState(0);
 
   const handleClassificationComplete = (results: PayeeClassification[], summary?: BatchProcessingResult) => {
     setClassificationResults(results);
@@ -28,7 +32,16 @@ const Index = () => {
 
         <BatchClassificationForm 
           onComplete={handleClassificationComplete}
+          onRunStored={() => setStoredRunCount(count => count + 1)}
         />
+
+        <div className="mt-6">
+          <BatchComparisonPanel refreshKey={storedRunCount} />
+        </div>
+
+        <div className="mt-6">
+          <EvaluationPanel />
+        </div>
       </div>
     </div>
   );
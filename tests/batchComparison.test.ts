@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareBatchRuns,
+  comparisonToCsv,
+  createMemoryRunStore,
+  filterComparisonRows,
+  parseResultFile,
+  saveBatchRun
+} from '@/lib/classification/comparison';
+import { exportResultsWithOriginalDataV3, exportRowsToCsv } from '@/lib/classification/exporters';
+import { payeeResult } from './helpers/payeeResults';
+
+const before = [
+  payeeResult('Acme LLC', 0, { confidence: 90 }),
+  payeeResult('Jordan Smith', 1, { confidence: 60 }),
+  payeeResult('City of Austin', 2, { classification: 'Government', confidence: 95 }),
+  payeeResult('Old Vendor', 3, { confidence: 80 })
+];
+const after = [
+  payeeResult('Acme LLC', 0, { confidence: 90 }),
+  payeeResult('Jordan Smith', 1, { classification: 'Individual', confidence: 85, processingTier: 'Deterministic' }),
+  payeeResult('City of Austin', 2, { classification: 'Government', confidence: 93 })
+];
+
+describe('batch comparison', () => {
+  it('lists class flips, confidence and tier changes and the statistics shift', () => {
+    const comparison = compareBatchRuns({ results: before }, { results: after });
+    expect(comparison.changeCounts).toEqual({ classification: 1, confidence: 2, tier: 1, added: 0, removed: 1 });
+    expect(comparison.unchangedRows).toBe(1);
+    expect(comparison.rows[1]).toMatchObject({
+      payeeName: 'Jordan Smith',
+      before: { confidence: 60, processingTier: 'Rule-Based' },
+      after: { classification: 'Individual', confidence: 85, processingTier: 'Deterministic' },
+      confidenceDelta: 25,
+      changes: ['classification', 'confidence', 'tier']
+    });
+
+    const shift = Object.fromEntries(comparison.statistics.map(item => [item.metric, item]));
+    expect(shift['Business']).toMatchObject({ before: 3, after: 1, delta: -2 });
+    expect(shift['Individual'].delta).toBe(1);
+    expect(shift['Tier: Deterministic']).toMatchObject({ before: 0, after: 1, delta: 1 });
+
+    expect(filterComparisonRows(comparison.rows).map(row => row.payeeName)).toEqual(['Jordan Smith', 'City of Austin', 'Old Vendor']);
+    expect(filterComparisonRows(comparison.rows, { changes: ['classification'] }).map(row => row.payeeName)).toEqual(['Jordan Smith']);
+    expect(filterComparisonRows(comparison.rows, { minConfidenceDelta: 5 }).map(row => row.payeeName)).toEqual(['Jordan Smith']);
+    expect(filterComparisonRows(comparison.rows, { includeUnchanged: true, search: 'acme' })).toHaveLength(1);
+
+    expect(comparisonToCsv(comparison.rows.slice(1, 2))).toBe(
+      'Payee_Name,Row_Index,Changes,Before_Classification,After_Classification,Before_Confidence,After_Confidence,Confidence_Delta,Before_Processing_Tier,After_Processing_Tier\n' +
+      'Jordan Smith,1,classification; confidence; tier,Business,Individual,60,85,25,Rule-Based,Deterministic\n'
+    );
+  });
+
+  it('matches rows by payee name when the rows moved', () => {
+    const reordered = [
+      payeeResult('City of Austin', 0, { classification: 'Government', confidence: 95 }),
+      payeeResult('ACME, LLC', 1, { confidence: 90 })
+    ];
+    const comparison = compareBatchRuns({ results: before.slice(0, 1) }, { results: reordered }, { matchBy: 'payee-name' });
+    expect(comparison.unchangedRows).toBe(1);
+    expect(comparison.changeCounts.added).toBe(1);
+  });
+
+  it('reads an exported result file back as a run', () => {
+    const exportRows = exportResultsWithOriginalDataV3({
+      results: before,
+      successCount: 4,
+      failureCount: 0,
+      originalFileData: before.map(item => ({ Vendor: item.payeeName, Amount: 10 }))
+    });
+    const fromFile = parseResultFile(exportRowsToCsv(exportRows), 'results.csv');
+    expect(fromFile.map(item => [item.payeeName, item.result.classification, item.result.confidence, item.rowIndex]))
+      .toEqual(before.map(item => [item.payeeName, item.result.classification, item.result.confidence, item.rowIndex]));
+    expect(compareBatchRuns({ results: fromFile }, { results: before }).unchangedRows).toBe(4);
+    expect(() => parseResultFile('', 'results.parquet')).toThrow('Parquet');
+  });
+
+  it('keeps the newest stored runs', async () => {
+    const store = createMemoryRunStore();
+    for (const day of [1, 2, 3]) {
+      await saveBatchRun({ id: `run-${day}`, label: `Run ${day}`, createdAt: `2024-03-0${day}T00:00:00Z`, results: after }, store, 2);
+    }
+    expect((await store.list()).map(run => run.id)).toEqual(['run-3', 'run-2']);
+    expect((await store.load('run-3'))?.results[1].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('stores only what a comparison reads and skips runs over the row cap', async () => {
+    const store = createMemoryRunStore();
+    const full = after.map(item => ({ ...item, sheetName: 'Vendors', originalData: { Vendor: item.payeeName, Notes: 'x'.repeat(100) } }));
+    expect(await saveBatchRun({ id: 'run-1', label: 'Run 1', createdAt: '2024-03-01T00:00:00Z', results: full }, store)).toBe(true);
+    const [stored] = (await store.load('run-1'))?.results ?? [];
+    expect(stored).not.toHaveProperty('originalData');
+    expect(stored).toMatchObject({ payeeName: 'Acme LLC', rowIndex: 0, sheetName: 'Vendors', result: { confidence: 90, processingTier: 'Rule-Based', reasoning: '' } });
+
+    expect(await saveBatchRun({ id: 'run-2', label: 'Run 2', createdAt: '2024-03-02T00:00:00Z', results: full }, store, 10, 2)).toBe(false);
+    expect((await store.list()).map(run => run.id)).toEqual(['run-1']);
+  });
+});
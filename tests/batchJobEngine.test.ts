@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BatchJobEngine,
+  createInProcessExecutor,
+  createJobWorkerHandler,
+  createMemoryResultStore,
+  createWorkerExecutor,
+  getBatchJobEngine
+} from '@/lib/jobs';
+import { BatchJob, createBatchJob, getBatchJobResults } from '@/lib/types/batchJob';
+import type { ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false, usePersistentCache: false };
+const names = ['Acme LLC', 'Mary Jones', 'City of Springfield', 'Bob Smith'];
+
+// Worker executor whose "worker" is the shared handler running on this thread
+const createLoopbackExecutor = () => createWorkerExecutor('loopback', onEvent => {
+  const handle = createJobWorkerHandler(onEvent);
+  return { post: message => void handle(message), terminate: () => undefined };
+});
+
+describe('batch job engine', () => {
+  it('moves jobs through the lifecycle with live request counts', async () => {
+    const engine = new BatchJobEngine({ executor: createInProcessExecutor(), store: createMemoryResultStore(), config: offlineConfig, chunkSize: 1 });
+    const updates: BatchJob[] = [];
+    engine.subscribe(job => updates.push(job));
+
+    const job = engine.submit({ names, engine: 'rule-only' });
+    expect(job.status).toBe('validating');
+    await engine.idle();
+
+    const statuses = updates.map(update => update.status).filter((status, index, all) => status !== all[index - 1]);
+    expect(statuses).toEqual(['validating', 'in_progress', 'finalizing', 'completed']);
+    expect(updates.filter(update => update.status === 'in_progress').map(update => update.request_counts.completed))
+      .toEqual([0, 1, 2, 3, 4]);
+    expect(engine.status(job.id)?.request_counts).toEqual({ total: 4, completed: 4, failed: 0 });
+
+    const results = await engine.results(job.id);
+    expect(results?.map(item => item.payeeName)).toEqual(names);
+    expect(results?.[0].result.classification).toBe('Business');
+  });
+
+  it('cancels a running job through the worker protocol', async () => {
+    const engine = new BatchJobEngine({ executor: createLoopbackExecutor(), store: createMemoryResultStore(), config: offlineConfig, chunkSize: 1 });
+    let jobId = '';
+    engine.subscribe(update => {
+      if (update.status === 'in_progress' && update.request_counts.completed === 1) engine.cancel(jobId);
+    });
+
+    jobId = engine.submit({ names: [...names, ...names], engine: 'rule-only' }).id;
+    await engine.idle();
+
+    const job = engine.status(jobId);
+    expect(job?.status).toBe('cancelled');
+    expect(job?.request_counts.completed).toBeLessThan(8);
+    expect(await engine.results(jobId)).toBeUndefined();
+  });
+
+  it('serves persisted jobs to a later engine and fails interrupted ones', async () => {
+    const store = createMemoryResultStore();
+    const first = new BatchJobEngine({ executor: createInProcessExecutor(), store, config: offlineConfig });
+    const { id } = first.submit({ names, engine: 'rule-only' });
+    await first.idle();
+
+    const second = new BatchJobEngine({ executor: createInProcessExecutor(), store, config: offlineConfig });
+    expect((await second.lookup(id))?.status).toBe('completed');
+    expect((await second.results(id))?.length).toBe(4);
+
+    await store.save({ job: { id: 'batch_local_interrupted', status: 'in_progress', created_at: 0, request_counts: { total: 4, completed: 1, failed: 0 } } });
+    const interrupted = await second.lookup('batch_local_interrupted');
+    expect(interrupted?.status).toBe('failed');
+    expect(interrupted?.errors?.[0].message).toContain('interrupted');
+  });
+
+  it('returns full classification results from the batch job API', async () => {
+    const job = await createBatchJob(names, { engine: 'rule-only', config: offlineConfig });
+    await expect(getBatchJobResults(job, names, [0, 1, 2, 3])).rejects.toThrow('results are only available');
+
+    await getBatchJobEngine().idle();
+    const results = await getBatchJobResults(job, names, [0, 1, 2, 3]);
+    expect(results.every(item => item.status === 'success')).toBe(true);
+    expect(results[0].status === 'success' && results[0].result.processingTier).toBeTruthy();
+  });
+
+  it('returns unclassified entries for blank names and counts them as completed', async () => {
+    const withBlank = ['Acme LLC', '[Empty]', 'Mary Jones'];
+    const job = await createBatchJob(withBlank, { engine: 'rule-only', config: offlineConfig });
+    await getBatchJobEngine().idle();
+
+    expect((await getBatchJobEngine().lookup(job.id))?.request_counts).toEqual({ total: 3, completed: 3, failed: 0 });
+    const results = await getBatchJobResults(job, withBlank, [0, 1, 2]);
+    expect(results.map(item => item.status)).toEqual(['success', 'unclassified', 'success']);
+    expect(results[1]).toEqual({ status: 'unclassified', reason: 'empty-name' });
+    expect(results[2].status === 'success' && results[2].result.classification).toBe('Individual');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { recalculateBatchRunResult, runBatchClassification, exportResultsWithOriginalDataV3 } from '@/lib/classification';
+import { detectInputFormat, extractPayeeColumn, parseTabularInput } from '@/lib/fileValidation';
+import type { BatchProcessingResult, ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false };
+
+describe('tabular input', () => {
+  it('detects formats from extensions and content', () => {
+    expect(detectInputFormat('vendors.XLSX')).toBe('xlsx');
+    expect(detectInputFormat(undefined, '{"payee":"Acme"}\n')).toBe('jsonl');
+    expect(detectInputFormat(undefined, 'Payee,Amount\nAcme,1')).toBe('csv');
+    expect(detectInputFormat(undefined, 'Acme LLC\nJohn Smith')).toBe('text');
+  });
+
+  it('keeps CSV cells as text and empty rows aligned', () => {
+    const rows = parseTabularInput('Vendor,Zip\nAcme LLC,02134\n,90210\n', 'csv');
+    expect(rows[0].Zip).toBe('02134');
+
+    const extracted = extractPayeeColumn(rows);
+    expect(extracted.payeeColumnName).toBe('Vendor');
+    expect(extracted.payeeNames).toEqual(['Acme LLC', '[Empty]']);
+  });
+
+  it('reports the available columns for an unknown column', () => {
+    const rows = parseTabularInput('{"vendor":"Acme"}\n{"vendor":"Bob Lee"}', 'jsonl');
+    expect(() => extractPayeeColumn(rows, 'payee')).toThrow('Available columns: vendor');
+  });
+});
+
+describe('runBatchClassification', () => {
+  it('classifies in chunks with global row indexes', async () => {
+    const names = ['Acme LLC', 'Mary Jones', 'City of Austin'];
+    const rows = names.map((name, index) => ({ Payee: name, Id: index }));
+    const chunks: Array<{ offset: number; chunk: BatchProcessingResult }> = [];
+    const progress: number[] = [];
+
+    const result = await runBatchClassification(names, {
+      engine: 'deterministic',
+      config: offlineConfig,
+      originalFileData: rows,
+      chunkSize: 2,
+      onProgress: completed => progress.push(completed),
+      onChunk: (chunk, offset) => { chunks.push({ chunk, offset }); }
+    });
+
+    expect(result.results.map(item => item.rowIndex)).toEqual([0, 1, 2]);
+    expect(result.results.map(item => item.originalData.Id)).toEqual([0, 1, 2]);
+    expect(result.enhancedStats?.totalProcessed).toBe(3);
+    expect(progress).toEqual([0, 2, 3]);
+    expect(chunks.map(({ offset }) => offset)).toEqual([0, 2]);
+
+    // Each chunk exports on its own with the original columns
+    const exported = exportResultsWithOriginalDataV3(chunks[1].chunk);
+    expect(exported[0]).toMatchObject({ Payee: 'City of Austin', Id: 2 });
+  });
+
+  it('runs the V3 batch processor and rejects unknown engines', async () => {
+    const result = await runBatchClassification(['Acme Corporation', 'John Smith'], {
+      engine: 'v3',
+      config: { ...offlineConfig, usePersistentCache: false }
+    });
+    expect(result.results).toHaveLength(2);
+    expect(result.failureCount).toBe(0);
+
+    await expect(runBatchClassification(['Acme'], { engine: 'v9' as never })).rejects.toThrow('Unknown classification engine');
+  });
+
+  it('explains rule-only results like the other engines', async () => {
+    const result = await runBatchClassification(['Acme LLC'], { engine: 'rule-only', config: offlineConfig });
+    const { explanation } = result.results[0].result;
+    expect(explanation).toMatchObject({ pipeline: 'Rule-only', stopReason: 'accepted', stoppedAt: 'rule-only' });
+    expect(explanation?.steps.map(step => `${step.stageId}:${step.outcome}`)).toEqual(['exclusion-profile:skipped', 'rule-only:accepted']);
+  });
+
+  it('recomputes counts and statistics after corrections', async () => {
+    const run = await runBatchClassification(['Acme LLC', 'Mary Jones'], { engine: 'deterministic', config: offlineConfig });
+    const corrected = run.results.map(item => item.payeeName === 'Mary Jones'
+      ? { ...item, result: { ...item.result, classification: 'Business' as const, confidence: 100 } }
+      : item);
+
+    const summary = recalculateBatchRunResult(run, corrected);
+    expect(summary.results).toBe(corrected);
+    expect(summary.enhancedStats?.businessCount).toBe(2);
+    expect(summary.enhancedStats?.individualCount).toBe(0);
+    expect(summary.enhancedStats?.processingTime).toBe(run.enhancedStats?.processingTime);
+    expect(summary.successCount).toBe(2);
+  });
+});
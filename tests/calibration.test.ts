@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  applyCalibration,
+  calibrateConfidence,
+  computeReliabilityDiagram,
+  fitCalibration,
+  fitIsotonicCurve,
+  setActiveCalibration,
+  CalibrationSample
+} from '@/lib/classification/calibration';
+import { ClassificationPipeline } from '@/lib/classification/pipeline';
+import type { ClassificationResult } from '@/lib/types';
+
+const samples = (confidence: number, correct: number, total: number, processingTier = 'Rule-Based'): CalibrationSample[] =>
+  Array.from({ length: total }, (_, index) => ({ confidence, correct: index < correct, processingTier }));
+
+const trainingSet = [...samples(55, 3, 10), ...samples(65, 6, 10), ...samples(95, 9, 10)];
+
+describe('confidence calibration', () => {
+  afterEach(() => setActiveCalibration(null));
+
+  it('fits a monotone isotonic curve', () => {
+    const curve = fitIsotonicCurve([...samples(60, 8, 10), ...samples(70, 5, 10), ...samples(90, 9, 10)]);
+    expect(curve.probabilities).toEqual([...curve.probabilities].sort((a, b) => a - b));
+    expect(curve.probabilities[curve.probabilities.length - 1]).toBeCloseTo(0.9);
+  });
+
+  it('maps raw scores to observed accuracy per tier', () => {
+    const model = fitCalibration(trainingSet, { minTierSamples: 10 });
+    expect(calibrateConfidence(model, 55, 'Rule-Based')).toBe(30);
+    expect(calibrateConfidence(model, 95, 'Rule-Based')).toBe(90);
+  });
+
+  it('produces increasing probabilities with Platt scaling', () => {
+    const model = fitCalibration(trainingSet, { method: 'platt' });
+    expect(calibrateConfidence(model, 55)).toBeLessThan(calibrateConfidence(model, 95));
+  });
+
+  it('keeps the raw score and leaves excluded results alone', () => {
+    const model = fitCalibration(trainingSet);
+    const result: ClassificationResult = { classification: 'Business', confidence: 55, reasoning: '', processingTier: 'Rule-Based' };
+    expect(applyCalibration(result, model)).toMatchObject({ confidence: 30, rawConfidence: 55 });
+
+    const excluded: ClassificationResult = { ...result, confidence: 95, processingTier: 'Excluded' };
+    expect(applyCalibration(excluded, model)).toBe(excluded);
+  });
+
+  it('is applied to pipeline results unless disabled', async () => {
+    setActiveCalibration(fitCalibration(trainingSet));
+    const pipeline = new ClassificationPipeline([{
+      id: 'fixed',
+      label: 'fixed',
+      cutoff: 0,
+      run: () => ({ classification: 'Business', confidence: 55, reasoning: 'fixed', processingTier: 'Rule-Based' })
+    }], {
+      name: 'Test',
+      emptyResult: () => ({ classification: 'Individual', confidence: 0, reasoning: 'empty', processingTier: 'Failed' })
+    });
+
+    expect((await pipeline.classify('Acme', { aiThreshold: 75, bypassRuleNLP: false })).confidence).toBe(30);
+    expect((await pipeline.classify('Acme', { aiThreshold: 75, bypassRuleNLP: false, useCalibration: false })).confidence).toBe(55);
+  });
+
+  it('computes reliability bins and expected calibration error', () => {
+    const diagram = computeReliabilityDiagram(trainingSet);
+    const bin = diagram.bins.find(b => b.lower === 50);
+    expect(bin).toMatchObject({ count: 10, accuracy: 0.3 });
+    expect(diagram.expectedCalibrationError).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ClassificationCache,
+  createFileCacheBackend,
+  createMemoryCacheBackend,
+  setClassificationCache
+} from '@/lib/classification/cache';
+import { enhancedProcessBatchV3 } from '@/lib/classification/enhancedBatchProcessorV3';
+import type { ClassificationResult } from '@/lib/types';
+
+const result = (classification: 'Business' | 'Individual' = 'Business'): ClassificationResult => ({
+  classification,
+  confidence: 90,
+  reasoning: 'test',
+  processingTier: 'Rule-Based'
+});
+
+function mockKeywordStorage(keywords: string[]) {
+  const storage = {
+    getItem: vi.fn(() => JSON.stringify(keywords)),
+    setItem: vi.fn(),
+    removeItem: vi.fn()
+  } as unknown as Storage;
+  Object.defineProperty(global, 'localStorage', { value: storage, configurable: true });
+}
+
+describe('ClassificationCache', () => {
+  afterEach(() => {
+    delete global.localStorage;
+    setClassificationCache(null);
+  });
+
+  it('keys by normalized name and classifier version and tracks hits and misses', async () => {
+    const cache = new ClassificationCache({ backend: createMemoryCacheBackend() });
+    await cache.ready();
+    cache.set('Acme, Inc.', 'v3', result());
+
+    expect(cache.get('  ACME,   INC. ', 'v3')?.classification).toBe('Business');
+    expect(cache.get('ACME, INC.', 'v4')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('does not share results between names that differ by a business suffix', async () => {
+    const cache = new ClassificationCache({ backend: createMemoryCacheBackend() });
+    await cache.ready();
+    cache.set('Smith LLC', 'v3', { ...result('Business'), confidence: 93 });
+
+    expect(cache.get('Smith', 'v3')).toBeNull();
+    expect(cache.get('smith llc', 'v3')?.confidence).toBe(93);
+  });
+
+  it('evicts the least recently used entries beyond the size limit', async () => {
+    const cache = new ClassificationCache({ backend: createMemoryCacheBackend(), maxEntries: 2 });
+    await cache.ready();
+    cache.set('Alpha', 'v3', result());
+    cache.set('Bravo', 'v3', result());
+    cache.set('Charlie', 'v3', result());
+    await cache.flush();
+
+    expect(cache.size).toBe(2);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('drops entries when the keyword list changes', async () => {
+    const backend = createMemoryCacheBackend();
+    mockKeywordStorage(['bank']);
+    const first = new ClassificationCache({ backend });
+    await first.ready();
+    first.set('Acme', 'v3', result());
+    await first.flush();
+
+    mockKeywordStorage(['bank', 'acme']);
+    const second = new ClassificationCache({ backend });
+    await second.ready();
+    expect(second.get('Acme', 'v3')).toBeNull();
+    expect(second.getStats().invalidations).toBe(1);
+  });
+
+  it('persists to a file backend', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'classification-cache-'));
+    try {
+      const file = join(dir, 'cache.json');
+      const writer = new ClassificationCache({ backend: createFileCacheBackend(file) });
+      await writer.ready();
+      writer.set('Jane Doe', 'v3', result('Individual'));
+      await writer.flush();
+
+      const reader = new ClassificationCache({ backend: createFileCacheBackend(file) });
+      await reader.ready();
+      expect(reader.get('Jane Doe', 'v3')?.classification).toBe('Individual');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports cache savings across V3 batches', async () => {
+    setClassificationCache(new ClassificationCache({ backend: createMemoryCacheBackend() }));
+    const config = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true };
+
+    const first = await enhancedProcessBatchV3(['Acme Corporation', 'Jane Doe'], config);
+    expect(first.enhancedStats?.cacheSavings).toBe(0);
+
+    const second = await enhancedProcessBatchV3(['Acme Corporation', 'Jane Doe'], config);
+    expect(second.enhancedStats?.cacheSavings).toBe(2);
+    expect(second.results.map(r => r.result.classification)).toEqual(first.results.map(r => r.result.classification));
+  });
+});
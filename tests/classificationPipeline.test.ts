@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ClassificationPipeline, PipelineStage } from '@/lib/classification/pipeline';
+import type { ClassificationConfig } from '@/lib/types';
+
+const stage = (id: string, classification: 'Business' | 'Individual', confidence: number, cutoff = 70): PipelineStage => ({
+  id,
+  label: id,
+  cutoff,
+  run: () => ({ classification, confidence, reasoning: id, processingTier: 'Rule-Based' })
+});
+
+const baseConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false };
+
+const createPipeline = () => new ClassificationPipeline(
+  [stage('low', 'Individual', 60), stage('high', 'Business', 90)],
+  {
+    name: 'Test',
+    emptyResult: () => ({ classification: 'Individual', confidence: 0, reasoning: 'empty', processingTier: 'Failed' })
+  }
+);
+
+describe('ClassificationPipeline', () => {
+  it('skips stages whose result is below the declared cutoff', async () => {
+    const result = await createPipeline().classify('Acme', baseConfig);
+    expect(result.reasoning).toBe('high');
+  });
+
+  it('applies cutoff overrides from the config', async () => {
+    const result = await createPipeline().classify('Acme', {
+      ...baseConfig,
+      pipeline: { cutoffs: { low: 50 } }
+    });
+    expect(result.reasoning).toBe('low');
+  });
+
+  it('honours stage order and disabled stages from the config', async () => {
+    const pipeline = createPipeline().register(stage('first', 'Individual', 95), 'low');
+
+    const reordered = await pipeline.classify('Acme', { ...baseConfig, pipeline: { stageOrder: ['high', 'first'] } });
+    expect(reordered.reasoning).toBe('high');
+
+    const disabled = await pipeline.classify('Acme', { ...baseConfig, pipeline: { disabledStages: ['first'] } });
+    expect(disabled.reasoning).toBe('high');
+  });
+
+  it('continues past optional stages that throw', async () => {
+    const failing: PipelineStage = { id: 'boom', label: 'boom', cutoff: 0, optional: true, run: () => { throw new Error('boom'); } };
+    const result = await createPipeline().register(failing, 'low').classify('Acme', baseConfig);
+    expect(result.reasoning).toBe('high');
+  });
+
+  it('returns the empty result for blank names', async () => {
+    const result = await createPipeline().classify('   ', baseConfig);
+    expect(result.processingTier).toBe('Failed');
+  });
+
+  it('explains every stage tried and why the run stopped', async () => {
+    const failing: PipelineStage = { id: 'boom', label: 'Boom', cutoff: 0, optional: true, run: () => { throw new Error('boom'); } };
+    const skipped: PipelineStage = { ...stage('off', 'Business', 99), isEnabled: () => false };
+    const pipeline = createPipeline().register(failing, 'low').register(skipped, 'low');
+    const { explanation } = await pipeline.classify('Acme Holdings LLC', { ...baseConfig, useCalibration: false });
+
+    expect(explanation?.steps.map(step => `${step.stageId}:${step.outcome}`)).toEqual([
+      'boom:error', 'off:skipped', 'low:below-cutoff', 'high:accepted'
+    ]);
+    expect(explanation?.steps[2]).toMatchObject({ classification: 'Individual', confidence: 60, cutoff: 70 });
+    expect(explanation).toMatchObject({ pipeline: 'Test', stopReason: 'accepted', stoppedAt: 'high' });
+    expect(explanation?.features.deterministic).toContain('has_business_suffix');
+    expect(explanation?.features.values.token_count).toBe(3);
+
+    const fallback = await new ClassificationPipeline([stage('low', 'Individual', 60)], { name: 'Test', emptyResult: () => ({
+      classification: 'Individual', confidence: 0, reasoning: 'empty', processingTier: 'Failed'
+    }) }).classify('Mary Jones', baseConfig);
+    expect(fallback.explanation?.stopReason).toBe('fallback');
+    expect((await createPipeline().classify('', baseConfig)).explanation?.stopReason).toBe('empty-input');
+  });
+});
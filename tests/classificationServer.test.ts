@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import { createClassificationServer } from '@/lib/server';
+import type { BatchJob } from '@/lib/types/batchJob';
+
+const server = createClassificationServer({
+  maxBodyBytes: 2048,
+  maxSyncBatchSize: 3,
+  config: { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false, usePersistentCache: false }
+});
+let baseUrl = '';
+
+const post = (path: string, body: unknown, contentType = 'application/json') =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+describe('classification API server', () => {
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await server.jobs.idle();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('classifies a single name with the requested engine', async () => {
+    const response = await post('/v1/classify', { name: 'Acme LLC', engine: 'deterministic' });
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.payeeName).toBe('Acme LLC');
+    expect(body.result.classification).toBe('Business');
+  });
+
+  it('validates bodies against the schemas and enforces limits', async () => {
+    const invalid = await post('/v1/classify', { name: '', extra: true });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe('VALIDATION_ERROR');
+
+    const tooMany = await post('/v1/classify/batch', { names: ['a', 'b', 'c', 'd'] });
+    expect(tooMany.status).toBe(400);
+
+    const tooLarge = await post('/v1/classify/batch', { names: ['x'.repeat(3000)] });
+    expect(tooLarge.status).toBe(413);
+
+    expect((await post('/v1/classify', 'name=Acme', 'text/plain')).status).toBe(415);
+    expect((await fetch(`${baseUrl}/v1/unknown`)).status).toBe(404);
+
+    const malformed = await fetch(`${baseUrl}/v1/batches/%E0%A4%A`);
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe('INVALID_PATH');
+  });
+
+  it('rejects blank and placeholder names instead of dropping them', async () => {
+    const placeholder = await post('/v1/classify', { name: '[Empty]' });
+    expect(placeholder.status).toBe(400);
+    expect((await placeholder.json()).error.details[0].path).toBe('name');
+
+    const batch = await post('/v1/classify/batch', { names: ['Acme LLC', '  '] });
+    expect(batch.status).toBe(400);
+    expect((await batch.json()).error.details[0].path).toBe('names.1');
+    expect((await post('/v1/batches', { names: ['[Empty]', 'Mary Jones'] })).status).toBe(400);
+  });
+
+  it('runs async jobs through the BatchJob lifecycle', async () => {
+    const created = await post('/v1/batches', { names: ['Acme LLC', 'Mary Jones'], engine: 'rule-only' });
+    expect(created.status).toBe(202);
+    const job: BatchJob = await created.json();
+    expect(job.status).toBe('validating');
+    expect(job.request_counts).toEqual({ total: 2, completed: 0, failed: 0 });
+
+    await server.jobs.idle();
+
+    const status: BatchJob = await (await fetch(`${baseUrl}/v1/batches/${job.id}`)).json();
+    expect(status.status).toBe('completed');
+    expect(status.request_counts.completed).toBe(2);
+
+    const results = await (await fetch(`${baseUrl}/v1/batches/${job.id}/results`)).json();
+    expect(results.results.map((item: { payeeName: string }) => item.payeeName)).toEqual(['Acme LLC', 'Mary Jones']);
+
+    const cancelled = await post(`/v1/batches/${job.id}/cancel`, {});
+    expect((await cancelled.json()).status).toBe('completed');
+  });
+
+  it('publishes an OpenAPI document with the configured limits', async () => {
+    const document = await (await fetch(`${baseUrl}/openapi.json`)).json();
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.components.schemas.BatchRequest.properties.names.maxItems).toBe(3);
+    expect(Object.keys(document.paths)).toContain('/v1/batches/{jobId}/results');
+  });
+});
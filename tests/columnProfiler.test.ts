@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPayeeColumn,
+  extractPayeeColumn,
+  looksLikeHeaderRow,
+  profileColumn,
+  rankPayeeColumns,
+  readTabularSample,
+  validateFileContents
+} from '@/lib/fileValidation';
+
+// Export from an accounting system where no header names the payee
+const ledger = [
+  { Ref: 'INV-1001', Posted: '2024-01-05', Counterparty: 'Acme Plumbing LLC', Total: '1,250.00', Status: 'Paid' },
+  { Ref: 'INV-1002', Posted: '2024-01-06', Counterparty: 'Mary Jones', Total: '80.00', Status: 'Paid' },
+  { Ref: 'INV-1003', Posted: '2024-01-09', Counterparty: 'City of Austin', Total: '415.10', Status: 'Open' },
+  { Ref: 'INV-1004', Posted: '2024-01-12', Counterparty: '', Total: '12.00', Status: 'Paid' }
+];
+
+describe('column profiler', () => {
+  it('profiles the shape of a column', () => {
+    expect(profileColumn(ledger, 'Total')).toMatchObject({ numericRatio: 1, nameLikeRatio: 0, headerHint: 'other' });
+    expect(profileColumn(ledger, 'Posted').dateRatio).toBe(1);
+    expect(profileColumn(ledger, 'Counterparty')).toMatchObject({ filledRatio: 0.75, distinctRatio: 1, nameLikeRatio: 1, headerHint: 'payee' });
+    expect(profileColumn(ledger, 'Status').distinctRatio).toBe(0.5);
+  });
+
+  it('ranks name columns first, with reasons', () => {
+    const ranked = rankPayeeColumns(ledger);
+    expect(ranked[0].column).toBe('Counterparty');
+    expect(ranked[0].reasons).toContain('header names a payee');
+    expect(ranked[0].reasons).toContain('100% of values look like names');
+    expect(ranked.find(candidate => candidate.column === 'Total')?.reasons).toContain('100% of values are numbers');
+    expect(ranked.slice(-2).map(candidate => candidate.column).sort()).toEqual(['Posted', 'Total']);
+  });
+
+  it('finds the payee column from values when no header names it', () => {
+    const rows = ledger.map(({ Counterparty, Ref, Total }) => ({ Ref, Total, Col3: Counterparty }));
+    expect(detectPayeeColumn(rows)).toBe('Col3');
+    expect(extractPayeeColumn(rows).payeeColumnName).toBe('Col3');
+    expect(detectPayeeColumn([{ A: '', B: '' }])).toBe('A');
+  });
+
+  it('detects header rows from labels and the values below them', () => {
+    expect(looksLikeHeaderRow(['Vendor Name', 'Amount'], [['Acme LLC', 10]])).toBe(true);
+    expect(looksLikeHeaderRow(['Beneficiary', 'Paid On'], [['Acme LLC', '2024-01-05']])).toBe(true);
+    expect(looksLikeHeaderRow(['Acme LLC', 'NY'], [['Mary Jones', 'TX']])).toBe(false);
+    expect(looksLikeHeaderRow(['Acme LLC', 125])).toBe(false);
+
+    const validated = validateFileContents([
+      { Payee: 'Payee', Amount: 'Amount' },
+      { Payee: 'Acme LLC', Amount: 10 },
+      { Payee: 'Mary Jones', Amount: 20 }
+    ]);
+    expect(validated.payeeNames).toEqual(['Acme LLC', 'Mary Jones']);
+    expect(validated.payeeColumnName).toBe('Payee');
+  });
+
+  it('keeps a first row whose name uses field-like words', () => {
+    expect(looksLikeHeaderRow(['First State Bank'])).toBe(false);
+    expect(looksLikeHeaderRow(['ABC Company'], [['John Smith']])).toBe(false);
+    expect(looksLikeHeaderRow(['City of Austin', 'Vendor'], [['Acme LLC', 'Vendor']])).toBe(false);
+
+    const validated = validateFileContents([
+      { Payee: 'City of Austin' },
+      { Payee: 'John Smith' },
+      { Payee: 'Acme LLC' }
+    ]);
+    expect(validated.payeeNames).toEqual(['City of Austin', 'John Smith', 'Acme LLC']);
+
+    // A single text column repeated as its own header is still removed
+    expect(validateFileContents([{ Payee: 'payee' }, { Payee: 'First State Bank' }]).payeeNames).toEqual(['First State Bank']);
+  });
+
+  it('samples the first rows of a large file', async () => {
+    const csv = `Id,Beneficiary\n${Array.from({ length: 50 }, (_, index) => `${index},Vendor ${index} Inc`).join('\n')}\n`;
+    const sample = await readTabularSample(new Blob([csv]), 'csv', 10);
+    expect(sample.headers).toEqual(['Id', 'Beneficiary']);
+    expect(sample.rows).toHaveLength(10);
+    expect(rankPayeeColumns(sample.rows)[0].column).toBe('Beneficiary');
+  });
+});
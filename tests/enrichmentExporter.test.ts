@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { createExportTemplate, enrichOriginalFile } from '@/lib/classification/exporters';
+import { runStreamingBatchClassification } from '@/lib/classification';
+import { payeeResult } from './helpers/payeeResults';
+
+const template = createExportTemplate('Codes', [
+  { field: 'classification', header: 'Type', format: 'code' },
+  { field: 'confidence', header: 'Score' }
+]);
+
+describe('write-back enrichment', () => {
+  it('appends result columns to each CSV record without touching the original text', () => {
+    const csv = 'Vendor,Amount,Amount\r\n"Acme, LLC",0010,1\r\n\r\nMary Jones,20\r\n"City\nof Austin",5,\r\n';
+    const file = enrichOriginalFile({ data: new TextEncoder().encode(csv), format: 'csv' }, {
+      results: [
+        payeeResult('Acme, LLC', 0),
+        payeeResult('Mary Jones', 1, { classification: 'Individual' }),
+        payeeResult('City of Austin', 2)
+      ]
+    }, { template });
+
+    expect(file.extension).toBe('csv');
+    expect(file.content).toBe(
+      'Vendor,Amount,Amount,Type,Score\r\n"Acme, LLC",0010,1,B,90\r\n\r\nMary Jones,20,,I,90\r\n"City\nof Austin",5,,B,90\r\n'
+    );
+  });
+
+  it('marks rows that were not classified Unclassified and rejects results from another file', () => {
+    const csv = 'Vendor\nAcme LLC\n\nMary Jones\n';
+    const skipped = enrichOriginalFile({ data: csv, format: 'csv' }, {
+      results: [payeeResult('Mary Jones', 0, { classification: 'Individual' }, { sourceRowIndex: 1 })]
+    }, { template });
+    expect(skipped.content).toBe('Vendor,Type,Score\nAcme LLC,Unclassified,0\n\nMary Jones,I,90\n');
+
+    expect(() => enrichOriginalFile({ data: csv, format: 'csv' }, {
+      results: [payeeResult('Other', 0, {}, { sourceRowIndex: 4 })]
+    })).toThrow('has 2 data rows');
+  });
+
+  it('keeps later rows in place after a blank payee row of a streamed run', async () => {
+    const csv = 'Vendor,Amount\nAcme LLC,10\n,15\nMary Jones,20\nBolt Inc,30\n';
+    async function* batches() {
+      yield [{ Vendor: 'Acme LLC', Amount: '10' }, { Vendor: '', Amount: '15' }, { Vendor: 'Mary Jones', Amount: '20' }, { Vendor: 'Bolt Inc', Amount: '30' }];
+    }
+    const run = await runStreamingBatchClassification(batches(), { column: 'Vendor', engine: 'rule-only' });
+    const codes = createExportTemplate('Codes', [{ field: 'classification', header: 'Type' }, { field: 'unclassifiedReason', header: 'Reason' }]);
+
+    const enriched = enrichOriginalFile({ data: csv, format: 'csv' }, run, { template: codes });
+    const types = (enriched.content as string).trim().split('\n').map(line => line.split(',').slice(2).join(','));
+    expect(types).toEqual(['Type,Reason', `${run.results[0].result.classification},`, 'Unclassified,empty-name',
+      `${run.results[1].result.classification},`, `${run.results[2].result.classification},`]);
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Vendor', 'Amount'], ['Acme LLC', 10], ['', 15], ['Mary Jones', 20], ['Bolt Inc', 30]]), 'Vendors');
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+    const sheet = XLSX.read(enrichOriginalFile({ data, format: 'xlsx' }, run, { template: codes }).content, { type: 'array' }).Sheets.Vendors;
+    expect(XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet).map(row => row.Reason ?? '')).toEqual(['', 'empty-name', '', '']);
+    expect(XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet)[3]).toMatchObject({ Vendor: 'Bolt Inc', Type: run.results[2].result.classification });
+  });
+
+  it('keeps a quote inside a bare CSV cell as text', () => {
+    const csv = 'Name,Amount\nAcme 5" Pipe,10\nJohn Smith,20\n"Bob ""B"" Jones",30';
+    const file = enrichOriginalFile({ data: csv, format: 'csv' }, {
+      results: [
+        payeeResult('Acme 5" Pipe', 0),
+        payeeResult('John Smith', 1, { classification: 'Individual' }),
+        payeeResult('Bob "B" Jones', 2, { classification: 'Individual' })
+      ]
+    }, { template });
+    expect(file.content).toBe('Name,Amount,Type,Score\nAcme 5" Pipe,10,B,90\nJohn Smith,20,I,90\n"Bob ""B"" Jones",30,I,90');
+  });
+
+  it('writes result columns into a copy of the workbook, keeping cells, formats and other sheets', () => {
+    const workbook = XLSX.utils.book_new();
+    const vendors = XLSX.utils.aoa_to_sheet([
+      ['Vendor', 'Amount', 'Amount'],
+      ['Acme LLC', 1250.5, 0],
+      [],
+      ['Mary Jones', 80, '']
+    ]);
+    vendors.B2.z = '#,##0.00';
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notes']]), 'Cover');
+    XLSX.utils.book_append_sheet(workbook, vendors, 'Vendors');
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    const file = enrichOriginalFile({ data, format: 'xlsx', sheetName: 'Vendors' }, {
+      results: [payeeResult('Acme LLC', 0), payeeResult('Mary Jones', 1, { classification: 'Individual' })]
+    }, { template });
+    const enriched = XLSX.read(file.content, { type: 'array', cellNF: true });
+
+    expect(enriched.SheetNames).toEqual(['Cover', 'Vendors']);
+    expect(XLSX.utils.sheet_to_json(enriched.Sheets.Cover, { header: 1 })).toEqual([['Notes']]);
+    const sheet = enriched.Sheets.Vendors;
+    expect(sheet['!ref']).toBe('A1:E4');
+    expect(XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null })).toEqual([
+      ['Vendor', 'Amount', 'Amount', 'Type', 'Score'],
+      ['Acme LLC', 1250.5, 0, 'B', 90],
+      [null, null, null, null, null],
+      ['Mary Jones', 80, '', 'I', 90]
+    ]);
+    expect(sheet.B2).toMatchObject({ t: 'n', v: 1250.5, z: '#,##0.00' });
+  });
+});
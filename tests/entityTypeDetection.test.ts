@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectEntityType } from '@/lib/classification/entityTypeDetection';
+import { getPipelinePreset } from '@/lib/classification/pipeline';
+
+describe('detectEntityType', () => {
+  it('detects government payees', () => {
+    expect(detectEntityType('Internal Revenue Service')?.classification).toBe('Government');
+    expect(detectEntityType('CITY OF AUSTIN')?.classification).toBe('Government');
+    expect(detectEntityType('Travis County Tax Collector')?.classification).toBe('Government');
+  });
+
+  it('detects trusts and estates', () => {
+    expect(detectEntityType('Estate of John Smith')?.classification).toBe('Trust/Estate');
+    expect(detectEntityType('Smith Family Trust')?.classification).toBe('Trust/Estate');
+  });
+
+  it('detects non-profits', () => {
+    expect(detectEntityType('American Red Cross Foundation')?.classification).toBe('Non-Profit');
+  });
+
+  it('leaves commercial and personal names alone', () => {
+    expect(detectEntityType('REAL ESTATE PARTNERS LLC')).toBeNull();
+    expect(detectEntityType('FOUNDATION REPAIR LLC')).toBeNull();
+    expect(detectEntityType('First National Trust Bank')).toBeNull();
+    expect(detectEntityType('John Smith')).toBeNull();
+  });
+
+  it('does not read government or trustee phrases inside company names', () => {
+    for (const name of ['U.S. Bank NA', 'United States Steel Corp', 'State of the Art Dental LLC', 'Office of Dr Smith']) {
+      expect(detectEntityType(name)?.classification).not.toBe('Government');
+    }
+    expect(detectEntityType('Law Office of John Smith')?.classification).not.toBe('Government');
+    expect(detectEntityType('State of Texas')?.classification).toBe('Government');
+    expect(detectEntityType('Office of the Attorney General')?.classification).toBe('Government');
+    expect(detectEntityType('Chase Bank Trustee Services')?.classification).not.toBe('Trust/Estate');
+    expect(detectEntityType('Mary Jones Trustee')?.classification).toBe('Trust/Estate');
+  });
+
+  it('reaches the result through the pipeline presets', async () => {
+    const result = await getPipelinePreset('v3').classify('Estate of Mary Jones', { aiThreshold: 75, bypassRuleNLP: false });
+    expect(result.classification).toBe('Trust/Estate');
+  });
+});
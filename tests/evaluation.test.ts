@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as classification from '@/lib/classification';
+import {
+  parseLabeledDataset,
+  computeEvaluationMetrics,
+  evaluateClassifier,
+  EvaluationPrediction
+} from '@/lib/classification/evaluation';
+import type { EntityClassification } from '@/lib/types';
+
+const prediction = (expected: EntityClassification, predicted: EntityClassification, tier = 'Rule-Based'): EvaluationPrediction => ({
+  payeeName: `${expected}-${predicted}`,
+  expected,
+  result: { classification: predicted, confidence: 80, reasoning: 'test', processingTier: tier as 'Rule-Based' },
+  correct: expected === predicted
+});
+
+describe('parseLabeledDataset', () => {
+  it('reads CSV with quoted names and label aliases', () => {
+    const dataset = parseLabeledDataset('payee,label\n"Smith, John",I\nAcme LLC,business\n');
+    expect(dataset).toEqual([
+      { payeeName: 'Smith, John', expected: 'Individual', rowNumber: 2 },
+      { payeeName: 'Acme LLC', expected: 'Business', rowNumber: 3 }
+    ]);
+  });
+
+  it('reads JSON records', () => {
+    const dataset = parseLabeledDataset('[{"name":"City of Austin","expected":"Government"}]');
+    expect(dataset[0].expected).toBe('Government');
+  });
+
+  it('reports the row of an unknown label', () => {
+    expect(() => parseLabeledDataset('name,label\nAcme,Vendor\n')).toThrow(/Row 2/);
+  });
+});
+
+describe('computeEvaluationMetrics', () => {
+  it('computes accuracy, per-class scores and the confusion matrix', () => {
+    const metrics = computeEvaluationMetrics([
+      prediction('Business', 'Business'),
+      prediction('Business', 'Individual', 'Excluded'),
+      prediction('Individual', 'Individual'),
+      prediction('Individual', 'Individual')
+    ]);
+
+    expect(metrics.accuracy).toBe(0.75);
+    expect(metrics.perClass.Business.precision).toBe(1);
+    expect(metrics.perClass.Business.recall).toBe(0.5);
+    expect(metrics.perClass.Individual.precision).toBeCloseTo(2 / 3);
+    expect(metrics.confusionMatrix.Business.Individual).toBe(1);
+    expect(metrics.tierBreakdown.Excluded).toEqual({ total: 1, correct: 0, accuracy: 0 });
+    expect(metrics.misclassified.map(m => m.payeeName)).toEqual(['Business-Individual']);
+  });
+});
+
+describe('evaluateClassifier', () => {
+  afterEach(() => classification.setActiveCalibration(null));
+
+  it('runs a pipeline preset over the dataset', async () => {
+    const report = await evaluateClassifier(
+      [{ payeeName: 'Estate of Mary Jones', expected: 'Trust/Estate' }],
+      { engine: 'v4' }
+    );
+    expect(report.engine).toBe('v4');
+    expect(report.accuracy).toBe(1);
+  });
+
+  it('applies a saved calibration loaded through the classification barrel', async () => {
+    // Mirrors `evaluate --calibration <file>`, which imports everything from the barrel
+    const { calibrateConfidence, fitCalibration, parseCalibrationModel, setActiveCalibration, EVALUATION_CONFIG } = classification;
+    const training = [55, 95].flatMap(confidence =>
+      Array.from({ length: 10 }, (_, index) => ({ confidence, correct: index < (confidence === 55 ? 3 : 9), processingTier: 'Rule-Based' })));
+    const model = parseCalibrationModel(JSON.stringify(fitCalibration(training)));
+    setActiveCalibration(model);
+
+    const report = await classification.evaluateClassifier(
+      [{ payeeName: 'Estate of Mary Jones', expected: 'Trust/Estate' }],
+      { engine: 'v4', config: { ...EVALUATION_CONFIG, useCalibration: true } }
+    );
+    const { result } = report.predictions[0];
+    expect(result.rawConfidence).toBeDefined();
+    expect(result.confidence).toBe(calibrateConfidence(model, result.rawConfidence!, result.processingTier));
+  });
+});
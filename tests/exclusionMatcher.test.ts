@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  compileExclusionMatcher,
+  createExclusionRule,
+  findExclusionMatch,
+  getExclusionMatcher
+} from '@/lib/classification/exclusion';
+import { BUNDLED_EXCLUSION_RULES } from '@/lib/classification/keywordExclusion';
+import { bulkKeywordExclusion } from '@/lib/classification/enhancedKeywordExclusion';
+import { EXCLUDED_KEYWORDS_STORAGE_KEY, getActiveExclusionProfile } from '@/lib/classification/exclusionProfileStore';
+
+const rules = [
+  createExclusionRule('Petty Cash', { matchMode: 'exact' }),
+  createExclusionRule('^acct\\s*#?\\d+$', { matchMode: 'regex' }),
+  createExclusionRule('INSUR', { matchMode: 'prefix' }),
+  createExclusionRule('BANK OF AMERICA'),
+  createExclusionRule('BANK'),
+  createExclusionRule('AT&T', { enabled: false }),
+  createExclusionRule('WELLS FARGO', { matchMode: 'fuzzy', fuzzyThreshold: 85 }),
+  createExclusionRule('PRUDENTIAL', { matchMode: 'fuzzy' })
+];
+
+const names = [
+  'Petty Cash', 'PETTY CASH FUND', 'Acct #4411', 'Acme Insurers Group', 'Reinsurance Partners',
+  'Bank of America NA', 'First Bank', 'Bankston Tools', 'AT&T Mobility', 'Wels Fargo Dealer Services',
+  'Prudental Financial', 'Matthew Smith', '', '   ', 'Crédit Bank Évian'
+];
+
+describe('compiled exclusion matcher', () => {
+  afterEach(() => {
+    delete (globalThis as { localStorage?: Storage }).localStorage;
+  });
+
+  it('returns the same match as checking every rule', () => {
+    const matcher = compileExclusionMatcher(rules);
+    for (const name of names) {
+      expect(matcher.match(name), name).toEqual(findExclusionMatch(name, rules));
+    }
+
+    const bundled = compileExclusionMatcher(BUNDLED_EXCLUSION_RULES);
+    for (const name of ['Wells Fargo Bank', 'ADP Payroll', 'GADPOLE SUPPLY', 'County of Cook', 'Mary Jones']) {
+      expect(bundled.match(name), name).toEqual(findExclusionMatch(name, BUNDLED_EXCLUSION_RULES));
+    }
+  });
+
+  it('prefers the earliest rule even when a later keyword matches first in the name', () => {
+    const ordered = [createExclusionRule('SERVICES'), createExclusionRule('ACME')];
+    expect(compileExclusionMatcher(ordered).match('Acme Services')?.rule.keyword).toBe('SERVICES');
+  });
+
+  it('compiles each rule list once', () => {
+    expect(getExclusionMatcher(rules)).toBe(getExclusionMatcher(rules));
+    expect(getExclusionMatcher([...rules])).not.toBe(getExclusionMatcher(rules));
+    expect(getExclusionMatcher(['ADP']).match('ADP Payroll')?.rule.matchMode).toBe('whole-word');
+  });
+
+  it('does not re-read stored rules during a bulk check', () => {
+    const storage = new Map<string, string>();
+    Object.defineProperty(global, 'localStorage', {
+      value: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+        clear: () => storage.clear()
+      },
+      configurable: true
+    });
+    storage.set(EXCLUDED_KEYWORDS_STORAGE_KEY, JSON.stringify(rules));
+    getActiveExclusionProfile();
+    const parse = vi.spyOn(JSON, 'parse');
+
+    const results = bulkKeywordExclusion(['First Bank', 'Mary Jones', 'First Bank']);
+    expect(results.size).toBe(2);
+    expect(results.get('First Bank')?.matchedRule?.keyword).toBe('BANK');
+    expect(results.get('Mary Jones')?.isExcluded).toBe(false);
+    expect(parse).not.toHaveBeenCalled();
+    parse.mockRestore();
+  });
+});
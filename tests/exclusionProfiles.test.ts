@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  cloneExclusionProfile,
+  createExclusionProfile,
+  createExclusionRule,
+  diffExclusionProfiles,
+  exclusionProfileToCsv,
+  exclusionProfileToJson,
+  parseExclusionProfile,
+  previewExclusionImpact,
+  stampExclusionProfile
+} from '@/lib/classification/exclusion';
+import {
+  EXCLUDED_KEYWORDS_STORAGE_KEY,
+  deleteExclusionProfile,
+  EXCLUSION_PREVIEW_SAMPLE_STORAGE_KEY,
+  getActiveExclusionProfile,
+  getExclusionPreviewSample,
+  getExclusionProfile,
+  importExclusionProfile,
+  listExclusionProfiles,
+  MAX_PREVIEW_SAMPLE_ROWS,
+  saveExclusionPreviewSample,
+  saveExclusionProfile,
+  setActiveExclusionProfile
+} from '@/lib/classification/exclusionProfileStore';
+import { checkKeywordExclusion, saveExclusionRules } from '@/lib/classification/enhancedKeywordExclusion';
+import { enhancedProcessBatchV3 } from '@/lib/classification/enhancedBatchProcessorV3';
+import { exportResultsWithOriginalDataV3 } from '@/lib/classification/exporters';
+import { getPipelinePreset, keywordExclusionStage } from '@/lib/classification/pipeline';
+import { CLASSIFICATION_ENGINES, runBatchClassification } from '@/lib/classification/batchRunner';
+import { ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 100, bypassRuleNLP: false, offlineMode: true, usePersistentCache: false };
+
+describe('exclusion profiles', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    Object.defineProperty(global, 'localStorage', {
+      value: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+        clear: () => storage.clear()
+      },
+      configurable: true
+    });
+  });
+
+  afterEach(() => {
+    delete (globalThis as { localStorage?: Storage }).localStorage;
+  });
+
+  it('seeds a default profile from the stored list and versions rule edits', () => {
+    storage.set(EXCLUDED_KEYWORDS_STORAGE_KEY, JSON.stringify(['Example']));
+    const defaultProfile = getActiveExclusionProfile();
+    expect(defaultProfile).toMatchObject({ name: 'Default', version: 1 });
+    expect(defaultProfile.rules.map(rule => rule.keyword)).toEqual(['Example']);
+
+    const client = saveExclusionProfile(cloneExclusionProfile(defaultProfile, 'Acme Client'));
+    expect(() => saveExclusionProfile(createExclusionProfile('acme client'))).toThrow('already exists');
+    setActiveExclusionProfile(client.id);
+    saveExclusionRules([...client.rules, createExclusionRule('Globex')]);
+
+    expect(getActiveExclusionProfile()).toMatchObject({ name: 'Acme Client', version: 2 });
+    expect(checkKeywordExclusion('Globex Corp').isExcluded).toBe(true);
+    expect(getExclusionProfile('Default')?.rules).toHaveLength(1);
+
+    deleteExclusionProfile(client.id);
+    expect(getActiveExclusionProfile().name).toBe('Default');
+    expect(() => deleteExclusionProfile(defaultProfile.id)).toThrow('cannot be deleted');
+  });
+
+  it('round-trips profiles through JSON and CSV', () => {
+    const profile = createExclusionProfile('Utilities', [
+      createExclusionRule('Edison', { category: 'utility' }),
+      createExclusionRule('POWER', { matchMode: 'prefix', enabled: false, notes: 'Too broad, see ticket' }),
+      createExclusionRule('WELLS FARGO', { matchMode: 'fuzzy', fuzzyThreshold: 85 })
+    ]);
+
+    const fromJson = parseExclusionProfile(exclusionProfileToJson({ ...profile, version: 4 }));
+    expect(fromJson).toMatchObject({ name: 'Utilities', version: 4, rules: profile.rules });
+
+    const fromCsv = parseExclusionProfile(exclusionProfileToCsv(profile), { format: 'csv', name: 'Utilities' });
+    expect(fromCsv.rules).toEqual(profile.rules);
+
+    const keywordList = parseExclusionProfile('ADP\nPaychex\n', { format: 'csv', name: 'Payroll' });
+    expect(keywordList.rules.map(rule => rule.keyword)).toEqual(['ADP', 'Paychex']);
+    expect(() => parseExclusionProfile('{"name": "Empty", "rules": []}')).toThrow('No valid exclusion rules');
+
+    const imported = importExclusionProfile(keywordList);
+    const again = importExclusionProfile(keywordList);
+    expect(again.name).toBe('Payroll (2)');
+    expect(listExclusionProfiles().map(item => item.id)).toContain(imported.id);
+  });
+
+  it('diffs two profiles by keyword and match mode', () => {
+    const before = createExclusionProfile('A', [
+      createExclusionRule('ADP'),
+      createExclusionRule('Edison'),
+      createExclusionRule('Chase', { category: 'bank' })
+    ]);
+    const after = createExclusionProfile('B', [
+      createExclusionRule('ADP'),
+      createExclusionRule('Chase', { category: 'bank', enabled: false }),
+      createExclusionRule('Edison', { matchMode: 'prefix' })
+    ]);
+
+    const diff = diffExclusionProfiles(before, after);
+    expect(diff.added.map(rule => `${rule.matchMode}:${rule.keyword}`)).toEqual(['prefix:Edison']);
+    expect(diff.removed.map(rule => `${rule.matchMode}:${rule.keyword}`)).toEqual(['whole-word:Edison']);
+    expect(diff.changed.map(change => change.after.enabled)).toEqual([false]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('applies the chosen profile in exclusion stages and records it in the export', async () => {
+    const profile = { ...createExclusionProfile('Client X', [createExclusionRule('Zorblat')]), version: 3 };
+    const config = { ...offlineConfig, exclusionProfile: profile };
+
+    const context = { payeeName: 'Zorblat Qux', config, attempts: [], state: {} };
+    expect(await keywordExclusionStage().run(context)).toMatchObject({ processingTier: 'Excluded' });
+    expect(await keywordExclusionStage().run({ ...context, config: offlineConfig })).toBeNull();
+    expect((await getPipelinePreset('v2').classify('Zorblat Qux', config)).processingTier).toBe('Excluded');
+
+    const result = await enhancedProcessBatchV3(['Zorblat Qux', 'Mary Jones'], config);
+    expect(result.results[0].exclusionProfile).toEqual({ id: profile.id, name: 'Client X', version: 3 });
+    expect(exportResultsWithOriginalDataV3(result)[1]).toMatchObject({ Exclusion_Profile: 'Client X', Exclusion_Profile_Version: 3 });
+
+    const bundled = await enhancedProcessBatchV3(['Mary Jones'], offlineConfig);
+    expect(bundled.results[0].exclusionProfile).toBeUndefined();
+  });
+
+  it.each(CLASSIFICATION_ENGINES)('checks the profile before any classifier with the %s engine', async engine => {
+    const profile = createExclusionProfile('Client Y', [createExclusionRule('SMITH')]);
+    const run = await runBatchClassification(['John Smith', 'Mary Jones'], { engine, config: { ...offlineConfig, exclusionProfile: profile } });
+
+    expect(run.results[0].result).toMatchObject({ processingTier: 'Excluded', keywordExclusion: { isExcluded: true } });
+    expect(run.results[1].result.processingTier).not.toBe('Excluded');
+    expect(run.results.map(item => item.exclusionProfile?.name)).toEqual(['Client Y', 'Client Y']);
+    expect(exportResultsWithOriginalDataV3(run)[0]).toMatchObject({ Keyword_Exclusion: 'Yes', Exclusion_Profile: 'Client Y' });
+
+    // A result whose trace does not show the profile stage, such as a manual override, is not stamped
+    const unchecked = { ...run.results[1], exclusionProfile: undefined, result: { ...run.results[1].result, explanation: undefined } };
+    expect(stampExclusionProfile([unchecked], profile)[0].exclusionProfile).toBeUndefined();
+  });
+
+  it('previews how a rule change affects the last batch', () => {
+    saveExclusionPreviewSample('Last processed batch', ['Acme Bank', 'Acme Bank', 'Globex Corp', 'Mary Jones', '']);
+    const { payeeNames } = getExclusionPreviewSample()!;
+
+    const current = [createExclusionRule('BANK')];
+    const proposed = [createExclusionRule('BANK', { enabled: false }), createExclusionRule('GLOBEX')];
+    const impact = previewExclusionImpact(payeeNames, current, proposed);
+
+    expect(impact).toMatchObject({
+      checkedRows: 4,
+      checkedNames: 3,
+      excludedRowsBefore: 2,
+      excludedRowsAfter: 1,
+      newlyExcludedRows: 1,
+      newlyIncludedRows: 2
+    });
+    expect(impact.newlyExcluded).toEqual([{ payeeName: 'Globex Corp', rowCount: 1, rule: proposed[1] }]);
+    expect(impact.newlyIncluded.map(example => example.payeeName)).toEqual(['Acme Bank']);
+    expect(previewExclusionImpact(payeeNames, current, current, 0).newlyExcluded).toEqual([]);
+
+    const large = Array.from({ length: MAX_PREVIEW_SAMPLE_ROWS + 10 }, (_, index) => `Payee ${index}`);
+    saveExclusionPreviewSample('Large batch', large);
+    expect(JSON.parse(storage.get(EXCLUSION_PREVIEW_SAMPLE_STORAGE_KEY) ?? '{}').payeeNames).toHaveLength(MAX_PREVIEW_SAMPLE_ROWS);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createExclusionRule,
+  findExclusionMatch,
+  inferExclusionCategory,
+  matchExclusionRule,
+  migrateExclusionRules
+} from '@/lib/classification/exclusion';
+import { checkKeywordExclusion } from '@/lib/classification/keywordExclusion';
+import { checkKeywordExclusion as checkEnhancedKeywordExclusion } from '@/lib/classification/enhancedKeywordExclusion';
+
+describe('exclusion rules', () => {
+  afterEach(() => {
+    delete (globalThis as { localStorage?: Storage }).localStorage;
+  });
+
+  it('matches whole words instead of raw substrings', () => {
+    expect(checkKeywordExclusion('GADPOLE SUPPLY', ['ADP']).isExcluded).toBe(false);
+    expect(checkKeywordExclusion('Matthew Smith', ['ATT']).isExcluded).toBe(false);
+    expect(checkKeywordExclusion('ADP Payroll Services', ['ADP']).isExcluded).toBe(true);
+    expect(checkKeywordExclusion('AT&T Mobility', ['AT & T']).isExcluded).toBe(true);
+    expect(checkKeywordExclusion('Matthew Smith').isExcluded).toBe(false);
+  });
+
+  it('supports prefix, exact, regex and fuzzy modes', () => {
+    const prefix = createExclusionRule('INSUR', { matchMode: 'prefix' });
+    expect(matchExclusionRule(prefix, 'Acme Insurers Group')?.matchedText).toBe('INSURERS');
+    expect(matchExclusionRule(prefix, 'Reinsurance Partners')).toBeNull();
+
+    const exact = createExclusionRule('Petty Cash', { matchMode: 'exact' });
+    expect(matchExclusionRule(exact, 'PETTY CASH')).not.toBeNull();
+    expect(matchExclusionRule(exact, 'Petty Cash Fund')).toBeNull();
+
+    const regex = createExclusionRule('^acct\\s*#?\\d+$', { matchMode: 'regex' });
+    expect(matchExclusionRule(regex, 'ACCT #12345')).not.toBeNull();
+
+    const fuzzy = createExclusionRule('WELLS FARGO', { matchMode: 'fuzzy', fuzzyThreshold: 85 });
+    const match = findExclusionMatch('Wels Fargo Dealer Services', [fuzzy]);
+    expect(match?.matchedText).toBe('WELS FARGO');
+    expect(match?.similarity).toBeLessThan(100);
+
+    expect(matchExclusionRule({ ...exact, enabled: false }, 'Petty Cash')).toBeNull();
+  });
+
+  it('migrates plain keyword lists to categorized rules', () => {
+    const rules = migrateExclusionRules(['Bank of America', 'AT&T', 'AT & T', 'County of Cook', '', { keyword: '(', matchMode: 'regex' }]);
+    expect(rules.map(rule => rule.keyword)).toEqual(['Bank of America', 'AT&T', 'County of Cook']);
+    expect(rules.every(rule => rule.matchMode === 'whole-word' && rule.enabled)).toBe(true);
+    expect(rules.map(rule => rule.category)).toEqual(['bank', 'utility', 'government']);
+    expect(inferExclusionCategory('Liberty Mutual')).toBe('insurer');
+  });
+
+  it('rewrites a stored legacy list and reports the matched rule', () => {
+    const setItem = vi.fn();
+    Object.defineProperty(global, 'localStorage', {
+      value: { getItem: vi.fn(() => JSON.stringify(['Example'])), setItem, removeItem: vi.fn(), clear: vi.fn() },
+      configurable: true
+    });
+
+    const result = checkEnhancedKeywordExclusion('Example Company');
+    expect(result.isExcluded).toBe(true);
+    expect(result.matchedRule?.matchMode).toBe('whole-word');
+    expect(JSON.parse(setItem.mock.calls[0][1])[0]).toMatchObject({ keyword: 'Example', matchMode: 'whole-word', enabled: true });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  buildResultsWorkbook,
+  createExportFile,
+  exportRowsToCsv,
+  exportRowsToJsonLines,
+  SUMMARY_SHEET_NAME,
+  summarizeBatchResult
+} from '@/lib/classification/exporters';
+import type { BatchProcessingResult } from '@/lib/types';
+import { payeeResult } from './helpers/payeeResults';
+
+const batch: BatchProcessingResult = {
+  results: [
+    payeeResult('Acme LLC', 0, { confidence: 95 }),
+    payeeResult('Mary Jones', 1, { classification: 'Individual', confidence: 70 })
+  ],
+  successCount: 2,
+  failureCount: 0,
+  processingTime: 120,
+  originalFileData: [{ Vendor: 'Acme LLC', Amount: 10 }, { Vendor: 'Mary Jones', Amount: 20 }]
+};
+
+describe('export file formats', () => {
+  it('adds a summary sheet to the workbook after the uploaded sheets', () => {
+    const multiSheet: BatchProcessingResult = {
+      ...batch,
+      results: batch.results.map(item => ({ ...item, sheetName: 'Vendors' })),
+      sourceSheets: [{ name: 'Summary', rows: [['Notes']] }, { name: 'Vendors' }]
+    };
+    const workbook = buildResultsWorkbook([{ Vendor: 'Acme LLC' }, { Vendor: 'Mary Jones' }], multiSheet, { includeSummary: true });
+    expect(workbook.SheetNames).toEqual(['Summary', 'Vendors', SUMMARY_SHEET_NAME]);
+
+    const summary = Object.fromEntries(summarizeBatchResult(batch));
+    expect(summary).toMatchObject({ 'Total payees': 2, Business: 1, Individual: 1, 'Average confidence %': 82.5, 'Tier: Rule-Based': 2 });
+
+    const file = createExportFile(batch, 'xlsx', { includeSummary: true });
+    const written = XLSX.read(file.content, { type: 'array' });
+    expect(written.SheetNames).toEqual(['Enhanced Classification Results', SUMMARY_SHEET_NAME]);
+    expect(XLSX.utils.sheet_to_json<Record<string, unknown>>(written.Sheets[SUMMARY_SHEET_NAME])[0]).toEqual({ Metric: 'Total payees', Value: 2 });
+  });
+
+  it('writes every row to the one classified sheet when it is named', () => {
+    const rows = [{ Vendor: 'Acme LLC' }, { Vendor: '' }, { Vendor: 'Mary Jones' }];
+    const oneSheet: BatchProcessingResult = { ...batch, sourceSheets: [{ name: 'Cover', rows: [['Notes']] }, { name: 'Vendors' }] };
+    const workbook = buildResultsWorkbook(rows, oneSheet, { includeSummary: true, resultsSheetName: 'Vendors' });
+    expect(workbook.SheetNames).toEqual(['Cover', 'Vendors', SUMMARY_SHEET_NAME]);
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets.Vendors, { defval: '' })).toEqual(rows);
+  });
+
+  it('writes CSV and JSON Lines from the export rows', () => {
+    expect(exportRowsToCsv([{ Name: 'Acme, LLC', Score: 1 }, { Name: 'Mary "M" Jones', Note: 'x' }]))
+      .toBe('Name,Score,Note\n"Acme, LLC",1,\n"Mary ""M"" Jones",,x\n');
+    expect(exportRowsToJsonLines([{ a: 1 }, { a: 2 }])).toBe('{"a":1}\n{"a":2}\n');
+
+    const jsonl = createExportFile(batch, 'jsonl', { template: { id: 't', name: 'Codes', columns: [{ field: 'classification', format: 'code' }] } });
+    expect(jsonl.extension).toBe('jsonl');
+    expect((jsonl.content as string).trim().split('\n').map(line => JSON.parse(line))).toEqual([
+      { Vendor: 'Acme LLC', Amount: 10, AI_Classification: 'B' },
+      { Vendor: 'Mary Jones', Amount: 20, AI_Classification: 'I' }
+    ]);
+  });
+
+  it('writes a Parquet file', () => {
+    const file = createExportFile(batch, 'parquet');
+    const bytes = new Uint8Array(file.content as ArrayBuffer);
+    const magic = (start: number) => String.fromCharCode(...bytes.slice(start, start + 4));
+    expect(magic(0)).toBe('PAR1');
+    expect(magic(bytes.length - 4)).toBe('PAR1');
+    expect(file.mimeType).toBe('application/vnd.apache.parquet');
+  });
+});
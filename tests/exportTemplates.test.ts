@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createExportTemplate,
+  exportResultsWithOriginalDataV3,
+  exportTemplateToJson,
+  parseExportTemplate,
+  resolveExportHeader
+} from '@/lib/classification/exporters';
+import {
+  deleteExportTemplate,
+  getExportTemplate,
+  importExportTemplate,
+  listExportTemplates,
+  saveExportTemplate
+} from '@/lib/classification/exportTemplateStore';
+
+const batch = {
+  results: [{
+    payeeName: 'Acme LLC',
+    result: {
+      classification: 'Business',
+      confidence: 87.5,
+      reasoning: 'business suffix',
+      processingTier: 'Rule-Based',
+      keywordExclusion: { isExcluded: true, matchedKeywords: ['bank'], confidence: 90, reasoning: 'matched bank' }
+    },
+    timestamp: new Date('2024-03-01T12:30:00Z'),
+    rowIndex: 0
+  }],
+  successCount: 1,
+  failureCount: 0,
+  originalFileData: [{ Vendor: 'Acme LLC', Amount: 10 }]
+};
+
+describe('export templates', () => {
+  it('keeps the standard columns when no template is given', () => {
+    expect(Object.keys(exportResultsWithOriginalDataV3(batch)[0])).toEqual([
+      'Vendor', 'Amount', 'AI_Classification', 'AI_Confidence_%', 'AI_Processing_Tier', 'AI_Reasoning',
+      'AI_Processing_Method', 'Keyword_Exclusion', 'Matched_Keywords', 'Keyword_Confidence_%', 'Keyword_Reasoning',
+      'Exclusion_Profile', 'Exclusion_Profile_Version', 'Matching_Rules', 'Similarity_Scores',
+      'Classification_Timestamp', 'Processing_Row_Index', 'Data_Alignment_Status'
+    ]);
+    expect(resolveExportHeader(['Vendor', 'Amount'])).toEqual(Object.keys(exportResultsWithOriginalDataV3(batch)[0]));
+    const prefixed = exportResultsWithOriginalDataV3(batch, false, false, { customPrefix: 'PC_' })[0];
+    expect(prefixed['PC_AI_Classification']).toBe('Business');
+    expect(prefixed['PC_Keyword_Exclusion']).toBe('Yes');
+  });
+
+  it('writes the chosen fields in order with renamed headers, formats and a prefix', () => {
+    const template = createExportTemplate('ERP import', [
+      { field: 'classification', header: 'Type', format: 'code' },
+      { field: 'confidence', header: 'Score', format: 'decimal' },
+      { field: 'keywordExclusion', header: 'Excluded', format: 'y-n' },
+      { field: 'timestamp', header: 'Classified On', format: 'date' }
+    ], { prefix: 'PC_' });
+
+    expect(exportResultsWithOriginalDataV3(batch, true, false, { template })).toEqual([
+      { Vendor: 'Acme LLC', Amount: 10, PC_Type: 'B', PC_Score: 0.875, PC_Excluded: 'Y', 'PC_Classified On': '2024-03-01' }
+    ]);
+    expect(exportResultsWithOriginalDataV3(batch, true, true, { template, customPrefix: '' })[0]).toMatchObject({
+      Type: 'B',
+      Explanation_JSON: ''
+    });
+
+    const resultsOnly = exportResultsWithOriginalDataV3(batch, true, false, { template: { ...template, includeOriginalColumns: false } });
+    expect(Object.keys(resultsOnly[0])).toEqual(['PC_Type', 'PC_Score', 'PC_Excluded', 'PC_Classified On']);
+
+    // The header known before any row is written matches the merged rows
+    expect(resolveExportHeader(['Vendor', 'Amount'], true, true, { template }))
+      .toEqual(Object.keys(exportResultsWithOriginalDataV3(batch, true, true, { template })[0]));
+    expect(resolveExportHeader(['Vendor', 'Amount'], true, false, { template: { ...template, includeOriginalColumns: false } }))
+      .toEqual(Object.keys(resultsOnly[0]));
+
+    const withoutOriginalData = exportResultsWithOriginalDataV3({ ...batch, originalFileData: undefined }, true, false, { template });
+    expect(withoutOriginalData[0]).toMatchObject({ Payee_Name: 'Acme LLC', PC_Type: 'B' });
+  });
+
+  it('rejects templates with unknown fields, unsupported formats or repeated headers', () => {
+    expect(() => parseExportTemplate('{"name":"x","columns":[{"field":"colour"}]}')).toThrow('Unknown export field "colour"');
+    expect(() => parseExportTemplate('{"name":"x","columns":[{"field":"reasoning","format":"code"}]}'))
+      .toThrow('Field "reasoning" does not support the "code" format');
+    expect(() => parseExportTemplate('{"name":"x","columns":[{"field":"classification"},{"field":"reasoning","header":"AI_Classification"}]}'))
+      .toThrow('Column "AI_Classification" appears more than once');
+    expect(() => parseExportTemplate('{"columns":[]}')).toThrow('needs a name');
+
+    const template = createExportTemplate('Round trip', [{ field: 'classification', format: 'code' }], { includeOriginalColumns: false });
+    expect(parseExportTemplate(exportTemplateToJson(template))).toMatchObject({
+      name: 'Round trip',
+      includeOriginalColumns: false,
+      columns: [{ field: 'classification', format: 'code' }]
+    });
+  });
+
+  it('saves, imports and deletes templates', () => {
+    const saved = saveExportTemplate(createExportTemplate('Codes', [{ field: 'classification', format: 'code' }]));
+    expect(getExportTemplate('codes')?.id).toBe(saved.id);
+    expect(() => saveExportTemplate(createExportTemplate('CODES', [{ field: 'reasoning' }]))).toThrow('already exists');
+
+    const imported = importExportTemplate(saved);
+    expect(imported.name).toBe('Codes (2)');
+    expect(imported.id).not.toBe(saved.id);
+
+    deleteExportTemplate(saved.id);
+    deleteExportTemplate(imported.id);
+    expect(listExportTemplates()).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignResultsWithRows,
+  describeAlignmentReport,
+  exportResultsWithOriginalDataV3,
+  summarizeBatchResult
+} from '@/lib/classification/exporters';
+import { exportResultsFixed } from '@/lib/classification/fixedExporter';
+import { CLASSIFICATION_ENGINES, runBatchClassification } from '@/lib/classification/batchRunner';
+import { extractPayeeColumn, parseTabularInput } from '@/lib/fileValidation';
+import type { BatchProcessingResult } from '@/lib/types';
+import { payeeResult } from './helpers/payeeResults';
+
+// Row 1 has no name, row 3 got no result; one result repeats row 2 and one points past the rows
+const batch: BatchProcessingResult = {
+  results: [payeeResult('Acme LLC', 0), payeeResult('Bolt Inc', 2), payeeResult('Bolt Inc again', 2), payeeResult('Stray Co', 9)],
+  successCount: 4,
+  failureCount: 0,
+  originalFileData: [{ Vendor: 'Acme LLC' }, { Vendor: '' }, { Vendor: 'Bolt Inc' }, { Vendor: 'Cole Ltd' }],
+  unclassifiedRows: [{ rowIndex: 1, reason: 'empty-name' }]
+};
+
+describe('export alignment', () => {
+  it('reports rows without a result and results that match no row', () => {
+    const { results, gaps, report } = alignResultsWithRows(batch);
+    expect([...results.keys()]).toEqual([0, 2]);
+    expect(results.get(2)?.payeeName).toBe('Bolt Inc');
+    expect([...gaps]).toEqual([[1, 'empty-name'], [3, 'missing-result']]);
+    expect(report).toMatchObject({
+      totalRows: 4,
+      classifiedRows: 2,
+      unclassifiedRows: 2,
+      issueCounts: { 'duplicate-result': 1, 'unmatched-result': 1, 'empty-name': 1, 'missing-result': 1 }
+    });
+    expect(describeAlignmentReport(report)).toBe(
+      '2 of 4 rows classified; 1 duplicate results, 1 results that match no row, 1 without a payee name, 1 without a result'
+    );
+    expect(Object.fromEntries(summarizeBatchResult(batch))).toMatchObject({ 'Unclassified rows': 2, 'Alignment: empty-name': 1 });
+  });
+
+  it('exports every row, with rows that have no result as Unclassified', () => {
+    const rows = exportResultsWithOriginalDataV3(batch);
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toMatchObject({ Vendor: 'Acme LLC', AI_Classification: 'Business', Data_Alignment_Status: 'Perfect 1:1 Match' });
+    expect(rows[1]).toMatchObject({
+      Vendor: '',
+      AI_Classification: 'Unclassified',
+      'AI_Confidence_%': 0,
+      AI_Processing_Tier: 'Unclassified',
+      Processing_Row_Index: 1,
+      Data_Alignment_Status: 'Unclassified: empty-name'
+    });
+    expect(rows[3].Data_Alignment_Status).toBe('Unclassified: missing-result');
+
+    const fixed = exportResultsFixed(batch);
+    expect(fixed.map(row => row.AI_Classification)).toEqual(['Business', 'Unclassified', 'Business', 'Unclassified']);
+    expect(fixed[3]).toMatchObject({ Row_Index: 3, Data_Alignment_Status: 'Unclassified: missing-result' });
+  });
+
+  it('fails on the first gap in strict mode', () => {
+    expect(() => exportResultsWithOriginalDataV3(batch, true, false, { strict: true })).toThrow('Index mismatch');
+    expect(() => exportResultsFixed({ ...batch, results: batch.results.slice(0, 2) }, true, false, { strict: true }))
+      .toThrow('Data alignment error');
+  });
+});
+
+describe('rows without a payee name', () => {
+  it.each(CLASSIFICATION_ENGINES)('are left unclassified by the %s engine', async engine => {
+    const { payeeNames, originalData } = extractPayeeColumn(parseTabularInput('Vendor Name,Amount\nJohn Smith,10\n,20\n', 'csv'));
+    expect(payeeNames).toEqual(['John Smith', '[Empty]']);
+
+    const run = await runBatchClassification(payeeNames, {
+      engine,
+      config: { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false, usePersistentCache: false },
+      originalFileData: originalData
+    });
+    expect(run.results.map(item => [item.payeeName, item.rowIndex])).toEqual([['John Smith', 0]]);
+    expect(run.unclassifiedRows).toEqual([{ rowIndex: 1, reason: 'empty-name' }]);
+
+    const rows = exportResultsWithOriginalDataV3(run);
+    expect(rows[1]).toMatchObject({ Amount: '20', AI_Classification: 'Unclassified', Data_Alignment_Status: 'Unclassified: empty-name' });
+  });
+});
@@ -35,3 +35,26 @@ describe('exportResultsWithOriginalDataV3 includeAllColumns option', () => {
     expect(row['AI_Classification']).toBe('Business');
   });
 });
+
+describe('exportResultsWithOriginalDataV3 includeExplanation option', () => {
+  const explanation = {
+    pipeline: 'v3',
+    steps: [],
+    features: { deterministic: ['has_business_suffix'], advanced: [], values: { token_count: 2 } },
+    stopReason: 'fallback',
+    summary: 'None of 0 stages reached its cutoff'
+  };
+  const batch = {
+    results: [{ ...baseResult, result: { ...baseResult.result, explanation } }],
+    successCount: 1,
+    failureCount: 0,
+    originalFileData: [{ Name: 'Acme LLC' }]
+  };
+
+  it('adds the explanation as JSON only when asked', () => {
+    expect(exportResultsWithOriginalDataV3(batch, true)[0]).not.toHaveProperty('Explanation_JSON');
+    const row = exportResultsWithOriginalDataV3(batch, true, true)[0];
+    expect(JSON.parse(row['Explanation_JSON'] as string)).toEqual(explanation);
+    expect(exportResultsWithOriginalDataV3({ ...batch, originalFileData: [] }, true, true)[0]['Explanation_JSON']).toBe(row['Explanation_JSON']);
+  });
+});
@@ -0,0 +1,19 @@
+import type { ClassificationResult, PayeeClassification } from '@/lib/types';
+
+/**
+ * A classified row for tests: a rule-based Business result at 90% unless the
+ * result fields say otherwise
+ */
+export const payeeResult = (
+  payeeName: string,
+  rowIndex: number | undefined,
+  result: Partial<ClassificationResult> = {},
+  extra: Partial<PayeeClassification> = {}
+): PayeeClassification => ({
+  id: `payee-${rowIndex}`,
+  payeeName,
+  result: { classification: 'Business', confidence: 90, reasoning: 'test', processingTier: 'Rule-Based', ...result },
+  timestamp: new Date('2024-03-01T12:30:00Z'),
+  rowIndex,
+  ...extra
+});
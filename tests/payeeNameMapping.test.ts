@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractMappedPayees,
+  formatNameTemplate,
+  missingMappingColumns,
+  templateColumns
+} from '@/lib/fileValidation';
+import { applyNameParts, runBatchClassification, runStreamingBatchClassification } from '@/lib/classification';
+import { parsePersonNameParts } from '@/lib/classification/probablepeople';
+import type { ClassificationConfig, PayeeClassification } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false };
+
+const rows = [
+  { Last: 'Jones', First: 'Mary', MI: 'A', Amount: 10 },
+  { Last: 'Smith', First: '', MI: '', Amount: 20 },
+  { Last: '', First: '', MI: '', Amount: 0 }
+];
+
+const classified = (payeeName: string, result: Partial<PayeeClassification['result']>): PayeeClassification => ({
+  id: 'payee-0',
+  payeeName,
+  result: { classification: 'Business', confidence: 70, reasoning: '', processingTier: 'Rule-Based', ...result },
+  timestamp: new Date()
+});
+
+describe('payee name mapping', () => {
+  it('fills templates and drops separators around empty parts', () => {
+    expect(templateColumns('{Last}, {First} {Last}')).toEqual(['Last', 'First']);
+    expect(formatNameTemplate('{Last}, {First}', rows[0])).toBe('Jones, Mary');
+    expect(formatNameTemplate('{Last}, {First}', rows[1])).toBe('Smith');
+    expect(formatNameTemplate('{First} {MI} {last}', rows[0])).toBe('Mary A Jones');
+    expect(missingMappingColumns({ mode: 'template', template: '{Last}, {Given}' }, ['Last', 'First'])).toEqual(['Given']);
+  });
+
+  it('keeps every row and the original columns', () => {
+    const template = extractMappedPayees(rows, { mode: 'template', template: '{Last}, {First}' });
+    expect(template.payeeNames).toEqual(['Jones, Mary', 'Smith', '[Empty]']);
+    expect(template.originalData).toBe(rows);
+    expect(template.payeeColumnName).toBe('{Last}, {First}');
+
+    const parts = extractMappedPayees(rows, { mode: 'parts', columns: { GivenName: 'First', MiddleName: 'MI', Surname: 'Last' } });
+    expect(parts.payeeNames).toEqual(['Mary A Jones', 'Smith', '[Empty]']);
+    expect(parts.nameParts?.[0]).toEqual({ GivenName: 'Mary', MiddleName: 'A', Surname: 'Jones' });
+    expect(parts.payeeColumnName).toBe('First + MI + Last');
+
+    expect(() => extractMappedPayees(rows, { mode: 'parts', columns: { Surname: 'Family' } }))
+      .toThrow('Column "Family" not found. Available columns: Last, First, MI, Amount');
+  });
+
+  it('treats name parts as a person unless the joined name reads as a business', () => {
+    expect(parsePersonNameParts({ GivenName: 'Mary', Surname: 'Jones' })).toEqual({ type: 'Person', confidence: 0.92 });
+    expect(parsePersonNameParts({ GivenName: 'Acme', Surname: 'Holdings LLC' })?.type).toBe('Corporation');
+    expect(parsePersonNameParts({})).toBeNull();
+
+    const [person, business, excluded] = applyNameParts([
+      classified('Jones Mary', {}),
+      classified('Acme Holdings LLC', {}),
+      classified('Bank Mary', { processingTier: 'Excluded' })
+    ], [
+      { GivenName: 'Mary', Surname: 'Jones' },
+      { GivenName: 'Acme', Surname: 'Holdings LLC' },
+      { GivenName: 'Mary', Surname: 'Bank' }
+    ]);
+    expect(person.result).toMatchObject({ classification: 'Individual', processingMethod: 'structured-name-parts' });
+    expect(person.result.explanation?.stoppedAt).toBe('name-parts');
+    expect(business.result.classification).toBe('Business');
+    expect(excluded.result.processingTier).toBe('Excluded');
+  });
+
+  it('passes name parts through batch and streaming runs', async () => {
+    const mapping = { mode: 'parts' as const, columns: { GivenName: 'First', Surname: 'Last' } };
+    const extracted = extractMappedPayees(rows.slice(0, 2), mapping);
+    await expect(runBatchClassification(extracted.payeeNames, { nameParts: [{}] })).rejects.toThrow('Data alignment error');
+
+    const result = await runBatchClassification(extracted.payeeNames, {
+      engine: 'deterministic',
+      config: offlineConfig,
+      originalFileData: extracted.originalData,
+      nameParts: extracted.nameParts
+    });
+    expect(result.results.map(item => item.result.classification)).toEqual(['Individual', 'Individual']);
+    expect(result.results[0].originalData).toEqual(rows[0]);
+
+    async function* batches() {
+      yield rows;
+    }
+    const streamed = await runStreamingBatchClassification(batches(), {
+      engine: 'deterministic',
+      config: offlineConfig,
+      nameMapping: mapping,
+      skipEmptyNames: true
+    });
+    expect(streamed.payeeColumnName).toBe('First + Last');
+    expect(streamed.results.map(item => item.payeeName)).toEqual(['Mary Jones', 'Smith']);
+    expect(streamed.rowCount).toBe(3);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  addReferenceResult,
+  clearReferenceIndex,
+  createReferenceMatchResult,
+  findNearestReference,
+  getReferenceIndexSize,
+  REFERENCE_MATCH_METHOD
+} from '@/lib/classification/referenceIndex';
+import { ClassificationPipeline, fuzzyMatchStage, getPipelinePreset } from '@/lib/classification/pipeline';
+import { clearCorrections, saveCorrection } from '@/lib/classification/review';
+import type { ClassificationConfig, ClassificationResult } from '@/lib/types';
+
+const result = (classification: ClassificationResult['classification'], confidence = 92, extra: Partial<ClassificationResult> = {}): ClassificationResult => ({
+  classification,
+  confidence,
+  reasoning: '',
+  processingTier: 'Rule-Based',
+  ...extra
+});
+
+const config: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, useFuzzyMatching: true };
+
+const fuzzyOnlyPipeline = () => new ClassificationPipeline([fuzzyMatchStage()], {
+  name: 'Fuzzy',
+  emptyResult: () => result('Individual', 0, { processingTier: 'Failed' }),
+  fallback: () => result('Business', 10, { reasoning: 'no match' })
+});
+
+describe('reference index', () => {
+  afterEach(() => {
+    clearReferenceIndex();
+    clearCorrections();
+  });
+
+  it('returns the neighbour label, name and similarity scores', async () => {
+    addReferenceResult('Jonathan Smithers', result('Individual', 90));
+
+    const classified = await fuzzyOnlyPipeline().classify('Jonathon Smithers', config);
+    expect(classified.classification).toBe('Individual');
+    expect(classified.reasoning).toContain('Jonathan Smithers');
+    expect(classified.matchingRules).toEqual(['Reference match: Jonathan Smithers']);
+    expect(classified.similarityScores?.combined).toBeGreaterThan(85);
+    expect(classified.similarityScores?.combined).toBeLessThan(100);
+    expect(classified.confidence).toBe(Math.round(90 * classified.similarityScores!.combined / 100));
+  });
+
+  it('prefers reviewer corrections over stored results', () => {
+    addReferenceResult('Acme Holdings', result('Business', 95));
+    saveCorrection('Acme Holdings', 'Trust/Estate');
+
+    const match = findNearestReference('ACME HOLDINGS');
+    expect(match?.entry.source).toBe('correction');
+    expect(createReferenceMatchResult(match!).classification).toBe('Trust/Estate');
+  });
+
+  it('only records confident, directly classified results', () => {
+    expect(addReferenceResult('Low Confidence Name', result('Business', 60))).toBe(false);
+    expect(addReferenceResult('Excluded Bank', result('Individual', 95, { processingTier: 'Excluded' }))).toBe(false);
+    expect(addReferenceResult('Borrowed Label', result('Business', 95, { processingMethod: 'Reference index match' }))).toBe(false);
+    expect(getReferenceIndexSize()).toBe(0);
+  });
+
+  it('falls through when no reference reaches the threshold', async () => {
+    addReferenceResult('Jonathan Smithers', result('Individual'));
+
+    const unrelated = await fuzzyOnlyPipeline().classify('Global Electric Supply', config);
+    expect(unrelated.reasoning).toBe('no match');
+
+    const strict = await fuzzyOnlyPipeline().classify('Jonathon Smithers', { ...config, similarityThreshold: 0.99 });
+    expect(strict.reasoning).toBe('no match');
+  });
+
+  it('labels look-alike names before the V3 classifiers run', async () => {
+    addReferenceResult('Blorbicon', result('Non-Profit', 95));
+
+    const classified = await getPipelinePreset('v3').classify('Blorbicom', { ...config, offlineMode: true });
+    expect(classified.classification).toBe('Non-Profit');
+    expect(classified.processingMethod).toBe(REFERENCE_MATCH_METHOD);
+
+    const withoutIndex = await getPipelinePreset('v3').classify('Blorbicom', { ...config, offlineMode: true, useFuzzyMatching: false });
+    expect(withoutIndex.processingMethod).not.toBe(REFERENCE_MATCH_METHOD);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  applyCorrectionToResults,
+  buildReviewQueue,
+  clearCorrections,
+  getManualOverride,
+  saveCorrection
+} from '@/lib/classification/review';
+import { enhancedProcessBatchV3 } from '@/lib/classification/enhancedBatchProcessorV3';
+import { batchClassifyV4 } from '@/lib/classification/enhancedClassificationV4';
+import type { ClassificationResult, PayeeClassification } from '@/lib/types';
+
+const item = (id: string, payeeName: string, result: Partial<ClassificationResult>): PayeeClassification => ({
+  id,
+  payeeName,
+  result: { classification: 'Business', confidence: 90, reasoning: '', processingTier: 'Rule-Based', ...result },
+  timestamp: new Date()
+});
+
+describe('corrections store', () => {
+  afterEach(() => clearCorrections());
+
+  it('keys corrections by normalized payee name', () => {
+    saveCorrection('Acme Inc.', 'Individual', {
+      note: 'Sole proprietor',
+      original: { classification: 'Business', confidence: 80, reasoning: '', processingTier: 'Rule-Based' }
+    });
+
+    const override = getManualOverride('ACME');
+    expect(override).toMatchObject({ classification: 'Individual', processingTier: 'Manual-Override', confidence: 100 });
+    expect(override?.reasoning).toContain('Sole proprietor');
+  });
+
+  it('is consulted by batch processors before any tier runs', async () => {
+    saveCorrection('Microsoft Corporation', 'Government');
+
+    const v3 = await enhancedProcessBatchV3(['Microsoft Corporation', 'John Smith'], { aiThreshold: 75, bypassRuleNLP: false });
+    expect(v3.results[0].result.processingTier).toBe('Manual-Override');
+    expect(v3.results[0].result.classification).toBe('Government');
+    expect(v3.results[1].result.processingTier).not.toBe('Manual-Override');
+
+    const [v4] = await batchClassifyV4(['MICROSOFT CORP']);
+    expect(v4.processingTier).toBe('Manual-Override');
+  });
+});
+
+describe('buildReviewQueue', () => {
+  afterEach(() => clearCorrections());
+
+  it('queues low-confidence and conflicting results, lowest confidence first', () => {
+    const results = [
+      item('1', 'Jordan Lee', { classification: 'Individual', confidence: 55 }),
+      item('2', 'Acme LLC', { confidence: 95 }),
+      item('3', 'ACME', { classification: 'Individual', confidence: 80 }),
+      item('4', 'Globex', { confidence: 92 })
+    ];
+
+    const queue = buildReviewQueue(results);
+    expect(queue.map(entry => entry.result.id)).toEqual(['1', '3', '2']);
+    expect(queue[0].reasons).toEqual(['low-confidence']);
+    expect(queue[1].reasons).toEqual(['conflicting']);
+    expect(queue[1].conflictingClassifications).toEqual(['Business']);
+  });
+
+  it('drops reviewed names and applies the correction to matching rows', () => {
+    const results = [item('1', 'Acme LLC', { confidence: 50 }), item('2', 'Acme, Inc', { confidence: 60 })];
+    const correction = saveCorrection('Acme LLC', 'Business');
+
+    expect(buildReviewQueue(results)).toHaveLength(0);
+    const corrected = applyCorrectionToResults(results, correction);
+    expect(corrected.every(entry => entry.result.processingTier === 'Manual-Override')).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  createCsvRowParser,
+  parseTabularInput,
+  peekTextSample,
+  readTabularHeaders,
+  streamTabularRows,
+  TabularRow
+} from '@/lib/fileValidation';
+import { BatchRunCancelledError, runStreamingBatchClassification } from '@/lib/classification';
+import type { ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false };
+const encoder = new TextEncoder();
+
+// Bytes in pieces of the given size, as a file read stream delivers them
+async function* inPieces(content: string | Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  const bytes = typeof content === 'string' ? encoder.encode(content) : content;
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+async function collect(batches: AsyncIterable<TabularRow[]>): Promise<TabularRow[][]> {
+  const result: TabularRow[][] = [];
+  for await (const batch of batches) result.push(batch);
+  return result;
+}
+
+describe('streaming input', () => {
+  const csv = '﻿Vendor,Note,Vendor\r\n"Acme, LLC","said ""hi""\nthere",02134\r\n\r\nMary Jones,,x\n';
+
+  it('parses CSV split at every position the same as the whole file', () => {
+    for (let split = 0; split <= csv.length; split++) {
+      const parser = createCsvRowParser();
+      const rows = [...parser.push(csv.slice(0, split)), ...parser.push(csv.slice(split)), ...parser.end()];
+      expect(rows[1]).toEqual(['Acme, LLC', 'said "hi"\nthere', '02134']);
+      expect(rows[3]).toEqual(['Mary Jones', '', 'x']);
+    }
+  });
+
+  it('streams CSV rows in batches matching parseTabularInput', async () => {
+    const headers: string[][] = [];
+    const batches = await collect(streamTabularRows(inPieces(csv, 3), 'csv', { batchSize: 1, onHeaders: found => headers.push(found) }));
+
+    expect(headers).toEqual([['Vendor', 'Note', 'Vendor_1']]);
+    expect(batches).toHaveLength(2);
+    expect(batches.flat()).toEqual(parseTabularInput(csv.slice(1), 'csv'));
+  });
+
+  it('reads workbooks, JSON Lines and text from a Blob', async () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['Payee', 'Amount'], ['Acme LLC', 10], [], ['Bob Lee', 20]]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+    const bytes = new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+
+    const batches = await collect(streamTabularRows(new Blob([bytes]), 'xlsx', { batchSize: 2 }));
+    expect(batches.flat()).toEqual([{ Payee: 'Acme LLC', Amount: 10 }, { Payee: 'Bob Lee', Amount: 20 }]);
+    expect(await readTabularHeaders(new Blob([bytes]), 'xlsx')).toEqual(['Payee', 'Amount']);
+
+    const jsonl = await collect(streamTabularRows(inPieces('{"vendor":"Acme"}\n\n"Bob Lee"\n', 4), 'jsonl'));
+    expect(jsonl.flat()).toEqual([{ vendor: 'Acme' }, { Payee_Name: 'Bob Lee' }]);
+    await expect(collect(streamTabularRows(inPieces('{"a":1}\n{oops\n', 5), 'jsonl'))).rejects.toThrow('line 2');
+
+    const text = await collect(streamTabularRows(new Blob(['Acme LLC\r\n Bob Lee ']), 'text', { chunkBytes: 5 }));
+    expect(text.flat()).toEqual([{ Payee_Name: 'Acme LLC' }, { Payee_Name: 'Bob Lee' }]);
+  });
+
+  it('reads only the start of a file for its headers', async () => {
+    let bytesRead = 0;
+    const rows = Array.from({ length: 1000 }, (_, index) => `Name ${index},${index}`).join('\n');
+    const source = inPieces(`Payee,Id\n${rows}`, 64);
+    const counting = (async function* () {
+      for await (const piece of source) {
+        bytesRead += piece.length;
+        yield piece;
+      }
+    })();
+
+    expect(await readTabularHeaders(counting, 'csv')).toEqual(['Payee', 'Id']);
+    expect(bytesRead).toBeLessThan(200);
+  });
+
+  it('peeks at a stream without losing its start', async () => {
+    const { sample, source } = await peekTextSample(inPieces('Payee,Id\nAcme,1\n', 4), 3);
+    expect(sample).toBe('Pay');
+    expect((await collect(streamTabularRows(source, 'csv'))).flat()).toEqual([{ Payee: 'Acme', Id: '1' }]);
+  });
+});
+
+describe('runStreamingBatchClassification', () => {
+  const input = 'Id,Vendor\n1,Acme LLC\n2,\n3,Mary Jones\n4,City of Austin\n';
+
+  it('classifies batches as they are read with global row indexes', async () => {
+    const offsets: number[] = [];
+    const progress: number[] = [];
+    const result = await runStreamingBatchClassification(streamTabularRows(inPieces(input, 7), 'csv', { batchSize: 2 }), {
+      engine: 'deterministic',
+      config: offlineConfig,
+      skipEmptyNames: true,
+      onProgress: completed => progress.push(completed),
+      onChunk: (_chunk, offset) => { offsets.push(offset); }
+    });
+
+    expect(result.payeeColumnName).toBe('Vendor');
+    expect(result.rowCount).toBe(4);
+    expect(result.results.map(item => item.payeeName)).toEqual(['Acme LLC', 'Mary Jones', 'City of Austin']);
+    expect(result.results.map(item => item.rowIndex)).toEqual([0, 1, 2]);
+    expect(result.results[2].originalData).toEqual({ Id: '4', Vendor: 'City of Austin' });
+    expect(result.enhancedStats?.totalProcessed).toBe(3);
+    expect(offsets).toEqual([0, 1]);
+    expect(progress).toEqual([1, 3]);
+  });
+
+  it('keeps only counts when asked and reports cancellation', async () => {
+    const counted = await runStreamingBatchClassification(streamTabularRows(inPieces(input, 7), 'csv', { batchSize: 2 }), {
+      engine: 'deterministic',
+      config: offlineConfig,
+      column: 'vendor',
+      keepResults: false
+    });
+    expect(counted.results).toEqual([]);
+    expect(counted.successCount + counted.failureCount).toBe(4);
+
+    const controller = new AbortController();
+    const run = runStreamingBatchClassification(streamTabularRows(inPieces(input, 7), 'csv', { batchSize: 1 }), {
+      engine: 'deterministic',
+      config: offlineConfig,
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    });
+    const error = await run.catch(caught => caught);
+    expect(error).toBeInstanceOf(BatchRunCancelledError);
+    expect(error.completed).toBe(1);
+  });
+});
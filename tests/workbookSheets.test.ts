@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  captureSourceSheets,
+  describeWorkbookSheets,
+  extractSheetPayees,
+  findPayeeSheet,
+  parseTabularInput,
+  readSheetHeaders,
+  readWorkbook,
+  streamTabularRows,
+  validateWorkbookSheets
+} from '@/lib/fileValidation';
+import { buildResultsWorkbook, runBatchClassification } from '@/lib/classification';
+import type { ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false };
+
+// A vendor master with the payee list on later tabs
+function vendorMaster(): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notes'], ['Exported 2024-01-01']]), 'Cover');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['Vendor', 'Amount', 'Amount'],
+    ['Acme LLC', 10, 1],
+    ['Mary Jones', 20, 2]
+  ]), 'Vendors');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Id', 'Supplier Name'], [1, 'City of Austin']]), 'Suppliers');
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
+
+describe('workbook sheets', () => {
+  it('lists sheets with row counts and finds the payee sheet', () => {
+    const workbook = readWorkbook(vendorMaster());
+    expect(describeWorkbookSheets(workbook)).toEqual([
+      { name: 'Cover', rowCount: 1, columnCount: 1 },
+      { name: 'Vendors', rowCount: 2, columnCount: 3 },
+      { name: 'Suppliers', rowCount: 1, columnCount: 2 }
+    ]);
+    expect(findPayeeSheet(workbook)).toBe('Vendors');
+    expect(readSheetHeaders(workbook.Sheets.Vendors)).toEqual(['Vendor', 'Amount', 'Amount_1']);
+
+    const validation = validateWorkbookSheets({ isValid: true, fileInfo: { name: 'vendors.xlsx', size: 1, type: '' } }, workbook);
+    expect(validation.fileInfo?.sheets?.map(sheet => sheet.rowCount)).toEqual([1, 2, 1]);
+    expect(validateWorkbookSheets({ isValid: true }, XLSX.utils.book_new()).isValid).toBe(false);
+  });
+
+  it('reads a named sheet and reports unknown ones', async () => {
+    const bytes = vendorMaster();
+    expect(parseTabularInput(bytes, 'xlsx', 'Suppliers')).toEqual([{ Id: 1, 'Supplier Name': 'City of Austin' }]);
+    expect(() => parseTabularInput(bytes, 'xlsx', 'Payees')).toThrow('Available sheets: Cover, Vendors, Suppliers');
+
+    const batches: unknown[] = [];
+    for await (const batch of streamTabularRows(new Blob([bytes]), 'xlsx', { sheetName: 'Vendors' })) batches.push(...batch);
+    expect(batches).toEqual([{ Vendor: 'Acme LLC', Amount: 10, Amount_1: 1 }, { Vendor: 'Mary Jones', Amount: 20, Amount_1: 2 }]);
+  });
+
+  it('writes results from several sheets back into the same workbook structure', async () => {
+    const workbook = readWorkbook(vendorMaster());
+    const sheets = extractSheetPayees(workbook, ['Vendors', 'Suppliers'], 'Vendor');
+    expect(sheets.map(sheet => sheet.payeeColumnName)).toEqual(['Vendor', 'Supplier Name']);
+
+    const rows = sheets.flatMap(sheet => sheet.originalData.map((row, index) => ({ row, name: sheet.payeeNames[index], sheetName: sheet.sheetName })));
+    const result = await runBatchClassification(rows.map(item => item.name), {
+      engine: 'deterministic',
+      config: offlineConfig,
+      originalFileData: rows.map(item => item.row)
+    });
+    const batchResult = {
+      ...result,
+      results: result.results.map((item, index) => ({ ...item, sheetName: rows[index].sheetName })),
+      sourceSheets: captureSourceSheets(workbook, ['Vendors', 'Suppliers'])
+    };
+    const exportRows = batchResult.results.map(item => ({ ...item.originalData, AI_Classification: item.result.classification }));
+
+    const exported = buildResultsWorkbook(exportRows, batchResult);
+    expect(exported.SheetNames).toEqual(['Cover', 'Vendors', 'Suppliers']);
+    expect(XLSX.utils.sheet_to_json(exported.Sheets.Cover)).toEqual([{ Notes: 'Exported 2024-01-01' }]);
+    const vendors = XLSX.utils.sheet_to_json<Record<string, unknown>>(exported.Sheets.Vendors);
+    expect(vendors.map(row => row.Vendor)).toEqual(['Acme LLC', 'Mary Jones']);
+    expect(vendors[0]).toHaveProperty('AI_Classification');
+    expect(XLSX.utils.sheet_to_json<Record<string, unknown>>(exported.Sheets.Suppliers)[0]['Supplier Name']).toBe('City of Austin');
+
+    expect(buildResultsWorkbook(exportRows, result).SheetNames).toEqual(['Enhanced Classification Results']);
+  });
+});
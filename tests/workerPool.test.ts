@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { classifyInWorkerPool, createJobWorkerHandler, decodePayeeNames, JobWorkerRequest, WorkerConnector } from '@/lib/jobs';
+import { BatchRunCancelledError } from '@/lib/classification/batchRunner';
+import type { ClassificationConfig } from '@/lib/types';
+
+const offlineConfig: ClassificationConfig = { aiThreshold: 75, bypassRuleNLP: false, offlineMode: true, useFuzzyMatching: false, usePersistentCache: false };
+const baseNames = ['Acme LLC', 'Mary Jones', 'City of Springfield', 'Bob Smith'];
+const names = Array.from({ length: 120 }, (_, index) => `${baseNames[index % 4]} ${index}`);
+
+// Workers whose handler runs on this thread, recording what each was sent
+function createLoopback(options: { crashFirst?: boolean } = {}) {
+  const started: Array<{ message: JobWorkerRequest; transfer?: Transferable[] }> = [];
+  let connections = 0;
+  const connect: WorkerConnector = (onEvent, onError) => {
+    const index = connections++;
+    const handle = createJobWorkerHandler(onEvent);
+    return {
+      post: (message, transfer) => {
+        if (message.type === 'start') started.push({ message, transfer });
+        if (options.crashFirst && index === 0) {
+          setTimeout(() => onError(new Error('worker crashed')), 0);
+          return;
+        }
+        setTimeout(() => void handle(message), 0);
+      },
+      terminate: () => undefined
+    };
+  };
+  return { connect, started };
+}
+
+describe('worker pool batch classification', () => {
+  it('splits names across workers and merges results in input order', async () => {
+    const { connect, started } = createLoopback();
+    const rows = names.map(name => ({ Vendor: name }));
+    const progress: number[] = [];
+
+    const result = await classifyInWorkerPool(names, {
+      engine: 'rule-only',
+      config: offlineConfig,
+      originalFileData: rows,
+      poolSize: 3,
+      chunkSize: 10,
+      connect,
+      onProgress: completed => progress.push(completed)
+    });
+
+    expect(started).toHaveLength(3);
+    const first = started[0];
+    expect(first.message.type === 'start' && first.message.request.payeeNames).toEqual([]);
+    expect(first.transfer?.[0]).toBeInstanceOf(ArrayBuffer);
+    expect(first.message.type === 'start' && decodePayeeNames(first.message.encodedNames!)).toEqual(names.slice(0, 40));
+    expect(first.message.type === 'start' && first.message.environment?.corrections).toEqual([]);
+
+    expect(result.results.map(item => item.payeeName)).toEqual(names);
+    expect(result.results.map(item => item.rowIndex)).toEqual(names.map((_, index) => index));
+    expect(result.results[119].originalData).toBe(rows[119]);
+    expect(result.enhancedStats?.totalProcessed).toBe(120);
+    expect(progress[progress.length - 1]).toBe(120);
+  });
+
+  it('falls back to this thread without workers or when a worker crashes', async () => {
+    const withoutWorkers = await classifyInWorkerPool(names.slice(0, 8), { engine: 'rule-only', config: offlineConfig, connect: null });
+    expect(withoutWorkers.results).toHaveLength(8);
+
+    const { connect } = createLoopback({ crashFirst: true });
+    const crashed = await classifyInWorkerPool(names, { engine: 'rule-only', config: offlineConfig, poolSize: 2, connect });
+    expect(crashed.results.map(item => item.payeeName)).toEqual(names);
+
+    const failing: WorkerConnector = () => { throw new Error('no workers'); };
+    const unavailable = await classifyInWorkerPool(names.slice(0, 60), { engine: 'rule-only', config: offlineConfig, connect: failing });
+    expect(unavailable.results).toHaveLength(60);
+  });
+
+  it('cancels every worker when the signal is aborted', async () => {
+    const { connect } = createLoopback();
+    const controller = new AbortController();
+    const run = classifyInWorkerPool(names, {
+      engine: 'rule-only',
+      config: offlineConfig,
+      poolSize: 2,
+      chunkSize: 5,
+      connect,
+      signal: controller.signal,
+      onProgress: completed => completed > 0 && controller.abort()
+    });
+
+    const error = await run.catch(caught => caught);
+    expect(error).toBeInstanceOf(BatchRunCancelledError);
+    expect(error.completed).toBeLessThan(names.length);
+  });
+});